@@ -9,21 +9,29 @@
  */
 
 import type * as agent_failover from "../agent/failover.js";
+import type * as agent_injectionClassifier from "../agent/injectionClassifier.js";
 import type * as agent_queries from "../agent/queries.js";
 import type * as agent_runtime from "../agent/runtime.js";
 import type * as agent_security from "../agent/security.js";
 import type * as agent_securityUtils from "../agent/securityUtils.js";
+import type * as agent_toolBindings from "../agent/toolBindings.js";
+import type * as agent_tools from "../agent/tools.js";
 import type * as agent_tts from "../agent/tts.js";
 import type * as auth from "../auth.js";
 import type * as crons from "../crons.js";
 import type * as functions_a2a from "../functions/a2a.js";
+import type * as functions_a2aClient from "../functions/a2aClient.js";
+import type * as functions_a2aRemoteAgents from "../functions/a2aRemoteAgents.js";
+import type * as functions_a2aTasks from "../functions/a2aTasks.js";
 import type * as functions_admin from "../functions/admin.js";
 import type * as functions_agentDocs from "../functions/agentDocs.js";
 import type * as functions_agentThinking from "../functions/agentThinking.js";
 import type * as functions_agentmail from "../functions/agentmail.js";
 import type * as functions_agents from "../functions/agents.js";
 import type * as functions_apiKeys from "../functions/apiKeys.js";
+import type * as functions_approvals from "../functions/approvals.js";
 import type * as functions_auditLog from "../functions/auditLog.js";
+import type * as functions_automationActions from "../functions/automationActions.js";
 import type * as functions_automations from "../functions/automations.js";
 import type * as functions_board from "../functions/board.js";
 import type * as functions_browserProfiles from "../functions/browserProfiles.js";
@@ -35,16 +43,29 @@ import type * as functions_conversations from "../functions/conversations.js";
 import type * as functions_credentials from "../functions/credentials.js";
 import type * as functions_daytona from "../functions/daytona.js";
 import type * as functions_daytonaQueries from "../functions/daytonaQueries.js";
+import type * as functions_events from "../functions/events.js";
 import type * as functions_feed from "../functions/feed.js";
 import type * as functions_knowledgeGraph from "../functions/knowledgeGraph.js";
 import type * as functions_llmsTxt from "../functions/llmsTxt.js";
+import type * as functions_mcpClient from "../functions/mcpClient.js";
 import type * as functions_mcpConnections from "../functions/mcpConnections.js";
+import type * as functions_mcpSessions from "../functions/mcpSessions.js";
 import type * as functions_permissions from "../functions/permissions.js";
+import type * as functions_phoneActions from "../functions/phoneActions.js";
+import type * as functions_phoneWebhooks from "../functions/phoneWebhooks.js";
 import type * as functions_rateLimits from "../functions/rateLimits.js";
+import type * as functions_recurringTasks from "../functions/recurringTasks.js";
+import type * as functions_scheduleJobs from "../functions/scheduleJobs.js";
+import type * as functions_scheduling from "../functions/scheduling.js";
+import type * as functions_secrets from "../functions/secrets.js";
 import type * as functions_security from "../functions/security.js";
+import type * as functions_securityPolicies from "../functions/securityPolicies.js";
+import type * as functions_skillTools from "../functions/skillTools.js";
 import type * as functions_skills from "../functions/skills.js";
+import type * as functions_streamingMessages from "../functions/streamingMessages.js";
 import type * as functions_supermemory from "../functions/supermemory.js";
 import type * as functions_supermemoryQueries from "../functions/supermemoryQueries.js";
+import type * as functions_taskDependencies from "../functions/taskDependencies.js";
 import type * as functions_teams from "../functions/teams.js";
 import type * as functions_userSchedules from "../functions/userSchedules.js";
 import type * as functions_users from "../functions/users.js";
@@ -53,8 +74,12 @@ import type * as functions_voiceQueries from "../functions/voiceQueries.js";
 import type * as functions_webhooks from "../functions/webhooks.js";
 import type * as functions_xTwitter from "../functions/xTwitter.js";
 import type * as http from "../http.js";
+import type * as lib_apiScopes from "../lib/apiScopes.js";
 import type * as lib_authHelpers from "../lib/authHelpers.js";
+import type * as lib_cron from "../lib/cron.js";
 import type * as lib_functions from "../lib/functions.js";
+import type * as lib_secrets from "../lib/secrets.js";
+import type * as lib_telephony from "../lib/telephony.js";
 
 import type {
   ApiFromModules,
@@ -64,21 +89,29 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   "agent/failover": typeof agent_failover;
+  "agent/injectionClassifier": typeof agent_injectionClassifier;
   "agent/queries": typeof agent_queries;
   "agent/runtime": typeof agent_runtime;
   "agent/security": typeof agent_security;
   "agent/securityUtils": typeof agent_securityUtils;
+  "agent/toolBindings": typeof agent_toolBindings;
+  "agent/tools": typeof agent_tools;
   "agent/tts": typeof agent_tts;
   auth: typeof auth;
   crons: typeof crons;
   "functions/a2a": typeof functions_a2a;
+  "functions/a2aClient": typeof functions_a2aClient;
+  "functions/a2aRemoteAgents": typeof functions_a2aRemoteAgents;
+  "functions/a2aTasks": typeof functions_a2aTasks;
   "functions/admin": typeof functions_admin;
   "functions/agentDocs": typeof functions_agentDocs;
   "functions/agentThinking": typeof functions_agentThinking;
   "functions/agentmail": typeof functions_agentmail;
   "functions/agents": typeof functions_agents;
   "functions/apiKeys": typeof functions_apiKeys;
+  "functions/approvals": typeof functions_approvals;
   "functions/auditLog": typeof functions_auditLog;
+  "functions/automationActions": typeof functions_automationActions;
   "functions/automations": typeof functions_automations;
   "functions/board": typeof functions_board;
   "functions/browserProfiles": typeof functions_browserProfiles;
@@ -90,16 +123,29 @@ declare const fullApi: ApiFromModules<{
   "functions/credentials": typeof functions_credentials;
   "functions/daytona": typeof functions_daytona;
   "functions/daytonaQueries": typeof functions_daytonaQueries;
+  "functions/events": typeof functions_events;
   "functions/feed": typeof functions_feed;
   "functions/knowledgeGraph": typeof functions_knowledgeGraph;
   "functions/llmsTxt": typeof functions_llmsTxt;
+  "functions/mcpClient": typeof functions_mcpClient;
   "functions/mcpConnections": typeof functions_mcpConnections;
+  "functions/mcpSessions": typeof functions_mcpSessions;
   "functions/permissions": typeof functions_permissions;
+  "functions/phoneActions": typeof functions_phoneActions;
+  "functions/phoneWebhooks": typeof functions_phoneWebhooks;
   "functions/rateLimits": typeof functions_rateLimits;
+  "functions/recurringTasks": typeof functions_recurringTasks;
+  "functions/scheduleJobs": typeof functions_scheduleJobs;
+  "functions/scheduling": typeof functions_scheduling;
+  "functions/secrets": typeof functions_secrets;
   "functions/security": typeof functions_security;
+  "functions/securityPolicies": typeof functions_securityPolicies;
+  "functions/skillTools": typeof functions_skillTools;
   "functions/skills": typeof functions_skills;
+  "functions/streamingMessages": typeof functions_streamingMessages;
   "functions/supermemory": typeof functions_supermemory;
   "functions/supermemoryQueries": typeof functions_supermemoryQueries;
+  "functions/taskDependencies": typeof functions_taskDependencies;
   "functions/teams": typeof functions_teams;
   "functions/userSchedules": typeof functions_userSchedules;
   "functions/users": typeof functions_users;
@@ -108,8 +154,12 @@ declare const fullApi: ApiFromModules<{
   "functions/webhooks": typeof functions_webhooks;
   "functions/xTwitter": typeof functions_xTwitter;
   http: typeof http;
+  "lib/apiScopes": typeof lib_apiScopes;
   "lib/authHelpers": typeof lib_authHelpers;
+  "lib/cron": typeof lib_cron;
   "lib/functions": typeof lib_functions;
+  "lib/secrets": typeof lib_secrets;
+  "lib/telephony": typeof lib_telephony;
 }>;
 
 /**
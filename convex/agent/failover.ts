@@ -6,6 +6,7 @@
  */
 import { v } from "convex/values";
 import { internalQuery, internalMutation } from "../_generated/server";
+import { apiKeySlot, openSecret } from "../lib/secrets";
 
 // LLM providers that support BYOK and failover
 export const LLM_PROVIDERS = [
@@ -56,15 +57,6 @@ export interface LLMAttemptResult {
 const BREAKER_FAILURE_THRESHOLD = 3;
 const BREAKER_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
 
-// Simple base64 decode
-function decodeApiKey(encoded: string): string {
-  try {
-    return atob(encoded);
-  } catch {
-    return encoded;
-  }
-}
-
 // Default base URLs for providers
 export function getDefaultBaseUrl(provider: LLMProvider): string {
   switch (provider) {
@@ -170,7 +162,7 @@ export const resolveLLMCandidates = internalQuery({
         const provider = args.preferredProvider as LLMProvider;
         candidates.push({
           provider,
-          apiKey: decodeApiKey(preferredCred.encryptedApiKey!),
+          apiKey: await openSecret(ctx, args.userId, apiKeySlot(preferredCred._id), preferredCred.encryptedApiKey!),
           baseUrl: preferredCred.config?.baseUrl,
           model: args.preferredModel || PROVIDER_DEFAULT_MODELS[provider],
           source: "db",
@@ -187,7 +179,7 @@ export const resolveLLMCandidates = internalQuery({
 
       candidates.push({
         provider,
-        apiKey: decodeApiKey(cred.encryptedApiKey!),
+        apiKey: await openSecret(ctx, args.userId, apiKeySlot(cred._id), cred.encryptedApiKey!),
         baseUrl: cred.config?.baseUrl,
         model: PROVIDER_DEFAULT_MODELS[provider],
         source: "db",
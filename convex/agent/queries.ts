@@ -6,15 +6,7 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
 import { buildSystemPrompt } from "./securityUtils";
-
-// Simple base64 decode (should use real decryption in production)
-function decodeApiKey(encoded: string): string {
-  try {
-    return atob(encoded);
-  } catch {
-    return encoded;
-  }
-}
+import { apiKeySlot, openSecret } from "../lib/secrets";
 
 /**
  * Get credentials for a specific LLM provider
@@ -44,7 +36,7 @@ export const getProviderCredentials = internalQuery({
     }
 
     return {
-      apiKey: decodeApiKey(credential.encryptedApiKey),
+      apiKey: await openSecret(ctx, args.userId, apiKeySlot(credential._id), credential.encryptedApiKey),
       baseUrl: credential.config?.baseUrl,
     };
   },
@@ -74,7 +66,7 @@ export const getEmbeddingCredentials = internalQuery({
       .unique();
     if (openai?.encryptedApiKey && openai.isActive) {
       return {
-        apiKey: decodeApiKey(openai.encryptedApiKey),
+        apiKey: await openSecret(ctx, args.userId, apiKeySlot(openai._id), openai.encryptedApiKey),
         baseUrl: openai.config?.baseUrl ?? "https://api.openai.com/v1",
         model: "text-embedding-3-small",
       };
@@ -88,7 +80,7 @@ export const getEmbeddingCredentials = internalQuery({
       .unique();
     if (openrouter?.encryptedApiKey && openrouter.isActive) {
       return {
-        apiKey: decodeApiKey(openrouter.encryptedApiKey),
+        apiKey: await openSecret(ctx, args.userId, apiKeySlot(openrouter._id), openrouter.encryptedApiKey),
         baseUrl: "https://openrouter.ai/api/v1",
         model: "openai/text-embedding-3-small",
       };
@@ -611,14 +603,6 @@ export const getVoiceConfig = internalQuery({
     const voiceConfig = agent.voiceConfig;
     const provider = voiceConfig?.provider ?? "openai";
 
-    function decodeKey(encoded: string): string {
-      try {
-        return atob(encoded);
-      } catch {
-        return encoded;
-      }
-    }
-
     const service = provider === "elevenlabs" ? "elevenlabs" : "openai";
     const credential = await ctx.db
       .query("userCredentials")
@@ -638,7 +622,7 @@ export const getVoiceConfig = internalQuery({
         if (openaiCred?.encryptedApiKey && openaiCred.isActive) {
           return {
             provider: "openai" as const,
-            apiKey: decodeKey(openaiCred.encryptedApiKey),
+            apiKey: await openSecret(ctx, args.userId, apiKeySlot(openaiCred._id), openaiCred.encryptedApiKey),
             openaiVoice: voiceConfig?.openaiVoice ?? "nova",
           };
         }
@@ -648,7 +632,7 @@ export const getVoiceConfig = internalQuery({
 
     return {
       provider,
-      apiKey: decodeKey(credential.encryptedApiKey),
+      apiKey: await openSecret(ctx, args.userId, apiKeySlot(credential._id), credential.encryptedApiKey),
       voiceId: voiceConfig?.voiceId,
       modelId: voiceConfig?.modelId,
       stability: voiceConfig?.stability,
@@ -11,9 +11,26 @@
  */
 import { v } from "convex/values";
 import { internalAction } from "../_generated/server";
+import type { ActionCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
-import type { Id } from "../_generated/dataModel";
-import { scanInput } from "./securityUtils";
+import type { Doc, Id } from "../_generated/dataModel";
+import { redactOutput, scanInput, type SecurityPolicy } from "./securityUtils";
+import {
+  buildClassifierMessages,
+  CLASSIFIER_MODELS,
+  hashClassifierInput,
+  parseClassifierVerdict,
+  shouldClassifyInput,
+  type InjectionVerdict,
+} from "./injectionClassifier";
+import {
+  AGENT_RUNTIME_TOOLS,
+  buildMcpToolDefinitions,
+  supportsNativeTools,
+  toGeminiSchema,
+  type AgentToolDefinition,
+  type McpRuntimeTool,
+} from "./tools";
 
 // Message format for context
 interface ChatMessage {
@@ -21,6 +38,41 @@ interface ChatMessage {
   content: string;
 }
 
+// Native tool call emitted by a provider, normalized across wire formats
+interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Conversation entries for the native tool loop
+type ToolLoopMessage =
+  | ChatMessage
+  | { role: "assistant"; content: string; toolCalls: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+// One model turn in the tool loop: either tool calls or a final answer
+interface ToolTurnResult {
+  content: string;
+  toolCalls: ToolCall[];
+  tokensUsed: number;
+}
+
+type ToolChoice = "auto" | "none";
+
+// Receives visible text as it streams from the provider
+type TextDeltaHandler = (delta: string) => Promise<void>;
+
+// OpenAI-compatible hosts that reject `stream_options` (usage still arrives
+// on the final chunk for these)
+const STREAM_USAGE_UNSUPPORTED_HOSTS = ["api.mistral.ai"];
+
+// Attribution headers OpenRouter uses for app rankings
+const OPENROUTER_HEADERS = {
+  "HTTP-Referer": "https://humana.gent",
+  "X-Title": "HumanAgent",
+};
+
 /**
  * Call OpenRouter API
  */
@@ -34,8 +86,7 @@ async function callOpenRouter(
     headers: {
       Authorization: `Bearer ${apiKey}`,
       "Content-Type": "application/json",
-      "HTTP-Referer": "https://humana.gent",
-      "X-Title": "HumanAgent",
+      ...OPENROUTER_HEADERS,
     },
     body: JSON.stringify({
       model,
@@ -118,18 +169,21 @@ function isReasoningModel(model: string): boolean {
 }
 
 /**
- * Call OpenAI API
+ * POST a chat completion to an OpenAI-compatible endpoint, retrying with
+ * token parameter variants until the provider accepts one.
  */
-async function callOpenAI(
+async function postOpenAIChatCompletion(
   apiKey: string,
   model: string,
-  messages: ChatMessage[],
-  baseUrl = "https://api.openai.com/v1"
-): Promise<{ content: string; tokensUsed: number }> {
+  payload: Record<string, unknown>,
+  baseUrl: string,
+  extraHeaders?: Record<string, string>
+): Promise<Response> {
   const endpoint = `${baseUrl.replace(/\/$/, "")}/chat/completions`;
   const headers = {
     Authorization: `Bearer ${apiKey}`,
     "Content-Type": "application/json",
+    ...extraHeaders,
   };
 
   const reasoning = isReasoningModel(model);
@@ -140,14 +194,14 @@ async function callOpenAI(
   // producing visible output (common with gpt-5-nano/mini).
   const requestVariants: Array<Record<string, unknown>> = reasoning
     ? [
-        { model, messages, max_completion_tokens: tokenBudget, reasoning_effort: "low" },
-        { model, messages, max_completion_tokens: tokenBudget },
-        { model, messages },
+        { model, ...payload, max_completion_tokens: tokenBudget, reasoning_effort: "low" },
+        { model, ...payload, max_completion_tokens: tokenBudget },
+        { model, ...payload },
       ]
     : [
-        { model, messages, max_completion_tokens: tokenBudget },
-        { model, messages, max_tokens: tokenBudget },
-        { model, messages },
+        { model, ...payload, max_completion_tokens: tokenBudget },
+        { model, ...payload, max_tokens: tokenBudget },
+        { model, ...payload },
       ];
 
   let response: Response | null = null;
@@ -169,6 +223,19 @@ async function callOpenAI(
     throw new Error(`OpenAI API error: ${error}`);
   }
 
+  return response;
+}
+
+/**
+ * Call OpenAI API
+ */
+async function callOpenAI(
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  baseUrl = "https://api.openai.com/v1"
+): Promise<{ content: string; tokensUsed: number }> {
+  const response = await postOpenAIChatCompletion(apiKey, model, { messages }, baseUrl);
   const data = await response.json();
 
   // Check for refusal (some OpenAI models use this field)
@@ -440,6 +507,589 @@ async function callLLMProvider(
   }
 }
 
+/**
+ * Call an OpenAI-compatible chat API with native tool declarations.
+ * Used for OpenAI, OpenRouter, DeepSeek, Mistral, and xAI.
+ */
+async function callOpenAIWithTools(
+  apiKey: string,
+  model: string,
+  messages: ToolLoopMessage[],
+  tools: AgentToolDefinition[],
+  toolChoice: ToolChoice,
+  baseUrl = "https://api.openai.com/v1",
+  extraHeaders?: Record<string, string>,
+  onDelta?: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  const wireMessages = messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+    if ("toolCalls" in message) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return message;
+  });
+
+  const payload: Record<string, unknown> = { messages: wireMessages };
+  if (tools.length > 0) {
+    payload.tools = tools.map((tool) => ({ type: "function", function: tool }));
+    payload.tool_choice = toolChoice;
+  }
+  if (onDelta) {
+    payload.stream = true;
+    if (!STREAM_USAGE_UNSUPPORTED_HOSTS.some((host) => baseUrl.includes(host))) {
+      payload.stream_options = { include_usage: true };
+    }
+  }
+
+  const response = await postOpenAIChatCompletion(apiKey, model, payload, baseUrl, extraHeaders);
+  if (onDelta) {
+    return readOpenAIStream(response, onDelta);
+  }
+  const data = await response.json();
+  const message = data.choices?.[0]?.message;
+
+  const rawToolCalls: unknown[] = Array.isArray(message?.tool_calls) ? message.tool_calls : [];
+  const toolCalls = rawToolCalls.flatMap((entry, index): ToolCall[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const call = entry as { id?: unknown; function?: { name?: unknown; arguments?: unknown } };
+    const name = typeof call.function?.name === "string" ? call.function.name : "";
+    if (!name) return [];
+    const rawArgs = call.function?.arguments;
+    return [
+      {
+        id: typeof call.id === "string" ? call.id : `call_${index}`,
+        name,
+        arguments:
+          typeof rawArgs === "string"
+            ? (parseJsonObject(rawArgs) ?? {})
+            : rawArgs && typeof rawArgs === "object"
+              ? (rawArgs as Record<string, unknown>)
+              : {},
+      },
+    ];
+  });
+
+  return {
+    content: typeof message?.content === "string" ? message.content : "",
+    toolCalls,
+    tokensUsed: data.usage?.total_tokens ?? 0,
+  };
+}
+
+/**
+ * Call Anthropic Messages API with native tool declarations.
+ * Consecutive tool results are grouped into one user turn as the API requires.
+ */
+async function callAnthropicWithTools(
+  apiKey: string,
+  model: string,
+  messages: ToolLoopMessage[],
+  tools: AgentToolDefinition[],
+  toolChoice: ToolChoice,
+  onDelta?: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  const systemMessage = messages.find((m) => m.role === "system");
+  const wireMessages: Array<{
+    role: "user" | "assistant";
+    content: string | Array<Record<string, unknown>>;
+  }> = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    if (message.role === "tool") {
+      const block = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      const previous = wireMessages[wireMessages.length - 1];
+      if (
+        previous?.role === "user" &&
+        Array.isArray(previous.content) &&
+        previous.content.every((entry) => entry.type === "tool_result")
+      ) {
+        previous.content.push(block);
+      } else {
+        wireMessages.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+    if ("toolCalls" in message) {
+      wireMessages.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+      continue;
+    }
+    wireMessages.push({ role: message.role as "user" | "assistant", content: message.content });
+  }
+
+  const response = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "x-api-key": apiKey,
+      "Content-Type": "application/json",
+      "anthropic-version": "2023-06-01",
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: 2048,
+      system: systemMessage?.content,
+      messages: wireMessages,
+      ...(tools.length > 0
+        ? {
+            tools: tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            })),
+            tool_choice: { type: toolChoice },
+          }
+        : {}),
+      stream: onDelta ? true : undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Anthropic API error: ${error}`);
+  }
+  if (onDelta) {
+    return readAnthropicStream(response, onDelta);
+  }
+
+  const data = await response.json();
+  const blocks: Array<Record<string, unknown>> = Array.isArray(data.content) ? data.content : [];
+  const content = blocks
+    .filter((block) => block.type === "text" && typeof block.text === "string")
+    .map((block) => block.text as string)
+    .join("\n");
+  const toolCalls = blocks.flatMap((block): ToolCall[] => {
+    if (block.type !== "tool_use" || typeof block.name !== "string") return [];
+    return [
+      {
+        id: typeof block.id === "string" ? block.id : `toolu_${block.name}`,
+        name: block.name,
+        arguments:
+          block.input && typeof block.input === "object"
+            ? (block.input as Record<string, unknown>)
+            : {},
+      },
+    ];
+  });
+
+  return {
+    content,
+    toolCalls,
+    tokensUsed: (data.usage?.input_tokens ?? 0) + (data.usage?.output_tokens ?? 0),
+  };
+}
+
+/**
+ * Call Google Gemini API with native function declarations.
+ * Gemini has no tool call ids, so results are matched back by function name.
+ */
+async function callGeminiWithTools(
+  apiKey: string,
+  model: string,
+  messages: ToolLoopMessage[],
+  tools: AgentToolDefinition[],
+  toolChoice: ToolChoice,
+  onDelta?: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  const systemInstruction = messages.find((m) => m.role === "system")?.content;
+  const contents: Array<{ role: "user" | "model"; parts: Array<Record<string, unknown>> }> = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    if (message.role === "tool") {
+      const part = {
+        functionResponse: {
+          name: message.name,
+          response: parseJsonObject(message.content) ?? { result: message.content },
+        },
+      };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === "user" && previous.parts.every((entry) => "functionResponse" in entry)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: "user", parts: [part] });
+      }
+      continue;
+    }
+    if ("toolCalls" in message) {
+      contents.push({
+        role: "model",
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            functionCall: { name: call.name, args: call.arguments },
+          })),
+        ],
+      });
+      continue;
+    }
+    contents.push({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [{ text: message.content }],
+    });
+  }
+
+  const method = onDelta ? "streamGenerateContent?alt=sse&" : "generateContent?";
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${apiKey}`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      systemInstruction: systemInstruction
+        ? { parts: [{ text: systemInstruction }] }
+        : undefined,
+      contents,
+      ...(tools.length > 0
+        ? {
+            tools: [
+              {
+                functionDeclarations: tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: toGeminiSchema(tool.parameters),
+                })),
+              },
+            ],
+            toolConfig: {
+              functionCallingConfig: { mode: toolChoice === "none" ? "NONE" : "AUTO" },
+            },
+          }
+        : {}),
+      generationConfig: {
+        maxOutputTokens: 2048,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Gemini API error: ${error}`);
+  }
+  if (onDelta) {
+    return readGeminiStream(response, onDelta);
+  }
+
+  const data = await response.json();
+  const parts: Array<Record<string, unknown>> = data.candidates?.[0]?.content?.parts ?? [];
+  const content = parts
+    .filter((part) => typeof part.text === "string")
+    .map((part) => part.text as string)
+    .join("");
+  const toolCalls = parts.flatMap((part, index): ToolCall[] => {
+    const call = part.functionCall as { name?: unknown; args?: unknown } | undefined;
+    if (!call || typeof call.name !== "string") return [];
+    return [
+      {
+        id: `gemini_${index}_${call.name}`,
+        name: call.name,
+        arguments:
+          call.args && typeof call.args === "object"
+            ? (call.args as Record<string, unknown>)
+            : {},
+      },
+    ];
+  });
+
+  return {
+    content,
+    toolCalls,
+    tokensUsed:
+      (data.usageMetadata?.promptTokenCount ?? 0) +
+      (data.usageMetadata?.candidatesTokenCount ?? 0),
+  };
+}
+
+/**
+ * Tool-calling counterpart to callLLMProvider. Tools are only sent for
+ * providers where supportsNativeTools() is true and are dropped for the rest;
+ * with an empty tool list this is a plain chat call, which is how streaming
+ * text replies are made for every provider. Passing `onDelta` switches the
+ * request to streaming.
+ */
+async function callLLMProviderWithTools(
+  provider: string,
+  apiKey: string,
+  model: string,
+  messages: ToolLoopMessage[],
+  tools: AgentToolDefinition[],
+  toolChoice: ToolChoice,
+  baseUrl?: string,
+  onDelta?: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  if (!supportsNativeTools(provider)) {
+    tools = [];
+  }
+  switch (provider) {
+    case "anthropic":
+      return callAnthropicWithTools(apiKey, model, messages, tools, toolChoice, onDelta);
+    case "google":
+      return callGeminiWithTools(apiKey, model, messages, tools, toolChoice, onDelta);
+    case "openrouter":
+      return callOpenAIWithTools(
+        apiKey,
+        model,
+        messages,
+        tools,
+        toolChoice,
+        "https://openrouter.ai/api/v1",
+        OPENROUTER_HEADERS,
+        onDelta
+      );
+    case "deepseek":
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, baseUrl ?? "https://api.deepseek.com/v1", undefined, onDelta);
+    case "mistral":
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, "https://api.mistral.ai/v1", undefined, onDelta);
+    case "minimax":
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, baseUrl ?? "https://api.minimax.chat/v1", undefined, onDelta);
+    case "kimi":
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, baseUrl ?? "https://api.moonshot.ai/v1", undefined, onDelta);
+    case "xai":
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, baseUrl ?? "https://api.x.ai/v1", undefined, onDelta);
+    default:
+      return callOpenAIWithTools(apiKey, model, messages, tools, toolChoice, baseUrl, undefined, onDelta);
+  }
+}
+
+/**
+ * Read a server-sent event stream, calling `onEvent` once per event.
+ * Handles events split across network chunks.
+ */
+async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: { event: string; data: string }) => Promise<void>
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : (blocks.pop() ?? "");
+
+    for (const block of blocks) {
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+      if (dataLines.length > 0) {
+        await onEvent({ event, data: dataLines.join("\n") });
+      }
+    }
+    if (done) break;
+  }
+}
+
+/**
+ * Assemble an OpenAI-compatible streamed completion. Tool call names and
+ * argument JSON arrive in fragments keyed by index.
+ */
+async function readOpenAIStream(
+  response: Response,
+  onDelta: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  type OpenAIStreamChunk = {
+    choices?: Array<{
+      delta?: {
+        content?: unknown;
+        tool_calls?: Array<{
+          index?: number;
+          id?: string;
+          function?: { name?: string; arguments?: string };
+        }>;
+      };
+    }>;
+    usage?: { total_tokens?: number };
+  };
+
+  let content = "";
+  let tokensUsed = 0;
+  const partialCalls = new Map<number, { id: string; name: string; args: string }>();
+
+  await readServerSentEvents(response, async ({ data }) => {
+    if (data.trim() === "[DONE]") return;
+    const chunk = parseJsonObject(data) as OpenAIStreamChunk | undefined;
+    if (!chunk) return;
+    if (typeof chunk.usage?.total_tokens === "number") {
+      tokensUsed = chunk.usage.total_tokens;
+    }
+    const delta = chunk.choices?.[0]?.delta;
+    if (typeof delta?.content === "string" && delta.content) {
+      content += delta.content;
+      await onDelta(delta.content);
+    }
+    for (const fragment of delta?.tool_calls ?? []) {
+      const index = fragment.index ?? 0;
+      const current = partialCalls.get(index) ?? { id: "", name: "", args: "" };
+      partialCalls.set(index, {
+        id: fragment.id ?? current.id,
+        name: current.name + (fragment.function?.name ?? ""),
+        args: current.args + (fragment.function?.arguments ?? ""),
+      });
+    }
+  });
+
+  const toolCalls = [...partialCalls.entries()]
+    .sort(([left], [right]) => left - right)
+    .filter(([, call]) => call.name)
+    .map(([index, call]) => ({
+      id: call.id || `call_${index}`,
+      name: call.name,
+      arguments: parseJsonObject(call.args) ?? {},
+    }));
+
+  return { content, toolCalls, tokensUsed };
+}
+
+/**
+ * Assemble an Anthropic streamed message from content block events.
+ */
+async function readAnthropicStream(
+  response: Response,
+  onDelta: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  type AnthropicStreamEvent = {
+    type?: string;
+    index?: number;
+    message?: { usage?: { input_tokens?: number } };
+    content_block?: { type?: string; id?: string; name?: string; text?: string };
+    delta?: { type?: string; text?: string; partial_json?: string };
+    usage?: { output_tokens?: number };
+    error?: { message?: string };
+  };
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  const blocks = new Map<number, { type: string; text: string; id: string; name: string; json: string }>();
+
+  await readServerSentEvents(response, async ({ data }) => {
+    const event = parseJsonObject(data) as AnthropicStreamEvent | undefined;
+    if (!event) return;
+    const index = event.index ?? 0;
+
+    if (event.type === "error") {
+      throw new Error(`Anthropic API error: ${event.error?.message ?? data}`);
+    } else if (event.type === "message_start") {
+      inputTokens = event.message?.usage?.input_tokens ?? 0;
+    } else if (event.type === "message_delta") {
+      outputTokens = event.usage?.output_tokens ?? outputTokens;
+    } else if (event.type === "content_block_start" && event.content_block) {
+      blocks.set(index, {
+        type: event.content_block.type ?? "text",
+        text: event.content_block.text ?? "",
+        id: event.content_block.id ?? "",
+        name: event.content_block.name ?? "",
+        json: "",
+      });
+    } else if (event.type === "content_block_delta" && event.delta) {
+      const block = blocks.get(index);
+      if (!block) return;
+      if (event.delta.type === "text_delta" && event.delta.text) {
+        block.text += event.delta.text;
+        await onDelta(event.delta.text);
+      } else if (event.delta.type === "input_json_delta" && event.delta.partial_json) {
+        block.json += event.delta.partial_json;
+      }
+    }
+  });
+
+  const ordered = [...blocks.entries()].sort(([left], [right]) => left - right).map(([, block]) => block);
+  return {
+    content: ordered
+      .filter((block) => block.type === "text")
+      .map((block) => block.text)
+      .join("\n"),
+    toolCalls: ordered
+      .filter((block) => block.type === "tool_use" && block.name)
+      .map((block) => ({
+        id: block.id || `toolu_${block.name}`,
+        name: block.name,
+        arguments: parseJsonObject(block.json) ?? {},
+      })),
+    tokensUsed: inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Assemble a Gemini `streamGenerateContent` response. Text arrives in
+ * fragments; function calls arrive whole.
+ */
+async function readGeminiStream(
+  response: Response,
+  onDelta: TextDeltaHandler
+): Promise<ToolTurnResult> {
+  type GeminiStreamChunk = {
+    candidates?: Array<{
+      content?: { parts?: Array<{ text?: string; functionCall?: { name?: string; args?: unknown } }> };
+    }>;
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  };
+
+  let content = "";
+  let tokensUsed = 0;
+  const toolCalls: ToolCall[] = [];
+
+  await readServerSentEvents(response, async ({ data }) => {
+    const chunk = parseJsonObject(data) as GeminiStreamChunk | undefined;
+    if (!chunk) return;
+    if (chunk.usageMetadata) {
+      tokensUsed =
+        (chunk.usageMetadata.promptTokenCount ?? 0) +
+        (chunk.usageMetadata.candidatesTokenCount ?? 0);
+    }
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      if (typeof part.text === "string" && part.text) {
+        content += part.text;
+        await onDelta(part.text);
+      } else if (part.functionCall && typeof part.functionCall.name === "string") {
+        const args = part.functionCall.args;
+        toolCalls.push({
+          id: `gemini_${toolCalls.length}_${part.functionCall.name}`,
+          name: part.functionCall.name,
+          arguments: args && typeof args === "object" ? (args as Record<string, unknown>) : {},
+        });
+      }
+    }
+  });
+
+  return { content, toolCalls, tokensUsed };
+}
+
 // Failover configuration
 const FAILOVER_MAX_RETRIES = 1; // Retry once per provider before failover
 const FAILOVER_RETRY_DELAY_MS = 500; // 500ms between retries
@@ -512,6 +1162,14 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+type FailoverSuccessHandler = (provider: string) => Promise<void>;
+type FailoverFailureHandler = (
+  provider: string,
+  category: ErrorCategory,
+  message: string,
+  status?: number
+) => Promise<void>;
+
 /**
  * Execute LLM call with failover across multiple provider candidates.
  * Returns structured result with provider info for health tracking.
@@ -519,9 +1177,81 @@ function sleep(ms: number): Promise<void> {
 async function executeWithFailover(
   candidates: LLMCandidate[],
   messages: ChatMessage[],
-  onSuccess?: (provider: string) => Promise<void>,
-  onFailure?: (provider: string, category: ErrorCategory, message: string, status?: number) => Promise<void>
+  onSuccess?: FailoverSuccessHandler,
+  onFailure?: FailoverFailureHandler
 ): Promise<{ content: string; tokensUsed: number; provider: string; model: string }> {
+  return runWithFailover(
+    candidates,
+    (candidate) =>
+      callLLMProvider(
+        candidate.provider,
+        candidate.apiKey,
+        candidate.model,
+        messages,
+        candidate.baseUrl
+      ),
+    onSuccess,
+    onFailure
+  );
+}
+
+/**
+ * Ask a cheap model whether the input is a prompt injection. Verdicts are
+ * cached per user by input hash. Returns null when no verdict could be had,
+ * and the caller lets the message through.
+ */
+async function classifyInjection(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  input: string,
+  candidates: LLMCandidate[],
+  modelOverride?: string
+): Promise<(InjectionVerdict & { model: string; cached: boolean }) | null> {
+  const inputHash = await hashClassifierInput(input);
+  const cached = await ctx.runQuery(internal.agent.security.getCachedClassification, {
+    userId,
+    inputHash,
+  });
+  if (cached) return { ...cached, cached: true };
+
+  const classifierCandidates = candidates.map((candidate, index) => ({
+    ...candidate,
+    model:
+      (index === 0 ? modelOverride : undefined) ??
+      CLASSIFIER_MODELS[candidate.provider] ??
+      candidate.model,
+  }));
+  try {
+    const result = await executeWithFailover(classifierCandidates, buildClassifierMessages(input));
+    const verdict = parseClassifierVerdict(result.content);
+    if (!verdict) {
+      console.warn("Injection classifier returned an unusable verdict:", result.content.slice(0, 200));
+      return null;
+    }
+    const model = `${result.provider}/${result.model}`;
+    await ctx.runMutation(internal.agent.security.cacheClassification, {
+      userId,
+      inputHash,
+      model,
+      ...verdict,
+    });
+    return { ...verdict, model, cached: false };
+  } catch (classifierError) {
+    console.warn("Injection classifier failed:", classifierError);
+    return null;
+  }
+}
+
+/**
+ * Shared retry + failover loop. `invoke` performs one provider call; the
+ * loop handles retries, health callbacks, and moving to the next candidate.
+ */
+async function runWithFailover<T extends { tokensUsed: number }>(
+  candidates: LLMCandidate[],
+  invoke: (candidate: LLMCandidate) => Promise<T>,
+  onSuccess?: FailoverSuccessHandler,
+  onFailure?: FailoverFailureHandler
+): Promise<T & { provider: string; model: string }> {
   if (candidates.length === 0) {
     throw new Error("No LLM provider candidates available. Please add an API key in Settings.");
   }
@@ -540,13 +1270,7 @@ async function executeWithFailover(
       }
 
       try {
-        const result = await callLLMProvider(
-          candidate.provider,
-          candidate.apiKey,
-          candidate.model,
-          messages,
-          candidate.baseUrl
-        );
+        const result = await invoke(candidate);
 
         // Success: record and return
         if (onSuccess) {
@@ -554,8 +1278,7 @@ async function executeWithFailover(
         }
 
         return {
-          content: result.content,
-          tokensUsed: result.tokensUsed,
+          ...result,
           provider: candidate.provider,
           model: candidate.model,
         };
@@ -655,6 +1378,7 @@ type CreateSubtaskAction = {
   description: string;
   isPublic?: boolean;
   targetAgentSlug?: string;
+  blockedByTaskIds?: Array<string>;
 };
 
 type DelegateToAgentAction = {
@@ -682,6 +1406,14 @@ type CallToolAction = {
   parameters?: Record<string, unknown>;
 };
 
+type CallMcpToolAction = {
+  type: "call_mcp_tool";
+  server: string;
+  toolName: string;
+  arguments?: Record<string, unknown>;
+  taskId?: string;
+};
+
 type ExecuteCodeAction = {
   type: "execute_code";
   language: string;
@@ -727,6 +1459,18 @@ type BrowserActionAction = {
   maxSteps?: number;
 };
 
+type SendSmsAction = {
+  type: "send_sms";
+  to: string;
+  text: string;
+};
+
+type PlaceCallAction = {
+  type: "place_call";
+  to: string;
+  message: string;
+};
+
 type AgentRuntimeAction =
   | CreateTaskAction
   | CreateFeedItemAction
@@ -739,12 +1483,15 @@ type AgentRuntimeAction =
   | GenerateImageAction
   | GenerateAudioAction
   | CallToolAction
+  | CallMcpToolAction
   | ExecuteCodeAction
   | ExecuteCommandAction
   | CreateKnowledgeNodeAction
   | LinkKnowledgeNodesAction
   | BrowserNavigateAction
-  | BrowserActionAction;
+  | BrowserActionAction
+  | SendSmsAction
+  | PlaceCallAction;
 
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -752,6 +1499,17 @@ function getErrorMessage(error: unknown): string {
   return "Unknown error";
 }
 
+function parseJsonObject(value: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 function parseThinkingBlocks(rawResponse: string): {
   withoutThinking: string;
   thinkingContent: string | null;
@@ -765,6 +1523,297 @@ function parseThinkingBlocks(rawResponse: string): {
   return { withoutThinking, thinkingContent };
 }
 
+/**
+ * Normalize one raw action object (from an <app_actions> block or a native
+ * tool call) into a typed runtime action. Returns null when invalid.
+ */
+function normalizeAgentAction(candidate: Record<string, unknown>): AgentRuntimeAction | null {
+  const type = candidate.type;
+  if (type === "create_task") {
+    const description = typeof candidate.description === "string" ? candidate.description : "";
+    if (!description.trim()) return null;
+    return {
+      type: "create_task",
+      description: description.trim().slice(0, 800),
+      isPublic: candidate.isPublic === true,
+    };
+  } else if (type === "create_feed_item") {
+    const title = typeof candidate.title === "string" ? candidate.title : "";
+    if (!title.trim()) return null;
+    const content =
+      typeof candidate.content === "string" && candidate.content.trim()
+        ? candidate.content.trim().slice(0, 320)
+        : undefined;
+    return {
+      type: "create_feed_item",
+      title: title.trim().slice(0, 120),
+      content,
+      isPublic: candidate.isPublic === true,
+    };
+  } else if (type === "create_skill") {
+    const name = typeof candidate.name === "string" ? candidate.name.trim() : "";
+    if (!name) return null;
+    const bio =
+      typeof candidate.bio === "string" && candidate.bio.trim()
+        ? candidate.bio.trim().slice(0, 1200)
+        : undefined;
+    const capabilitiesRaw = Array.isArray(candidate.capabilities)
+      ? candidate.capabilities
+      : [];
+    const capabilities = capabilitiesRaw
+      .flatMap((entry) => {
+        if (!entry || typeof entry !== "object") return [];
+        const item = entry as Record<string, unknown>;
+        const capName =
+          typeof item.name === "string" ? item.name.trim().slice(0, 64) : "";
+        const capDescription =
+          typeof item.description === "string"
+            ? item.description.trim().slice(0, 320)
+            : "";
+        if (!capName || !capDescription) return [];
+        return [{ name: capName, description: capDescription }];
+      })
+      .slice(0, 25);
+    return {
+      type: "create_skill",
+      name: name.slice(0, 80),
+      bio,
+      capabilities,
+    };
+  } else if (type === "update_task_status") {
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : "";
+    const status = candidate.status;
+    if (
+      !taskId ||
+      (status !== "pending" &&
+        status !== "in_progress" &&
+        status !== "completed" &&
+        status !== "failed")
+    ) {
+      return null;
+    }
+    const outcomeSummary =
+      typeof candidate.outcomeSummary === "string" && candidate.outcomeSummary.trim()
+        ? candidate.outcomeSummary.trim().slice(0, 2000)
+        : undefined;
+    const outcomeLinks = Array.isArray(candidate.outcomeLinks)
+      ? candidate.outcomeLinks
+          .filter((entry): entry is string => typeof entry === "string")
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length > 0)
+          .slice(0, 8)
+      : undefined;
+    return {
+      type: "update_task_status",
+      taskId,
+      status,
+      outcomeSummary,
+      outcomeLinks,
+    };
+  } else if (type === "move_task") {
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : "";
+    if (!taskId) return null;
+    const boardColumnId =
+      typeof candidate.boardColumnId === "string" && candidate.boardColumnId.trim()
+        ? candidate.boardColumnId.trim()
+        : undefined;
+    const boardColumnName =
+      typeof candidate.boardColumnName === "string" && candidate.boardColumnName.trim()
+        ? candidate.boardColumnName.trim().slice(0, 80)
+        : undefined;
+    if (!boardColumnId && !boardColumnName) return null;
+    return {
+      type: "move_task",
+      taskId,
+      boardColumnId,
+      boardColumnName,
+    };
+  } else if (type === "update_skill") {
+    const skillId = typeof candidate.skillId === "string" ? candidate.skillId.trim() : "";
+    if (!skillId) return null;
+    const name =
+      typeof candidate.name === "string" && candidate.name.trim()
+        ? candidate.name.trim().slice(0, 80)
+        : undefined;
+    const bio =
+      typeof candidate.bio === "string" && candidate.bio.trim()
+        ? candidate.bio.trim().slice(0, 1200)
+        : undefined;
+    const capabilitiesRaw = Array.isArray(candidate.capabilities)
+      ? candidate.capabilities
+      : [];
+    const capabilities = capabilitiesRaw
+      .flatMap((entry) => {
+        if (!entry || typeof entry !== "object") return [];
+        const item = entry as Record<string, unknown>;
+        const capName =
+          typeof item.name === "string" ? item.name.trim().slice(0, 64) : "";
+        const capDescription =
+          typeof item.description === "string"
+            ? item.description.trim().slice(0, 320)
+            : "";
+        if (!capName || !capDescription) return [];
+        return [{ name: capName, description: capDescription }];
+      })
+      .slice(0, 25);
+    const isActive = typeof candidate.isActive === "boolean" ? candidate.isActive : undefined;
+    return {
+      type: "update_skill",
+      skillId,
+      name,
+      bio,
+      capabilities: capabilities.length > 0 ? capabilities : undefined,
+      isActive,
+    };
+  } else if (type === "create_subtask") {
+    const parentTaskId = typeof candidate.parentTaskId === "string" ? candidate.parentTaskId.trim() : "";
+    const description = typeof candidate.description === "string" ? candidate.description.trim() : "";
+    if (!parentTaskId || !description) return null;
+    const targetAgentSlug =
+      typeof candidate.targetAgentSlug === "string" ? candidate.targetAgentSlug.trim() : "";
+    const blockedByTaskIds = Array.isArray(candidate.blockedByTaskIds)
+      ? candidate.blockedByTaskIds
+          .filter((id): id is string => typeof id === "string" && id.trim().length > 0)
+          .map((id) => id.trim())
+      : [];
+    return {
+      type: "create_subtask",
+      parentTaskId,
+      description: description.slice(0, 800),
+      isPublic: candidate.isPublic === true,
+      targetAgentSlug: targetAgentSlug || undefined,
+      blockedByTaskIds: blockedByTaskIds.length > 0 ? blockedByTaskIds : undefined,
+    };
+  } else if (type === "delegate_to_agent") {
+    const targetAgentSlug = typeof candidate.targetAgentSlug === "string" ? candidate.targetAgentSlug.trim() : "";
+    const taskDescription = typeof candidate.taskDescription === "string" ? candidate.taskDescription.trim() : "";
+    if (!targetAgentSlug || !taskDescription) return null;
+    return {
+      type: "delegate_to_agent",
+      targetAgentSlug,
+      taskDescription: taskDescription.slice(0, 800),
+    };
+  } else if (type === "generate_image") {
+    const prompt = typeof candidate.prompt === "string" ? candidate.prompt.trim() : "";
+    if (!prompt) return null;
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
+    return {
+      type: "generate_image",
+      prompt: prompt.slice(0, 1000),
+      taskId,
+    };
+  } else if (type === "generate_audio") {
+    const text = typeof candidate.text === "string" ? candidate.text.trim() : "";
+    if (!text) return null;
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
+    return {
+      type: "generate_audio",
+      text: text.slice(0, 5000),
+      taskId,
+    };
+  } else if (type === "call_tool") {
+    const toolName = typeof candidate.toolName === "string" ? candidate.toolName.trim() : "";
+    if (!toolName) return null;
+    const input = candidate.input && typeof candidate.input === "object"
+      ? candidate.input as Record<string, unknown>
+      : typeof candidate.input === "string"
+        ? parseJsonObject(candidate.input)
+        : undefined;
+    return {
+      type: "call_tool",
+      toolName: toolName.slice(0, 120),
+      input,
+    };
+  } else if (type === "call_mcp_tool") {
+    const server = typeof candidate.server === "string" ? candidate.server.trim() : "";
+    const toolName = typeof candidate.toolName === "string" ? candidate.toolName.trim() : "";
+    if (!server || !toolName) return null;
+    const toolArguments = candidate.arguments && typeof candidate.arguments === "object"
+      ? candidate.arguments as Record<string, unknown>
+      : typeof candidate.arguments === "string"
+        ? parseJsonObject(candidate.arguments)
+        : undefined;
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
+    return {
+      type: "call_mcp_tool",
+      server: server.slice(0, 120),
+      toolName: toolName.slice(0, 120),
+      arguments: toolArguments,
+      taskId: taskId || undefined,
+    };
+  } else if (type === "create_knowledge_node") {
+    const title = typeof candidate.title === "string" ? candidate.title.trim() : "";
+    const description = typeof candidate.description === "string" ? candidate.description.trim() : "";
+    const content = typeof candidate.content === "string" ? candidate.content : "";
+    if (!title || !content) return null;
+    const validNodeTypes = ["concept", "technique", "reference", "moc", "claim", "procedure"] as const;
+    const nodeType = typeof candidate.nodeType === "string" && validNodeTypes.includes(candidate.nodeType as typeof validNodeTypes[number])
+      ? (candidate.nodeType as typeof validNodeTypes[number])
+      : "concept";
+    const tags = Array.isArray(candidate.tags)
+      ? candidate.tags.filter((t): t is string => typeof t === "string").slice(0, 20)
+      : undefined;
+    return {
+      type: "create_knowledge_node",
+      title: title.slice(0, 120),
+      description: (description || title).slice(0, 200),
+      content: content.slice(0, 12000),
+      nodeType,
+      tags,
+    };
+  } else if (type === "link_knowledge_nodes") {
+    const sourceNodeId = typeof candidate.sourceNodeId === "string" ? candidate.sourceNodeId.trim() : "";
+    const targetNodeId = typeof candidate.targetNodeId === "string" ? candidate.targetNodeId.trim() : "";
+    if (!sourceNodeId || !targetNodeId) return null;
+    return {
+      type: "link_knowledge_nodes",
+      sourceNodeId,
+      targetNodeId,
+    };
+  } else if (type === "browser_navigate") {
+    const url = typeof candidate.url === "string" ? candidate.url.trim() : "";
+    if (!url) return null;
+    const profileId = typeof candidate.profileId === "string" ? candidate.profileId.trim() : undefined;
+    const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
+    return {
+      type: "browser_navigate",
+      url,
+      profileId,
+      taskId,
+    };
+  } else if (type === "browser_action") {
+    const sessionId = typeof candidate.sessionId === "string" ? candidate.sessionId.trim() : "";
+    const task = typeof candidate.task === "string" ? candidate.task.trim() : "";
+    if (!sessionId || !task) return null;
+    const maxSteps = typeof candidate.maxSteps === "number" ? candidate.maxSteps : undefined;
+    return {
+      type: "browser_action",
+      sessionId,
+      task,
+      maxSteps,
+    };
+  } else if (type === "send_sms") {
+    const to = typeof candidate.to === "string" ? candidate.to.trim() : "";
+    const text = typeof candidate.text === "string" ? candidate.text.trim() : "";
+    if (!to || !text) return null;
+    return {
+      type: "send_sms",
+      to: to.slice(0, 32),
+      text: text.slice(0, 1600),
+    };
+  } else if (type === "place_call") {
+    const to = typeof candidate.to === "string" ? candidate.to.trim() : "";
+    const message = typeof candidate.message === "string" ? candidate.message.trim() : "";
+    if (!to || !message) return null;
+    return {
+      type: "place_call",
+      to: to.slice(0, 32),
+      message: message.slice(0, 1000),
+    };
+  }
+  return null;
+}
+
 function parseAgentActions(rawResponse: string): {
   cleanResponse: string;
   actions: AgentRuntimeAction[];
@@ -797,247 +1846,8 @@ function parseAgentActions(rawResponse: string): {
     const actions: AgentRuntimeAction[] = [];
     for (const item of parsed) {
       if (!item || typeof item !== "object") continue;
-      const candidate = item as Record<string, unknown>;
-      const type = candidate.type;
-      if (type === "create_task") {
-        const description = typeof candidate.description === "string" ? candidate.description : "";
-        if (!description.trim()) continue;
-        actions.push({
-          type: "create_task",
-          description: description.trim().slice(0, 800),
-          isPublic: candidate.isPublic === true,
-        });
-      } else if (type === "create_feed_item") {
-        const title = typeof candidate.title === "string" ? candidate.title : "";
-        if (!title.trim()) continue;
-        const content =
-          typeof candidate.content === "string" && candidate.content.trim()
-            ? candidate.content.trim().slice(0, 320)
-            : undefined;
-        actions.push({
-          type: "create_feed_item",
-          title: title.trim().slice(0, 120),
-          content,
-          isPublic: candidate.isPublic === true,
-        });
-      } else if (type === "create_skill") {
-        const name = typeof candidate.name === "string" ? candidate.name.trim() : "";
-        if (!name) continue;
-        const bio =
-          typeof candidate.bio === "string" && candidate.bio.trim()
-            ? candidate.bio.trim().slice(0, 1200)
-            : undefined;
-        const capabilitiesRaw = Array.isArray(candidate.capabilities)
-          ? candidate.capabilities
-          : [];
-        const capabilities = capabilitiesRaw
-          .flatMap((entry) => {
-            if (!entry || typeof entry !== "object") return [];
-            const item = entry as Record<string, unknown>;
-            const capName =
-              typeof item.name === "string" ? item.name.trim().slice(0, 64) : "";
-            const capDescription =
-              typeof item.description === "string"
-                ? item.description.trim().slice(0, 320)
-                : "";
-            if (!capName || !capDescription) return [];
-            return [{ name: capName, description: capDescription }];
-          })
-          .slice(0, 25);
-        actions.push({
-          type: "create_skill",
-          name: name.slice(0, 80),
-          bio,
-          capabilities,
-        });
-      } else if (type === "update_task_status") {
-        const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : "";
-        const status = candidate.status;
-        if (
-          !taskId ||
-          (status !== "pending" &&
-            status !== "in_progress" &&
-            status !== "completed" &&
-            status !== "failed")
-        ) {
-          continue;
-        }
-        const outcomeSummary =
-          typeof candidate.outcomeSummary === "string" && candidate.outcomeSummary.trim()
-            ? candidate.outcomeSummary.trim().slice(0, 2000)
-            : undefined;
-        const outcomeLinks = Array.isArray(candidate.outcomeLinks)
-          ? candidate.outcomeLinks
-              .filter((entry): entry is string => typeof entry === "string")
-              .map((entry) => entry.trim())
-              .filter((entry) => entry.length > 0)
-              .slice(0, 8)
-          : undefined;
-        actions.push({
-          type: "update_task_status",
-          taskId,
-          status,
-          outcomeSummary,
-          outcomeLinks,
-        });
-      } else if (type === "move_task") {
-        const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : "";
-        if (!taskId) continue;
-        const boardColumnId =
-          typeof candidate.boardColumnId === "string" && candidate.boardColumnId.trim()
-            ? candidate.boardColumnId.trim()
-            : undefined;
-        const boardColumnName =
-          typeof candidate.boardColumnName === "string" && candidate.boardColumnName.trim()
-            ? candidate.boardColumnName.trim().slice(0, 80)
-            : undefined;
-        if (!boardColumnId && !boardColumnName) continue;
-        actions.push({
-          type: "move_task",
-          taskId,
-          boardColumnId,
-          boardColumnName,
-        });
-      } else if (type === "update_skill") {
-        const skillId = typeof candidate.skillId === "string" ? candidate.skillId.trim() : "";
-        if (!skillId) continue;
-        const name =
-          typeof candidate.name === "string" && candidate.name.trim()
-            ? candidate.name.trim().slice(0, 80)
-            : undefined;
-        const bio =
-          typeof candidate.bio === "string" && candidate.bio.trim()
-            ? candidate.bio.trim().slice(0, 1200)
-            : undefined;
-        const capabilitiesRaw = Array.isArray(candidate.capabilities)
-          ? candidate.capabilities
-          : [];
-        const capabilities = capabilitiesRaw
-          .flatMap((entry) => {
-            if (!entry || typeof entry !== "object") return [];
-            const item = entry as Record<string, unknown>;
-            const capName =
-              typeof item.name === "string" ? item.name.trim().slice(0, 64) : "";
-            const capDescription =
-              typeof item.description === "string"
-                ? item.description.trim().slice(0, 320)
-                : "";
-            if (!capName || !capDescription) return [];
-            return [{ name: capName, description: capDescription }];
-          })
-          .slice(0, 25);
-        const isActive = typeof candidate.isActive === "boolean" ? candidate.isActive : undefined;
-        actions.push({
-          type: "update_skill",
-          skillId,
-          name,
-          bio,
-          capabilities: capabilities.length > 0 ? capabilities : undefined,
-          isActive,
-        });
-      } else if (type === "create_subtask") {
-        const parentTaskId = typeof candidate.parentTaskId === "string" ? candidate.parentTaskId.trim() : "";
-        const description = typeof candidate.description === "string" ? candidate.description.trim() : "";
-        if (!parentTaskId || !description) continue;
-        const targetAgentSlug =
-          typeof candidate.targetAgentSlug === "string" ? candidate.targetAgentSlug.trim() : "";
-        actions.push({
-          type: "create_subtask",
-          parentTaskId,
-          description: description.slice(0, 800),
-          isPublic: candidate.isPublic === true,
-          targetAgentSlug: targetAgentSlug || undefined,
-        });
-      } else if (type === "delegate_to_agent") {
-        const targetAgentSlug = typeof candidate.targetAgentSlug === "string" ? candidate.targetAgentSlug.trim() : "";
-        const taskDescription = typeof candidate.taskDescription === "string" ? candidate.taskDescription.trim() : "";
-        if (!targetAgentSlug || !taskDescription) continue;
-        actions.push({
-          type: "delegate_to_agent",
-          targetAgentSlug,
-          taskDescription: taskDescription.slice(0, 800),
-        });
-      } else if (type === "generate_image") {
-        const prompt = typeof candidate.prompt === "string" ? candidate.prompt.trim() : "";
-        if (!prompt) continue;
-        const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
-        actions.push({
-          type: "generate_image",
-          prompt: prompt.slice(0, 1000),
-          taskId,
-        });
-      } else if (type === "generate_audio") {
-        const text = typeof candidate.text === "string" ? candidate.text.trim() : "";
-        if (!text) continue;
-        const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
-        actions.push({
-          type: "generate_audio",
-          text: text.slice(0, 5000),
-          taskId,
-        });
-      } else if (type === "call_tool") {
-        const toolName = typeof candidate.toolName === "string" ? candidate.toolName.trim() : "";
-        if (!toolName) continue;
-        const input = candidate.input && typeof candidate.input === "object"
-          ? candidate.input as Record<string, unknown>
-          : undefined;
-        actions.push({
-          type: "call_tool",
-          toolName: toolName.slice(0, 120),
-          input,
-        });
-      } else if (type === "create_knowledge_node") {
-        const title = typeof candidate.title === "string" ? candidate.title.trim() : "";
-        const description = typeof candidate.description === "string" ? candidate.description.trim() : "";
-        const content = typeof candidate.content === "string" ? candidate.content : "";
-        if (!title || !content) continue;
-        const validNodeTypes = ["concept", "technique", "reference", "moc", "claim", "procedure"] as const;
-        const nodeType = typeof candidate.nodeType === "string" && validNodeTypes.includes(candidate.nodeType as typeof validNodeTypes[number])
-          ? (candidate.nodeType as typeof validNodeTypes[number])
-          : "concept";
-        const tags = Array.isArray(candidate.tags)
-          ? candidate.tags.filter((t): t is string => typeof t === "string").slice(0, 20)
-          : undefined;
-        actions.push({
-          type: "create_knowledge_node",
-          title: title.slice(0, 120),
-          description: (description || title).slice(0, 200),
-          content: content.slice(0, 12000),
-          nodeType,
-          tags,
-        });
-      } else if (type === "link_knowledge_nodes") {
-        const sourceNodeId = typeof candidate.sourceNodeId === "string" ? candidate.sourceNodeId.trim() : "";
-        const targetNodeId = typeof candidate.targetNodeId === "string" ? candidate.targetNodeId.trim() : "";
-        if (!sourceNodeId || !targetNodeId) continue;
-        actions.push({
-          type: "link_knowledge_nodes",
-          sourceNodeId,
-          targetNodeId,
-        });
-      } else if (type === "browser_navigate") {
-        const url = typeof candidate.url === "string" ? candidate.url.trim() : "";
-        if (!url) continue;
-        const profileId = typeof candidate.profileId === "string" ? candidate.profileId.trim() : undefined;
-        const taskId = typeof candidate.taskId === "string" ? candidate.taskId.trim() : undefined;
-        actions.push({
-          type: "browser_navigate",
-          url,
-          profileId,
-          taskId,
-        });
-      } else if (type === "browser_action") {
-        const sessionId = typeof candidate.sessionId === "string" ? candidate.sessionId.trim() : "";
-        const task = typeof candidate.task === "string" ? candidate.task.trim() : "";
-        if (!sessionId || !task) continue;
-        const maxSteps = typeof candidate.maxSteps === "number" ? candidate.maxSteps : undefined;
-        actions.push({
-          type: "browser_action",
-          sessionId,
-          task,
-          maxSteps,
-        });
-      }
+      const action = normalizeAgentAction(item as Record<string, unknown>);
+      if (action) actions.push(action);
     }
 
     return { cleanResponse, actions, thinkingContent };
@@ -1167,6 +1977,704 @@ function buildConfigDiagnosticResponse(args: {
   )}`;
 }
 
+type RuntimeChannel =
+  | "email"
+  | "phone"
+  | "api"
+  | "mcp"
+  | "webmcp"
+  | "a2a"
+  | "dashboard";
+
+type ToolCallLogEntry = {
+  toolName: string;
+  input?: unknown;
+  output?: unknown;
+  durationMs?: number;
+  calledAt: number;
+};
+
+// Caller context shared by every action executed for one processMessage run
+interface ActionRunContext {
+  userId: Id<"users">;
+  agentId?: Id<"agents">;
+  teamId?: Id<"agentTeams">;
+  channel: RuntimeChannel;
+  callerId?: string;
+  // Allowed tools on the owner's active external MCP connections
+  mcpTools: McpRuntimeTool[];
+  // External tool calls made during the run, written to task toolCallLog
+  toolCallLog: ToolCallLogEntry[];
+  // Effective security policy, used to redact everything the agent sends
+  securityPolicy: SecurityPolicy;
+  // Action types held in the approvals inbox instead of running
+  gatedActionTypes: string[];
+  // Agent whose gates apply; the default agent when the run has none
+  gateAgentId?: Id<"agents">;
+}
+
+// Result handed back to the model as a tool result (native tool loop)
+interface ActionExecutionResult {
+  ok: boolean;
+  output: string;
+}
+
+/**
+ * Redact sensitive data from text on its way out of the runtime, and record
+ * an output-side security flag for each redaction rule that fired.
+ */
+async function redactOutgoing(
+  ctx: ActionCtx,
+  run: Pick<ActionRunContext, "userId" | "securityPolicy" | "callerId">,
+  text: string,
+  source: string
+): Promise<string> {
+  const { text: redacted, redactions } = redactOutput(text, run.securityPolicy);
+  if (redactions.length > 0) {
+    try {
+      await ctx.runMutation(internal.agent.security.logOutputRedactions, {
+        userId: run.userId,
+        source,
+        redactions,
+        redactedSnippet: redacted.slice(0, 200),
+        callerId: run.callerId,
+      });
+    } catch (logError) {
+      // The redaction still applies when logging fails
+      console.warn("Failed to log output redaction:", logError);
+    }
+  }
+  return redacted;
+}
+
+// One-line description of an action for the approvals inbox
+function describeActionForApproval(action: AgentRuntimeAction): string {
+  const { type, ...fields } = action;
+  const details = JSON.stringify(fields);
+  return `${type} ${details.length > 300 ? `${details.slice(0, 297)}...` : details}`;
+}
+
+/**
+ * Hold a gated action for the owner's approval instead of running it. The
+ * model is told the action is waiting so it does not retry or report it done.
+ */
+async function requestApproval(
+  ctx: ActionCtx,
+  run: ActionRunContext,
+  agentId: Id<"agents">,
+  action: AgentRuntimeAction
+): Promise<ActionExecutionResult> {
+  const approvalId = await ctx.runMutation(internal.functions.approvals.request, {
+    userId: run.userId,
+    agentId,
+    teamId: run.teamId,
+    actionType: action.type,
+    payload: JSON.stringify(action),
+    summary: describeActionForApproval(action),
+    channel: run.channel,
+    callerId: run.callerId,
+  });
+  return {
+    ok: true,
+    output: `The ${action.type} action is waiting for the owner's approval (request ${approvalId}) and has not run yet. Do not retry it; tell the user it needs approval.`,
+  };
+}
+
+/**
+ * Execute one typed runtime action. Shared by the `<app_actions>` text path
+ * and the native tool loop, so both behave identically.
+ */
+async function executeAgentAction(
+  ctx: ActionCtx,
+  run: ActionRunContext,
+  action: AgentRuntimeAction,
+  assistantResponse: string
+): Promise<ActionExecutionResult> {
+  if (run.gatedActionTypes.includes(action.type)) {
+    if (!run.gateAgentId) {
+      return { ok: false, output: `The ${action.type} action needs approval and cannot run.` };
+    }
+    return await requestApproval(ctx, run, run.gateAgentId, action);
+  }
+
+  if (action.type === "create_task") {
+    await ctx.runMutation(internal.functions.board.createTaskFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      description: action.description,
+      isPublic: action.isPublic ?? false,
+      source: run.channel,
+      callerId: run.callerId,
+    });
+    return { ok: true, output: "Task created." };
+  } else if (action.type === "create_feed_item") {
+    await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+      userId: run.userId,
+      type: "status_update",
+      title: await redactOutgoing(ctx, run, action.title, "feed"),
+      content:
+        action.content === undefined
+          ? undefined
+          : await redactOutgoing(ctx, run, action.content, "feed"),
+      metadata: {
+        source: run.channel,
+        callerId: run.callerId,
+        generatedBy: "agent_runtime",
+      },
+      isPublic: action.isPublic ?? false,
+    });
+    return { ok: true, output: "Feed item posted." };
+  } else if (action.type === "create_skill") {
+    await ctx.runMutation(internal.functions.skills.createFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      name: action.name,
+      bio: action.bio,
+      capabilities: action.capabilities,
+    });
+    return { ok: true, output: `Skill "${action.name}" created.` };
+  } else if (action.type === "update_task_status") {
+    const effectiveOutcome = pickTaskOutcome({
+      status: action.status,
+      cleanResponse: assistantResponse,
+      actionOutcomeSummary: action.outcomeSummary
+        ? await redactOutgoing(ctx, run, action.outcomeSummary, "task_outcome")
+        : undefined,
+    });
+    await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      taskId: action.taskId as Id<"tasks">,
+      status: action.status,
+      outcomeSummary: effectiveOutcome,
+      outcomeLinks: action.outcomeLinks,
+      source: run.channel,
+      callerId: run.callerId,
+    });
+
+    // Long-form file storage: if outcome >8000 chars, upload full content
+    if (
+      effectiveOutcome &&
+      effectiveOutcome.length > 8000 &&
+      (action.status === "completed" || action.status === "failed")
+    ) {
+      try {
+        await ctx.runAction(internal.functions.board.storeOutcomeFile, {
+          taskId: action.taskId as Id<"tasks">,
+          userId: run.userId,
+          content: assistantResponse,
+        });
+      } catch (fileError) {
+        console.warn("Failed to store long-form outcome file:", fileError);
+      }
+    }
+    return { ok: true, output: `Task status set to ${action.status}.` };
+  } else if (action.type === "move_task") {
+    await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      taskId: action.taskId as Id<"tasks">,
+      boardColumnId: action.boardColumnId as Id<"boardColumns"> | undefined,
+      boardColumnName: action.boardColumnName,
+      source: run.channel,
+      callerId: run.callerId,
+    });
+    return { ok: true, output: "Task moved." };
+  } else if (action.type === "update_skill") {
+    await ctx.runMutation(internal.functions.skills.updateFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      skillId: action.skillId as Id<"skills">,
+      name: action.name,
+      bio: action.bio,
+      capabilities: action.capabilities,
+      isActive: action.isActive,
+    });
+    return { ok: true, output: "Skill updated." };
+  } else if (action.type === "create_subtask") {
+    let targetAgentId = run.agentId;
+    if (action.targetAgentSlug) {
+      const targetAgent = await ctx.runQuery(internal.agent.queries.getAgentBySlug, {
+        userId: run.userId,
+        slug: action.targetAgentSlug,
+      });
+      targetAgentId = targetAgent?._id as Id<"agents"> | undefined;
+    }
+    const subtaskId = await ctx.runMutation(internal.functions.board.createTaskFromAgent, {
+      userId: run.userId,
+      agentId: targetAgentId,
+      description: action.description,
+      isPublic: action.isPublic ?? false,
+      source: run.channel,
+      parentTaskId: action.parentTaskId as Id<"tasks">,
+      blockedBy: action.blockedByTaskIds as Array<Id<"tasks">> | undefined,
+      teamId: run.teamId,
+      callerId: run.callerId,
+      delegatedByAgentId:
+        action.targetAgentSlug && run.agentId && targetAgentId !== run.agentId
+          ? run.agentId
+          : undefined,
+    });
+    return { ok: true, output: `Subtask created (taskId="${subtaskId}").` };
+  } else if (action.type === "delegate_to_agent") {
+    // Look up target agent by slug within the same user's agents
+    try {
+      const targetAgent = await ctx.runQuery(
+        internal.agent.queries.getAgentBySlug,
+        { userId: run.userId, slug: action.targetAgentSlug }
+      );
+      if (targetAgent) {
+        const delegated: ProcessMessageResult = await ctx.runAction(
+          internal.agent.runtime.processMessage,
+          {
+            userId: run.userId,
+            agentId: targetAgent._id as Id<"agents">,
+            message: action.taskDescription,
+            channel: "a2a",
+            callerId: run.agentId ? String(run.agentId) : undefined,
+          }
+        );
+        return { ok: !delegated.blocked, output: delegated.response };
+      }
+      console.warn(`delegate_to_agent: agent slug "${action.targetAgentSlug}" not found`);
+      return { ok: false, output: `No agent with slug "${action.targetAgentSlug}".` };
+    } catch (delegateError) {
+      console.warn("Agent delegation failed:", delegateError);
+      return { ok: false, output: `Delegation failed: ${getErrorMessage(delegateError)}` };
+    }
+  } else if (action.type === "generate_image") {
+    // Placeholder: image generation requires an external API call
+    console.log(`generate_image requested: prompt="${action.prompt.slice(0, 100)}"`);
+    return { ok: false, output: "Image generation is not available yet." };
+  } else if (action.type === "generate_audio") {
+    try {
+      const audioResult = await ctx.runAction(internal.agent.tts.generateSpeech, {
+        userId: run.userId,
+        agentId: run.agentId ?? (await ctx.runQuery(internal.agent.queries.getDefaultAgentId, { userId: run.userId })),
+        text: action.text,
+      });
+      if (audioResult && action.taskId) {
+        await ctx.runMutation(internal.functions.board.linkOutcomeAudio, {
+          taskId: action.taskId as Id<"tasks">,
+          userId: run.userId,
+          storageId: audioResult.storageId as Id<"_storage">,
+        });
+      }
+      return { ok: !!audioResult, output: audioResult ? "Audio generated." : "Audio generation returned no file." };
+    } catch (audioError) {
+      console.warn("Audio generation failed:", audioError);
+      return { ok: false, output: `Audio generation failed: ${getErrorMessage(audioError)}` };
+    }
+  } else if (action.type === "call_tool") {
+    try {
+      const toolResult = await ctx.runAction(
+        internal.functions.composio.executeToolFromAgent,
+        {
+          userId: run.userId,
+          agentId: run.agentId,
+          toolName: action.toolName,
+          parameters: action.parameters ?? action.input,
+          taskId: undefined,
+        }
+      );
+      if (!toolResult.success) {
+        console.warn(`call_tool failed for "${action.toolName}": ${toolResult.error}`);
+        return { ok: false, output: toolResult.error ?? "Tool execution failed" };
+      }
+      return { ok: true, output: toolResult.result ?? "" };
+    } catch (toolError) {
+      console.warn("call_tool action failed:", toolError);
+      return { ok: false, output: `Tool call failed: ${getErrorMessage(toolError)}` };
+    }
+  } else if (action.type === "call_mcp_tool") {
+    const serverKey = action.server.toLowerCase();
+    const tool = run.mcpTools.find(
+      (entry) =>
+        entry.toolName === action.toolName &&
+        (entry.serverName.toLowerCase() === serverKey || entry.connectionId === action.server)
+    );
+    if (!tool) {
+      return {
+        ok: false,
+        output: `MCP tool "${action.toolName}" on "${action.server}" is not connected or not allowed.`,
+      };
+    }
+    const calledAt = Date.now();
+    try {
+      const mcpResult = await ctx.runAction(internal.functions.mcpClient.callTool, {
+        userId: run.userId,
+        connectionId: tool.connectionId as Id<"mcpConnections">,
+        toolName: tool.toolName,
+        arguments: action.arguments ?? {},
+      });
+      run.toolCallLog.push({
+        toolName: `${tool.serverName}/${tool.toolName}`,
+        input: action.arguments ?? {},
+        output: { ok: mcpResult.ok, text: mcpResult.output.slice(0, 2000) },
+        durationMs: Date.now() - calledAt,
+        calledAt,
+      });
+      return { ok: mcpResult.ok, output: mcpResult.output };
+    } catch (mcpError) {
+      console.warn("call_mcp_tool action failed:", mcpError);
+      run.toolCallLog.push({
+        toolName: `${tool.serverName}/${tool.toolName}`,
+        input: action.arguments ?? {},
+        output: { ok: false, text: getErrorMessage(mcpError) },
+        durationMs: Date.now() - calledAt,
+        calledAt,
+      });
+      return { ok: false, output: `MCP call failed: ${getErrorMessage(mcpError)}` };
+    }
+  } else if (action.type === "execute_code") {
+    try {
+      const codeResult = await ctx.runAction(
+        internal.functions.daytona.executeCodeFromAgent,
+        {
+          userId: run.userId,
+          agentId: run.agentId,
+          language: action.language,
+          code: action.code,
+          timeout: action.timeout,
+          taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
+        }
+      );
+      if (!codeResult.success) {
+        console.warn(`execute_code failed: ${codeResult.error}`);
+        return { ok: false, output: codeResult.error ?? "Code execution failed" };
+      }
+      return { ok: true, output: codeResult.result ?? "" };
+    } catch (codeError) {
+      console.warn("execute_code action failed:", codeError);
+      return { ok: false, output: `Code execution failed: ${getErrorMessage(codeError)}` };
+    }
+  } else if (action.type === "execute_command") {
+    try {
+      const cmdResult = await ctx.runAction(
+        internal.functions.daytona.executeCommandFromAgent,
+        {
+          userId: run.userId,
+          agentId: run.agentId,
+          command: action.command,
+          workdir: action.workdir,
+          timeout: action.timeout,
+          taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
+        }
+      );
+      if (!cmdResult.success) {
+        console.warn(`execute_command failed: ${cmdResult.error}`);
+        return { ok: false, output: cmdResult.error ?? "Command execution failed" };
+      }
+      return { ok: true, output: cmdResult.result ?? "" };
+    } catch (cmdError) {
+      console.warn("execute_command action failed:", cmdError);
+      return { ok: false, output: `Command execution failed: ${getErrorMessage(cmdError)}` };
+    }
+  } else if (action.type === "create_knowledge_node") {
+    const nodeId = await ctx.runMutation(internal.functions.knowledgeGraph.createNodeFromAgent, {
+      userId: run.userId,
+      agentId: run.agentId,
+      title: action.title,
+      description: action.description,
+      content: action.content,
+      nodeType: action.nodeType,
+      tags: action.tags,
+    });
+    return { ok: true, output: `Knowledge node created with id ${String(nodeId)}.` };
+  } else if (action.type === "link_knowledge_nodes") {
+    await ctx.runMutation(internal.functions.knowledgeGraph.linkNodesFromAgent, {
+      userId: run.userId,
+      sourceNodeId: action.sourceNodeId as Id<"knowledgeNodes">,
+      targetNodeId: action.targetNodeId as Id<"knowledgeNodes">,
+    });
+    return { ok: true, output: "Knowledge nodes linked." };
+  } else if (action.type === "browser_navigate") {
+    // Start a new Browser Use session
+    try {
+      const session = await ctx.runAction(internal.functions.browserProfiles.startBrowserSessionFromAgent, {
+        userId: run.userId,
+        agentId: run.agentId,
+        url: action.url,
+        profileId: action.profileId,
+        taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
+      });
+      return { ok: true, output: JSON.stringify(session) };
+    } catch (browserError) {
+      console.warn("browser_navigate action failed:", browserError);
+      return { ok: false, output: `Browser session failed: ${getErrorMessage(browserError)}` };
+    }
+  } else if (action.type === "browser_action") {
+    // Run a task on an existing Browser Use session
+    try {
+      const browserResult = await ctx.runAction(internal.functions.browserProfiles.runBrowserTaskFromAgent, {
+        userId: run.userId,
+        sessionId: action.sessionId,
+        task: action.task,
+        maxSteps: action.maxSteps,
+      });
+      return { ok: true, output: JSON.stringify(browserResult) };
+    } catch (browserError) {
+      console.warn("browser_action failed:", browserError);
+      return { ok: false, output: `Browser task failed: ${getErrorMessage(browserError)}` };
+    }
+  } else if (action.type === "send_sms" || action.type === "place_call") {
+    // Allow-list, quiet hours, and audit logging live in functions/phoneActions
+    if (!run.agentId) {
+      return { ok: false, output: "Phone actions need an agent with a phone number." };
+    }
+    try {
+      const phoneResult =
+        action.type === "send_sms"
+          ? await ctx.runAction(internal.functions.phoneActions.sendSmsFromAgent, {
+              userId: run.userId,
+              agentId: run.agentId,
+              to: action.to,
+              text: await redactOutgoing(ctx, run, action.text, "phone_sms"),
+            })
+          : await ctx.runAction(internal.functions.phoneActions.placeCallFromAgent, {
+              userId: run.userId,
+              agentId: run.agentId,
+              to: action.to,
+              message: await redactOutgoing(ctx, run, action.message, "phone_call"),
+            });
+      if (!phoneResult.success) {
+        console.warn(`${action.type} refused: ${phoneResult.error}`);
+        return { ok: false, output: phoneResult.error ?? "Phone action failed" };
+      }
+      return { ok: true, output: phoneResult.result ?? "" };
+    } catch (phoneError) {
+      console.warn(`${action.type} action failed:`, phoneError);
+      return { ok: false, output: `Phone action failed: ${getErrorMessage(phoneError)}` };
+    }
+  }
+  return { ok: false, output: "Unsupported action." };
+}
+
+const MAX_TOOL_ITERATIONS = 6;
+const STREAM_FLUSH_INTERVAL_MS = 300;
+
+// Appended to the system prompt when native tools are sent with the request
+const NATIVE_TOOLS_PROMPT_NOTE =
+  "Native tools are available for every app action listed above. Call the tools instead of writing an <app_actions> block, then reply to the user in plain text once you have the results.";
+
+/**
+ * System prompt section listing external MCP tools. Native-tool providers
+ * also get them as tools; the rest call them through the action block.
+ */
+function buildMcpToolsPrompt(tools: McpRuntimeTool[]): string {
+  if (tools.length === 0) return "";
+  const lines = tools.map(
+    (tool) => `- ${tool.serverName} / ${tool.toolName}${tool.description ? `: ${tool.description.slice(0, 200)}` : ""}`
+  );
+  return [
+    "## External MCP tools",
+    "These tools run on MCP servers your owner connected:",
+    ...lines,
+    'To call one without native tools, add {"type":"call_mcp_tool","server":"<server name>","toolName":"<tool>","arguments":{...},"taskId":"<optional task id>"} to the <app_actions> block.',
+  ].join("\n");
+}
+
+type StepRecorder = (
+  label: string,
+  startedAt: number,
+  status: "completed" | "failed" | "skipped",
+  detail?: string
+) => void;
+
+/**
+ * Strip thinking and action blocks (closed or still open) from streamed text
+ * so the live reply matches what is saved once the run finishes.
+ */
+function visibleStreamText(raw: string): string {
+  return raw
+    .replace(/<thinking>[\s\S]*?(<\/thinking>|$)/gi, "")
+    .replace(/<app_actions>[\s\S]*?(<\/app_actions>|$)/gi, "")
+    .replace(/<[a-z_/]*$/i, "")
+    .trim();
+}
+
+// Writes streamed text to a streamingMessages record, throttled
+interface ReplyStreamWriter {
+  // Clear the visible text for a new model turn or a failover retry
+  startTurn: () => void;
+  onDelta: TextDeltaHandler;
+  setStatus: (detail: string | undefined) => Promise<void>;
+}
+
+function createReplyStreamWriter(
+  ctx: ActionCtx,
+  streamId: Id<"streamingMessages">,
+  securityPolicy: SecurityPolicy
+): ReplyStreamWriter {
+  let turnText = "";
+  let statusDetail: string | undefined;
+  let lastFlushAt = 0;
+
+  const flush = async () => {
+    lastFlushAt = Date.now();
+    try {
+      await ctx.runMutation(internal.functions.streamingMessages.update, {
+        streamId,
+        // Partial text is redacted too; the final reply is logged separately
+        content: redactOutput(visibleStreamText(turnText), securityPolicy).text,
+        statusDetail,
+      });
+    } catch (streamError) {
+      // Streaming is best effort; the final reply is still saved
+      console.warn("Failed to write streaming message:", streamError);
+    }
+  };
+
+  return {
+    startTurn: () => {
+      turnText = "";
+    },
+    onDelta: async (delta) => {
+      turnText += delta;
+      if (Date.now() - lastFlushAt >= STREAM_FLUSH_INTERVAL_MS) {
+        await flush();
+      }
+    },
+    setStatus: async (detail) => {
+      statusDetail = detail;
+      await flush();
+    },
+  };
+}
+
+interface NativeToolLoopResult {
+  content: string;
+  tokensUsed: number;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Multi-step native tool loop: the model calls tools, sees each result, and
+ * continues until it answers in text or hits MAX_TOOL_ITERATIONS. Task status
+ * changes are deferred (not executed here) so the final answer can become the
+ * task outcome, matching the `<app_actions>` path. Every valid action the model
+ * calls is pushed onto `actions` as it runs, so the caller still sees them if a
+ * later turn throws.
+ */
+async function runNativeToolLoop(
+  ctx: ActionCtx,
+  run: ActionRunContext,
+  candidates: LLMCandidate[],
+  initialMessages: ChatMessage[],
+  actions: AgentRuntimeAction[],
+  record: StepRecorder,
+  onSuccess: FailoverSuccessHandler,
+  onFailure: FailoverFailureHandler,
+  stream?: ReplyStreamWriter
+): Promise<NativeToolLoopResult> {
+  const loopMessages: ToolLoopMessage[] = [...initialMessages];
+  const mcpTools = buildMcpToolDefinitions(run.mcpTools);
+  const tools = [...AGENT_RUNTIME_TOOLS, ...mcpTools.definitions];
+  let tokensUsed = 0;
+
+  for (let iteration = 0; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+    // Last pass forces a text answer so the loop always terminates
+    const toolChoice: ToolChoice = iteration === MAX_TOOL_ITERATIONS ? "none" : "auto";
+    const turnStart = Date.now();
+    const turn = await runWithFailover(
+      candidates,
+      (candidate) => {
+        stream?.startTurn();
+        return callLLMProviderWithTools(
+          candidate.provider,
+          candidate.apiKey,
+          candidate.model,
+          loopMessages,
+          tools,
+          toolChoice,
+          candidate.baseUrl,
+          stream?.onDelta
+        );
+      },
+      onSuccess,
+      onFailure
+    );
+    tokensUsed += turn.tokensUsed;
+
+    if (turn.toolCalls.length === 0 || toolChoice === "none") {
+      record(
+        `LLM turn ${iteration + 1}`,
+        turnStart,
+        "completed",
+        `final answer via ${turn.provider}`
+      );
+      return {
+        content: turn.content,
+        tokensUsed,
+        provider: turn.provider,
+        model: turn.model,
+      };
+    }
+
+    record(
+      `LLM turn ${iteration + 1}`,
+      turnStart,
+      "completed",
+      `${turn.toolCalls.length} tool calls via ${turn.provider}`
+    );
+    loopMessages.push({ role: "assistant", content: turn.content, toolCalls: turn.toolCalls });
+
+    for (const call of turn.toolCalls) {
+      const toolStart = Date.now();
+      await stream?.setStatus(`Running ${call.name}`);
+      const mcpTool = mcpTools.lookup.get(call.name);
+      const action = mcpTool
+        ? normalizeAgentAction({
+            type: "call_mcp_tool",
+            server: mcpTool.connectionId,
+            toolName: mcpTool.toolName,
+            arguments: call.arguments,
+          })
+        : normalizeAgentAction({ ...call.arguments, type: call.name });
+      let outcome: ActionExecutionResult;
+
+      if (!action) {
+        outcome = { ok: false, output: `Invalid or missing arguments for ${call.name}.` };
+      } else if (action.type === "update_task_status") {
+        actions.push(action);
+        outcome = {
+          ok: true,
+          output: `Task status will be set to ${action.status} with your final answer as the outcome.`,
+        };
+      } else {
+        actions.push(action);
+        try {
+          outcome = await executeAgentAction(ctx, run, action, turn.content);
+        } catch (actionError) {
+          console.warn("Agent tool execution failed:", actionError);
+          outcome = { ok: false, output: getErrorMessage(actionError) };
+        }
+      }
+
+      record(
+        `Tool: ${call.name}`,
+        toolStart,
+        outcome.ok ? "completed" : "failed",
+        outcome.output.slice(0, 200)
+      );
+      loopMessages.push({
+        role: "tool",
+        toolCallId: call.id,
+        name: call.name,
+        content: outcome.output.slice(0, 12000) || (outcome.ok ? "Done." : "Failed."),
+      });
+    }
+    await stream?.setStatus(undefined);
+  }
+
+  // Unreachable: the final iteration always returns
+  throw new Error("Native tool loop exited without a final answer");
+}
+
+const SECURITY_BLOCKED_RESPONSE =
+  "I'm unable to process that request as it appears to contain content that violates my security guidelines. If you believe this is an error, please rephrase your request.";
+
 /**
  * Main agent processing function
  * Takes a message and returns a response
@@ -1187,6 +2695,8 @@ export const processMessage = internalAction({
       v.literal("dashboard")
     ),
     callerId: v.optional(v.string()),
+    // When set, partial reply text is written to this record as it streams
+    streamId: v.optional(v.id("streamingMessages")),
   },
   returns: v.object({
     response: v.string(),
@@ -1212,7 +2722,11 @@ export const processMessage = internalAction({
 
     // 1. Scan input for security threats
     const step1Start = Date.now();
-    const securityResult = scanInput(args.message);
+    const securityPolicy: SecurityPolicy = await ctx.runQuery(
+      internal.functions.securityPolicies.getEffective,
+      { userId: args.userId, agentId: args.agentId }
+    );
+    const securityResult = scanInput(args.message, securityPolicy, args.channel);
 
     if (securityResult.severity === "block") {
       // Log security flag
@@ -1225,13 +2739,13 @@ export const processMessage = internalAction({
           pattern: flag.pattern,
           inputSnippet: args.message.substring(0, 200),
           action: "blocked",
+          callerId: args.callerId,
         });
       }
 
       wfRecord("Security scan", step1Start, "failed", "Blocked: " + securityResult.flags.map((f) => f.type).join(", "));
       return {
-        response:
-          "I'm unable to process that request as it appears to contain content that violates my security guidelines. If you believe this is an error, please rephrase your request.",
+        response: SECURITY_BLOCKED_RESPONSE,
         tokensUsed: 0,
         blocked: true,
         securityFlags: securityResult.flags.map((f) => f.type),
@@ -1283,6 +2797,55 @@ export const processMessage = internalAction({
     }
     wfRecord("Config load", step2Start, "completed", config.provider + "/" + config.model + ` (${candidates.length} candidates)`);
 
+    // 3b. Second-stage prompt-injection classifier, when the policy turns it on
+    const classifierConfig = securityPolicy.classifier;
+    if (shouldClassifyInput(classifierConfig, securityResult, args.channel) && classifierConfig) {
+      const classifierStart = Date.now();
+      const verdict = await classifyInjection(
+        ctx,
+        args.userId,
+        args.message,
+        candidates,
+        classifierConfig.model
+      );
+      const isInjection = verdict?.verdict === "injection";
+      const shouldBlock = isInjection && verdict.confidence >= classifierConfig.threshold;
+      // Log injection verdicts, and benign ones for inputs a rule flagged, for tuning
+      if (verdict && (isInjection || securityResult.flags.length > 0)) {
+        await ctx.runMutation(internal.agent.security.logSecurityFlag, {
+          userId: args.userId,
+          source: args.channel,
+          flagType: "injection",
+          severity: shouldBlock ? "block" : "warn",
+          pattern: `classifier:${verdict.model}`,
+          inputSnippet: args.message.substring(0, 200),
+          action: shouldBlock ? "blocked" : isInjection ? "allowed_with_warning" : "classified_benign",
+          callerId: args.callerId,
+          classifier: {
+            model: verdict.model,
+            verdict: verdict.verdict,
+            confidence: verdict.confidence,
+            threshold: classifierConfig.threshold,
+            rationale: verdict.rationale,
+            cached: verdict.cached,
+          },
+        });
+      }
+      const detail = verdict
+        ? `${verdict.verdict} (${verdict.confidence.toFixed(2)})${verdict.cached ? ", cached" : ""}`
+        : "No verdict, allowed";
+      if (shouldBlock) {
+        wfRecord("Injection classifier", classifierStart, "failed", "Blocked: " + detail);
+        return {
+          response: SECURITY_BLOCKED_RESPONSE,
+          tokensUsed: 0,
+          blocked: true,
+          securityFlags: ["injection"],
+        };
+      }
+      wfRecord("Injection classifier", classifierStart, "completed", detail);
+    }
+
     // 4. Load conversation context
     const step4Start = Date.now();
     // 4a. Compute semantic query embedding when credentials are available
@@ -1407,13 +2970,42 @@ export const processMessage = internalAction({
       console.warn("Supermemory profile load failed:", supermemoryError);
     }
 
-    wfRecord("Context build", step4Start, "completed", `${contextMessages.length} messages, ${semanticMessages.length} memories${knowledgeContext ? ", knowledge graph" : ""}${supermemoryContext ? ", supermemory" : ""}`);
+    // 4d. Load allowed tools from the owner's external MCP servers
+    let mcpTools: McpRuntimeTool[] = [];
+    try {
+      mcpTools = await ctx.runQuery(internal.functions.mcpConnections.getRuntimeTools, {
+        userId: args.userId,
+      });
+    } catch (mcpError) {
+      console.warn("MCP tool load failed:", mcpError);
+    }
+    // Team and account-level messages have no agentId; they answer as the
+    // default agent, so its gates apply
+    let gateAgentId = args.agentId;
+    if (!gateAgentId) {
+      try {
+        gateAgentId = await ctx.runQuery(internal.agent.queries.getDefaultAgentId, {
+          userId: args.userId,
+        });
+      } catch {
+        // No agents yet, so no gates are configured
+      }
+    }
+    const gatedActionTypes: string[] = gateAgentId
+      ? await ctx.runQuery(internal.functions.approvals.getGatedActionTypes, {
+          userId: args.userId,
+          agentId: gateAgentId,
+        })
+      : [];
+
+    wfRecord("Context build", step4Start, "completed", `${contextMessages.length} messages, ${semanticMessages.length} memories${knowledgeContext ? ", knowledge graph" : ""}${supermemoryContext ? ", supermemory" : ""}${mcpTools.length > 0 ? `, ${mcpTools.length} MCP tools` : ""}`);
 
     // 5. Build full message array
     const systemPromptWithContext = [
       config.systemPrompt,
       knowledgeContext,
       supermemoryContext,
+      buildMcpToolsPrompt(mcpTools),
     ]
       .filter(Boolean)
       .join("\n");
@@ -1425,32 +3017,110 @@ export const processMessage = internalAction({
       { role: "user", content: securityResult.sanitizedInput },
     ];
 
-    // 6. Call LLM with failover across provider candidates
+    // 6. Call LLM with failover across provider candidates.
+    // Providers with native function calling run a multi-step tool loop;
+    // the rest fall back to the single-shot `<app_actions>` text contract.
+    // If every native candidate fails, the remaining candidates still get a
+    // text-mode attempt.
     const step6Start = Date.now();
+    const recordProviderSuccess: FailoverSuccessHandler = async (provider) => {
+      await ctx.runMutation(internal.agent.failover.recordSuccess, {
+        userId: args.userId,
+        provider,
+      });
+    };
+    const recordProviderFailure: FailoverFailureHandler = async (provider, category, message, status) => {
+      await ctx.runMutation(internal.agent.failover.recordFailure, {
+        userId: args.userId,
+        provider,
+        errorCategory: category,
+        errorMessage: message,
+        httpStatus: status,
+      });
+    };
+    const runContext: ActionRunContext = {
+      userId: args.userId,
+      agentId: args.agentId,
+      teamId: args.teamId,
+      channel: args.channel,
+      callerId: args.callerId,
+      mcpTools,
+      toolCallLog: [],
+      securityPolicy,
+      gatedActionTypes,
+      gateAgentId,
+    };
+    const toolCandidates = candidates.filter((candidate) => supportsNativeTools(candidate.provider));
+    const textCandidates = candidates.filter((candidate) => !supportsNativeTools(candidate.provider));
+    let useNativeTools = supportsNativeTools(candidates[0]?.provider ?? "");
+    const stream = args.streamId
+      ? createReplyStreamWriter(ctx, args.streamId, securityPolicy)
+      : undefined;
+
+    const runTextReply = (textModeCandidates: LLMCandidate[]) =>
+      stream
+        ? runWithFailover(
+            textModeCandidates,
+            (candidate) => {
+              stream.startTurn();
+              return callLLMProviderWithTools(
+                candidate.provider,
+                candidate.apiKey,
+                candidate.model,
+                messages,
+                [],
+                "auto",
+                candidate.baseUrl,
+                stream.onDelta
+              );
+            },
+            recordProviderSuccess,
+            recordProviderFailure
+          )
+        : executeWithFailover(
+            textModeCandidates,
+            messages,
+            recordProviderSuccess,
+            recordProviderFailure
+          );
+
     let result: { content: string; tokensUsed: number; provider: string; model: string };
+    const nativeActions: AgentRuntimeAction[] = [];
 
     try {
-      result = await executeWithFailover(
-        candidates,
-        messages,
-        // On success: record to health tracker
-        async (provider) => {
-          await ctx.runMutation(internal.agent.failover.recordSuccess, {
-            userId: args.userId,
-            provider,
-          });
-        },
-        // On failure: record to health tracker for circuit breaker
-        async (provider, category, message, status) => {
-          await ctx.runMutation(internal.agent.failover.recordFailure, {
-            userId: args.userId,
-            provider,
-            errorCategory: category,
-            errorMessage: message,
-            httpStatus: status,
-          });
+      if (useNativeTools) {
+        const toolMessages: ChatMessage[] = [
+          {
+            role: "system",
+            content: `${systemPromptWithContext}\n\n${NATIVE_TOOLS_PROMPT_NOTE}`,
+          },
+          ...messages.slice(1),
+        ];
+        try {
+          result = await runNativeToolLoop(
+            ctx,
+            runContext,
+            toolCandidates,
+            toolMessages,
+            nativeActions,
+            wfRecord,
+            recordProviderSuccess,
+            recordProviderFailure,
+            stream
+          );
+        } catch (nativeError) {
+          // Text mode would parse and run its own actions, repeating any tool
+          // that already ran. Only deferred status changes are safe to redo.
+          const toolsRan = nativeActions.some((action) => action.type !== "update_task_status");
+          if (textCandidates.length === 0 || toolsRan) throw nativeError;
+          nativeActions.length = 0;
+          console.warn("Native tool providers failed, falling back to text mode:", nativeError);
+          useNativeTools = false;
+          result = await runTextReply(textCandidates);
         }
-      );
+      } else {
+        result = await runTextReply(candidates);
+      }
     } catch (error) {
       console.error("LLM call failed (all providers):", error);
       const errorMessage = getErrorMessage(error);
@@ -1473,23 +3143,43 @@ export const processMessage = internalAction({
             : [],
       };
     }
-    wfRecord("LLM call", step6Start, "completed", `${result.tokensUsed} tokens via ${result.provider}`);
+    wfRecord("LLM call", step6Start, "completed", `${result.tokensUsed} tokens via ${result.provider}${useNativeTools ? ` (${nativeActions.length} tool calls)` : ""}`);
 
-    // 7. Parse response, extract thinking, execute actions
+    // 7. Parse response, extract thinking, execute actions.
+    // In native mode, <app_actions> only count when the model called no tools,
+    // as a safety net for models that write the block instead; otherwise the
+    // same action could run once as a tool call and again from the text.
     const step7Start = Date.now();
     const parsedResponse = parseAgentActions(result.content);
-    const fallbackActionSummary = parsedResponse.actions.find(
+    const textActions = nativeActions.length === 0 ? parsedResponse.actions : [];
+    const allActions = [...nativeActions, ...textActions];
+    const fallbackActionSummary = allActions.find(
       (action): action is UpdateTaskStatusAction =>
         action.type === "update_task_status" &&
         typeof action.outcomeSummary === "string" &&
         action.outcomeSummary.trim().length > 0
     )?.outcomeSummary;
-    const assistantResponse =
+    const rawAssistantResponse =
       parsedResponse.cleanResponse.trim() ||
       fallbackActionSummary?.trim() ||
       "Task actions processed.";
 
-    wfRecord("Parse response", step7Start, "completed", `${parsedResponse.actions.length} actions`);
+    wfRecord("Parse response", step7Start, "completed", `${textActions.length} actions`);
+
+    // Output filter: redact the reply before it is saved, sent, or used as an outcome
+    const outputFilterStart = Date.now();
+    const assistantResponse = await redactOutgoing(
+      ctx,
+      runContext,
+      rawAssistantResponse,
+      args.channel
+    );
+    wfRecord(
+      "Output filter",
+      outputFilterStart,
+      "completed",
+      assistantResponse === rawAssistantResponse ? undefined : "Redacted sensitive data"
+    );
 
     // Save thinking blocks as reflection memory if present
     const step8Start = Date.now();
@@ -1507,255 +3197,21 @@ export const processMessage = internalAction({
       }
     }
 
-    for (const action of parsedResponse.actions) {
+    // Native tool calls already ran inside the loop, except deferred task
+    // status updates which need the final answer as their outcome
+    const pendingActions = [
+      ...nativeActions.filter((action) => action.type === "update_task_status"),
+      ...textActions,
+    ];
+    for (const action of pendingActions) {
       try {
-        if (action.type === "create_task") {
-          await ctx.runMutation(internal.functions.board.createTaskFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            description: action.description,
-            isPublic: action.isPublic ?? false,
-            source: args.channel,
-          });
-        } else if (action.type === "create_feed_item") {
-          await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
-            userId: args.userId,
-            type: "status_update",
-            title: action.title,
-            content: action.content,
-            metadata: {
-              source: args.channel,
-              callerId: args.callerId,
-              generatedBy: "agent_runtime",
-            },
-            isPublic: action.isPublic ?? false,
-          });
-        } else if (action.type === "create_skill") {
-          await ctx.runMutation(internal.functions.skills.createFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            name: action.name,
-            bio: action.bio,
-            capabilities: action.capabilities,
-          });
-        } else if (action.type === "update_task_status") {
-          const effectiveOutcome = pickTaskOutcome({
-            status: action.status,
-            cleanResponse: assistantResponse,
-            actionOutcomeSummary: action.outcomeSummary,
-          });
-          await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            taskId: action.taskId as Id<"tasks">,
-            status: action.status,
-            outcomeSummary: effectiveOutcome,
-            outcomeLinks: action.outcomeLinks,
-            source: args.channel,
-          });
-
-          // Long-form file storage: if outcome >8000 chars, upload full content
-          if (
-            effectiveOutcome &&
-            effectiveOutcome.length > 8000 &&
-            (action.status === "completed" || action.status === "failed")
-          ) {
-            try {
-              await ctx.runAction(internal.functions.board.storeOutcomeFile, {
-                taskId: action.taskId as Id<"tasks">,
-                userId: args.userId,
-                content: assistantResponse,
-              });
-            } catch (fileError) {
-              console.warn("Failed to store long-form outcome file:", fileError);
-            }
-          }
-        } else if (action.type === "move_task") {
-          await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            taskId: action.taskId as Id<"tasks">,
-            boardColumnId: action.boardColumnId as Id<"boardColumns"> | undefined,
-            boardColumnName: action.boardColumnName,
-            source: args.channel,
-          });
-        } else if (action.type === "update_skill") {
-          await ctx.runMutation(internal.functions.skills.updateFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            skillId: action.skillId as Id<"skills">,
-            name: action.name,
-            bio: action.bio,
-            capabilities: action.capabilities,
-            isActive: action.isActive,
-          });
-        } else if (action.type === "create_subtask") {
-          let targetAgentId = args.agentId;
-          if (action.targetAgentSlug) {
-            const targetAgent = await ctx.runQuery(internal.agent.queries.getAgentBySlug, {
-              userId: args.userId,
-              slug: action.targetAgentSlug,
-            });
-            targetAgentId = targetAgent?._id as Id<"agents"> | undefined;
-          }
-          await ctx.runMutation(internal.functions.board.createTaskFromAgent, {
-            userId: args.userId,
-            agentId: targetAgentId,
-            description: action.description,
-            isPublic: action.isPublic ?? false,
-            source: args.channel,
-            parentTaskId: action.parentTaskId as Id<"tasks">,
-            teamId: args.teamId,
-            delegatedByAgentId:
-              action.targetAgentSlug && args.agentId && targetAgentId !== args.agentId
-                ? args.agentId
-                : undefined,
-          });
-        } else if (action.type === "delegate_to_agent") {
-          // Look up target agent by slug within the same user's agents
-          try {
-            const targetAgent = await ctx.runQuery(
-              internal.agent.queries.getAgentBySlug,
-              { userId: args.userId, slug: action.targetAgentSlug }
-            );
-            if (targetAgent) {
-              await ctx.runAction(internal.agent.runtime.processMessage, {
-                userId: args.userId,
-                agentId: targetAgent._id as Id<"agents">,
-                message: action.taskDescription,
-                channel: "a2a",
-                callerId: args.agentId ? String(args.agentId) : undefined,
-              });
-            } else {
-              console.warn(`delegate_to_agent: agent slug "${action.targetAgentSlug}" not found`);
-            }
-          } catch (delegateError) {
-            console.warn("Agent delegation failed:", delegateError);
-          }
-        } else if (action.type === "generate_image") {
-          // Placeholder: image generation requires an external API call
-          console.log(`generate_image requested: prompt="${action.prompt.slice(0, 100)}"`);
-        } else if (action.type === "generate_audio") {
-          try {
-            const audioResult = await ctx.runAction(internal.agent.tts.generateSpeech, {
-              userId: args.userId,
-              agentId: args.agentId ?? (await ctx.runQuery(internal.agent.queries.getDefaultAgentId, { userId: args.userId })),
-              text: action.text,
-            });
-            if (audioResult && action.taskId) {
-              await ctx.runMutation(internal.functions.board.linkOutcomeAudio, {
-                taskId: action.taskId as Id<"tasks">,
-                userId: args.userId,
-                storageId: audioResult.storageId as Id<"_storage">,
-              });
-            }
-          } catch (audioError) {
-            console.warn("Audio generation failed:", audioError);
-          }
-        } else if (action.type === "call_tool") {
-          try {
-            const toolResult = await ctx.runAction(
-              internal.functions.composio.executeToolFromAgent,
-              {
-                userId: args.userId,
-                agentId: args.agentId,
-                toolName: action.toolName,
-                parameters: action.parameters ?? action.input,
-                taskId: undefined,
-              }
-            );
-            if (!toolResult.success) {
-              console.warn(`call_tool failed for "${action.toolName}": ${toolResult.error}`);
-            }
-          } catch (toolError) {
-            console.warn("call_tool action failed:", toolError);
-          }
-        } else if (action.type === "execute_code") {
-          try {
-            const codeResult = await ctx.runAction(
-              internal.functions.daytona.executeCodeFromAgent,
-              {
-                userId: args.userId,
-                agentId: args.agentId,
-                language: action.language,
-                code: action.code,
-                timeout: action.timeout,
-                taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
-              }
-            );
-            if (!codeResult.success) {
-              console.warn(`execute_code failed: ${codeResult.error}`);
-            }
-          } catch (codeError) {
-            console.warn("execute_code action failed:", codeError);
-          }
-        } else if (action.type === "execute_command") {
-          try {
-            const cmdResult = await ctx.runAction(
-              internal.functions.daytona.executeCommandFromAgent,
-              {
-                userId: args.userId,
-                agentId: args.agentId,
-                command: action.command,
-                workdir: action.workdir,
-                timeout: action.timeout,
-                taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
-              }
-            );
-            if (!cmdResult.success) {
-              console.warn(`execute_command failed: ${cmdResult.error}`);
-            }
-          } catch (cmdError) {
-            console.warn("execute_command action failed:", cmdError);
-          }
-        } else if (action.type === "create_knowledge_node") {
-          await ctx.runMutation(internal.functions.knowledgeGraph.createNodeFromAgent, {
-            userId: args.userId,
-            agentId: args.agentId,
-            title: action.title,
-            description: action.description,
-            content: action.content,
-            nodeType: action.nodeType,
-            tags: action.tags,
-          });
-        } else if (action.type === "link_knowledge_nodes") {
-          await ctx.runMutation(internal.functions.knowledgeGraph.linkNodesFromAgent, {
-            userId: args.userId,
-            sourceNodeId: action.sourceNodeId as Id<"knowledgeNodes">,
-            targetNodeId: action.targetNodeId as Id<"knowledgeNodes">,
-          });
-        } else if (action.type === "browser_navigate") {
-          // Start a new Browser Use session
-          try {
-            await ctx.runAction(internal.functions.browserProfiles.startBrowserSessionFromAgent, {
-              userId: args.userId,
-              agentId: args.agentId,
-              url: action.url,
-              profileId: action.profileId,
-              taskId: action.taskId ? (action.taskId as Id<"tasks">) : undefined,
-            });
-          } catch (browserError) {
-            console.warn("browser_navigate action failed:", browserError);
-          }
-        } else if (action.type === "browser_action") {
-          // Run a task on an existing Browser Use session
-          try {
-            await ctx.runAction(internal.functions.browserProfiles.runBrowserTaskFromAgent, {
-              userId: args.userId,
-              sessionId: action.sessionId,
-              task: action.task,
-              maxSteps: action.maxSteps,
-            });
-          } catch (browserError) {
-            console.warn("browser_action failed:", browserError);
-          }
-        }
+        await executeAgentAction(ctx, runContext, action, assistantResponse);
       } catch (actionError) {
         console.warn("Agent action execution failed:", actionError);
       }
     }
 
-    wfRecord("Execute actions", step8Start, "completed", `${parsedResponse.actions.length} dispatched`);
+    wfRecord("Execute actions", step8Start, "completed", `${pendingActions.length} dispatched`);
 
     const step9Start = Date.now();
     await ctx.runMutation(internal.agent.queries.saveMemory, {
@@ -1812,10 +3268,10 @@ export const processMessage = internalAction({
     });
 
     // 9. Attach workflow pipeline to any tasks that were updated
-    const updatedTaskIds = parsedResponse.actions
+    const updatedTaskIds = allActions
       .filter((a): a is UpdateTaskStatusAction => a.type === "update_task_status")
       .map((a) => a.taskId as Id<"tasks">);
-    const createdTaskIds = parsedResponse.actions
+    const createdTaskIds = allActions
       .filter((a): a is CreateTaskAction => a.type === "create_task")
       .map(() => null); // we don't have IDs for newly created tasks
     void createdTaskIds; // acknowledge but skip (no ID available)
@@ -1831,6 +3287,27 @@ export const processMessage = internalAction({
       }
     }
 
+    // 10. Record external MCP tool calls on the tasks this run worked on
+    if (runContext.toolCallLog.length > 0) {
+      const logTaskIds = new Set<Id<"tasks">>([
+        ...updatedTaskIds,
+        ...allActions
+          .filter((a): a is CallMcpToolAction => a.type === "call_mcp_tool" && !!a.taskId)
+          .map((a) => a.taskId as Id<"tasks">),
+      ]);
+      for (const taskId of logTaskIds) {
+        try {
+          await ctx.runMutation(internal.functions.board.appendToolCallLog, {
+            taskId,
+            userId: args.userId,
+            entries: runContext.toolCallLog,
+          });
+        } catch (logError) {
+          console.warn("Failed to save tool call log:", logError);
+        }
+      }
+    }
+
     return {
       response: assistantResponse,
       tokensUsed: result.tokensUsed,
@@ -2043,6 +3520,78 @@ export const autoGenerateGraph = internalAction({
   },
 });
 
+/**
+ * Run an action the owner approved from the approvals inbox. The stored JSON,
+ * or the owner's edit of it, is normalized again and runs with the caller
+ * context the agent had when it asked. Gates are not re-applied.
+ */
+export const executeApprovedAction = internalAction({
+  args: { approvalId: v.id("agentApprovals") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const approval: Doc<"agentApprovals"> | null = await ctx.runQuery(
+      internal.functions.approvals.getForExecution,
+      { approvalId: args.approvalId }
+    );
+    if (!approval || approval.status !== "approved") return null;
+
+    const candidate = parseJsonObject(approval.editedPayload ?? approval.payload);
+    const action = candidate ? normalizeAgentAction(candidate) : null;
+    let outcome: ActionExecutionResult;
+    if (!action || action.type !== approval.actionType) {
+      outcome = { ok: false, output: `The approved ${approval.actionType} action is not valid.` };
+    } else {
+      const securityPolicy: SecurityPolicy = await ctx.runQuery(
+        internal.functions.securityPolicies.getEffective,
+        { userId: approval.userId, agentId: approval.agentId }
+      );
+      let mcpTools: McpRuntimeTool[] = [];
+      try {
+        mcpTools = await ctx.runQuery(internal.functions.mcpConnections.getRuntimeTools, {
+          userId: approval.userId,
+        });
+      } catch (mcpError) {
+        console.warn("MCP tool load failed:", mcpError);
+      }
+      const run: ActionRunContext = {
+        userId: approval.userId,
+        agentId: approval.agentId,
+        teamId: approval.teamId,
+        channel: approval.channel,
+        callerId: approval.callerId,
+        mcpTools,
+        toolCallLog: [],
+        securityPolicy,
+        gatedActionTypes: [],
+      };
+      try {
+        outcome = await executeAgentAction(ctx, run, action, "");
+      } catch (actionError) {
+        console.warn("Approved action failed:", actionError);
+        outcome = { ok: false, output: getErrorMessage(actionError) };
+      }
+      if (action.type === "call_mcp_tool" && action.taskId && run.toolCallLog.length > 0) {
+        try {
+          await ctx.runMutation(internal.functions.board.appendToolCallLog, {
+            taskId: action.taskId as Id<"tasks">,
+            userId: approval.userId,
+            entries: run.toolCallLog,
+          });
+        } catch (logError) {
+          console.warn("Failed to save tool call log:", logError);
+        }
+      }
+    }
+
+    await ctx.runMutation(internal.functions.approvals.finish, {
+      approvalId: args.approvalId,
+      ok: outcome.ok,
+      output: outcome.output,
+    });
+    return null;
+  },
+});
+
 function buildAutoGenPrompt(
   skill: {
     name: string;
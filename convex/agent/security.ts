@@ -7,9 +7,28 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
+import { automationRunIdFromCaller, emitEvent } from "../functions/events";
 
 // Re-export pure functions for convenience
-export { scanInput, buildSystemPrompt, type SecurityScanResult } from "./securityUtils";
+export {
+  scanInput,
+  redactOutput,
+  buildSystemPrompt,
+  type SecurityPolicy,
+  type SecurityScanResult,
+} from "./securityUtils";
+
+const classifierResultValidator = v.object({
+  model: v.string(),
+  verdict: v.union(v.literal("injection"), v.literal("benign")),
+  confidence: v.number(),
+  threshold: v.number(),
+  rationale: v.string(),
+  cached: v.boolean(),
+});
+
+// Classifier verdicts are reused for a week
+const CLASSIFICATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 // Database operations for security logging
 export const logSecurityFlag = internalMutation({
@@ -25,10 +44,13 @@ export const logSecurityFlag = internalMutation({
     pattern: v.string(),
     inputSnippet: v.string(),
     action: v.string(),
+    classifier: v.optional(classifierResultValidator),
+    // Runtime caller, so flags raised by automation messages are attributed
+    callerId: v.optional(v.string()),
   },
   returns: v.id("securityFlags"),
   handler: async (ctx, args) => {
-    return await ctx.db.insert("securityFlags", {
+    const flagId = await ctx.db.insert("securityFlags", {
       userId: args.userId,
       source: args.source,
       flagType: args.flagType,
@@ -36,8 +58,66 @@ export const logSecurityFlag = internalMutation({
       pattern: args.pattern,
       inputSnippet: args.inputSnippet.substring(0, 200),
       action: args.action,
+      classifier: args.classifier,
       timestamp: Date.now(),
     });
+    await emitEvent(ctx, args.userId, {
+      type: "security.flag",
+      payload: {
+        source: args.source,
+        flagType: args.flagType,
+        severity: args.severity,
+        pattern: args.pattern,
+        action: args.action,
+      },
+    }, automationRunIdFromCaller(ctx, args.callerId));
+    return flagId;
+  },
+});
+
+// One output-side flag per redaction rule that fired. The snippet is taken
+// from the redacted text, so the secret itself is never stored.
+export const logOutputRedactions = internalMutation({
+  args: {
+    userId: v.id("users"),
+    source: v.string(),
+    redactions: v.array(
+      v.object({
+        ruleId: v.string(),
+        pattern: v.string(),
+        count: v.number(),
+      })
+    ),
+    redactedSnippet: v.string(),
+    callerId: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const automationRunId = automationRunIdFromCaller(ctx, args.callerId);
+    for (const redaction of args.redactions) {
+      await ctx.db.insert("securityFlags", {
+        userId: args.userId,
+        source: args.source,
+        flagType: "sensitive",
+        severity: "warn",
+        pattern: redaction.ruleId,
+        inputSnippet: args.redactedSnippet.substring(0, 200),
+        action: redaction.count > 1 ? `redacted x${redaction.count}` : "redacted",
+        direction: "output",
+        timestamp: Date.now(),
+      });
+      await emitEvent(ctx, args.userId, {
+        type: "security.flag",
+        payload: {
+          source: args.source,
+          flagType: "sensitive",
+          severity: "warn",
+          pattern: redaction.ruleId,
+          action: "redacted",
+        },
+      }, automationRunId);
+    }
+    return null;
   },
 });
 
@@ -55,12 +135,15 @@ export const getRecentSecurityFlags = internalQuery({
       flagType: v.union(
         v.literal("injection"),
         v.literal("sensitive"),
-        v.literal("exfiltration")
+        v.literal("exfiltration"),
+        v.literal("spoofing")
       ),
       severity: v.union(v.literal("warn"), v.literal("block")),
       pattern: v.string(),
       inputSnippet: v.string(),
       action: v.string(),
+      direction: v.optional(v.union(v.literal("input"), v.literal("output"))),
+      classifier: v.optional(classifierResultValidator),
       timestamp: v.number(),
     })
   ),
@@ -73,6 +156,74 @@ export const getRecentSecurityFlags = internalQuery({
   },
 });
 
+// Cached classifier verdict for this input, or null on a miss or once expired
+export const getCachedClassification = internalQuery({
+  args: {
+    userId: v.id("users"),
+    inputHash: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      model: v.string(),
+      verdict: v.union(v.literal("injection"), v.literal("benign")),
+      confidence: v.number(),
+      rationale: v.string(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const cached = await ctx.db
+      .query("injectionClassifications")
+      .withIndex("by_userId_inputHash", (q) =>
+        q.eq("userId", args.userId).eq("inputHash", args.inputHash)
+      )
+      .order("desc")
+      .first();
+    if (!cached || cached.expiresAt <= Date.now()) return null;
+    return {
+      model: cached.model,
+      verdict: cached.verdict,
+      confidence: cached.confidence,
+      rationale: cached.rationale,
+    };
+  },
+});
+
+export const cacheClassification = internalMutation({
+  args: {
+    userId: v.id("users"),
+    inputHash: v.string(),
+    model: v.string(),
+    verdict: v.union(v.literal("injection"), v.literal("benign")),
+    confidence: v.number(),
+    rationale: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.insert("injectionClassifications", {
+      ...args,
+      expiresAt: Date.now() + CLASSIFICATION_CACHE_TTL_MS,
+    });
+    return null;
+  },
+});
+
+// Drop expired classifier verdicts
+export const cleanupClassifications = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("injectionClassifications")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", Date.now()))
+      .take(500);
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+    return expired.length;
+  },
+});
+
 // Validate that caller has permission for the requested action
 export async function validatePermission(
   ctx: { db: { query: (table: string) => { withIndex: (name: string, fn: (q: unknown) => unknown) => { unique: () => Promise<unknown> } } } },
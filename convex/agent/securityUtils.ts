@@ -3,115 +3,379 @@
  *
  * Input sanitization, injection pattern detection, and system prompt hardening.
  * These are pure functions with no database access, safe to import from any runtime.
+ *
+ * Detection runs on named rules. A security policy (see
+ * convex/functions/securityPolicies.ts) can change a built-in rule's severity or
+ * turn it off, add its own rules, allow-list phrases, and set how strict each
+ * channel is. With no policy the built-in rules run at their default severity.
+ *
+ * Agent output goes through redactOutput before it leaves: the sensitive-data
+ * rules, internal record IDs, and the policy's own redaction rules are replaced
+ * in replies, task outcomes, feed posts, and outbound SMS and calls.
  */
 
-// Injection patterns to detect
-const INJECTION_PATTERNS = [
+export type SecurityRuleType = "injection" | "sensitive" | "exfiltration";
+export type SecurityRuleSeverity = "warn" | "block";
+export type SecurityStrictness = "relaxed" | "standard" | "strict";
+
+export const SECURITY_CHANNELS = [
+  "dashboard",
+  "api",
+  "mcp",
+  "webmcp",
+  "a2a",
+  "email",
+  "phone",
+] as const;
+
+export type SecurityChannel = (typeof SECURITY_CHANNELS)[number];
+
+export type SecurityRule = {
+  id: string;
+  type: SecurityRuleType;
+  pattern: string; // Regex source, matched case-insensitively
+  severity: SecurityRuleSeverity;
+  description?: string;
+};
+
+// Applied to agent output only. Matches become the replacement text.
+export type RedactionRule = {
+  id: string;
+  pattern: string; // Regex source, matched case-insensitively
+  replacement?: string; // Defaults to [REDACTED]
+  description?: string;
+};
+
+// Second-stage LLM check, see injectionClassifier.ts
+export type InjectionClassifierConfig = {
+  mode: "off" | "suspicious" | "public" | "all";
+  threshold: number; // Block at or above this confidence, 0 to 1
+  model?: string; // Overrides the cheap default for the first provider
+};
+
+export type SecurityPolicy = {
+  severityOverrides: Array<{ ruleId: string; severity: "off" | SecurityRuleSeverity }>;
+  customRules: Array<SecurityRule>;
+  redactionRules: Array<RedactionRule>;
+  allowPhrases: Array<string>;
+  channelStrictness: Partial<Record<SecurityChannel, SecurityStrictness>>;
+  classifier?: InjectionClassifierConfig; // Unset means off, or inherit for agents
+};
+
+type CompiledRule = {
+  id: string;
+  type: SecurityRuleType;
+  regex: RegExp;
+  severity: SecurityRuleSeverity;
+  description?: string;
+  // Extra check on each match, for patterns a regex alone over-matches
+  accept?: (match: string) => boolean;
+};
+
+function defineRule(
+  id: string,
+  severity: SecurityRuleSeverity,
+  description: string,
+  regex: RegExp
+): CompiledRule {
+  const type = id.slice(0, id.indexOf(".")) as SecurityRuleType;
+  return { id, type, regex, severity, description };
+}
+
+// Injection rules to detect
+const INJECTION_RULES: Array<CompiledRule> = [
   // Direct instruction overrides
-  /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i,
-  /disregard\s+(all\s+)?(your\s+)?(instructions?|rules?|guidelines?)/i,
-  /forget\s+(everything|all)\s+(you|your)/i,
+  defineRule("injection.ignore_instructions", "block", "Ignore previous instructions", /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i),
+  defineRule("injection.disregard_rules", "block", "Disregard your rules", /disregard\s+(all\s+)?(your\s+)?(instructions?|rules?|guidelines?)/i),
+  defineRule("injection.forget_everything", "block", "Forget everything you know", /forget\s+(everything|all)\s+(you|your)/i),
   // Role manipulation
-  /you\s+are\s+(now|actually)\s+(a\s+)?(?!my\s+agent)/i,
-  /pretend\s+(to\s+)?be\s+(?!helpful)/i,
-  /act\s+as\s+(if|though)\s+you/i,
+  defineRule("injection.role_override", "block", "You are now ...", /you\s+are\s+(now|actually)\s+(a\s+)?(?!my\s+agent)/i),
+  defineRule("injection.pretend", "block", "Pretend to be ...", /pretend\s+(to\s+)?be\s+(?!helpful)/i),
+  defineRule("injection.act_as", "block", "Act as if you ...", /act\s+as\s+(if|though)\s+you/i),
   // System prompt extraction
-  /what\s+(is|are)\s+your\s+(system\s+)?prompt/i,
-  /reveal\s+your\s+(instructions|prompts?|rules)/i,
-  /show\s+me\s+your\s+(original|initial)\s+(instructions?|prompt)/i,
+  defineRule("injection.prompt_question", "block", "What is your system prompt", /what\s+(is|are)\s+your\s+(system\s+)?prompt/i),
+  defineRule("injection.reveal_instructions", "block", "Reveal your instructions", /reveal\s+your\s+(instructions|prompts?|rules)/i),
+  defineRule("injection.show_original_prompt", "block", "Show me your original prompt", /show\s+me\s+your\s+(original|initial)\s+(instructions?|prompt)/i),
   // Output manipulation
-  /output\s+(only|just)\s+the\s+(following|text)/i,
-  /respond\s+with\s+(only|just)\s+"[^"]+"/i,
+  defineRule("injection.output_only", "block", "Output only the following", /output\s+(only|just)\s+the\s+(following|text)/i),
+  defineRule("injection.respond_with_only", "block", "Respond with only a fixed string", /respond\s+with\s+(only|just)\s+"[^"]+"/i),
   // Jailbreaking attempts
-  /DAN\s*[:=]|do\s+anything\s+now/i,
-  /developer\s+mode|sudo\s+mode/i,
-  /jailbreak|bypass\s+(your\s+)?restrictions/i,
+  defineRule("injection.dan", "block", "DAN / do anything now", /DAN\s*[:=]|do\s+anything\s+now/i),
+  defineRule("injection.developer_mode", "block", "Developer or sudo mode", /developer\s+mode|sudo\s+mode/i),
+  defineRule("injection.jailbreak", "block", "Jailbreak or bypass restrictions", /jailbreak|bypass\s+(your\s+)?restrictions/i),
   // Encoding attacks
-  /base64\s*[:=]\s*[A-Za-z0-9+/=]+/i,
-  /hex\s*[:=]\s*[0-9a-fA-F]+/i,
-] as const;
+  defineRule("injection.base64_payload", "block", "Inline base64 payload", /base64\s*[:=]\s*[A-Za-z0-9+/=]+/i),
+  defineRule("injection.hex_payload", "block", "Inline hex payload", /hex\s*[:=]\s*[0-9a-fA-F]+/i),
+];
 
-// Patterns that suggest sensitive data handling
-const SENSITIVE_PATTERNS = [
+// Rules that suggest sensitive data handling
+const SENSITIVE_RULES: Array<CompiledRule> = [
   // API keys and credentials
-  /(?:api[_-]?key|secret[_-]?key|password|token|bearer)\s*[:=]\s*\S+/i,
-  /sk-[a-zA-Z0-9]{20,}/i, // OpenAI-style key
-  /ghp_[a-zA-Z0-9]{36}/i, // GitHub PAT
-  /xox[baprs]-[0-9a-zA-Z-]+/i, // Slack token
+  defineRule("sensitive.credential", "warn", "Key, password, or token assignment", /(?:api[_-]?key|secret[_-]?key|password|token|bearer)\s*[:=]\s*\S+/i),
+  defineRule("sensitive.openai_key", "warn", "OpenAI-style key", /sk-[a-zA-Z0-9]{20,}/i),
+  defineRule("sensitive.github_token", "warn", "GitHub personal access token", /ghp_[a-zA-Z0-9]{36}/i),
+  defineRule("sensitive.slack_token", "warn", "Slack token", /xox[baprs]-[0-9a-zA-Z-]+/i),
   // Credit card numbers (basic pattern)
-  /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/,
+  defineRule("sensitive.card_number", "warn", "Card number", /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/),
   // SSN
-  /\b\d{3}[-\s]?\d{2}[-\s]?\d{4}\b/,
+  defineRule("sensitive.ssn", "warn", "US social security number", /\b\d{3}[-\s]?\d{2}[-\s]?\d{4}\b/),
   // Email addresses (for PII awareness)
-  /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/,
-] as const;
+  defineRule("sensitive.email", "warn", "Email address", /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/),
+];
 
-// Data exfiltration patterns
-const EXFILTRATION_PATTERNS = [
+// Data exfiltration rules
+const EXFILTRATION_RULES: Array<CompiledRule> = [
   // Requesting to send data externally
-  /send\s+(this|my|the)\s+(data|info|details)\s+to\s+\S+/i,
-  /post\s+to\s+https?:\/\//i,
-  /curl|wget|fetch\s*\(/i,
-  /upload\s+(this|my|the)\s+(file|data)/i,
-] as const;
+  defineRule("exfiltration.send_data", "block", "Send this data to ...", /send\s+(this|my|the)\s+(data|info|details)\s+to\s+\S+/i),
+  defineRule("exfiltration.post_url", "block", "Post to a URL", /post\s+to\s+https?:\/\//i),
+  defineRule("exfiltration.curl", "block", "curl command", /\bcurl\b/i),
+  defineRule("exfiltration.wget", "block", "wget command", /\bwget\b/i),
+  defineRule("exfiltration.fetch", "block", "fetch() call", /\bfetch\s*\(/i),
+  defineRule("exfiltration.upload", "block", "Upload this file", /upload\s+(this|my|the)\s+(file|data)/i),
+];
+
+// Convex IDs are 32-char lowercase base32 strings. Require both letters and
+// digits so plain words and numbers are left alone.
+function looksLikeInternalId(match: string): boolean {
+  return /[a-z]/i.test(match) && /[0-9]/.test(match);
+}
+
+// Rules applied to agent output only. Inbound messages may quote IDs freely.
+const OUTPUT_RULES: Array<CompiledRule> = [
+  {
+    ...defineRule("sensitive.internal_id", "warn", "Internal record ID (output only)", /\b[a-z0-9]{28,36}\b/i),
+    accept: looksLikeInternalId,
+  },
+];
+
+const BUILT_IN_RULES = [...INJECTION_RULES, ...SENSITIVE_RULES, ...EXFILTRATION_RULES];
+
+const REDACTED = "[REDACTED]";
+
+// Built-in rules as policies and the settings UI see them
+export const BUILT_IN_SECURITY_RULES: Array<SecurityRule> = [
+  ...BUILT_IN_RULES,
+  ...OUTPUT_RULES,
+].map((builtIn) => ({
+  id: builtIn.id,
+  type: builtIn.type,
+  pattern: builtIn.regex.source,
+  severity: builtIn.severity,
+  description: builtIn.description,
+}));
+
+export const EMPTY_SECURITY_POLICY: SecurityPolicy = {
+  severityOverrides: [],
+  customRules: [],
+  redactionRules: [],
+  allowPhrases: [],
+  channelStrictness: {},
+};
+
+const MAX_CUSTOM_RULES = 50;
+const MAX_ALLOW_PHRASES = 100;
+const MAX_PATTERN_LENGTH = 300;
+const MAX_PHRASE_LENGTH = 200;
+const RULE_ID_PATTERN = /^[a-z0-9_.-]{1,64}$/;
 
 export type SecurityScanResult = {
   safe: boolean;
   severity: "safe" | "warn" | "block";
+  strictness: SecurityStrictness;
   flags: Array<{
-    type: "injection" | "sensitive" | "exfiltration";
+    ruleId: string;
+    type: SecurityRuleType;
     pattern: string;
     match: string;
-    severity: "warn" | "block";
+    severity: SecurityRuleSeverity;
   }>;
   sanitizedInput: string;
 };
 
+export type OutputRedactionResult = {
+  text: string;
+  redactions: Array<{
+    ruleId: string;
+    pattern: string;
+    count: number;
+  }>;
+};
+
 /**
- * Scan input text for security threats
+ * Problems that keep a policy from being saved, empty when it is valid
  */
-export function scanInput(input: string): SecurityScanResult {
-  const flags: SecurityScanResult["flags"] = [];
+export function validateSecurityPolicy(policy: SecurityPolicy): Array<string> {
+  const errors: Array<string> = [];
+  const builtInIds = new Set(BUILT_IN_SECURITY_RULES.map((rule) => rule.id));
+  const customIds = new Set<string>();
 
-  // Check for injection patterns (always block)
-  for (const pattern of INJECTION_PATTERNS) {
-    const match = input.match(pattern);
-    if (match) {
-      flags.push({
-        type: "injection",
-        pattern: pattern.source,
-        match: match[0].substring(0, 50),
-        severity: "block",
-      });
+  if (policy.customRules.length > MAX_CUSTOM_RULES) {
+    errors.push(`A policy can have at most ${MAX_CUSTOM_RULES} custom rules`);
+  }
+  for (const rule of policy.customRules) {
+    if (!RULE_ID_PATTERN.test(rule.id)) {
+      errors.push(`Rule id "${rule.id}" must be 1-64 lowercase letters, digits, dots, dashes, or underscores`);
+    } else if (builtInIds.has(rule.id) || customIds.has(rule.id)) {
+      errors.push(`Rule id "${rule.id}" is already in use`);
+    }
+    customIds.add(rule.id);
+    if (!rule.pattern.trim() || rule.pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`Rule "${rule.id}" needs a pattern of 1-${MAX_PATTERN_LENGTH} characters`);
+      continue;
+    }
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch {
+      errors.push(`Rule "${rule.id}" has an invalid pattern`);
     }
   }
 
-  // Check for sensitive data (warn but don't block)
-  for (const pattern of SENSITIVE_PATTERNS) {
-    const match = input.match(pattern);
-    if (match) {
-      flags.push({
-        type: "sensitive",
-        pattern: pattern.source,
-        match: "[REDACTED]",
-        severity: "warn",
-      });
+  if (policy.redactionRules.length > MAX_CUSTOM_RULES) {
+    errors.push(`A policy can have at most ${MAX_CUSTOM_RULES} redaction rules`);
+  }
+  for (const rule of policy.redactionRules) {
+    if (!RULE_ID_PATTERN.test(rule.id)) {
+      errors.push(`Rule id "${rule.id}" must be 1-64 lowercase letters, digits, dots, dashes, or underscores`);
+    } else if (builtInIds.has(rule.id) || customIds.has(rule.id)) {
+      errors.push(`Rule id "${rule.id}" is already in use`);
+    }
+    customIds.add(rule.id);
+    if (!rule.pattern.trim() || rule.pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`Rule "${rule.id}" needs a pattern of 1-${MAX_PATTERN_LENGTH} characters`);
+      continue;
+    }
+    try {
+      new RegExp(rule.pattern, "gi");
+    } catch {
+      errors.push(`Rule "${rule.id}" has an invalid pattern`);
     }
   }
 
-  // Check for exfiltration patterns (block)
-  for (const pattern of EXFILTRATION_PATTERNS) {
-    const match = input.match(pattern);
-    if (match) {
-      flags.push({
-        type: "exfiltration",
-        pattern: pattern.source,
-        match: match[0].substring(0, 50),
-        severity: "block",
-      });
+  for (const override of policy.severityOverrides) {
+    if (!builtInIds.has(override.ruleId)) {
+      errors.push(`Unknown built-in rule "${override.ruleId}"`);
     }
   }
 
+  if (policy.classifier) {
+    const { threshold, model } = policy.classifier;
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      errors.push("Classifier threshold must be between 0 and 1");
+    }
+    if (model !== undefined && (!model.trim() || model.length > 100)) {
+      errors.push("Classifier model must be 1-100 characters");
+    }
+  }
+
+  if (policy.allowPhrases.length > MAX_ALLOW_PHRASES) {
+    errors.push(`A policy can have at most ${MAX_ALLOW_PHRASES} allow-listed phrases`);
+  }
+  if (policy.allowPhrases.some((phrase) => phrase.length > MAX_PHRASE_LENGTH)) {
+    errors.push(`Allow-listed phrases can be at most ${MAX_PHRASE_LENGTH} characters`);
+  }
+
+  return errors;
+}
+
+/**
+ * Layer an agent's policy over the owner's policy. The agent's overrides,
+ * custom and redaction rules, channel settings, and classifier settings win;
+ * allow-listed phrases add up.
+ */
+export function mergeSecurityPolicies(
+  base: SecurityPolicy,
+  override: SecurityPolicy
+): SecurityPolicy {
+  const overriddenIds = new Set(override.severityOverrides.map((o) => o.ruleId));
+  const customIds = new Set(override.customRules.map((rule) => rule.id));
+  const redactionIds = new Set(override.redactionRules.map((rule) => rule.id));
+  return {
+    severityOverrides: [
+      ...base.severityOverrides.filter((o) => !overriddenIds.has(o.ruleId)),
+      ...override.severityOverrides,
+    ],
+    customRules: [
+      ...base.customRules.filter((rule) => !customIds.has(rule.id)),
+      ...override.customRules,
+    ],
+    redactionRules: [
+      ...base.redactionRules.filter((rule) => !redactionIds.has(rule.id)),
+      ...override.redactionRules,
+    ],
+    allowPhrases: [...new Set([...base.allowPhrases, ...override.allowPhrases])],
+    channelStrictness: { ...base.channelStrictness, ...override.channelStrictness },
+    classifier: override.classifier ?? base.classifier,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Blank out allow-listed phrases so no rule can match inside them
+function stripAllowedPhrases(input: string, phrases: Array<string>): string {
+  let stripped = input;
+  for (const phrase of phrases) {
+    if (!phrase.trim()) continue;
+    stripped = stripped.replace(new RegExp(escapeRegExp(phrase.trim()), "gi"), " ");
+  }
+  return stripped;
+}
+
+// Relaxed channels only warn; strict channels block on any injection or
+// exfiltration match. Sensitive data is never promoted to a block.
+function applyStrictness(
+  rule: CompiledRule,
+  strictness: SecurityStrictness
+): SecurityRuleSeverity {
+  if (strictness === "relaxed") return "warn";
+  if (strictness === "strict" && rule.type !== "sensitive") return "block";
+  return rule.severity;
+}
+
+function compilePolicyRules(policy: SecurityPolicy): Array<CompiledRule> {
+  const overrides = new Map(policy.severityOverrides.map((o) => [o.ruleId, o.severity]));
+  const rules: Array<CompiledRule> = [];
+  for (const builtIn of BUILT_IN_RULES) {
+    const severity = overrides.get(builtIn.id) ?? builtIn.severity;
+    if (severity === "off") continue;
+    rules.push({ ...builtIn, severity });
+  }
+  for (const custom of policy.customRules) {
+    try {
+      rules.push({ ...custom, regex: new RegExp(custom.pattern, "i") });
+    } catch {
+      // Saved policies are validated; skip anything that no longer compiles
+    }
+  }
+  return rules;
+}
+
+/**
+ * Scan input text for security threats
+ */
+export function scanInput(
+  input: string,
+  policy: SecurityPolicy = EMPTY_SECURITY_POLICY,
+  channel?: SecurityChannel
+): SecurityScanResult {
+  const flags: SecurityScanResult["flags"] = [];
+  const strictness = (channel && policy.channelStrictness[channel]) || "standard";
+  const scanned = stripAllowedPhrases(input, policy.allowPhrases);
+
+  for (const rule of compilePolicyRules(policy)) {
+    const match = scanned.match(rule.regex);
+    if (!match) continue;
+    flags.push({
+      ruleId: rule.id,
+      type: rule.type,
+      pattern: rule.regex.source,
+      // Never echo sensitive data back, even in logs
+      match: rule.type === "sensitive" ? "[REDACTED]" : match[0].substring(0, 50),
+      severity: applyStrictness(rule, strictness),
+    });
+  }
+
   // Determine overall severity
   const hasBlock = flags.some((f) => f.severity === "block");
   const hasWarn = flags.some((f) => f.severity === "warn");
@@ -119,11 +383,61 @@ export function scanInput(input: string): SecurityScanResult {
   return {
     safe: flags.length === 0,
     severity: hasBlock ? "block" : hasWarn ? "warn" : "safe",
+    strictness,
     flags,
     sanitizedInput: sanitizeInput(input),
   };
 }
 
+/**
+ * Redact sensitive data from agent output before it leaves the runtime.
+ * Built-in sensitive rules the policy turned off are skipped.
+ */
+export function redactOutput(
+  output: string,
+  policy: SecurityPolicy = EMPTY_SECURITY_POLICY
+): OutputRedactionResult {
+  const overrides = new Map(policy.severityOverrides.map((o) => [o.ruleId, o.severity]));
+  const rules: Array<{ id: string; regex: RegExp; replacement: string; accept?: CompiledRule["accept"] }> = [];
+  for (const builtIn of [...SENSITIVE_RULES, ...OUTPUT_RULES]) {
+    if (overrides.get(builtIn.id) === "off") continue;
+    rules.push({
+      id: builtIn.id,
+      regex: new RegExp(builtIn.regex.source, "gi"),
+      replacement: REDACTED,
+      accept: builtIn.accept,
+    });
+  }
+  for (const custom of policy.redactionRules) {
+    try {
+      rules.push({
+        id: custom.id,
+        regex: new RegExp(custom.pattern, "gi"),
+        replacement: custom.replacement ?? REDACTED,
+      });
+    } catch {
+      // Saved policies are validated; skip anything that no longer compiles
+    }
+  }
+
+  let text = output;
+  const redactions: OutputRedactionResult["redactions"] = [];
+  for (const rule of rules) {
+    let count = 0;
+    text = text.replace(rule.regex, (match) => {
+      // Empty matches and rejected matches stay as they are
+      if (!match || (rule.accept && !rule.accept(match))) return match;
+      count += 1;
+      return rule.replacement;
+    });
+    if (count > 0) {
+      redactions.push({ ruleId: rule.id, pattern: rule.regex.source, count });
+    }
+  }
+
+  return { text, redactions };
+}
+
 /**
  * Sanitize input by removing/escaping dangerous content
  */
@@ -131,13 +445,13 @@ function sanitizeInput(input: string): string {
   let sanitized = input;
 
   // Remove obvious injection attempts
-  for (const pattern of INJECTION_PATTERNS) {
-    sanitized = sanitized.replace(pattern, "[BLOCKED]");
+  for (const rule of INJECTION_RULES) {
+    sanitized = sanitized.replace(rule.regex, "[BLOCKED]");
   }
 
   // Redact sensitive data
-  for (const pattern of SENSITIVE_PATTERNS) {
-    sanitized = sanitized.replace(pattern, "[REDACTED]");
+  for (const rule of SENSITIVE_RULES) {
+    sanitized = sanitized.replace(rule.regex, "[REDACTED]");
   }
 
   // Remove potential encoding attacks
@@ -210,15 +524,16 @@ ${normalizedRestrictions.map((r) => `- ${r}`).join("\n")}
 
 Supported action block format:
 <app_actions>
-[{"type":"create_task","description":"...","isPublic":false},{"type":"create_feed_item","title":"...","content":"...","isPublic":false},{"type":"create_skill","name":"...","bio":"...","capabilities":[{"name":"...","description":"..."}]},{"type":"update_task_status","taskId":"...","status":"completed","outcomeSummary":"...","outcomeLinks":["..."]},{"type":"move_task","taskId":"...","boardColumnName":"Done"},{"type":"update_skill","skillId":"...","name":"...","bio":"...","capabilities":[{"name":"...","description":"..."}]},{"type":"generate_audio","text":"...","taskId":"..."},{"type":"create_knowledge_node","title":"...","description":"Short summary under 200 chars","content":"Full markdown content","nodeType":"concept","tags":["tag1","tag2"]},{"type":"link_knowledge_nodes","sourceNodeId":"...","targetNodeId":"..."}]
+[{"type":"create_task","description":"...","isPublic":false},{"type":"create_feed_item","title":"...","content":"...","isPublic":false},{"type":"create_skill","name":"...","bio":"...","capabilities":[{"name":"...","description":"..."}]},{"type":"update_task_status","taskId":"...","status":"completed","outcomeSummary":"...","outcomeLinks":["..."]},{"type":"move_task","taskId":"...","boardColumnName":"Done"},{"type":"update_skill","skillId":"...","name":"...","bio":"...","capabilities":[{"name":"...","description":"..."}]},{"type":"generate_audio","text":"...","taskId":"..."},{"type":"create_knowledge_node","title":"...","description":"Short summary under 200 chars","content":"Full markdown content","nodeType":"concept","tags":["tag1","tag2"]},{"type":"link_knowledge_nodes","sourceNodeId":"...","targetNodeId":"..."},{"type":"send_sms","to":"+15550100000","text":"..."},{"type":"place_call","to":"+15550100000","message":"..."}]
 </app_actions>
 
 Action rules:
 - Keep user-facing explanation in normal text, then append the block on new lines.
-- Only use supported action types: create_task, create_feed_item, create_skill, update_task_status, move_task, update_skill, generate_audio, create_knowledge_node, link_knowledge_nodes.
+- Only use supported action types: create_task, create_feed_item, create_skill, update_task_status, move_task, update_skill, generate_audio, create_knowledge_node, link_knowledge_nodes, send_sms, place_call.
 - When a task requests an audio file, audio narration, or asks to "read" or "speak" a report aloud, use generate_audio with the text to narrate and the taskId.
 - When you learn something important, discover a reusable technique, or identify a key concept, use create_knowledge_node to save it to the knowledge graph. nodeType can be: concept, technique, reference, moc (map of content), claim, or procedure.
 - Use link_knowledge_nodes to connect related knowledge nodes by their IDs.
+- Use send_sms or place_call only when the owner asked for a text or call (for example a reminder, or a callback when a task completes). They only reach numbers on your outbound allow-list and are refused during quiet hours.
 - Always keep fields concise and valid.
 - Default to isPublic=false unless the user explicitly asks to post publicly.
 
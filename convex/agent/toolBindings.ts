@@ -0,0 +1,362 @@
+/**
+ * Skill Tool Bindings (Pure Helpers)
+ *
+ * Argument validation and template rendering for `skills.toolDeclarations`
+ * entries that bind to a concrete handler (Composio, Daytona, HTTP, or an LLM
+ * prompt). The executor lives in convex/functions/skillTools.ts.
+ * No database access, safe to import from any runtime.
+ */
+
+export type ToolBinding =
+  | { type: "composio"; action: string }
+  | { type: "daytona"; command: string; workdir?: string; timeoutMs?: number }
+  | {
+      type: "http";
+      url: string;
+      method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+      headers?: Record<string, string>;
+      bodyTemplate?: string;
+    }
+  | { type: "llm"; promptTemplate: string };
+
+export interface DeclaredTool {
+  name: string;
+  description: string;
+  inputSchema?: unknown;
+  binding?: ToolBinding;
+}
+
+// MCP tool names: letters, digits, underscore, dash, and dot
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+// Names the MCP server answers itself
+const RESERVED_TOOL_NAMES = ["chat"];
+
+const MAX_VALIDATION_ERRORS = 10;
+
+type JsonSchema = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against the JSON Schema subset tool authors use in
+ * practice: type, properties, required, additionalProperties, items, enum,
+ * const, string/number/array bounds, pattern, and anyOf/oneOf/allOf.
+ * Unknown keywords are ignored. Returns human-readable errors, empty if valid.
+ */
+export function validateJsonSchema(schema: unknown, value: unknown, path = "arguments"): string[] {
+  const errors: string[] = [];
+  collectSchemaErrors(schema, value, path, errors);
+  return errors.slice(0, MAX_VALIDATION_ERRORS);
+}
+
+function collectSchemaErrors(schema: unknown, value: unknown, path: string, errors: string[]): void {
+  if (errors.length >= MAX_VALIDATION_ERRORS) return;
+  if (schema === false) {
+    errors.push(`${path} is not allowed`);
+    return;
+  }
+  if (!isPlainObject(schema)) return;
+  const s: JsonSchema = schema;
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type.map(String) : [String(s.type)];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(" or ")}, got ${jsonType(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path} must be one of ${s.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (s.const !== undefined && !deepEqual(s.const, value)) {
+    errors.push(`${path} must equal ${JSON.stringify(s.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      errors.push(`${path} must be at least ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      errors.push(`${path} must be at most ${s.maxLength} characters`);
+    }
+    if (typeof s.pattern === "string") {
+      try {
+        if (!new RegExp(s.pattern, "u").test(value)) {
+          errors.push(`${path} must match pattern ${s.pattern}`);
+        }
+      } catch {
+        // Invalid patterns in the declaration are ignored rather than failing every call
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) {
+      errors.push(`${path} must be >= ${s.minimum}`);
+    }
+    if (typeof s.maximum === "number" && value > s.maximum) {
+      errors.push(`${path} must be <= ${s.maximum}`);
+    }
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      errors.push(`${path} must be > ${s.exclusiveMinimum}`);
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      errors.push(`${path} must be < ${s.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      errors.push(`${path} must have at least ${s.minItems} items`);
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      errors.push(`${path} must have at most ${s.maxItems} items`);
+    }
+    if (s.items !== undefined && !Array.isArray(s.items)) {
+      value.forEach((item, index) => collectSchemaErrors(s.items, item, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(s.properties) ? s.properties : {};
+    if (Array.isArray(s.required)) {
+      for (const key of s.required) {
+        if (typeof key === "string" && !(key in value)) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        collectSchemaErrors(properties[key], child, `${path}.${key}`, errors);
+      } else if (s.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (isPlainObject(s.additionalProperties)) {
+        collectSchemaErrors(s.additionalProperties, child, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) collectSchemaErrors(sub, value, path, errors);
+  }
+  if (Array.isArray(s.anyOf)) {
+    const passes = s.anyOf.some((sub) => validateJsonSchema(sub, value, path).length === 0);
+    if (!passes) errors.push(`${path} does not match any allowed schema`);
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub) => validateJsonSchema(sub, value, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path} must match exactly one allowed schema`);
+  }
+}
+
+function lookupPath(args: Record<string, unknown>, path: string): unknown {
+  let current: unknown = args;
+  for (const part of path.split(".")) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+function stringifyArg(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Replace `{{name}}` or `{{nested.name}}` placeholders with argument values.
+ * `encode` escapes each value for its target (URL, shell, JSON).
+ */
+export function renderTemplate(
+  template: string,
+  args: Record<string, unknown>,
+  encode: (value: unknown) => string = stringifyArg
+): string {
+  return template.replace(/\{\{\s*([A-Za-z0-9_.]+)\s*\}\}/g, (_match, path: string) =>
+    encode(lookupPath(args, path))
+  );
+}
+
+export function encodeUrlArg(value: unknown): string {
+  return encodeURIComponent(stringifyArg(value));
+}
+
+// Single-quote for POSIX shells so arguments can never break out of the command
+export function encodeShellArg(value: unknown): string {
+  return `'${stringifyArg(value).replace(/'/g, `'\\''`)}'`;
+}
+
+export function encodeJsonArg(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+type Ipv4Octets = [number, number, number, number];
+
+// Four octets of a dotted IPv4 address, or null for anything else
+function parseIpv4(host: string): Ipv4Octets | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (!match) return null;
+  const octets: Ipv4Octets = [Number(match[1]), Number(match[2]), Number(match[3]), Number(match[4])];
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+// Eight 16-bit groups of an IPv6 address, or null for anything else
+function parseIpv6(host: string): number[] | null {
+  if (!host.includes(":")) return null;
+  let text = host;
+  const lastColon = text.lastIndexOf(":");
+  const embedded = parseIpv4(text.slice(lastColon + 1));
+  if (embedded) {
+    const high = ((embedded[0] << 8) | embedded[1]).toString(16);
+    const low = ((embedded[2] << 8) | embedded[3]).toString(16);
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) =>
+    part === ""
+      ? []
+      : part.split(":").map((group) => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  const head = parseGroups(halves[0] ?? "");
+  const tail = halves.length === 2 ? parseGroups(halves[1] ?? "") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  return groups.some(Number.isNaN) ? null : groups;
+}
+
+// Unspecified, loopback, private, CGNAT, link-local, multicast, and reserved
+function isBlockedIpv4([a, b]: Ipv4Octets): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+/**
+ * Unspecified, loopback, unique local, link-local, and multicast addresses,
+ * plus any form that carries an IPv4 address: compatible (`::a.b.c.d`),
+ * mapped (`::ffff:a.b.c.d`), translated, NAT64 (`64:ff9b::/96`), and 6to4.
+ */
+function isBlockedIpv6(groups: number[]): boolean {
+  const [first = 0, second = 0, third = 0, , fifth = 0, sixth = 0, seventh = 0, eighth = 0] = groups;
+  const lowIpv4: Ipv4Octets = [seventh >> 8, seventh & 0xff, eighth >> 8, eighth & 0xff];
+  const zeroPrefix = groups.slice(0, 4).every((group) => group === 0);
+  if (zeroPrefix && (fifth === 0 || fifth === 0xffff) && (sixth === 0 || sixth === 0xffff)) {
+    return isBlockedIpv4(lowIpv4);
+  }
+  if (first === 0x64 && second === 0xff9b) return isBlockedIpv4(lowIpv4);
+  if (first === 0x2002) return isBlockedIpv4([second >> 8, second & 0xff, third >> 8, third & 0xff]);
+  return (
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xff80) === 0xfe80 ||
+    (first & 0xff00) === 0xff00
+  );
+}
+
+/**
+ * Reject outbound URLs (HTTP bindings, MCP servers) that use plain HTTP or
+ * point at private network hosts. IP literals are parsed and checked by
+ * range, so alternate spellings of a private address are caught too.
+ * Returns an error message, or null when the URL is allowed.
+ */
+export function checkOutboundUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return "URL is not valid";
+  }
+  if (url.protocol !== "https:") return "URL must use https";
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  const ipv4 = parseIpv4(host);
+  const ipv6 = ipv4 ? null : parseIpv6(host);
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal") ||
+    (ipv4 && isBlockedIpv4(ipv4)) ||
+    (ipv6 && isBlockedIpv6(ipv6)) ||
+    (!ipv6 && host.includes(":"))
+  ) {
+    return "URL cannot target private or local hosts";
+  }
+  return null;
+}
+
+/**
+ * Check a list of declarations before it is saved.
+ * Returns the first problem found, or null when the list is valid.
+ */
+export function checkToolDeclarations(declarations: DeclaredTool[]): string | null {
+  const seen = new Set<string>();
+  for (const declaration of declarations) {
+    if (!TOOL_NAME_PATTERN.test(declaration.name)) {
+      return `Tool name "${declaration.name}" must be 1-64 letters, digits, "_", "-", or "."`;
+    }
+    if (RESERVED_TOOL_NAMES.includes(declaration.name)) {
+      return `Tool name "${declaration.name}" is reserved`;
+    }
+    if (seen.has(declaration.name)) {
+      return `Tool name "${declaration.name}" is declared more than once`;
+    }
+    seen.add(declaration.name);
+
+    if (declaration.inputSchema !== undefined) {
+      if (!isPlainObject(declaration.inputSchema) || declaration.inputSchema.type !== "object") {
+        return `Tool "${declaration.name}" inputSchema must be a JSON Schema with type "object"`;
+      }
+    }
+
+    const binding = declaration.binding;
+    if (!binding) continue;
+    if (binding.type === "composio" && !binding.action.trim()) {
+      return `Tool "${declaration.name}" needs a Composio action name`;
+    }
+    if (binding.type === "daytona" && !binding.command.trim()) {
+      return `Tool "${declaration.name}" needs a command`;
+    }
+    if (binding.type === "llm" && !binding.promptTemplate.trim()) {
+      return `Tool "${declaration.name}" needs a prompt template`;
+    }
+    if (binding.type === "http") {
+      const urlError = checkOutboundUrl(renderTemplate(binding.url, {}, () => "x"));
+      if (urlError) return `Tool "${declaration.name}": ${urlError}`;
+      // Placeholders may fill the path and query only, never the host
+      const origin = new URL(renderTemplate(binding.url, {}, () => "x")).origin;
+      if (new URL(renderTemplate(binding.url, {}, () => "y")).origin !== origin) {
+        return `Tool "${declaration.name}": HTTP binding host cannot contain placeholders`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,398 @@
+/**
+ * Agent Tool Schemas (Pure Definitions)
+ *
+ * JSON Schema declarations for the first-party app actions the runtime can
+ * execute. These are sent to providers that support native function calling
+ * so the model sees each tool result before it answers. Providers without tool
+ * support keep using the `<app_actions>` text block parsed in runtime.ts.
+ * No database access, safe to import from any runtime.
+ */
+
+// Minimal JSON Schema shape shared by OpenAI, Anthropic, and Gemini tool specs
+export interface ToolParameterSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  enum?: string[];
+  items?: ToolParameterSchema;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+}
+
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema & { type: "object" };
+}
+
+// Providers whose chat APIs accept native tool declarations.
+// OpenAI-compatible hosts share the OpenAI tool_calls wire format.
+const NATIVE_TOOL_PROVIDERS = [
+  "openai",
+  "openrouter",
+  "anthropic",
+  "google",
+  "deepseek",
+  "mistral",
+  "xai",
+] as const;
+
+export function supportsNativeTools(provider: string): boolean {
+  return (NATIVE_TOOL_PROVIDERS as readonly string[]).includes(provider);
+}
+
+const capabilityListSchema: ToolParameterSchema = {
+  type: "array",
+  description: "Capabilities this skill provides",
+  items: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Short capability name" },
+      description: { type: "string", description: "What the capability does" },
+    },
+    required: ["name", "description"],
+  },
+};
+
+export const AGENT_RUNTIME_TOOLS: AgentToolDefinition[] = [
+  {
+    name: "create_task",
+    description: "Create a new task on the owner's board.",
+    parameters: {
+      type: "object",
+      properties: {
+        description: { type: "string", description: "What needs to be done" },
+        isPublic: { type: "boolean", description: "Show on the public profile. Defaults to false." },
+      },
+      required: ["description"],
+    },
+  },
+  {
+    name: "create_feed_item",
+    description: "Post a status update to the owner's activity feed.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Short headline under 120 chars" },
+        content: { type: "string", description: "Optional body text" },
+        isPublic: { type: "boolean", description: "Show on the public feed. Defaults to false." },
+      },
+      required: ["title"],
+    },
+  },
+  {
+    name: "create_skill",
+    description: "Create a new skill for this agent.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        bio: { type: "string" },
+        capabilities: capabilityListSchema,
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "update_task_status",
+    description:
+      "Change a task's status. When completing or failing a task, your final answer becomes the task outcome.",
+    parameters: {
+      type: "object",
+      properties: {
+        taskId: { type: "string" },
+        status: {
+          type: "string",
+          enum: ["pending", "in_progress", "completed", "failed"],
+        },
+        outcomeSummary: { type: "string", description: "Short summary of the result" },
+        outcomeLinks: { type: "array", items: { type: "string" } },
+      },
+      required: ["taskId", "status"],
+    },
+  },
+  {
+    name: "move_task",
+    description: "Move a task to another board column by id or name.",
+    parameters: {
+      type: "object",
+      properties: {
+        taskId: { type: "string" },
+        boardColumnId: { type: "string" },
+        boardColumnName: { type: "string", description: "For example Done" },
+      },
+      required: ["taskId"],
+    },
+  },
+  {
+    name: "update_skill",
+    description: "Update an existing skill.",
+    parameters: {
+      type: "object",
+      properties: {
+        skillId: { type: "string" },
+        name: { type: "string" },
+        bio: { type: "string" },
+        capabilities: capabilityListSchema,
+        isActive: { type: "boolean" },
+      },
+      required: ["skillId"],
+    },
+  },
+  {
+    name: "create_subtask",
+    description: "Create a subtask under an existing task, optionally for a teammate agent.",
+    parameters: {
+      type: "object",
+      properties: {
+        parentTaskId: { type: "string" },
+        description: { type: "string" },
+        isPublic: { type: "boolean" },
+        targetAgentSlug: { type: "string", description: "Slug of the agent that should do the work" },
+        blockedByTaskIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "Task ids that must complete before this subtask starts",
+        },
+      },
+      required: ["parentTaskId", "description"],
+    },
+  },
+  {
+    name: "delegate_to_agent",
+    description: "Hand a piece of work to another of the owner's agents and get its reply.",
+    parameters: {
+      type: "object",
+      properties: {
+        targetAgentSlug: { type: "string" },
+        taskDescription: { type: "string" },
+      },
+      required: ["targetAgentSlug", "taskDescription"],
+    },
+  },
+  {
+    name: "generate_image",
+    description: "Request an image for a prompt.",
+    parameters: {
+      type: "object",
+      properties: {
+        prompt: { type: "string" },
+        taskId: { type: "string" },
+      },
+      required: ["prompt"],
+    },
+  },
+  {
+    name: "generate_audio",
+    description: "Narrate text with the agent's voice and attach the audio to a task.",
+    parameters: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        taskId: { type: "string" },
+      },
+      required: ["text"],
+    },
+  },
+  {
+    name: "call_tool",
+    description: "Execute a connected SaaS tool through Composio.",
+    parameters: {
+      type: "object",
+      properties: {
+        toolName: { type: "string", description: "Composio action name" },
+        input: { type: "object", description: "Arguments for the tool" },
+      },
+      required: ["toolName"],
+    },
+  },
+  {
+    name: "create_knowledge_node",
+    description: "Save a concept, technique, or procedure to the knowledge graph.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        description: { type: "string", description: "Short summary under 200 chars" },
+        content: { type: "string", description: "Full markdown content" },
+        nodeType: {
+          type: "string",
+          enum: ["concept", "technique", "reference", "moc", "claim", "procedure"],
+        },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "content"],
+    },
+  },
+  {
+    name: "link_knowledge_nodes",
+    description: "Link two knowledge graph nodes by id.",
+    parameters: {
+      type: "object",
+      properties: {
+        sourceNodeId: { type: "string" },
+        targetNodeId: { type: "string" },
+      },
+      required: ["sourceNodeId", "targetNodeId"],
+    },
+  },
+  {
+    name: "browser_navigate",
+    description: "Start a Browser Use session at a URL.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        profileId: { type: "string" },
+        taskId: { type: "string" },
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "browser_action",
+    description: "Run a task in an existing Browser Use session.",
+    parameters: {
+      type: "object",
+      properties: {
+        sessionId: { type: "string" },
+        task: { type: "string" },
+        maxSteps: { type: "integer" },
+      },
+      required: ["sessionId", "task"],
+    },
+  },
+  {
+    name: "send_sms",
+    description:
+      "Text a phone number from this agent's number. Only numbers on the agent's outbound allow-list work, and nothing is sent during the owner's quiet hours.",
+    parameters: {
+      type: "object",
+      properties: {
+        to: { type: "string", description: "Destination number in E.164 format, e.g. +15550100000" },
+        text: { type: "string", description: "Message text, under 1600 chars" },
+      },
+      required: ["to", "text"],
+    },
+  },
+  {
+    name: "place_call",
+    description:
+      "Call a phone number from this agent's number, speak a short message in the agent's voice, then hang up. Same allow-list and quiet hours as send_sms.",
+    parameters: {
+      type: "object",
+      properties: {
+        to: { type: "string", description: "Destination number in E.164 format" },
+        message: { type: "string", description: "What to say, under 1000 chars" },
+      },
+      required: ["to", "message"],
+    },
+  },
+];
+
+/**
+ * Gemini rejects OBJECT schemas without properties, so free-form objects are
+ * declared as JSON-encoded strings instead. The runtime accepts both shapes.
+ */
+export function toGeminiSchema(schema: ToolParameterSchema): ToolParameterSchema {
+  if (schema.type === "object" && !schema.properties) {
+    return {
+      type: "string",
+      description: `${schema.description ?? "Object"} (JSON-encoded)`,
+    };
+  }
+  return {
+    ...schema,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+      ? Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        )
+      : undefined,
+  };
+}
+
+// Discovered tool on an external MCP server (see convex/functions/mcpClient.ts)
+export interface McpRuntimeTool {
+  connectionId: string;
+  serverName: string;
+  toolName: string;
+  description?: string;
+  inputSchema?: unknown;
+}
+
+const SCHEMA_TYPES = ["object", "string", "number", "integer", "boolean", "array"] as const;
+
+/**
+ * Reduce an arbitrary JSON Schema from an MCP server to the subset every
+ * provider accepts. Unknown keywords are dropped.
+ */
+function toToolParameterSchema(raw: unknown): ToolParameterSchema {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { type: "string" };
+  }
+  const schema = raw as Record<string, unknown>;
+  const rawType = Array.isArray(schema.type)
+    ? schema.type.find((entry) => entry !== "null")
+    : schema.type;
+  const type = (SCHEMA_TYPES as readonly unknown[]).includes(rawType)
+    ? (rawType as ToolParameterSchema["type"])
+    : schema.properties
+      ? "object"
+      : "string";
+
+  const result: ToolParameterSchema = { type };
+  if (typeof schema.description === "string") result.description = schema.description.slice(0, 500);
+  if (Array.isArray(schema.enum) && schema.enum.every((entry) => typeof entry === "string")) {
+    result.enum = schema.enum as string[];
+  }
+  if (type === "array") result.items = toToolParameterSchema(schema.items);
+  if (type === "object" && schema.properties && typeof schema.properties === "object") {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, unknown>).map(([key, value]) => [
+        key,
+        toToolParameterSchema(value),
+      ])
+    );
+    if (Array.isArray(schema.required)) {
+      result.required = schema.required.filter((key): key is string => typeof key === "string");
+    }
+  }
+  return result;
+}
+
+function toToolNamePart(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "x";
+}
+
+/**
+ * Native tool definitions for discovered MCP tools, named
+ * `mcp_<server>__<tool>` within the 64 character provider limit. Returns the
+ * definitions plus a lookup from tool name back to the MCP tool.
+ */
+export function buildMcpToolDefinitions(tools: McpRuntimeTool[]): {
+  definitions: AgentToolDefinition[];
+  lookup: Map<string, McpRuntimeTool>;
+} {
+  const definitions: AgentToolDefinition[] = [];
+  const lookup = new Map<string, McpRuntimeTool>();
+
+  for (const tool of tools) {
+    const base = `mcp_${toToolNamePart(tool.serverName).slice(0, 20)}__${toToolNamePart(tool.toolName)}`.slice(0, 60);
+    let name = base;
+    for (let suffix = 2; lookup.has(name); suffix++) {
+      name = `${base.slice(0, 58)}_${suffix}`;
+    }
+
+    const parameters = toToolParameterSchema(tool.inputSchema);
+    lookup.set(name, tool);
+    definitions.push({
+      name,
+      description: `[${tool.serverName}] ${tool.description ?? tool.toolName}`.slice(0, 1000),
+      parameters:
+        parameters.type === "object"
+          ? { ...parameters, type: "object" }
+          : { type: "object", properties: {} },
+    });
+  }
+  return { definitions, lookup };
+}
@@ -2,7 +2,8 @@
 
 /**
  * Text-to-Speech actions for ElevenLabs and OpenAI TTS.
- * Generates audio from text and stores it in Convex file storage.
+ * Generates audio from text and stores it in Convex file storage, including
+ * cached audio for phone calls.
  * Also lists available ElevenLabs voices for the voice picker.
  */
 import { v } from "convex/values";
@@ -23,6 +24,107 @@ interface ElevenLabsVoice {
   preview_url?: string;
 }
 
+// Voice settings plus API key, as returned by queries.getVoiceConfig
+interface VoiceConfig {
+  provider: "elevenlabs" | "openai";
+  apiKey: string;
+  voiceId?: string;
+  modelId?: string;
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  useSpeakerBoost?: boolean;
+  openaiVoice?: string;
+}
+
+async function synthesizeAudio(voiceConfig: VoiceConfig, text: string): Promise<Blob> {
+  if (voiceConfig.provider === "elevenlabs") {
+    const truncated = text.slice(0, ELEVENLABS_MAX_CHARS);
+    const voiceId = voiceConfig.voiceId || "EXAVITQu4vr4xnSDxMaL"; // Rachel default
+    const modelId = voiceConfig.modelId || "eleven_multilingual_v2";
+
+    const response = await fetch(
+      `${ELEVENLABS_API_BASE}/text-to-speech/${voiceId}`,
+      {
+        method: "POST",
+        headers: {
+          "xi-api-key": voiceConfig.apiKey,
+          "Content-Type": "application/json",
+          Accept: "audio/mpeg",
+        },
+        body: JSON.stringify({
+          text: truncated,
+          model_id: modelId,
+          voice_settings: {
+            stability: voiceConfig.stability ?? 0.5,
+            similarity_boost: voiceConfig.similarityBoost ?? 0.75,
+            style: voiceConfig.style ?? 0,
+            use_speaker_boost: voiceConfig.useSpeakerBoost ?? true,
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      if (response.status === 401 || response.status === 403) {
+        throw new Error("ElevenLabs API key is invalid or account quota exceeded. Check your ElevenLabs credentials in agent settings.");
+      }
+      throw new Error(`ElevenLabs TTS error: ${response.status} ${errorText}`);
+    }
+
+    return await response.blob();
+  }
+
+  // OpenAI TTS
+  const truncated = text.slice(0, OPENAI_TTS_MAX_CHARS);
+  const voice = voiceConfig.openaiVoice || "nova";
+
+  const response = await fetch("https://api.openai.com/v1/audio/speech", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${voiceConfig.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "tts-1",
+      input: truncated,
+      voice,
+      response_format: "mp3",
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (response.status === 401 || response.status === 403) {
+      throw new Error("OpenAI API key is invalid or has insufficient permissions for TTS. Check your credentials in agent settings.");
+    }
+    throw new Error(`OpenAI TTS error: ${response.status} ${errorText}`);
+  }
+
+  return await response.blob();
+}
+
+// Cache key for phone audio: every setting that changes the sound, plus the
+// text. The API key is left out so rotating it keeps the cache.
+async function getAudioCacheKey(voiceConfig: VoiceConfig, text: string): Promise<string> {
+  const voice = {
+    provider: voiceConfig.provider,
+    voiceId: voiceConfig.voiceId,
+    modelId: voiceConfig.modelId,
+    stability: voiceConfig.stability,
+    similarityBoost: voiceConfig.similarityBoost,
+    style: voiceConfig.style,
+    useSpeakerBoost: voiceConfig.useSpeakerBoost,
+    openaiVoice: voiceConfig.openaiVoice,
+  };
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify({ voice, text }))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
 /**
  * Generate audio from text using the agent's configured voice provider.
  * Stores the audio in Convex file storage and returns a URL.
@@ -53,73 +155,7 @@ export const generateSpeech = internalAction({
     const text = args.text.trim();
     if (!text) return null;
 
-    let audioBlob: Blob;
-
-    if (voiceConfig.provider === "elevenlabs") {
-      const truncated = text.slice(0, ELEVENLABS_MAX_CHARS);
-      const voiceId = voiceConfig.voiceId || "EXAVITQu4vr4xnSDxMaL"; // Rachel default
-      const modelId = voiceConfig.modelId || "eleven_multilingual_v2";
-
-      const response = await fetch(
-        `${ELEVENLABS_API_BASE}/text-to-speech/${voiceId}`,
-        {
-          method: "POST",
-          headers: {
-            "xi-api-key": voiceConfig.apiKey,
-            "Content-Type": "application/json",
-            Accept: "audio/mpeg",
-          },
-          body: JSON.stringify({
-            text: truncated,
-            model_id: modelId,
-            voice_settings: {
-              stability: voiceConfig.stability ?? 0.5,
-              similarity_boost: voiceConfig.similarityBoost ?? 0.75,
-              style: voiceConfig.style ?? 0,
-              use_speaker_boost: voiceConfig.useSpeakerBoost ?? true,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        if (response.status === 401 || response.status === 403) {
-          throw new Error("ElevenLabs API key is invalid or account quota exceeded. Check your ElevenLabs credentials in agent settings.");
-        }
-        throw new Error(`ElevenLabs TTS error: ${response.status} ${errorText}`);
-      }
-
-      audioBlob = await response.blob();
-    } else {
-      // OpenAI TTS
-      const truncated = text.slice(0, OPENAI_TTS_MAX_CHARS);
-      const voice = voiceConfig.openaiVoice || "nova";
-
-      const response = await fetch("https://api.openai.com/v1/audio/speech", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${voiceConfig.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "tts-1",
-          input: truncated,
-          voice,
-          response_format: "mp3",
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        if (response.status === 401 || response.status === 403) {
-          throw new Error("OpenAI API key is invalid or has insufficient permissions for TTS. Check your credentials in agent settings.");
-        }
-        throw new Error(`OpenAI TTS error: ${response.status} ${errorText}`);
-      }
-
-      audioBlob = await response.blob();
-    }
+    const audioBlob = await synthesizeAudio(voiceConfig, text);
 
     // Store in Convex file storage
     const storageId: Id<"_storage"> = await ctx.storage.store(audioBlob);
@@ -137,6 +173,52 @@ export const generateSpeech = internalAction({
   },
 });
 
+/**
+ * Audio URL for a line spoken on a phone call, in the agent's configured
+ * voice. Reuses cached audio for the same voice and text. Returns null when
+ * no voice is configured or synthesis fails, so the caller falls back to the
+ * provider's own text-to-speech.
+ */
+export const generatePhoneAudio = internalAction({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    text: v.string(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args): Promise<string | null> => {
+    const text = args.text.trim();
+    if (!text) return null;
+
+    try {
+      const voiceConfig = await ctx.runQuery(internal.agent.queries.getVoiceConfig, {
+        userId: args.userId,
+        agentId: args.agentId,
+      });
+      if (!voiceConfig) return null;
+
+      const cacheKey = await getAudioCacheKey(voiceConfig, text);
+      const cached = await ctx.runQuery(internal.functions.phoneWebhooks.getCachedAudio, {
+        agentId: args.agentId,
+        cacheKey,
+      });
+      if (cached) return cached;
+
+      const storageId = await ctx.storage.store(await synthesizeAudio(voiceConfig, text));
+      await ctx.runMutation(internal.functions.phoneWebhooks.cacheAudio, {
+        userId: args.userId,
+        agentId: args.agentId,
+        cacheKey,
+        storageId,
+      });
+      return await ctx.storage.getUrl(storageId);
+    } catch (error) {
+      console.error("Phone TTS failed, falling back to provider voice:", error);
+      return null;
+    }
+  },
+});
+
 /**
  * Public-facing action for generating speech from the frontend.
  * Wraps the internal action with auth checks.
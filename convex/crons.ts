@@ -8,6 +8,7 @@ import { internal } from "./_generated/api";
 import { v } from "convex/values";
 import { internalAction, internalMutation } from "./_generated/server";
 import type { Id } from "./_generated/dataModel";
+import { DEFAULT_SCHEDULE_TIMEZONE, nextCronRun } from "./lib/cron";
 
 const crons = cronJobs();
 
@@ -250,6 +251,14 @@ export const rateLimitCleanup = internalMutation({
 
 crons.interval("rate limit cleanup", { hours: 1 }, internal.crons.rateLimitCleanup, {});
 
+// Drop rate limit buckets unused since before this month
+crons.interval(
+  "rate limit bucket cleanup",
+  { hours: 24 },
+  internal.functions.rateLimits.cleanupBuckets,
+  {}
+);
+
 // ============================================================
 // Expired Permissions Cleanup
 // ============================================================
@@ -275,6 +284,41 @@ export const permissionsCleanup = internalMutation({
 
 crons.interval("permissions cleanup", { hours: 6 }, internal.crons.permissionsCleanup, {});
 
+// Expire idle MCP Streamable HTTP sessions
+crons.interval("mcp session cleanup", { hours: 6 }, internal.functions.mcpSessions.cleanup, {});
+
+// Expire phone webhook replay receipts
+crons.interval(
+  "webhook receipt cleanup",
+  { hours: 6 },
+  internal.functions.phoneWebhooks.cleanupReceipts,
+  {}
+);
+
+// Delete expired synthesized call audio
+crons.interval(
+  "phone audio cache cleanup",
+  { minutes: 30 },
+  internal.functions.phoneWebhooks.cleanupAudioCache,
+  {}
+);
+
+// Delete expired prompt-injection classifier verdicts
+crons.interval(
+  "injection classifier cache cleanup",
+  { hours: 6 },
+  internal.agent.security.cleanupClassifications,
+  {}
+);
+
+// Clear finished and abandoned streaming reply records
+crons.interval(
+  "streaming messages cleanup",
+  { minutes: 30 },
+  internal.functions.streamingMessages.cleanup,
+  {}
+);
+
 // ============================================================
 // Agent Scheduler - Run scheduled agents (auto/cron mode)
 // ============================================================
@@ -293,54 +337,71 @@ export const agentScheduler = internalMutation({
 
     for (const agent of scheduledAgents) {
       const scheduling = agent.scheduling!;
-      const shouldRun = 
-        scheduling.mode === "auto" ||
-        (scheduling.mode === "cron" && scheduling.nextRun && scheduling.nextRun <= now);
-
-      if (shouldRun) {
-        // Record that we're running
-        await ctx.db.patch(agent._id, {
-          scheduling: {
-            ...scheduling,
-            lastRun: now,
-            nextRun: scheduling.mode === "cron" ? now + 24 * 60 * 60 * 1000 : undefined,
-          },
-          updatedAt: now,
-        });
-
-        // If thinking is enabled and not paused, create a thinking observation
-        if (agent.thinking?.enabled && !agent.thinking.isPaused) {
-          await ctx.db.insert("agentThoughts", {
-            userId: agent.userId,
-            agentId: agent._id,
-            type: "observation",
-            content: "Scheduled run triggered. Checking for pending tasks and goals.",
-            context: scheduling.mode === "cron" ? `Cron schedule: ${scheduling.cronSpec}` : "Auto mode",
-            createdAt: now,
-          });
+      const timezone = scheduling.timezone ?? DEFAULT_SCHEDULE_TIMEZONE;
+
+      if (scheduling.mode === "cron") {
+        // Agents saved before cron evaluation have no nextRun yet: schedule
+        // the first occurrence instead of running now
+        if (scheduling.nextRun === undefined) {
+          const nextRun = nextCronRun(scheduling.cronSpec ?? "", timezone, now);
+          if (nextRun !== null) {
+            await ctx.db.patch(agent._id, { scheduling: { ...scheduling, nextRun } });
+          }
+          continue;
         }
+        if (scheduling.nextRun > now) continue;
+      }
 
-        // Create audit log entry
-        await ctx.db.insert("auditLog", {
-          userId: agent.userId,
-          action: "agent_scheduled_run",
-          resource: "scheduler",
-          callerType: "cron",
-          status: "success",
-          details: {
-            agentId: agent._id,
-            agentName: agent.name,
-            mode: scheduling.mode,
-          },
-          timestamp: now,
-        });
+      // Record that we're running. Occurrences missed while the scheduler
+      // was down collapse into this one run; nextRun moves past now.
+      await ctx.db.patch(agent._id, {
+        scheduling: {
+          ...scheduling,
+          lastRun: now,
+          nextRun:
+            scheduling.mode === "cron"
+              ? nextCronRun(scheduling.cronSpec ?? "", timezone, now) ?? undefined
+              : undefined,
+        },
+        updatedAt: now,
+      });
 
-        // Schedule actual task processing for this agent
-        await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
+      // If thinking is enabled and not paused, create a thinking observation
+      if (agent.thinking?.enabled && !agent.thinking.isPaused) {
+        await ctx.db.insert("agentThoughts", {
           userId: agent.userId,
           agentId: agent._id,
+          type: "observation",
+          content: "Scheduled run triggered. Checking for pending tasks and goals.",
+          context:
+            scheduling.mode === "cron"
+              ? `Cron schedule: ${scheduling.cronSpec} (${timezone})`
+              : "Auto mode",
+          createdAt: now,
         });
       }
+
+      // Create audit log entry
+      await ctx.db.insert("auditLog", {
+        userId: agent.userId,
+        action: "agent_scheduled_run",
+        resource: "scheduler",
+        callerType: "cron",
+        status: "success",
+        details: {
+          agentId: agent._id,
+          agentName: agent.name,
+          mode: scheduling.mode,
+          scheduledFor: scheduling.mode === "cron" ? scheduling.nextRun : undefined,
+        },
+        timestamp: now,
+      });
+
+      // Schedule actual task processing for this agent
+      await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
+        userId: agent.userId,
+        agentId: agent._id,
+      });
     }
 
     return null;
@@ -485,6 +546,47 @@ export const processAgentTasks = internalAction({
 
 crons.interval("agent scheduler", { minutes: 5 }, internal.crons.agentScheduler, {});
 
+// ============================================================
+// User Schedules - Run due userSchedules jobs (digests, reminders)
+// ============================================================
+
+crons.interval(
+  "user schedule runner",
+  { minutes: 5 },
+  internal.functions.userSchedules.dispatchDue,
+  {}
+);
+
+// Drop userSchedules run history older than 30 days
+crons.interval(
+  "user schedule run cleanup",
+  { hours: 24 },
+  internal.functions.userSchedules.cleanupRuns,
+  {}
+);
+
+// ============================================================
+// Recurring Tasks - Spawn board task instances from recurring templates
+// ============================================================
+
+crons.interval(
+  "recurring task spawner",
+  { minutes: 5 },
+  internal.functions.recurringTasks.spawnDue,
+  {}
+);
+
+// ============================================================
+// Agent Approvals - Expire requests nobody decided on in time
+// ============================================================
+
+crons.interval(
+  "agent approval expiry",
+  { minutes: 5 },
+  internal.functions.approvals.expireDue,
+  {}
+);
+
 // ============================================================
 // Automation Control Plane - Centralized dispatcher
 // ============================================================
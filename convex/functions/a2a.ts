@@ -1,10 +1,15 @@
 import { v } from "convex/values";
+import { paginationOptsValidator, paginationResultValidator } from "convex/server";
+import type { WithoutSystemFields } from "convex/server";
 import { internalAction, internalMutation } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
 import { authedMutation, authedQuery } from "../lib/functions";
-import type { Id } from "../_generated/dataModel";
+import type { Doc, Id } from "../_generated/dataModel";
+import { emitEvent } from "./events";
 
 type A2aDirection = "inbound" | "outbound";
+type A2aMessageFields = WithoutSystemFields<Doc<"a2aMessages">>;
 type SendResult = { threadId: string; accepted: boolean };
 type SummarizeResult = {
   summaryMemoryId: Id<"agentMemory">;
@@ -12,6 +17,30 @@ type SummarizeResult = {
   messageCount: number;
 };
 type ProcessInboxResult = { response: string; blocked: boolean; tokensUsed: number };
+type MigrateResult = { migrated: number; isDone: boolean };
+
+const PREVIEW_CHARS = 180;
+const MIGRATION_BATCH_SIZE = 200;
+
+const directionValidator = v.union(v.literal("inbound"), v.literal("outbound"));
+
+const messageFieldsValidator = {
+  userId: v.id("users"),
+  threadId: v.string(),
+  agentId: v.optional(v.id("agents")),
+  direction: directionValidator,
+  content: v.string(),
+  peerAgentId: v.optional(v.id("agents")),
+  peerRemoteAgentId: v.optional(v.id("a2aRemoteAgents")),
+  peerName: v.optional(v.string()),
+  hopCount: v.number(),
+  deliveryStatus: v.optional(
+    v.union(v.literal("queued"), v.literal("sent"), v.literal("failed"))
+  ),
+  remoteTaskId: v.optional(v.string()),
+  remoteContextId: v.optional(v.string()),
+  remoteState: v.optional(v.string()),
+};
 
 function getDirection(
   metadata: unknown
@@ -34,123 +63,166 @@ function buildThreadId(fromAgentId: string, toAgentId: string): string {
   return `${a}:${b}`;
 }
 
+// Insert a message and keep its thread row (counts, previews, unread) in step
+async function insertMessage(
+  ctx: MutationCtx,
+  message: A2aMessageFields
+): Promise<Id<"a2aMessages">> {
+  const messageId = await ctx.db.insert("a2aMessages", message);
+  const isInbound = message.direction === "inbound";
+  const unread = isInbound && message.readAt === undefined ? 1 : 0;
+  const preview = message.content.slice(0, PREVIEW_CHARS);
+
+  const thread = await ctx.db
+    .query("a2aThreads")
+    .withIndex("by_userId_threadId", (q) =>
+      q.eq("userId", message.userId).eq("threadId", message.threadId)
+    )
+    .unique();
+
+  if (!thread) {
+    await ctx.db.insert("a2aThreads", {
+      userId: message.userId,
+      threadId: message.threadId,
+      agentId: message.agentId,
+      peerAgentId: message.peerAgentId,
+      peerRemoteAgentId: message.peerRemoteAgentId,
+      peerName: message.peerName,
+      inboundCount: isInbound ? 1 : 0,
+      outboundCount: isInbound ? 0 : 1,
+      unreadCount: unread,
+      lastInboundAt: isInbound ? message.createdAt : undefined,
+      lastOutboundAt: isInbound ? undefined : message.createdAt,
+      inboundPreview: isInbound ? preview : undefined,
+      outboundPreview: isInbound ? undefined : preview,
+      remoteContextId: message.remoteContextId,
+      lastMessageAt: message.createdAt,
+      createdAt: message.createdAt,
+    });
+    return messageId;
+  }
+
+  // Backfilled rows can arrive out of order, so only newer messages move
+  // the thread's timestamps and previews
+  const lastAt = isInbound ? thread.lastInboundAt : thread.lastOutboundAt;
+  const isLatest = lastAt === undefined || message.createdAt >= lastAt;
+  await ctx.db.patch(thread._id, {
+    agentId: thread.agentId ?? message.agentId,
+    peerAgentId: thread.peerAgentId ?? message.peerAgentId,
+    peerRemoteAgentId: thread.peerRemoteAgentId ?? message.peerRemoteAgentId,
+    peerName: message.peerName ?? thread.peerName,
+    inboundCount: thread.inboundCount + (isInbound ? 1 : 0),
+    outboundCount: thread.outboundCount + (isInbound ? 0 : 1),
+    unreadCount: thread.unreadCount + unread,
+    ...(isLatest
+      ? isInbound
+        ? { lastInboundAt: message.createdAt, inboundPreview: preview }
+        : { lastOutboundAt: message.createdAt, outboundPreview: preview }
+      : {}),
+    remoteContextId: message.remoteContextId ?? thread.remoteContextId,
+    lastMessageAt: Math.max(thread.lastMessageAt, message.createdAt),
+  });
+  return messageId;
+}
+
+const threadItemFields = {
+  threadId: v.string(),
+  lastMessageAt: v.number(),
+  messageCount: v.number(),
+  unreadCount: v.number(),
+  preview: v.string(),
+};
+
 export const getInboxThreads = authedQuery({
   args: {
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
-  returns: v.array(
+  returns: paginationResultValidator(
     v.object({
-      threadId: v.string(),
-      lastMessageAt: v.number(),
-      messageCount: v.number(),
+      ...threadItemFields,
       fromAgentId: v.optional(v.id("agents")),
       fromAgentName: v.optional(v.string()),
-      preview: v.string(),
     })
   ),
   handler: async (ctx, args) => {
-    const memories = await ctx.db
-      .query("agentMemory")
-      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+    // Threads with no inbound messages have no lastInboundAt and sort first,
+    // so the range skips them
+    const result = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId_lastInboundAt", (q) =>
+        q.eq("userId", ctx.userId).gt("lastInboundAt", 0)
+      )
       .order("desc")
-      .take(600);
-
-    const inbound = memories.filter(
-      (memory) => memory.source === "a2a" && getDirection(memory.metadata) === "inbound"
-    );
-
-    const threadMap = new Map<string, (typeof inbound)[number][]>();
-    for (const memory of inbound) {
-      const threadId = getThreadId(memory.metadata);
-      if (!threadId) continue;
-      const current = threadMap.get(threadId) ?? [];
-      current.push(memory);
-      threadMap.set(threadId, current);
-    }
-
-    const summaries = await Promise.all(
-      Array.from(threadMap.entries()).map(async ([threadId, rows]) => {
-        const sorted = rows.sort((a, b) => a.createdAt - b.createdAt);
-        const latest = sorted[sorted.length - 1]!;
-        const fromAgentId = latest.metadata?.peerAgentId as
-          | (typeof latest.agentId)
-          | undefined;
-        const fromAgent = fromAgentId ? await ctx.db.get(fromAgentId) : null;
+      .paginate(args.paginationOpts);
 
+    const page = await Promise.all(
+      result.page.map(async (thread) => {
+        const fromAgent = thread.peerAgentId ? await ctx.db.get(thread.peerAgentId) : null;
         return {
-          threadId,
-          lastMessageAt: latest.createdAt,
-          messageCount: rows.length,
-          fromAgentId,
-          fromAgentName: fromAgent?.name,
-          preview: latest.content.slice(0, 180),
+          threadId: thread.threadId,
+          lastMessageAt: thread.lastInboundAt ?? thread.lastMessageAt,
+          messageCount: thread.inboundCount,
+          unreadCount: thread.unreadCount,
+          fromAgentId: thread.peerAgentId,
+          fromAgentName: fromAgent?.name ?? thread.peerName,
+          preview: thread.inboundPreview ?? "",
         };
       })
     );
 
-    return summaries
-      .sort((a, b) => b.lastMessageAt - a.lastMessageAt)
-      .slice(0, args.limit ?? 50);
+    return { ...result, page };
   },
 });
 
 export const getOutboxThreads = authedQuery({
   args: {
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
-  returns: v.array(
+  returns: paginationResultValidator(
     v.object({
-      threadId: v.string(),
-      lastMessageAt: v.number(),
-      messageCount: v.number(),
+      ...threadItemFields,
       toAgentId: v.optional(v.id("agents")),
       toAgentName: v.optional(v.string()),
-      preview: v.string(),
     })
   ),
   handler: async (ctx, args) => {
-    const memories = await ctx.db
-      .query("agentMemory")
-      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+    const result = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId_lastOutboundAt", (q) =>
+        q.eq("userId", ctx.userId).gt("lastOutboundAt", 0)
+      )
       .order("desc")
-      .take(600);
-
-    const outbound = memories.filter(
-      (memory) => memory.source === "a2a" && getDirection(memory.metadata) === "outbound"
-    );
-
-    const threadMap = new Map<string, (typeof outbound)[number][]>();
-    for (const memory of outbound) {
-      const threadId = getThreadId(memory.metadata);
-      if (!threadId) continue;
-      const current = threadMap.get(threadId) ?? [];
-      current.push(memory);
-      threadMap.set(threadId, current);
-    }
-
-    const summaries = await Promise.all(
-      Array.from(threadMap.entries()).map(async ([threadId, rows]) => {
-        const sorted = rows.sort((a, b) => a.createdAt - b.createdAt);
-        const latest = sorted[sorted.length - 1]!;
-        const toAgentId = latest.metadata?.peerAgentId as
-          | (typeof latest.agentId)
-          | undefined;
-        const toAgent = toAgentId ? await ctx.db.get(toAgentId) : null;
+      .paginate(args.paginationOpts);
 
+    const page = await Promise.all(
+      result.page.map(async (thread) => {
+        const toAgent = thread.peerAgentId ? await ctx.db.get(thread.peerAgentId) : null;
         return {
-          threadId,
-          lastMessageAt: latest.createdAt,
-          messageCount: rows.length,
-          toAgentId,
-          toAgentName: toAgent?.name,
-          preview: latest.content.slice(0, 180),
+          threadId: thread.threadId,
+          lastMessageAt: thread.lastOutboundAt ?? thread.lastMessageAt,
+          messageCount: thread.outboundCount,
+          unreadCount: thread.unreadCount,
+          toAgentId: thread.peerAgentId,
+          toAgentName: toAgent?.name ?? thread.peerName,
+          preview: thread.outboundPreview ?? "",
         };
       })
     );
 
-    return summaries
-      .sort((a, b) => b.lastMessageAt - a.lastMessageAt)
-      .slice(0, args.limit ?? 50);
+    return { ...result, page };
+  },
+});
+
+// Number of unread inbound messages across all threads, for nav badges
+export const getUnreadCount = authedQuery({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const threads = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+      .take(500);
+    return threads.reduce((total, thread) => total + thread.unreadCount, 0);
   },
 });
 
@@ -161,42 +233,72 @@ export const getThreadMessages = authedQuery({
   },
   returns: v.array(
     v.object({
-      _id: v.id("agentMemory"),
+      _id: v.id("a2aMessages"),
       createdAt: v.number(),
       content: v.string(),
-      direction: v.union(v.literal("inbound"), v.literal("outbound")),
+      direction: directionValidator,
       agentId: v.optional(v.id("agents")),
       peerAgentId: v.optional(v.id("agents")),
+      peerRemoteAgentId: v.optional(v.id("a2aRemoteAgents")),
+      deliveryStatus: v.optional(v.string()),
+      readAt: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
-    const memories = await ctx.db
-      .query("agentMemory")
-      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+    const messages = await ctx.db
+      .query("a2aMessages")
+      .withIndex("by_userId_threadId", (q) =>
+        q.eq("userId", ctx.userId).eq("threadId", args.threadId)
+      )
       .order("desc")
-      .take(1000);
-
-    const messages = memories
-      .filter(
-        (memory) =>
-          memory.source === "a2a" &&
-          getThreadId(memory.metadata) === args.threadId &&
-          getDirection(memory.metadata) !== null
+      .take(Math.min(Math.max(args.limit ?? 100, 1), 500));
+
+    return messages.reverse().map((message) => ({
+      _id: message._id,
+      createdAt: message.createdAt,
+      content: message.content,
+      direction: message.direction,
+      agentId: message.agentId,
+      peerAgentId: message.peerAgentId,
+      peerRemoteAgentId: message.peerRemoteAgentId,
+      deliveryStatus: message.deliveryStatus,
+      readAt: message.readAt,
+    }));
+  },
+});
+
+// Mark every inbound message in a thread as read
+export const markThreadRead = authedMutation({
+  args: {
+    threadId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const thread = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId_threadId", (q) =>
+        q.eq("userId", ctx.userId).eq("threadId", args.threadId)
       )
-      .sort((a, b) => a.createdAt - b.createdAt)
-      .slice(-(args.limit ?? 100))
-      .map((memory) => ({
-        _id: memory._id,
-        createdAt: memory.createdAt,
-        content: memory.content,
-        direction: getDirection(memory.metadata)!,
-        agentId: memory.agentId,
-        peerAgentId: memory.metadata?.peerAgentId as
-          | (typeof memory.agentId)
-          | undefined,
-      }));
+      .unique();
+    if (!thread || thread.unreadCount === 0) return null;
+
+    // Unread messages are the newest ones, so walk back until all are found
+    const now = Date.now();
+    let remaining = thread.unreadCount;
+    for await (const message of ctx.db
+      .query("a2aMessages")
+      .withIndex("by_userId_threadId", (q) =>
+        q.eq("userId", ctx.userId).eq("threadId", args.threadId)
+      )
+      .order("desc")) {
+      if (remaining === 0) break;
+      if (message.direction !== "inbound" || message.readAt !== undefined) continue;
+      await ctx.db.patch(message._id, { readAt: now });
+      remaining -= 1;
+    }
 
-    return messages;
+    await ctx.db.patch(thread._id, { unreadCount: 0 });
+    return null;
   },
 });
 
@@ -211,47 +313,43 @@ export const summarizeThread = authedMutation({
     messageCount: v.number(),
   }),
   handler: async (ctx, args): Promise<SummarizeResult> => {
-    const memories = await ctx.db
-      .query("agentMemory")
-      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
-      .order("desc")
-      .take(1000);
-
-    const threadMemories = memories
-      .filter(
-        (memory) =>
-          memory.source === "a2a" &&
-          getThreadId(memory.metadata) === args.threadId &&
-          (!args.agentId || memory.agentId === args.agentId)
+    const thread = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId_threadId", (q) =>
+        q.eq("userId", ctx.userId).eq("threadId", args.threadId)
+      )
+      .unique();
+    const recent = await ctx.db
+      .query("a2aMessages")
+      .withIndex("by_userId_threadId", (q) =>
+        q.eq("userId", ctx.userId).eq("threadId", args.threadId)
       )
-      .sort((a, b) => a.createdAt - b.createdAt);
+      .order("desc")
+      .take(12);
 
-    if (threadMemories.length === 0) {
+    if (!thread || recent.length === 0) {
       throw new Error("No messages found for this thread");
     }
 
-    const bulletLines = threadMemories
-      .slice(-12)
-      .map((memory) => {
-        const direction = getDirection(memory.metadata) ?? "inbound";
-        const prefix = direction === "outbound" ? "Sent" : "Received";
-        return `${prefix}: ${memory.content.slice(0, 180)}`;
-      });
+    const messageCount = thread.inboundCount + thread.outboundCount;
+    const bulletLines = recent.reverse().map((message) => {
+      const prefix = message.direction === "outbound" ? "Sent" : "Received";
+      return `${prefix}: ${message.content.slice(0, PREVIEW_CHARS)}`;
+    });
 
-    const summary = `A2A thread summary (${threadMemories.length} messages)\n${bulletLines.join("\n")}`;
-    const base = threadMemories[threadMemories.length - 1]!;
+    const summary = `A2A thread summary (${messageCount} messages)\n${bulletLines.join("\n")}`;
 
     const summaryMemoryId: Id<"agentMemory"> = await ctx.runMutation(
       internal.agent.queries.saveMemory,
       {
       userId: ctx.userId,
-      agentId: args.agentId ?? base.agentId,
+      agentId: args.agentId ?? thread.agentId,
       type: "conversation_summary",
       content: summary,
       source: "a2a",
       metadata: {
         threadId: args.threadId,
-        messageCount: threadMemories.length,
+        messageCount,
       },
       }
     );
@@ -259,7 +357,7 @@ export const summarizeThread = authedMutation({
     return {
       summaryMemoryId,
       summary,
-      messageCount: threadMemories.length,
+      messageCount,
     };
   },
 });
@@ -353,7 +451,39 @@ export const sendAgentMessage = internalMutation({
       throw new Error("A2A loop protection triggered: hop limit reached");
     }
 
-    // Sender keeps outbound memory.
+    // Each side keeps its own copy of the thread.
+    const now = Date.now();
+    await insertMessage(ctx, {
+      userId: fromAgent.userId,
+      threadId,
+      agentId: fromAgent._id,
+      direction: "outbound",
+      content: args.message,
+      peerAgentId: toAgent._id,
+      hopCount,
+      createdAt: now,
+    });
+    await insertMessage(ctx, {
+      userId: toAgent.userId,
+      threadId,
+      agentId: toAgent._id,
+      direction: "inbound",
+      content: args.message,
+      peerAgentId: fromAgent._id,
+      hopCount,
+      createdAt: now,
+    });
+    await emitEvent(ctx, toAgent.userId, {
+      type: "a2a.message.received",
+      payload: {
+        threadId,
+        agentId: toAgent._id,
+        peerAgentId: fromAgent._id,
+        preview: args.message.slice(0, PREVIEW_CHARS),
+      },
+    });
+
+    // Memory ingestion is separate from the thread store.
     await ctx.runMutation(internal.agent.queries.saveMemory, {
       userId: fromAgent.userId,
       agentId: fromAgent._id,
@@ -365,12 +495,9 @@ export const sendAgentMessage = internalMutation({
         threadId,
         hopCount,
         peerAgentId: toAgent._id,
-        direction: "outbound",
         ...args.metadata,
       },
     });
-
-    // Recipient keeps inbound memory.
     await ctx.runMutation(internal.agent.queries.saveMemory, {
       userId: toAgent.userId,
       agentId: toAgent._id,
@@ -382,7 +509,6 @@ export const sendAgentMessage = internalMutation({
         threadId,
         hopCount,
         peerAgentId: fromAgent._id,
-        direction: "inbound",
         ...args.metadata,
       },
     });
@@ -480,7 +606,16 @@ export const processAgentInbox = internalAction({
       content: result.response,
     });
 
-    // Sender keeps recipient response as inbound memory.
+    // Sender receives the recipient response in the thread and in memory.
+    await ctx.runMutation(internal.functions.a2a.recordMessage, {
+      userId: fromAgent.userId,
+      threadId: args.threadId,
+      agentId: fromAgent._id,
+      direction: "inbound",
+      content: result.response,
+      peerAgentId: toAgent._id,
+      hopCount: (args.hopCount ?? 0) + 1,
+    });
     await ctx.runMutation(internal.agent.queries.saveMemory, {
       userId: fromAgent.userId,
       agentId: fromAgent._id,
@@ -492,7 +627,6 @@ export const processAgentInbox = internalAction({
         threadId: args.threadId,
         hopCount: (args.hopCount ?? 0) + 1,
         peerAgentId: toAgent._id,
-        direction: "inbound",
       },
     });
 
@@ -550,3 +684,104 @@ export const processAgentInbox = internalAction({
     };
   },
 });
+
+// Record a thread message from actions and other modules
+export const recordMessage = internalMutation({
+  args: messageFieldsValidator,
+  returns: v.id("a2aMessages"),
+  handler: async (ctx, args) => {
+    const messageId = await insertMessage(ctx, { ...args, createdAt: Date.now() });
+    if (args.direction === "inbound") {
+      await emitEvent(ctx, args.userId, {
+        type: "a2a.message.received",
+        payload: {
+          threadId: args.threadId,
+          agentId: args.agentId,
+          peerAgentId: args.peerAgentId,
+          peerRemoteAgentId: args.peerRemoteAgentId,
+          peerName: args.peerName,
+          preview: args.content.slice(0, PREVIEW_CHARS),
+        },
+      });
+    }
+    return messageId;
+  },
+});
+
+/**
+ * Copy A2A messages that were stored as agentMemory rows (source "a2a" with
+ * direction metadata) into a2aMessages and a2aThreads. Walks the whole
+ * agentMemory table in batches and schedules itself until done. Safe to
+ * rerun: rows already copied are matched by thread and timestamp.
+ *
+ * Run once after deploying: npx convex run functions/a2a:migrateMemoryMessages
+ */
+export const migrateMemoryMessages = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({
+    migrated: v.number(),
+    isDone: v.boolean(),
+  }),
+  handler: async (ctx, args): Promise<MigrateResult> => {
+    const batch = await ctx.db
+      .query("agentMemory")
+      .paginate({ cursor: args.cursor ?? null, numItems: MIGRATION_BATCH_SIZE });
+
+    let migrated = 0;
+    for (const memory of batch.page) {
+      if (memory.source !== "a2a") continue;
+      const direction = getDirection(memory.metadata);
+      const threadId = getThreadId(memory.metadata);
+      if (!direction || !threadId) continue;
+
+      const existing = await ctx.db
+        .query("a2aMessages")
+        .withIndex("by_userId_threadId", (q) =>
+          q
+            .eq("userId", memory.userId)
+            .eq("threadId", threadId)
+            .eq("createdAt", memory.createdAt)
+        )
+        .take(10);
+      if (existing.some((message) => message.direction === direction)) continue;
+
+      const metadata = memory.metadata as Record<string, unknown>;
+      const optionalString = (key: string) =>
+        typeof metadata[key] === "string" ? (metadata[key] as string) : undefined;
+      const deliveryStatus = optionalString("deliveryStatus");
+
+      await insertMessage(ctx, {
+        userId: memory.userId,
+        threadId,
+        agentId: memory.agentId,
+        direction,
+        content: memory.content,
+        peerAgentId: metadata.peerAgentId as Id<"agents"> | undefined,
+        peerRemoteAgentId: metadata.peerRemoteAgentId as Id<"a2aRemoteAgents"> | undefined,
+        peerName: optionalString("peerName"),
+        hopCount: typeof metadata.hopCount === "number" ? metadata.hopCount : 0,
+        deliveryStatus:
+          deliveryStatus === "queued" || deliveryStatus === "sent" || deliveryStatus === "failed"
+            ? deliveryStatus
+            : undefined,
+        deliveryError: optionalString("deliveryError"),
+        remoteTaskId: optionalString("remoteTaskId"),
+        remoteContextId: optionalString("remoteContextId"),
+        remoteState: optionalString("remoteState"),
+        // History from before the thread store counts as read
+        readAt: memory.createdAt,
+        createdAt: memory.createdAt,
+      });
+      migrated += 1;
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.a2a.migrateMemoryMessages, {
+        cursor: batch.continueCursor,
+      });
+    }
+    return { migrated, isDone: batch.isDone };
+  },
+});
@@ -0,0 +1,609 @@
+/**
+ * A2A Client
+ *
+ * Outbound A2A JSON-RPC client for the agents in `a2aRemoteAgents`. Fetches
+ * and caches agent cards, delivers messages with the stored bearer token,
+ * and streams or polls the remote task until it finishes. Replies land in the
+ * sender's A2A inbox thread as inbound `a2aMessages` rows.
+ */
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import type { ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { checkOutboundUrl } from "../agent/toolBindings";
+
+const A2A_REQUEST_TIMEOUT_MS = 30_000;
+const A2A_STREAM_TIMEOUT_MS = 5 * 60_000;
+const CARD_CACHE_TTL_MS = 60 * 60 * 1000;
+const CARD_PATHS = ["/.well-known/agent-card.json", "/.well-known/agent.json"];
+const MAX_POLL_ATTEMPTS = 20;
+const MAX_POLL_DELAY_MS = 60_000;
+const MAX_REPLY_CHARS = 20_000;
+const MAX_CARD_SKILLS = 30;
+
+const TERMINAL_STATES = ["completed", "canceled", "failed", "rejected"];
+
+type RemotePart = { kind?: string; type?: string; text?: unknown; data?: unknown };
+
+type RemoteMessage = {
+  kind?: string;
+  role?: string;
+  parts?: Array<RemotePart>;
+  contextId?: string;
+  taskId?: string;
+};
+
+type RemoteTask = {
+  kind?: string;
+  id?: string;
+  contextId?: string;
+  status?: { state?: string; message?: RemoteMessage };
+  artifacts?: Array<{ artifactId?: string; parts?: Array<RemotePart> }>;
+  history?: Array<RemoteMessage>;
+};
+
+type RemoteEvent = RemoteTask & {
+  taskId?: string;
+  final?: boolean;
+  append?: boolean;
+  artifact?: { artifactId?: string; parts?: Array<RemotePart> };
+};
+
+type ParsedCard = {
+  endpointUrl: string;
+  name: string;
+  description?: string;
+  protocolVersion?: string;
+  supportsStreaming: boolean;
+  skills: Array<{ id: string; name: string; description?: string }>;
+};
+
+type ClientRemote = {
+  userId: Id<"users">;
+  cardUrl: string;
+  endpointUrl?: string;
+  name: string;
+  supportsStreaming: boolean;
+  token?: string;
+  isActive: boolean;
+  cardFetchedAt?: number;
+};
+
+// What came back for one delivered message
+type DeliveryOutcome = {
+  taskId?: string;
+  contextId?: string;
+  state: string;
+  text: string;
+};
+
+type ReplyTarget = {
+  userId: Id<"users">;
+  fromAgentId: Id<"agents">;
+  remoteAgentId: Id<"a2aRemoteAgents">;
+  remoteName: string;
+  cardUrl: string;
+  threadId: string;
+  hopCount: number;
+};
+
+function isTerminal(state: string): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+// A card URL, or a base URL that gets the well-known card paths appended
+function candidateCardUrls(cardUrl: string): Array<string> {
+  const url = new URL(cardUrl);
+  if (url.pathname.endsWith(".json")) return [url.toString()];
+  const base = `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+  return CARD_PATHS.map((path) => `${base}${path}`);
+}
+
+async function fetchCard(cardUrl: string): Promise<ParsedCard> {
+  let lastError = "Agent card not found";
+  for (const candidate of candidateCardUrls(cardUrl)) {
+    const urlError = checkOutboundUrl(candidate);
+    if (urlError) throw new Error(urlError);
+
+    const response = await fetch(candidate, {
+      headers: { Accept: "application/json" },
+      redirect: "error",
+      signal: AbortSignal.timeout(A2A_REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      lastError = `Agent card request failed with HTTP ${response.status}`;
+      await response.text().catch(() => "");
+      continue;
+    }
+
+    const card = (await response.json()) as Record<string, unknown>;
+    if (typeof card.url !== "string" || !card.url) {
+      throw new Error("Agent card has no url");
+    }
+    const endpointError = checkOutboundUrl(card.url);
+    if (endpointError) throw new Error(`Agent card url rejected: ${endpointError}`);
+
+    const capabilities = card.capabilities as { streaming?: unknown } | undefined;
+    const skills = Array.isArray(card.skills) ? (card.skills as Array<Record<string, unknown>>) : [];
+    return {
+      endpointUrl: card.url,
+      name: typeof card.name === "string" && card.name ? card.name.slice(0, 200) : new URL(card.url).hostname,
+      description: typeof card.description === "string" ? card.description.slice(0, 2000) : undefined,
+      protocolVersion: typeof card.protocolVersion === "string" ? card.protocolVersion : undefined,
+      supportsStreaming: capabilities?.streaming === true,
+      skills: skills
+        .filter((skill) => typeof skill.id === "string" && typeof skill.name === "string")
+        .slice(0, MAX_CARD_SKILLS)
+        .map((skill) => ({
+          id: String(skill.id),
+          name: String(skill.name),
+          description: typeof skill.description === "string" ? skill.description.slice(0, 500) : undefined,
+        })),
+    };
+  }
+  throw new Error(lastError);
+}
+
+function requestHeaders(token: string | undefined, accept: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Accept: accept,
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function sendRpc(
+  endpointUrl: string,
+  token: string | undefined,
+  method: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const response = await fetch(endpointUrl, {
+    method: "POST",
+    headers: requestHeaders(token, "application/json"),
+    body: JSON.stringify({ jsonrpc: "2.0", id: crypto.randomUUID(), method, params }),
+    redirect: "error",
+    signal: AbortSignal.timeout(A2A_REQUEST_TIMEOUT_MS),
+  });
+  const text = await response.text();
+  if (!response.ok && !text.trim().startsWith("{")) {
+    throw new Error(`${method} failed with HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  const reply = JSON.parse(text) as { result?: unknown; error?: { code?: number; message?: string } };
+  if (reply.error) {
+    throw new Error(`${method} failed (${reply.error.code ?? "error"}): ${reply.error.message ?? "Unknown error"}`);
+  }
+  return reply.result;
+}
+
+function partsToText(parts: Array<RemotePart> | undefined): string {
+  return (parts ?? [])
+    .map((part) => {
+      const kind = part.kind ?? part.type;
+      if (kind === "text" && typeof part.text === "string") return part.text;
+      if (kind === "data") return JSON.stringify(part.data);
+      return `[${String(kind ?? "part")}]`;
+    })
+    .join("\n");
+}
+
+// Reply text from a task: artifacts first, then the status message, then the
+// last agent message in history
+function taskReplyText(task: RemoteTask): string {
+  const artifactText = (task.artifacts ?? [])
+    .map((artifact) => partsToText(artifact.parts))
+    .filter(Boolean)
+    .join("\n\n");
+  if (artifactText) return artifactText;
+  if (task.status?.message) return partsToText(task.status.message.parts);
+  const lastAgent = [...(task.history ?? [])].reverse().find((message) => message.role === "agent");
+  return partsToText(lastAgent?.parts);
+}
+
+// message/send may answer with a Message (done) or a Task (maybe still running)
+function outcomeFromResult(result: unknown): DeliveryOutcome {
+  const value = (result ?? {}) as RemoteTask & RemoteMessage;
+  if (value.kind === "message" || (value.kind === undefined && Array.isArray(value.parts))) {
+    return {
+      taskId: value.taskId,
+      contextId: value.contextId,
+      state: "completed",
+      text: partsToText(value.parts),
+    };
+  }
+  return {
+    taskId: value.id,
+    contextId: value.contextId,
+    state: value.status?.state ?? "unknown",
+    text: taskReplyText(value),
+  };
+}
+
+/**
+ * Send with message/stream and read SSE events until the final status update.
+ * Artifact chunks are joined per artifactId, honoring `append`.
+ */
+async function streamMessage(
+  endpointUrl: string,
+  token: string | undefined,
+  params: Record<string, unknown>
+): Promise<DeliveryOutcome> {
+  const response = await fetch(endpointUrl, {
+    method: "POST",
+    headers: requestHeaders(token, "text/event-stream"),
+    body: JSON.stringify({ jsonrpc: "2.0", id: crypto.randomUUID(), method: "message/stream", params }),
+    redirect: "error",
+    signal: AbortSignal.timeout(A2A_STREAM_TIMEOUT_MS),
+  });
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`message/stream failed with HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  // Servers may answer a streaming request with plain JSON
+  if (!(response.headers.get("content-type") ?? "").includes("text/event-stream")) {
+    const reply = (await response.json()) as { result?: unknown; error?: { message?: string } };
+    if (reply.error) throw new Error(`message/stream failed: ${reply.error.message ?? "Unknown error"}`);
+    return outcomeFromResult(reply.result);
+  }
+
+  const outcome: DeliveryOutcome = { state: "submitted", text: "" };
+  const artifacts = new Map<string, string>();
+  let statusText = "";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let done = false;
+
+  const handleEvent = (raw: string) => {
+    const data = raw
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) return;
+    let reply: { result?: RemoteEvent; error?: { message?: string } };
+    try {
+      reply = JSON.parse(data) as typeof reply;
+    } catch {
+      return;
+    }
+    if (reply.error) throw new Error(`message/stream failed: ${reply.error.message ?? "Unknown error"}`);
+    const event = reply.result;
+    if (!event) return;
+
+    if (event.kind === "message") {
+      const message = outcomeFromResult(event);
+      Object.assign(outcome, message);
+      done = true;
+      return;
+    }
+    if (event.kind === "task") {
+      outcome.taskId = event.id;
+      outcome.contextId = event.contextId;
+      outcome.state = event.status?.state ?? outcome.state;
+      return;
+    }
+    outcome.taskId = event.taskId ?? outcome.taskId;
+    outcome.contextId = event.contextId ?? outcome.contextId;
+    if (event.kind === "artifact-update" && event.artifact) {
+      const artifactId = event.artifact.artifactId ?? "default";
+      const chunk = partsToText(event.artifact.parts);
+      artifacts.set(artifactId, event.append ? `${artifacts.get(artifactId) ?? ""}${chunk}` : chunk);
+    }
+    if (event.kind === "status-update") {
+      outcome.state = event.status?.state ?? outcome.state;
+      if (event.status?.message) statusText = partsToText(event.status.message.parts);
+      if (event.final) done = true;
+    }
+  };
+
+  while (!done) {
+    const { value, done: streamDone } = await reader.read();
+    if (streamDone) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? "";
+    for (const event of events) {
+      handleEvent(event);
+      if (done) break;
+    }
+  }
+  if (!done && buffer.trim()) handleEvent(buffer);
+  await reader.cancel().catch(() => undefined);
+
+  if (!outcome.text) {
+    outcome.text = [...artifacts.values()].filter(Boolean).join("\n\n") || statusText;
+  }
+  return outcome;
+}
+
+// Load the remote and refresh its card when missing or older than the cache TTL
+async function loadRemote(
+  ctx: ActionCtx,
+  remoteAgentId: Id<"a2aRemoteAgents">
+): Promise<ClientRemote & { endpointUrl: string }> {
+  const remote: ClientRemote | null = await ctx.runQuery(
+    internal.functions.a2aRemoteAgents.getForClient,
+    { remoteAgentId }
+  );
+  if (!remote) throw new Error("Remote agent not found");
+  if (!remote.isActive) throw new Error("Remote agent is paused");
+
+  const isStale = !remote.cardFetchedAt || Date.now() - remote.cardFetchedAt > CARD_CACHE_TTL_MS;
+  if (remote.endpointUrl && !isStale) {
+    return { ...remote, endpointUrl: remote.endpointUrl };
+  }
+
+  try {
+    const card = await fetchCard(remote.cardUrl);
+    await ctx.runMutation(internal.functions.a2aRemoteAgents.recordCard, { remoteAgentId, card });
+    return { ...remote, ...card };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await ctx.runMutation(internal.functions.a2aRemoteAgents.recordCard, {
+      remoteAgentId,
+      error: message.slice(0, 500),
+    });
+    // A stale card is still usable when the host is briefly unreachable
+    if (remote.endpointUrl) return { ...remote, endpointUrl: remote.endpointUrl };
+    throw error;
+  }
+}
+
+// Store the remote reply in the sender's thread and audit the exchange
+async function recordReply(ctx: ActionCtx, target: ReplyTarget, outcome: DeliveryOutcome) {
+  const content =
+    outcome.text.slice(0, MAX_REPLY_CHARS) || `Remote task ended with state ${outcome.state}.`;
+
+  await ctx.runMutation(internal.functions.a2a.recordMessage, {
+    userId: target.userId,
+    threadId: target.threadId,
+    agentId: target.fromAgentId,
+    direction: "inbound",
+    content,
+    peerRemoteAgentId: target.remoteAgentId,
+    peerName: target.remoteName,
+    hopCount: target.hopCount + 1,
+    remoteTaskId: outcome.taskId,
+    remoteContextId: outcome.contextId,
+    remoteState: outcome.state,
+  });
+  await ctx.runMutation(internal.agent.queries.saveMemory, {
+    userId: target.userId,
+    agentId: target.fromAgentId,
+    type: "conversation",
+    content,
+    source: "a2a",
+    metadata: {
+      role: "user",
+      threadId: target.threadId,
+      hopCount: target.hopCount + 1,
+      peerRemoteAgentId: target.remoteAgentId,
+      peerName: target.remoteName,
+      remoteTaskId: outcome.taskId,
+    },
+  });
+
+  await ctx.runMutation(internal.functions.conversations.create, {
+    userId: target.userId,
+    channel: "a2a",
+    externalId: target.cardUrl,
+    initialMessage: content,
+  });
+
+  await ctx.runMutation(internal.functions.auditLog.create, {
+    userId: target.userId,
+    action: "a2a_remote_message_completed",
+    resource: "a2a",
+    callerType: "a2a",
+    callerIdentity: String(target.fromAgentId),
+    status: outcome.state === "completed" ? "success" : "error",
+    details: {
+      threadId: target.threadId,
+      remoteAgentId: target.remoteAgentId,
+      remoteTaskId: outcome.taskId,
+      state: outcome.state,
+    },
+  });
+}
+
+const replyTargetArgs = {
+  userId: v.id("users"),
+  fromAgentId: v.id("agents"),
+  remoteAgentId: v.id("a2aRemoteAgents"),
+  threadId: v.string(),
+  hopCount: v.number(),
+};
+
+/**
+ * Fetch and store a remote agent card.
+ * Scheduled when a remote agent is added or refreshed from the dashboard.
+ */
+export const refreshCard = internalAction({
+  args: { remoteAgentId: v.id("a2aRemoteAgents") },
+  returns: v.null(),
+  handler: async (ctx, { remoteAgentId }) => {
+    const remote: ClientRemote | null = await ctx.runQuery(
+      internal.functions.a2aRemoteAgents.getForClient,
+      { remoteAgentId }
+    );
+    if (!remote) return null;
+
+    try {
+      const card = await fetchCard(remote.cardUrl);
+      await ctx.runMutation(internal.functions.a2aRemoteAgents.recordCard, { remoteAgentId, card });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await ctx.runMutation(internal.functions.a2aRemoteAgents.recordCard, {
+        remoteAgentId,
+        error: message.slice(0, 500),
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Deliver a queued message to a remote agent. Streams the reply when the
+ * card supports it, otherwise sends non-blocking and polls the task.
+ */
+export const deliver = internalAction({
+  args: {
+    ...replyTargetArgs,
+    message: v.string(),
+    outboundMessageId: v.id("a2aMessages"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    let remote: ClientRemote & { endpointUrl: string };
+    try {
+      remote = await loadRemote(ctx, args.remoteAgentId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await ctx.runMutation(internal.functions.a2aRemoteAgents.markDelivery, {
+        messageId: args.outboundMessageId,
+        status: "failed",
+        error: message.slice(0, 500),
+      });
+      return null;
+    }
+    if (remote.userId !== args.userId) return null;
+
+    const contextId: string | null = await ctx.runQuery(
+      internal.functions.a2aRemoteAgents.getThreadContextId,
+      { userId: args.userId, threadId: args.threadId }
+    );
+    const params = {
+      message: {
+        kind: "message",
+        role: "user",
+        messageId: crypto.randomUUID(),
+        parts: [{ kind: "text", text: args.message }],
+        ...(contextId ? { contextId } : {}),
+        metadata: { hopCount: args.hopCount },
+      },
+      configuration: {
+        acceptedOutputModes: ["text/plain", "application/json"],
+        blocking: false,
+      },
+    };
+
+    let outcome: DeliveryOutcome;
+    try {
+      outcome = remote.supportsStreaming
+        ? await streamMessage(remote.endpointUrl, remote.token, params)
+        : outcomeFromResult(await sendRpc(remote.endpointUrl, remote.token, "message/send", params));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await ctx.runMutation(internal.functions.a2aRemoteAgents.markDelivery, {
+        messageId: args.outboundMessageId,
+        status: "failed",
+        error: message.slice(0, 500),
+      });
+      await ctx.runMutation(internal.functions.auditLog.create, {
+        userId: args.userId,
+        action: "a2a_remote_message_failed",
+        resource: "a2a",
+        callerType: "a2a",
+        callerIdentity: String(args.fromAgentId),
+        status: "error",
+        details: { threadId: args.threadId, remoteAgentId: args.remoteAgentId, error: message.slice(0, 500) },
+      });
+      return null;
+    }
+
+    await ctx.runMutation(internal.functions.a2aRemoteAgents.markDelivery, {
+      messageId: args.outboundMessageId,
+      status: "sent",
+      remoteTaskId: outcome.taskId,
+      remoteContextId: outcome.contextId,
+    });
+
+    const target: ReplyTarget = {
+      userId: args.userId,
+      fromAgentId: args.fromAgentId,
+      remoteAgentId: args.remoteAgentId,
+      remoteName: remote.name,
+      cardUrl: remote.cardUrl,
+      threadId: args.threadId,
+      hopCount: args.hopCount,
+    };
+    if (isTerminal(outcome.state) || !outcome.taskId) {
+      await recordReply(ctx, target, outcome);
+    } else {
+      await ctx.scheduler.runAfter(2_000, internal.functions.a2aClient.pollTask, {
+        userId: args.userId,
+        fromAgentId: args.fromAgentId,
+        remoteAgentId: args.remoteAgentId,
+        threadId: args.threadId,
+        hopCount: args.hopCount,
+        remoteTaskId: outcome.taskId,
+        attempt: 1,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Poll a remote task with tasks/get until it reaches a terminal state.
+ * Backs off from 2s up to 60s, and gives up after MAX_POLL_ATTEMPTS checks.
+ */
+export const pollTask = internalAction({
+  args: {
+    ...replyTargetArgs,
+    remoteTaskId: v.string(),
+    attempt: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const remote = await loadRemote(ctx, args.remoteAgentId).catch(() => null);
+    if (!remote || remote.userId !== args.userId) return null;
+
+    const target: ReplyTarget = {
+      userId: args.userId,
+      fromAgentId: args.fromAgentId,
+      remoteAgentId: args.remoteAgentId,
+      remoteName: remote.name,
+      cardUrl: remote.cardUrl,
+      threadId: args.threadId,
+      hopCount: args.hopCount,
+    };
+
+    let outcome: DeliveryOutcome | null = null;
+    try {
+      outcome = outcomeFromResult(
+        await sendRpc(remote.endpointUrl, remote.token, "tasks/get", {
+          id: args.remoteTaskId,
+          historyLength: 5,
+        })
+      );
+    } catch (error) {
+      console.warn(`A2A poll failed for ${remote.name}:`, error instanceof Error ? error.message : error);
+    }
+
+    if (outcome && isTerminal(outcome.state)) {
+      await recordReply(ctx, target, { ...outcome, taskId: outcome.taskId ?? args.remoteTaskId });
+      return null;
+    }
+    if (args.attempt >= MAX_POLL_ATTEMPTS) {
+      await recordReply(ctx, target, {
+        taskId: args.remoteTaskId,
+        contextId: outcome?.contextId,
+        state: outcome?.state ?? "unknown",
+        text: `No reply yet: remote task ${args.remoteTaskId} is still ${outcome?.state ?? "unreachable"} after ${args.attempt} checks.`,
+      });
+      return null;
+    }
+
+    await ctx.scheduler.runAfter(
+      Math.min(2_000 * 2 ** args.attempt, MAX_POLL_DELAY_MS),
+      internal.functions.a2aClient.pollTask,
+      { ...args, attempt: args.attempt + 1 }
+    );
+    return null;
+  },
+});
@@ -0,0 +1,430 @@
+/**
+ * A2A Remote Agents Functions
+ *
+ * External A2A agents on other hosts that the user's agents can message.
+ * Agent cards are fetched and cached by convex/functions/a2aClient.ts, which
+ * also delivers messages and brings replies back into the A2A inbox threads.
+ */
+import { v } from "convex/values";
+import { authedMutation, authedQuery } from "../lib/functions";
+import { internalMutation, internalQuery } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { checkOutboundUrl } from "../agent/toolBindings";
+import { openSecret, sealSecret } from "../lib/secrets";
+import type { SecretSlot } from "../lib/secrets";
+
+type QueueResult = { threadId: string; accepted: boolean };
+
+const remoteSkillValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  description: v.optional(v.string()),
+});
+
+function tokenSlot(id: Id<"a2aRemoteAgents">): SecretSlot {
+  return { table: "a2aRemoteAgents", id, field: "encryptedToken" };
+}
+
+function buildRemoteThreadId(fromAgentId: string, remoteAgentId: string): string {
+  return `${fromAgentId}:remote:${remoteAgentId}`;
+}
+
+// Validate the sender, apply the hop guard, record the outbound message, and
+// schedule delivery
+async function queueRemoteMessage(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    fromAgentId: Id<"agents">;
+    remoteAgentId: Id<"a2aRemoteAgents">;
+    message: string;
+    hopCount?: number;
+  }
+): Promise<QueueResult> {
+  const message = args.message.trim();
+  if (!message) {
+    throw new Error("Message is required");
+  }
+
+  const fromAgent = await ctx.db.get(args.fromAgentId);
+  if (!fromAgent || fromAgent.userId !== args.userId) {
+    throw new Error("Sender agent not found");
+  }
+  if (!fromAgent.a2aConfig?.enabled) {
+    throw new Error("Sender agent does not allow A2A messaging");
+  }
+
+  const remote = await ctx.db.get(args.remoteAgentId);
+  if (!remote || remote.userId !== args.userId) {
+    throw new Error("Remote agent not found");
+  }
+  if (!remote.isActive) {
+    throw new Error("Remote agent is paused");
+  }
+
+  // The same loop guard as local A2A, carried to the remote host in the
+  // message metadata so HumanAgent deployments can enforce it on their side
+  const hopCount = Math.max(0, args.hopCount ?? 0);
+  const maxAllowedHops = fromAgent.a2aConfig.maxAutoReplyHops ?? 2;
+  if (hopCount > maxAllowedHops) {
+    throw new Error("A2A loop protection triggered: hop limit reached");
+  }
+
+  const threadId = buildRemoteThreadId(String(fromAgent._id), String(remote._id));
+  const messageId: Id<"a2aMessages"> = await ctx.runMutation(internal.functions.a2a.recordMessage, {
+    userId: args.userId,
+    threadId,
+    agentId: fromAgent._id,
+    direction: "outbound",
+    content: message,
+    peerRemoteAgentId: remote._id,
+    peerName: remote.name,
+    hopCount,
+    deliveryStatus: "queued",
+  });
+  await ctx.runMutation(internal.agent.queries.saveMemory, {
+    userId: args.userId,
+    agentId: fromAgent._id,
+    type: "conversation",
+    content: message,
+    source: "a2a",
+    metadata: {
+      role: "assistant",
+      threadId,
+      hopCount,
+      peerRemoteAgentId: remote._id,
+      peerName: remote.name,
+    },
+  });
+
+  await ctx.runMutation(internal.functions.auditLog.create, {
+    userId: args.userId,
+    action: "a2a_remote_message_sent",
+    resource: "a2a",
+    callerType: "a2a",
+    callerIdentity: String(fromAgent._id),
+    status: "in_progress",
+    details: { threadId, remoteAgentId: remote._id, cardUrl: remote.cardUrl },
+  });
+
+  await ctx.scheduler.runAfter(0, internal.functions.a2aClient.deliver, {
+    userId: args.userId,
+    fromAgentId: fromAgent._id,
+    remoteAgentId: remote._id,
+    message,
+    threadId,
+    hopCount,
+    outboundMessageId: messageId,
+  });
+
+  return { threadId, accepted: true };
+}
+
+// ============================================================
+// Public queries
+// ============================================================
+
+// List remote agents for the current user. Tokens are never returned.
+export const list = authedQuery({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("a2aRemoteAgents"),
+      cardUrl: v.string(),
+      endpointUrl: v.optional(v.string()),
+      name: v.string(),
+      description: v.optional(v.string()),
+      supportsStreaming: v.boolean(),
+      skills: v.array(remoteSkillValidator),
+      hasToken: v.boolean(),
+      isActive: v.boolean(),
+      cardFetchedAt: v.optional(v.number()),
+      lastCardError: v.optional(v.string()),
+    })
+  ),
+  handler: async (ctx) => {
+    const remotes = await ctx.db
+      .query("a2aRemoteAgents")
+      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+      .take(100);
+    return remotes.map((remote) => ({
+      _id: remote._id,
+      cardUrl: remote.cardUrl,
+      endpointUrl: remote.endpointUrl,
+      name: remote.name,
+      description: remote.description,
+      supportsStreaming: remote.supportsStreaming,
+      skills: remote.skills,
+      hasToken: !!remote.encryptedToken,
+      isActive: remote.isActive,
+      cardFetchedAt: remote.cardFetchedAt,
+      lastCardError: remote.lastCardError,
+    }));
+  },
+});
+
+// ============================================================
+// Public mutations
+// ============================================================
+
+// Register an external A2A agent by card URL or base URL
+export const add = authedMutation({
+  args: {
+    cardUrl: v.string(),
+    token: v.optional(v.string()),
+  },
+  returns: v.id("a2aRemoteAgents"),
+  handler: async (ctx, args) => {
+    const cardUrl = args.cardUrl.trim();
+    const urlError = checkOutboundUrl(cardUrl);
+    if (urlError) {
+      throw new Error(`Invalid agent URL: ${urlError}`);
+    }
+
+    const existing = await ctx.db
+      .query("a2aRemoteAgents")
+      .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+      .take(100);
+    if (existing.some((remote) => remote.cardUrl === cardUrl)) {
+      throw new Error("Remote agent already added");
+    }
+
+    const now = Date.now();
+    const token = args.token?.trim();
+    const remoteAgentId = await ctx.db.insert("a2aRemoteAgents", {
+      userId: ctx.userId,
+      cardUrl,
+      name: new URL(cardUrl).hostname,
+      supportsStreaming: false,
+      skills: [],
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (token) {
+      await ctx.db.patch(remoteAgentId, {
+        encryptedToken: await sealSecret(ctx, ctx.userId, tokenSlot(remoteAgentId), token),
+      });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.functions.a2aClient.refreshCard, {
+      remoteAgentId,
+    });
+    return remoteAgentId;
+  },
+});
+
+// Update the credential or pause a remote agent. An empty token clears it.
+export const update = authedMutation({
+  args: {
+    remoteAgentId: v.id("a2aRemoteAgents"),
+    token: v.optional(v.string()),
+    isActive: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const remote = await ctx.db.get(args.remoteAgentId);
+    if (!remote || remote.userId !== ctx.userId) {
+      throw new Error("Remote agent not found");
+    }
+
+    const patch: Record<string, unknown> = { updatedAt: Date.now() };
+    if (args.token !== undefined) {
+      const token = args.token.trim();
+      patch.encryptedToken = token
+        ? await sealSecret(ctx, ctx.userId, tokenSlot(remote._id), token)
+        : undefined;
+    }
+    if (args.isActive !== undefined) {
+      patch.isActive = args.isActive;
+    }
+    await ctx.db.patch(args.remoteAgentId, patch);
+    return null;
+  },
+});
+
+// Re-fetch the agent card now instead of waiting for the cache to expire
+export const refreshCard = authedMutation({
+  args: { remoteAgentId: v.id("a2aRemoteAgents") },
+  returns: v.null(),
+  handler: async (ctx, { remoteAgentId }) => {
+    const remote = await ctx.db.get(remoteAgentId);
+    if (!remote || remote.userId !== ctx.userId) {
+      throw new Error("Remote agent not found");
+    }
+    await ctx.scheduler.runAfter(0, internal.functions.a2aClient.refreshCard, {
+      remoteAgentId,
+    });
+    return null;
+  },
+});
+
+export const remove = authedMutation({
+  args: { remoteAgentId: v.id("a2aRemoteAgents") },
+  returns: v.null(),
+  handler: async (ctx, { remoteAgentId }) => {
+    const remote = await ctx.db.get(remoteAgentId);
+    if (!remote || remote.userId !== ctx.userId) {
+      throw new Error("Remote agent not found");
+    }
+    await ctx.db.delete(remoteAgentId);
+    return null;
+  },
+});
+
+// Send a message from one of the user's agents to a remote agent
+export const sendFromDashboard = authedMutation({
+  args: {
+    fromAgentId: v.id("agents"),
+    remoteAgentId: v.id("a2aRemoteAgents"),
+    message: v.string(),
+  },
+  returns: v.object({
+    threadId: v.string(),
+    accepted: v.boolean(),
+  }),
+  handler: async (ctx, args): Promise<QueueResult> => {
+    return await queueRemoteMessage(ctx, { ...args, userId: ctx.userId });
+  },
+});
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+export const sendRemoteMessage = internalMutation({
+  args: {
+    userId: v.id("users"),
+    fromAgentId: v.id("agents"),
+    remoteAgentId: v.id("a2aRemoteAgents"),
+    message: v.string(),
+    hopCount: v.optional(v.number()),
+  },
+  returns: v.object({
+    threadId: v.string(),
+    accepted: v.boolean(),
+  }),
+  handler: async (ctx, args): Promise<QueueResult> => {
+    return await queueRemoteMessage(ctx, args);
+  },
+});
+
+// Remote agent with its decrypted token, for the outbound client only
+export const getForClient = internalQuery({
+  args: { remoteAgentId: v.id("a2aRemoteAgents") },
+  returns: v.union(
+    v.object({
+      userId: v.id("users"),
+      cardUrl: v.string(),
+      endpointUrl: v.optional(v.string()),
+      name: v.string(),
+      supportsStreaming: v.boolean(),
+      token: v.optional(v.string()),
+      isActive: v.boolean(),
+      cardFetchedAt: v.optional(v.number()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { remoteAgentId }) => {
+    const remote = await ctx.db.get(remoteAgentId);
+    if (!remote) return null;
+    return {
+      userId: remote.userId,
+      cardUrl: remote.cardUrl,
+      endpointUrl: remote.endpointUrl,
+      name: remote.name,
+      supportsStreaming: remote.supportsStreaming,
+      token: remote.encryptedToken
+        ? await openSecret(ctx, remote.userId, tokenSlot(remote._id), remote.encryptedToken)
+        : undefined,
+      isActive: remote.isActive,
+      cardFetchedAt: remote.cardFetchedAt,
+    };
+  },
+});
+
+// Store a fetched agent card, or the error from the last fetch
+export const recordCard = internalMutation({
+  args: {
+    remoteAgentId: v.id("a2aRemoteAgents"),
+    card: v.optional(
+      v.object({
+        endpointUrl: v.string(),
+        name: v.string(),
+        description: v.optional(v.string()),
+        protocolVersion: v.optional(v.string()),
+        supportsStreaming: v.boolean(),
+        skills: v.array(remoteSkillValidator),
+      })
+    ),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { remoteAgentId, card, error }) => {
+    const remote = await ctx.db.get(remoteAgentId);
+    if (!remote) return null;
+    const now = Date.now();
+    if (!card) {
+      await ctx.db.patch(remoteAgentId, { lastCardError: error, updatedAt: now });
+      return null;
+    }
+    await ctx.db.patch(remoteAgentId, {
+      ...card,
+      cardFetchedAt: now,
+      lastCardError: undefined,
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+// Latest A2A contextId the remote agent used in a thread, so follow-ups
+// continue the same remote conversation
+export const getThreadContextId = internalQuery({
+  args: { userId: v.id("users"), threadId: v.string() },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, { userId, threadId }) => {
+    const thread = await ctx.db
+      .query("a2aThreads")
+      .withIndex("by_userId_threadId", (q) => q.eq("userId", userId).eq("threadId", threadId))
+      .unique();
+    return thread?.remoteContextId ?? null;
+  },
+});
+
+// Update delivery state on the outbound thread message
+export const markDelivery = internalMutation({
+  args: {
+    messageId: v.id("a2aMessages"),
+    status: v.union(v.literal("sent"), v.literal("failed")),
+    remoteTaskId: v.optional(v.string()),
+    remoteContextId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return null;
+    await ctx.db.patch(args.messageId, {
+      deliveryStatus: args.status,
+      remoteTaskId: args.remoteTaskId,
+      remoteContextId: args.remoteContextId,
+      deliveryError: args.error,
+    });
+
+    if (args.remoteContextId) {
+      const thread = await ctx.db
+        .query("a2aThreads")
+        .withIndex("by_userId_threadId", (q) =>
+          q.eq("userId", message.userId).eq("threadId", message.threadId)
+        )
+        .unique();
+      if (thread) {
+        await ctx.db.patch(thread._id, { remoteContextId: args.remoteContextId });
+      }
+    }
+    return null;
+  },
+});
@@ -0,0 +1,367 @@
+/**
+ * A2A Tasks
+ *
+ * Task state for the A2A JSON-RPC server in convex/http.ts. Each A2A task is
+ * a row in `tasks` with an `a2a` record (context id, caller, A2A state, and
+ * message history), so remote work shows up on the board like any other task.
+ */
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+
+const MAX_HISTORY_MESSAGES = 50;
+const MAX_OUTCOME_SUMMARY_CHARS = 2000;
+
+const TERMINAL_STATES = ["completed", "canceled", "failed", "rejected"];
+
+type A2aState = NonNullable<Doc<"tasks">["a2a"]>["state"];
+
+type A2aTextPart = { kind: "text"; text: string };
+
+type A2aMessage = {
+  kind: "message";
+  role: "user" | "agent";
+  messageId: string;
+  parts: Array<A2aTextPart>;
+  taskId: string;
+  contextId: string;
+};
+
+type A2aTask = {
+  kind: "task";
+  id: string;
+  contextId: string;
+  status: { state: A2aState; timestamp: string; message?: A2aMessage };
+  history: Array<A2aMessage>;
+  artifacts: Array<{ artifactId: string; name: string; parts: Array<A2aTextPart> }>;
+};
+
+type CancelResult =
+  | { status: "not_found" }
+  | { status: "not_cancelable"; state: A2aState }
+  | { status: "canceled" };
+
+type ExecuteResult = { state: A2aState; response: string };
+
+const a2aStateValidator = v.union(
+  v.literal("submitted"),
+  v.literal("working"),
+  v.literal("completed"),
+  v.literal("canceled"),
+  v.literal("failed"),
+  v.literal("rejected")
+);
+
+const textPartValidator = v.object({ kind: v.literal("text"), text: v.string() });
+
+const a2aMessageValidator = v.object({
+  kind: v.literal("message"),
+  role: v.union(v.literal("user"), v.literal("agent")),
+  messageId: v.string(),
+  parts: v.array(textPartValidator),
+  taskId: v.string(),
+  contextId: v.string(),
+});
+
+const a2aTaskValidator = v.object({
+  kind: v.literal("task"),
+  id: v.string(),
+  contextId: v.string(),
+  status: v.object({
+    state: a2aStateValidator,
+    timestamp: v.string(),
+    message: v.optional(a2aMessageValidator),
+  }),
+  history: v.array(a2aMessageValidator),
+  artifacts: v.array(
+    v.object({
+      artifactId: v.string(),
+      name: v.string(),
+      parts: v.array(textPartValidator),
+    })
+  ),
+});
+
+function generateContextId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function isTerminalA2aState(state: A2aState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+// Shape a task row as an A2A Task object
+function toA2aTask(task: Doc<"tasks">, historyLength?: number): A2aTask | null {
+  const a2a = task.a2a;
+  if (!a2a) return null;
+  const taskId = String(task._id);
+
+  const messages: Array<A2aMessage> = a2a.history.map((entry) => ({
+    kind: "message",
+    role: entry.role,
+    messageId: entry.messageId,
+    parts: [{ kind: "text", text: entry.text }],
+    taskId,
+    contextId: a2a.contextId,
+  }));
+  const lastAgentMessage = [...messages].reverse().find((message) => message.role === "agent");
+
+  let statusMessage: A2aMessage | undefined;
+  if (a2a.error && (a2a.state === "failed" || a2a.state === "rejected")) {
+    statusMessage = {
+      kind: "message",
+      role: "agent",
+      messageId: `${taskId}-status`,
+      parts: [{ kind: "text", text: a2a.error }],
+      taskId,
+      contextId: a2a.contextId,
+    };
+  }
+
+  return {
+    kind: "task",
+    id: taskId,
+    contextId: a2a.contextId,
+    status: {
+      state: a2a.state,
+      timestamp: new Date(a2a.updatedAt).toISOString(),
+      message: statusMessage,
+    },
+    history:
+      historyLength === undefined
+        ? messages
+        : historyLength <= 0
+          ? []
+          : messages.slice(-historyLength),
+    artifacts:
+      a2a.state === "completed" && lastAgentMessage
+        ? [{ artifactId: `${taskId}-response`, name: "response", parts: lastAgentMessage.parts }]
+        : [],
+  };
+}
+
+function appendHistory(
+  history: NonNullable<Doc<"tasks">["a2a"]>["history"],
+  entry: NonNullable<Doc<"tasks">["a2a"]>["history"][number]
+) {
+  return [...history, entry].slice(-MAX_HISTORY_MESSAGES);
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+export const create = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    callerId: v.string(),
+    contextId: v.optional(v.string()),
+    messageId: v.string(),
+    text: v.string(),
+  },
+  returns: a2aTaskValidator,
+  handler: async (ctx, args): Promise<A2aTask> => {
+    const taskId: Id<"tasks"> = await ctx.runMutation(internal.functions.board.createTaskFromAgent, {
+      userId: args.userId,
+      agentId: args.agentId,
+      description: args.text.slice(0, 2000),
+      isPublic: false,
+      source: "a2a",
+    });
+
+    const now = Date.now();
+    await ctx.db.patch(taskId, {
+      requestedBy: "a2a",
+      a2a: {
+        contextId: args.contextId ?? generateContextId(),
+        callerId: args.callerId,
+        state: "submitted",
+        history: [{ role: "user", messageId: args.messageId, text: args.text, createdAt: now }],
+        updatedAt: now,
+      },
+    });
+
+    const task = await ctx.db.get(taskId);
+    return toA2aTask(task!)!;
+  },
+});
+
+// Look up an A2A task by its string id for the agent that owns it
+export const get = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    taskId: v.string(),
+    historyLength: v.optional(v.number()),
+  },
+  returns: v.union(a2aTaskValidator, v.null()),
+  handler: async (ctx, args) => {
+    const taskId = ctx.db.normalizeId("tasks", args.taskId);
+    if (!taskId) return null;
+    const task = await ctx.db.get(taskId);
+    if (!task || task.userId !== args.userId || task.agentId !== args.agentId) {
+      return null;
+    }
+    return toA2aTask(task, args.historyLength);
+  },
+});
+
+// Move a submitted task to working. Returns false when it was canceled first.
+export const start = internalMutation({
+  args: { taskId: v.id("tasks") },
+  returns: v.boolean(),
+  handler: async (ctx, { taskId }) => {
+    const task = await ctx.db.get(taskId);
+    if (!task?.a2a || task.a2a.state !== "submitted") return false;
+
+    await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
+      userId: task.userId,
+      agentId: task.agentId,
+      taskId,
+      status: "in_progress",
+      source: "a2a",
+    });
+    await ctx.db.patch(taskId, {
+      a2a: { ...task.a2a, state: "working", updatedAt: Date.now() },
+    });
+    return true;
+  },
+});
+
+// Record the agent reply. A task canceled while the agent ran keeps its state.
+export const finish = internalMutation({
+  args: {
+    taskId: v.id("tasks"),
+    response: v.optional(v.string()),
+    blocked: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+  },
+  returns: a2aStateValidator,
+  handler: async (ctx, args): Promise<A2aState> => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task?.a2a) throw new Error("A2A task not found");
+    if (isTerminalA2aState(task.a2a.state)) return task.a2a.state;
+
+    const state: A2aState =
+      args.error !== undefined ? "failed" : args.blocked ? "rejected" : "completed";
+    const now = Date.now();
+
+    await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
+      userId: task.userId,
+      agentId: task.agentId,
+      taskId: args.taskId,
+      status: state === "completed" ? "completed" : "failed",
+      outcomeSummary: (args.response ?? args.error ?? "").slice(0, MAX_OUTCOME_SUMMARY_CHARS) || undefined,
+      source: "a2a",
+    });
+    await ctx.db.patch(args.taskId, {
+      a2a: {
+        ...task.a2a,
+        state,
+        history:
+          args.response !== undefined
+            ? appendHistory(task.a2a.history, {
+                role: "agent",
+                messageId: `${String(args.taskId)}-${task.a2a.history.length}`,
+                text: args.response,
+                createdAt: now,
+              })
+            : task.a2a.history,
+        error: state === "rejected" ? args.response : args.error,
+        updatedAt: now,
+      },
+    });
+    return state;
+  },
+});
+
+export const cancel = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    taskId: v.string(),
+  },
+  returns: v.union(
+    v.object({ status: v.literal("not_found") }),
+    v.object({ status: v.literal("not_cancelable"), state: a2aStateValidator }),
+    v.object({ status: v.literal("canceled") })
+  ),
+  handler: async (ctx, args): Promise<CancelResult> => {
+    const taskId = ctx.db.normalizeId("tasks", args.taskId);
+    const task = taskId ? await ctx.db.get(taskId) : null;
+    if (!taskId || !task?.a2a || task.userId !== args.userId || task.agentId !== args.agentId) {
+      return { status: "not_found" };
+    }
+    if (isTerminalA2aState(task.a2a.state)) {
+      return { status: "not_cancelable", state: task.a2a.state };
+    }
+
+    await ctx.runMutation(internal.functions.board.updateTaskFromAgent, {
+      userId: task.userId,
+      agentId: task.agentId,
+      taskId,
+      status: "failed",
+      outcomeSummary: "Canceled by the A2A caller",
+      source: "a2a",
+    });
+    await ctx.db.patch(taskId, {
+      a2a: { ...task.a2a, state: "canceled", updatedAt: Date.now() },
+    });
+    return { status: "canceled" };
+  },
+});
+
+/**
+ * Run the agent for a submitted A2A task and record the result.
+ * Called inline for blocking and streaming requests, and scheduled for
+ * `configuration.blocking: false`.
+ */
+export const execute = internalAction({
+  args: {
+    taskId: v.id("tasks"),
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    callerId: v.string(),
+    message: v.string(),
+    streamId: v.optional(v.id("streamingMessages")),
+  },
+  returns: v.object({ state: a2aStateValidator, response: v.string() }),
+  handler: async (ctx, args): Promise<ExecuteResult> => {
+    const started = await ctx.runMutation(internal.functions.a2aTasks.start, {
+      taskId: args.taskId,
+    });
+    if (!started) {
+      return { state: "canceled", response: "" };
+    }
+
+    try {
+      const result = await ctx.runAction(internal.agent.runtime.processMessage, {
+        userId: args.userId,
+        agentId: args.agentId,
+        message: args.message,
+        channel: "a2a",
+        callerId: args.callerId,
+        streamId: args.streamId,
+      });
+      const state: A2aState = await ctx.runMutation(internal.functions.a2aTasks.finish, {
+        taskId: args.taskId,
+        response: result.response,
+        blocked: result.blocked,
+      });
+      return { state, response: result.response };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const state: A2aState = await ctx.runMutation(internal.functions.a2aTasks.finish, {
+        taskId: args.taskId,
+        error: message.slice(0, 500),
+      });
+      return { state, response: "" };
+    }
+  },
+});
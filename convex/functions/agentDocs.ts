@@ -231,8 +231,11 @@ export function renderDocsMd(data: DocsPayload): string {
   lines.push("```");
   lines.push("");
   lines.push("Required scopes:");
-  lines.push("- API REST message routes require `api:call`");
-  lines.push("- MCP JSON-RPC routes require `mcp:call`");
+  lines.push("- API REST message routes and A2A `message/send` require `messages:write`");
+  lines.push("- A2A `tasks/get` requires `tasks:read`, and `tasks/cancel` requires `tasks:write`");
+  lines.push("- MCP tool calls require `mcp:tools:<name>` for each tool, or `mcp:tools:*` for all");
+  lines.push("- MCP resources and prompts require `skills:read`, `memory:read`, or `tasks:read`");
+  lines.push("- A key without the scope gets a 403 naming the missing scope");
   lines.push("");
   lines.push("Route group restrictions:");
   lines.push("- Keys can optionally be limited by route groups (`api`, `mcp`, `docs`, `skills`)");
@@ -259,7 +262,7 @@ export function renderDocsMd(data: DocsPayload): string {
     lines.push("");
     lines.push(`\`POST ${baseUrl}/api/v1/agents/${username}/messages\``);
     lines.push("");
-    lines.push("Scope: `api:call`");
+    lines.push("Scope: `messages:write`");
     lines.push("");
     lines.push("**Request body:**");
     lines.push("```json");
@@ -292,14 +295,14 @@ export function renderDocsMd(data: DocsPayload): string {
     }
     lines.push(`\`POST ${baseUrl}/api/v1/agents/${username}/${agent.slug}/messages\``);
     lines.push("");
-    lines.push("Scope: `api:call`");
+    lines.push("Scope: `messages:write`");
     lines.push("");
     lines.push("Same request/response shape as the default endpoint above.");
     lines.push("");
 
     if (vis.showMcp) {
       lines.push(`**MCP Server**: \`${baseUrl}/mcp/u/${username}/${agent.slug}\``);
-      lines.push("**MCP scope**: `mcp:call`");
+      lines.push("**MCP scope**: `mcp:tools:chat`, or `mcp:tools:<name>` per tool");
       lines.push("");
     }
     if (vis.showEmail && agent.agentEmail && userPrivacy?.showEmail !== false) {
@@ -342,8 +345,9 @@ export function renderToolsMd(data: DocsPayload): string {
   lines.push("Describes available operations, input schemas, and error modes.");
   lines.push("");
   lines.push("Auth model:");
-  lines.push("- API tool calls require `api:call`");
-  lines.push("- MCP tool calls require `mcp:call`");
+  lines.push("- API tool calls require `messages:write`");
+  lines.push("- MCP tool calls require `mcp:tools:<name>`, or `mcp:tools:*` for every tool");
+  lines.push("- MCP `tools/list` only lists the tools the key may call");
   lines.push("- Docs and sitemap routes remain public");
   lines.push("");
 
@@ -413,10 +417,10 @@ export function renderOpenApiJson(data: DocsPayload): object {
       post: {
         summary: `Send a message to ${displayName || username}'s default agent`,
         description:
-          "Requires Bearer token with `api:call` scope and `api` route-group access.",
+          "Requires Bearer token with `messages:write` scope and `api` route-group access.",
         operationId: "sendMessage",
         security: [{ bearerAuth: [] }],
-        "x-requiredScopes": ["api:call"],
+        "x-requiredScopes": ["messages:write"],
         "x-routeGroup": "api",
         requestBody: {
           required: true,
@@ -489,10 +493,10 @@ export function renderOpenApiJson(data: DocsPayload): object {
       post: {
         summary: `Send a message to ${agent.name}`,
         description:
-          "Requires Bearer token with `api:call` scope and `api` route-group access.",
+          "Requires Bearer token with `messages:write` scope and `api` route-group access.",
         operationId: `sendMessage_${agent.slug}`,
         security: [{ bearerAuth: [] }],
-        "x-requiredScopes": ["api:call"],
+        "x-requiredScopes": ["messages:write"],
         "x-routeGroup": "api",
         requestBody: {
           required: true,
@@ -572,7 +576,7 @@ export function renderOpenApiJson(data: DocsPayload): object {
           type: "http",
           scheme: "bearer",
           description:
-            "API key from HumanAgent dashboard. REST message routes require `api:call`. MCP routes (`/mcp/u/...`) require `mcp:call` and are documented in docs.md/tools.md.",
+            "API key from HumanAgent dashboard. REST message routes require `messages:write`. MCP routes (`/mcp/u/...`) take per-tool `mcp:tools:<name>` scopes and are documented in docs.md/tools.md.",
         },
       },
     },
@@ -6,6 +6,7 @@
  */
 import { v } from "convex/values";
 import { query, mutation, internalMutation, internalQuery } from "../_generated/server";
+import { isTaskBlocked } from "./taskDependencies";
 
 // ============================================================
 // Public Queries
@@ -360,13 +361,21 @@ export const getAgentContext = internalQuery({
       .order("desc")
       .take(10);
 
-    // Get pending tasks
-    const pendingTasks = await ctx.db
+    // Get pending tasks this agent may pick up, skipping ones still waiting on
+    // prerequisites. Read past the first 10 so blocked tasks don't starve the rest.
+    const candidateTasks = await ctx.db
       .query("tasks")
       .withIndex("by_userId_status", (q) =>
         q.eq("userId", agent.userId).eq("status", "pending")
       )
-      .take(10);
+      .take(50);
+    const pendingTasks: typeof candidateTasks = [];
+    for (const task of candidateTasks) {
+      if (task.agentId && task.agentId !== args.agentId) continue;
+      if (await isTaskBlocked(ctx, task)) continue;
+      pendingTasks.push(task);
+      if (pendingTasks.length >= 10) break;
+    }
 
     // Get in-progress tasks assigned to this agent
     const inProgressTasks = await ctx.db
@@ -385,7 +394,7 @@ export const getAgentContext = internalQuery({
       agent,
       currentGoal: agent.thinking?.currentGoal,
       recentThoughts,
-      pendingTasks: pendingTasks.filter((t) => !t.agentId || t.agentId === args.agentId),
+      pendingTasks,
       inProgressTasks: inProgressTasks.filter((t) => t.status === "in_progress"),
       memories,
     };
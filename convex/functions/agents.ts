@@ -3,6 +3,33 @@ import { query, internalQuery, internalMutation } from "../_generated/server";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  isValidTimeZone,
+  nextCronRun,
+  validateCronExpression,
+} from "../lib/cron";
+import { approvalGatesValidator, normalizeApprovalGates } from "./approvals";
+
+/**
+ * Whether `email` is the AgentMail inbox of one of the user's agents. Sends
+ * from a user-supplied inbox address must pass this, since the platform key
+ * can send from any tenant's inbox.
+ */
+export async function isOwnedAgentInbox(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">,
+  email: string
+): Promise<boolean> {
+  const normalized = email.trim().toLowerCase();
+  if (!normalized) return false;
+  const agents = await ctx.db
+    .query("agents")
+    .withIndex("by_agentEmail", (q) => q.eq("agentEmail", normalized))
+    .take(10);
+  return agents.some((agent) => agent.userId === userId);
+}
 
 function extractStorageIdFromImage(image?: string): Id<"_storage"> | null {
   if (!image || !image.startsWith("storage:")) return null;
@@ -11,6 +38,22 @@ function extractStorageIdFromImage(image?: string): Id<"_storage"> | null {
   return rawId as Id<"_storage">;
 }
 
+// Timezone from the agent's skill communication prefs, for cron schedules saved without one
+async function getAgentTimezone(ctx: QueryCtx, agentId: Id<"agents">): Promise<string> {
+  const assignment = await ctx.db
+    .query("skillAgents")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .first();
+  const skill = assignment
+    ? await ctx.db.get(assignment.skillId)
+    : await ctx.db
+        .query("skills")
+        .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+        .first();
+  const timezone = skill?.communicationPrefs.timezone;
+  return timezone && isValidTimeZone(timezone) ? timezone : DEFAULT_SCHEDULE_TIMEZONE;
+}
+
 // ============================================================
 // Public queries
 // ============================================================
@@ -199,10 +242,15 @@ export const update = authedMutation({
     agentPhone: v.optional(v.string()),
     phoneConfig: v.optional(
       v.object({
+        provider: v.optional(
+          v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo"))
+        ),
         voiceEnabled: v.boolean(),
         smsEnabled: v.boolean(),
         transcribeVoicemail: v.boolean(),
         language: v.optional(v.string()),
+        outboundAllowList: v.optional(v.array(v.string())),
+        quietHours: v.optional(v.object({ start: v.string(), end: v.string() })),
       })
     ),
     // Voice config for TTS (ElevenLabs or OpenAI)
@@ -235,6 +283,7 @@ export const update = authedMutation({
           v.literal("cron")
         ),
         cronSpec: v.optional(v.string()),
+        timezone: v.optional(v.string()),
         intervalMinutes: v.optional(v.number()),
         isActive: v.boolean(),
       })
@@ -318,6 +367,8 @@ export const update = authedMutation({
         syncTaskResults: v.boolean(),
       })
     ),
+    // Action types held in the approvals inbox until the owner signs off
+    approvalGates: v.optional(approvalGatesValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -340,7 +391,26 @@ export const update = authedMutation({
     if (args.voiceConfig !== undefined) patch.voiceConfig = args.voiceConfig;
     if (args.personality !== undefined) patch.personality = args.personality;
     if (args.scheduling !== undefined) {
-      patch.scheduling = args.scheduling;
+      const scheduling = { ...args.scheduling, lastRun: agent.scheduling?.lastRun };
+      if (scheduling.mode === "cron") {
+        const cronSpec = scheduling.cronSpec?.trim() ?? "";
+        const timezone =
+          scheduling.timezone?.trim() ||
+          agent.scheduling?.timezone ||
+          (await getAgentTimezone(ctx, agent._id));
+        const error = validateCronExpression(cronSpec, timezone);
+        if (error) {
+          throw new Error(`Invalid cron schedule: ${error}`);
+        }
+        patch.scheduling = {
+          ...scheduling,
+          cronSpec,
+          timezone,
+          nextRun: nextCronRun(cronSpec, timezone, Date.now()) ?? undefined,
+        };
+      } else {
+        patch.scheduling = scheduling;
+      }
       patch.schedulingActive = args.scheduling.isActive;
       patch.schedulingMode = args.scheduling.mode;
     }
@@ -349,6 +419,9 @@ export const update = authedMutation({
     if (args.executionBackend !== undefined) patch.executionBackend = args.executionBackend;
     if (args.a2aConfig !== undefined) patch.a2aConfig = args.a2aConfig;
     if (args.supermemoryConfig !== undefined) patch.supermemoryConfig = args.supermemoryConfig;
+    if (args.approvalGates !== undefined) {
+      patch.approvalGates = normalizeApprovalGates(args.approvalGates);
+    }
     if (args.xConfig !== undefined) {
       // xAI (Grok) mode is analysis-only: disable any posting/DM capabilities.
       if (args.xConfig.mode === "xai_grok") {
@@ -655,6 +728,15 @@ export const getByEmail = internalQuery({
   },
 });
 
+// Inbox ownership check for actions that send from a configured address
+export const ownsInbox = internalQuery({
+  args: { userId: v.id("users"), email: v.string() },
+  returns: v.boolean(),
+  handler: async (ctx, { userId, email }) => {
+    return await isOwnedAgentInbox(ctx, userId, email);
+  },
+});
+
 // Update agent thinking state
 export const updateThinking = internalMutation({
   args: {
@@ -2,6 +2,7 @@ import { internalQuery } from "../_generated/server";
 import { v } from "convex/values";
 import { authedQuery, authedMutation } from "../lib/functions";
 import type { Id } from "../_generated/dataModel";
+import { findInvalidScopes } from "../lib/apiScopes";
 
 const keyTypeValidator = v.union(
   v.literal("user_universal"),
@@ -40,6 +41,9 @@ export const list = authedQuery({
       allowedRouteGroups: k.allowedRouteGroups ?? [...DEFAULT_ROUTE_GROUPS],
       scopes: k.scopes,
       rateLimitPerMinute: k.rateLimitPerMinute,
+      burstLimit: k.burstLimit ?? 0,
+      dailyQuota: k.dailyQuota,
+      monthlyQuota: k.monthlyQuota,
       lastUsedAt: k.lastUsedAt,
       expiresAt: k.expiresAt,
       isActive: k.isActive,
@@ -60,6 +64,9 @@ export const create = authedMutation({
     allowedAgentIds: v.optional(v.array(v.id("agents"))),
     allowedRouteGroups: v.optional(v.array(routeGroupValidator)),
     rateLimitPerMinute: v.optional(v.number()),
+    burstLimit: v.optional(v.number()),
+    dailyQuota: v.optional(v.number()),
+    monthlyQuota: v.optional(v.number()),
     expiresInDays: v.optional(v.number()),
   },
   returns: v.object({ key: v.string(), prefix: v.string() }),
@@ -72,10 +79,27 @@ export const create = authedMutation({
     if (allowedRouteGroups.length === 0) {
       throw new Error("API key requires at least one allowed route group");
     }
+    if (args.scopes.length === 0) {
+      throw new Error("API key requires at least one scope");
+    }
+    const invalidScopes = findInvalidScopes(args.scopes);
+    if (invalidScopes.length > 0) {
+      throw new Error(`Unknown API key scopes: ${invalidScopes.join(", ")}`);
+    }
     if (keyType === "agent_scoped" && allowedAgentIds.length === 0) {
       throw new Error("Agent-scoped keys require at least one allowed agent");
     }
     await assertAgentOwnership(ctx, ctx.userId, allowedAgentIds);
+    for (const [field, value] of Object.entries({
+      rateLimitPerMinute: args.rateLimitPerMinute,
+      burstLimit: args.burstLimit,
+      dailyQuota: args.dailyQuota,
+      monthlyQuota: args.monthlyQuota,
+    })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`${field} must be a whole number of requests`);
+      }
+    }
 
     await ctx.db.insert("apiKeys", {
       userId: ctx.userId,
@@ -87,6 +111,9 @@ export const create = authedMutation({
       allowedRouteGroups,
       scopes: args.scopes,
       rateLimitPerMinute: args.rateLimitPerMinute ?? 60,
+      burstLimit: args.burstLimit,
+      dailyQuota: args.dailyQuota,
+      monthlyQuota: args.monthlyQuota,
       isActive: true,
       expiresAt: args.expiresInDays
         ? Date.now() + args.expiresInDays * 24 * 60 * 60 * 1000
@@ -136,6 +163,9 @@ export const rotate = authedMutation({
         existingKey.allowedRouteGroups ?? [...DEFAULT_ROUTE_GROUPS],
       scopes: existingKey.scopes,
       rateLimitPerMinute: existingKey.rateLimitPerMinute,
+      burstLimit: existingKey.burstLimit,
+      dailyQuota: existingKey.dailyQuota,
+      monthlyQuota: existingKey.monthlyQuota,
       isActive: true,
       expiresAt: existingKey.expiresAt,
       createdAt: Date.now(),
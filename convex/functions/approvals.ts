@@ -0,0 +1,396 @@
+/**
+ * Agent Approvals
+ *
+ * An agent's `approvalGates` lists runtime action types that need the
+ * owner's sign-off. The runtime hands a gated action to `request` instead of
+ * running it, and the action waits in the approvals inbox with its full
+ * payload. Approving it, as requested or edited, schedules
+ * `agent.runtime.executeApprovedAction`. Rejected and timed-out requests never
+ * run. Every request, decision, and result is written to auditLog.
+ */
+import { v } from "convex/values";
+import { authedMutation, authedQuery } from "../lib/functions";
+import { internalMutation, internalQuery } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+
+// Runtime actions with side effects outside the conversation. Deferred task
+// status updates are bookkeeping for the reply itself and are not gated.
+export const APPROVABLE_ACTION_TYPES = [
+  "call_tool",
+  "call_mcp_tool",
+  "browser_navigate",
+  "browser_action",
+  "delegate_to_agent",
+  "send_sms",
+  "place_call",
+  "execute_code",
+  "execute_command",
+  "create_task",
+  "create_subtask",
+  "move_task",
+  "create_feed_item",
+  "create_skill",
+  "update_skill",
+  "generate_image",
+  "generate_audio",
+  "create_knowledge_node",
+  "link_knowledge_nodes",
+] as const;
+
+export const DEFAULT_APPROVAL_TIMEOUT_MINUTES = 24 * 60;
+const MIN_APPROVAL_TIMEOUT_MINUTES = 5;
+const MAX_APPROVAL_TIMEOUT_MINUTES = 7 * 24 * 60;
+const MAX_LIST_APPROVALS = 100;
+const MAX_EXPIRE_BATCH = 200;
+const MAX_RESULT_LENGTH = 4000;
+
+export const approvalGatesValidator = v.object({
+  actionTypes: v.array(v.string()),
+  timeoutMinutes: v.optional(v.number()),
+});
+
+const statusValidator = v.union(
+  v.literal("pending"),
+  v.literal("approved"),
+  v.literal("rejected"),
+  v.literal("expired"),
+  v.literal("executed"),
+  v.literal("failed")
+);
+
+const channelValidator = v.union(
+  v.literal("email"),
+  v.literal("phone"),
+  v.literal("api"),
+  v.literal("mcp"),
+  v.literal("webmcp"),
+  v.literal("a2a"),
+  v.literal("dashboard")
+);
+
+const approvalFields = {
+  _id: v.id("agentApprovals"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  agentId: v.optional(v.id("agents")),
+  teamId: v.optional(v.id("agentTeams")),
+  actionType: v.string(),
+  payload: v.string(),
+  editedPayload: v.optional(v.string()),
+  summary: v.string(),
+  channel: channelValidator,
+  callerId: v.optional(v.string()),
+  status: statusValidator,
+  decisionNote: v.optional(v.string()),
+  result: v.optional(v.string()),
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  expiresAt: v.number(),
+  decidedAt: v.optional(v.number()),
+  executedAt: v.optional(v.number()),
+};
+
+const approvalValidator = v.object(approvalFields);
+
+// Check an agent's gate settings before they are stored. Throws on invalid input.
+export function normalizeApprovalGates(gates: {
+  actionTypes: Array<string>;
+  timeoutMinutes?: number;
+}): NonNullable<Doc<"agents">["approvalGates"]> {
+  const allowed = new Set<string>(APPROVABLE_ACTION_TYPES);
+  const actionTypes = [...new Set(gates.actionTypes.map((type) => type.trim()))];
+  const unknown = actionTypes.find((type) => !allowed.has(type));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown action type "${unknown}" for approval gates`);
+  }
+
+  const timeoutMinutes = gates.timeoutMinutes ?? DEFAULT_APPROVAL_TIMEOUT_MINUTES;
+  if (
+    !Number.isInteger(timeoutMinutes) ||
+    timeoutMinutes < MIN_APPROVAL_TIMEOUT_MINUTES ||
+    timeoutMinutes > MAX_APPROVAL_TIMEOUT_MINUTES
+  ) {
+    throw new Error(
+      `Approval timeout must be a whole number of minutes from ${MIN_APPROVAL_TIMEOUT_MINUTES} to ${MAX_APPROVAL_TIMEOUT_MINUTES}`
+    );
+  }
+  return { actionTypes, timeoutMinutes };
+}
+
+// Parse an owner-edited payload. It must stay the same action type.
+function parseEditedPayload(approval: Doc<"agentApprovals">, editedPayload: string): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(editedPayload);
+  } catch {
+    throw new Error("Edited action must be valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Edited action must be a JSON object");
+  }
+  const type = (parsed as Record<string, unknown>).type;
+  if (type !== undefined && type !== approval.actionType) {
+    throw new Error(`Edited action must keep type "${approval.actionType}"`);
+  }
+  return JSON.stringify({ ...(parsed as Record<string, unknown>), type: approval.actionType });
+}
+
+async function logDecision(
+  ctx: MutationCtx,
+  approval: Doc<"agentApprovals">,
+  action: string,
+  callerType: "user" | "agent" | "cron",
+  status: "success" | "error" | "blocked" | "in_progress",
+  details: Record<string, unknown>
+): Promise<void> {
+  await ctx.db.insert("auditLog", {
+    userId: approval.userId,
+    action,
+    resource: `approval:${approval._id}`,
+    callerType,
+    callerIdentity:
+      callerType === "user"
+        ? String(approval.userId)
+        : callerType === "agent"
+          ? approval.agentId
+          : undefined,
+    details: {
+      actionType: approval.actionType,
+      agentId: approval.agentId,
+      summary: approval.summary,
+      ...details,
+    },
+    status,
+    channel: callerType === "user" ? "dashboard" : approval.channel,
+    timestamp: Date.now(),
+  });
+}
+
+// ============================================================
+// Public queries
+// ============================================================
+
+// Approval requests, newest first, optionally filtered by status
+export const list = authedQuery({
+  args: { status: v.optional(statusValidator) },
+  returns: v.array(v.object({ ...approvalFields, agentName: v.optional(v.string()) })),
+  handler: async (ctx, args) => {
+    const approvals = args.status
+      ? await ctx.db
+          .query("agentApprovals")
+          .withIndex("by_userId_status", (q) =>
+            q.eq("userId", ctx.userId).eq("status", args.status!)
+          )
+          .order("desc")
+          .take(MAX_LIST_APPROVALS)
+      : await ctx.db
+          .query("agentApprovals")
+          .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+          .order("desc")
+          .take(MAX_LIST_APPROVALS);
+
+    const agentNames = new Map<string, string>();
+    for (const approval of approvals) {
+      if (approval.agentId && !agentNames.has(approval.agentId)) {
+        const agent = await ctx.db.get(approval.agentId);
+        agentNames.set(approval.agentId, agent?.name ?? "Deleted agent");
+      }
+    }
+    return approvals.map((approval) => ({
+      ...approval,
+      agentName: approval.agentId ? agentNames.get(approval.agentId) : undefined,
+    }));
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+/**
+ * Approve a pending request and schedule it to run. `editedPayload` replaces
+ * the agent's action JSON; it must keep the same action type.
+ */
+export const approve = authedMutation({
+  args: {
+    approvalId: v.id("agentApprovals"),
+    editedPayload: v.optional(v.string()),
+    note: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval || approval.userId !== ctx.userId) throw new Error("Approval not found");
+    if (approval.status !== "pending") throw new Error(`This request is already ${approval.status}`);
+    const now = Date.now();
+    if (approval.expiresAt <= now) throw new Error("This request has expired");
+
+    const editedPayload =
+      args.editedPayload !== undefined ? parseEditedPayload(approval, args.editedPayload) : undefined;
+    const edited = editedPayload !== undefined && editedPayload !== approval.payload;
+    const decisionNote = args.note?.trim() || undefined;
+    await ctx.db.patch(args.approvalId, {
+      status: "approved",
+      editedPayload: edited ? editedPayload : undefined,
+      decisionNote,
+      decidedAt: now,
+    });
+    await logDecision(ctx, approval, "agent_action_approved", "user", "success", {
+      edited,
+      note: decisionNote,
+    });
+    await ctx.scheduler.runAfter(0, internal.agent.runtime.executeApprovedAction, {
+      approvalId: args.approvalId,
+    });
+    return null;
+  },
+});
+
+// Reject a pending request. The action never runs.
+export const reject = authedMutation({
+  args: {
+    approvalId: v.id("agentApprovals"),
+    note: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval || approval.userId !== ctx.userId) throw new Error("Approval not found");
+    if (approval.status !== "pending") throw new Error(`This request is already ${approval.status}`);
+
+    const decisionNote = args.note?.trim() || undefined;
+    await ctx.db.patch(args.approvalId, {
+      status: "rejected",
+      decisionNote,
+      decidedAt: Date.now(),
+    });
+    await logDecision(ctx, approval, "agent_action_rejected", "user", "success", {
+      note: decisionNote,
+    });
+    return null;
+  },
+});
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+// Action types the agent must get approved, empty when it has no gates
+export const getGatedActionTypes = internalQuery({
+  args: { userId: v.id("users"), agentId: v.id("agents") },
+  returns: v.array(v.string()),
+  handler: async (ctx, args) => {
+    const agent = await ctx.db.get(args.agentId);
+    if (!agent || agent.userId !== args.userId) return [];
+    return agent.approvalGates?.actionTypes ?? [];
+  },
+});
+
+// Hold a gated action for the owner. Called by the runtime instead of running it.
+export const request = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    teamId: v.optional(v.id("agentTeams")),
+    actionType: v.string(),
+    payload: v.string(),
+    summary: v.string(),
+    channel: channelValidator,
+    callerId: v.optional(v.string()),
+  },
+  returns: v.id("agentApprovals"),
+  handler: async (ctx, args) => {
+    const agent = await ctx.db.get(args.agentId);
+    const timeoutMinutes =
+      agent?.approvalGates?.timeoutMinutes ?? DEFAULT_APPROVAL_TIMEOUT_MINUTES;
+    const now = Date.now();
+    const approvalId = await ctx.db.insert("agentApprovals", {
+      ...args,
+      status: "pending",
+      createdAt: now,
+      expiresAt: now + timeoutMinutes * 60 * 1000,
+    });
+
+    const approval = await ctx.db.get(approvalId);
+    if (approval) {
+      await logDecision(ctx, approval, "agent_action_approval_requested", "agent", "in_progress", {
+        expiresAt: approval.expiresAt,
+      });
+    }
+    await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+      userId: args.userId,
+      type: "status_update",
+      title: `${agent?.name ?? "Agent"} is waiting for approval`,
+      content: args.summary.slice(0, 140),
+      metadata: {
+        approvalId,
+        agentId: args.agentId,
+        actionType: args.actionType,
+      },
+      isPublic: false,
+    });
+    return approvalId;
+  },
+});
+
+export const getForExecution = internalQuery({
+  args: { approvalId: v.id("agentApprovals") },
+  returns: v.union(approvalValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.approvalId);
+  },
+});
+
+// Record the result of an approved action once it has run
+export const finish = internalMutation({
+  args: {
+    approvalId: v.id("agentApprovals"),
+    ok: v.boolean(),
+    output: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval || approval.status !== "approved") return null;
+
+    const output = args.output.slice(0, MAX_RESULT_LENGTH);
+    await ctx.db.patch(args.approvalId, {
+      status: args.ok ? "executed" : "failed",
+      result: args.ok ? output : undefined,
+      error: args.ok ? undefined : output,
+      executedAt: Date.now(),
+    });
+    await logDecision(
+      ctx,
+      approval,
+      "agent_action_executed",
+      "agent",
+      args.ok ? "success" : "error",
+      { edited: approval.editedPayload !== undefined, output: output.slice(0, 500) }
+    );
+    return null;
+  },
+});
+
+// Expire pending requests past their timeout. Runs from crons.ts.
+export const expireDue = internalMutation({
+  args: {},
+  returns: v.object({ expired: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("agentApprovals")
+      .withIndex("by_status_expiresAt", (q) => q.eq("status", "pending").lte("expiresAt", now))
+      .take(MAX_EXPIRE_BATCH);
+
+    for (const approval of due) {
+      await ctx.db.patch(approval._id, { status: "expired", decidedAt: now });
+      await logDecision(ctx, approval, "agent_action_approval_expired", "cron", "blocked", {
+        expiresAt: approval.expiresAt,
+      });
+    }
+    return { expired: due.length };
+  },
+});
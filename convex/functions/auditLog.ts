@@ -29,7 +29,10 @@ export const getSecurityEvents = authedQuery({
       .take(100);
 
     return events.filter(
-      (e) => e.status === "blocked" || e.action === "message_blocked"
+      (e) =>
+        e.status === "blocked" ||
+        e.action === "message_blocked" ||
+        e.action.startsWith("security_policy_")
     );
   },
 });
@@ -0,0 +1,520 @@
+/**
+ * Automation Actions
+ *
+ * Registry of action adapters for automation runs. Each adapter validates its
+ * `actionConfig` when a definition is saved, and runs inside `execute`, which
+ * records the adapter's structured output on the `automationRuns` row.
+ * Adding an action type means adding an entry to ACTION_ADAPTERS and the
+ * literal to the schema union.
+ */
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import type { ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { checkOutboundUrl } from "../agent/toolBindings";
+import { automationCallerId } from "./events";
+
+const MAX_OUTPUT_TEXT_CHARS = 4000;
+const WEBHOOK_TIMEOUT_MS = 15_000;
+const MAX_COMMAND_TIMEOUT_SECONDS = 300;
+
+export const AUTOMATION_ACTION_TYPES = [
+  "process_agent_tasks",
+  "run_symphony",
+  "send_agent_message",
+  "create_board_task",
+  "post_feed_item",
+  "send_email",
+  "call_webhook",
+  "execute_composio_tool",
+  "run_daytona_command",
+] as const;
+
+export type AutomationActionType = (typeof AUTOMATION_ACTION_TYPES)[number];
+
+export const automationActionTypeValidator = v.union(
+  v.literal("process_agent_tasks"),
+  v.literal("run_symphony"),
+  v.literal("send_agent_message"),
+  v.literal("create_board_task"),
+  v.literal("post_feed_item"),
+  v.literal("send_email"),
+  v.literal("call_webhook"),
+  v.literal("execute_composio_tool"),
+  v.literal("run_daytona_command")
+);
+
+type ProcessAgentTasksConfig = {
+  agentId?: Id<"agents">;
+};
+
+type RunSymphonyConfig = {
+  agentId?: Id<"agents">;
+  instruction?: string;
+  repoUrl?: string;
+  baseBranch?: string;
+  projectPath?: string;
+  promptPrefix?: string;
+};
+
+type SendAgentMessageConfig = {
+  agentId?: Id<"agents">;
+  message?: string;
+  includeInput?: boolean; // Append the run input (e.g. the event payload) to the message
+};
+
+type CreateBoardTaskConfig = {
+  description?: string;
+  agentId?: Id<"agents">;
+  isPublic?: boolean;
+};
+
+type PostFeedItemConfig = {
+  title?: string;
+  content?: string;
+  isPublic?: boolean;
+};
+
+type SendEmailConfig = {
+  inboxAddress?: string;
+  to?: string;
+  subject?: string;
+  text?: string;
+};
+
+type CallWebhookConfig = {
+  url?: string;
+  method?: "POST" | "PUT";
+  headers?: Record<string, string>;
+  body?: unknown; // Defaults to { runId, actionType, input }
+};
+
+type ExecuteComposioToolConfig = {
+  toolName?: string;
+  parameters?: Record<string, unknown>;
+};
+
+type RunDaytonaCommandConfig = {
+  command?: string;
+  workdir?: string;
+  timeoutSeconds?: number;
+};
+
+type AdapterContext = {
+  runId: Id<"automationRuns">;
+  userId: Id<"users">;
+  input?: unknown;
+};
+
+// `error` marks the run failed while still keeping the output
+type AdapterResult = {
+  output: Record<string, unknown>;
+  error?: string;
+};
+
+type ActionAdapter = {
+  validate: (config: unknown) => void;
+  run: (ctx: ActionCtx, config: unknown, run: AdapterContext) => Promise<AdapterResult>;
+};
+
+function truncateText(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return value.length > MAX_OUTPUT_TEXT_CHARS
+    ? `${value.slice(0, MAX_OUTPUT_TEXT_CHARS)}... [truncated]`
+    : value;
+}
+
+// Keep large tool results from bloating the run row
+function truncateData(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const serialized = JSON.stringify(value) ?? "";
+  return serialized.length > MAX_OUTPUT_TEXT_CHARS ? truncateText(serialized) : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+const ACTION_ADAPTERS: Record<AutomationActionType, ActionAdapter> = {
+  process_agent_tasks: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as ProcessAgentTasksConfig;
+      if (!config.agentId) {
+        throw new Error("process_agent_tasks requires actionConfig.agentId.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as ProcessAgentTasksConfig;
+      await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
+        userId: run.userId,
+        agentId: config.agentId!,
+      });
+      return { output: { adapter: "process_agent_tasks", queued: true } };
+    },
+  },
+
+  run_symphony: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as RunSymphonyConfig;
+      if (!config.agentId) {
+        throw new Error("run_symphony requires actionConfig.agentId.");
+      }
+      if (!config.instruction?.trim()) {
+        throw new Error("run_symphony requires actionConfig.instruction.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as RunSymphonyConfig;
+      const result: {
+        success: boolean;
+        externalRunId?: string;
+        result?: string;
+        error?: string;
+      } = await ctx.runAction(internal.functions.daytona.runSymphonyAutomation, {
+        userId: run.userId,
+        agentId: config.agentId!,
+        instruction: config.instruction!.trim(),
+        repoUrl: config.repoUrl?.trim() || undefined,
+        baseBranch: config.baseBranch?.trim() || undefined,
+        projectPath: config.projectPath?.trim() || undefined,
+        promptPrefix: config.promptPrefix?.trim() || undefined,
+      });
+      return {
+        output: {
+          adapter: "run_symphony",
+          externalRunId: result.externalRunId,
+          result: result.result,
+        },
+        error: result.success ? undefined : result.error ?? "Symphony automation failed.",
+      };
+    },
+  },
+
+  send_agent_message: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as SendAgentMessageConfig;
+      if (!config.agentId) {
+        throw new Error("send_agent_message requires actionConfig.agentId.");
+      }
+      if (!config.message?.trim()) {
+        throw new Error("send_agent_message requires actionConfig.message.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as SendAgentMessageConfig;
+      const message =
+        config.includeInput && run.input !== undefined
+          ? `${config.message!.trim()}\n\nInput:\n${JSON.stringify(run.input, null, 2)}`
+          : config.message!.trim();
+      const result: { response: string; tokensUsed: number; blocked: boolean } =
+        await ctx.runAction(internal.agent.runtime.processMessage, {
+          userId: run.userId,
+          agentId: config.agentId,
+          message,
+          channel: "api",
+          // Events the message causes are attributed to this run
+          callerId: automationCallerId(run.runId),
+        });
+      return {
+        output: {
+          adapter: "send_agent_message",
+          response: truncateText(result.response),
+          tokensUsed: result.tokensUsed,
+          blocked: result.blocked,
+        },
+        error: result.blocked ? "Message was blocked by the security scanner." : undefined,
+      };
+    },
+  },
+
+  create_board_task: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as CreateBoardTaskConfig;
+      if (!config.description?.trim()) {
+        throw new Error("create_board_task requires actionConfig.description.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as CreateBoardTaskConfig;
+      const taskId: Id<"tasks"> = await ctx.runMutation(
+        internal.functions.board.createTaskFromAgent,
+        {
+          userId: run.userId,
+          agentId: config.agentId,
+          description: config.description!.trim().slice(0, 2000),
+          isPublic: config.isPublic ?? false,
+          source: "dashboard",
+          callerId: automationCallerId(run.runId),
+        }
+      );
+      return { output: { adapter: "create_board_task", taskId } };
+    },
+  },
+
+  post_feed_item: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as PostFeedItemConfig;
+      if (!config.title?.trim()) {
+        throw new Error("post_feed_item requires actionConfig.title.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as PostFeedItemConfig;
+      await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+        userId: run.userId,
+        type: "status_update",
+        title: config.title!.trim().slice(0, 200),
+        content: config.content?.trim() || undefined,
+        metadata: { automationRunId: run.runId },
+        isPublic: config.isPublic ?? false,
+      });
+      return { output: { adapter: "post_feed_item", posted: true } };
+    },
+  },
+
+  send_email: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as SendEmailConfig;
+      if (!config.inboxAddress?.trim()) {
+        throw new Error("send_email requires actionConfig.inboxAddress.");
+      }
+      if (!config.to?.trim()) {
+        throw new Error("send_email requires actionConfig.to.");
+      }
+      if (!config.subject?.trim()) {
+        throw new Error("send_email requires actionConfig.subject.");
+      }
+      if (!config.text?.trim()) {
+        throw new Error("send_email requires actionConfig.text.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as SendEmailConfig;
+      // Re-checked at run time: the agent may have changed inbox since saving
+      const ownsInbox: boolean = await ctx.runQuery(internal.functions.agents.ownsInbox, {
+        userId: run.userId,
+        email: config.inboxAddress!,
+      });
+      if (!ownsInbox) {
+        return {
+          output: { adapter: "send_email", sent: false },
+          error: "actionConfig.inboxAddress is not one of your agents' inboxes.",
+        };
+      }
+      const result: {
+        sent: boolean;
+        messageId?: string;
+        threadId?: string;
+        error?: string;
+      } = await ctx.runAction(internal.functions.agentmail.sendMessage, {
+        userId: run.userId,
+        inboxAddress: config.inboxAddress!,
+        to: config.to!,
+        subject: config.subject!.trim(),
+        text: config.text!,
+      });
+      return {
+        output: {
+          adapter: "send_email",
+          sent: result.sent,
+          messageId: result.messageId,
+          threadId: result.threadId,
+        },
+        error: result.sent ? undefined : result.error ?? "Email was not sent.",
+      };
+    },
+  },
+
+  call_webhook: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as CallWebhookConfig;
+      if (!config.url?.trim()) {
+        throw new Error("call_webhook requires actionConfig.url.");
+      }
+      const urlError = checkOutboundUrl(config.url.trim());
+      if (urlError) {
+        throw new Error(`call_webhook actionConfig.url is invalid: ${urlError}.`);
+      }
+      if (config.method && config.method !== "POST" && config.method !== "PUT") {
+        throw new Error("call_webhook actionConfig.method must be POST or PUT.");
+      }
+      if (
+        config.headers !== undefined &&
+        (!isPlainObject(config.headers) ||
+          Object.values(config.headers).some((value) => typeof value !== "string"))
+      ) {
+        throw new Error("call_webhook actionConfig.headers must map names to strings.");
+      }
+    },
+    run: async (_ctx, actionConfig, run) => {
+      const config = actionConfig as CallWebhookConfig;
+      const url = config.url!.trim();
+      // Checked again at send time in case the definition predates the check
+      const urlError = checkOutboundUrl(url);
+      if (urlError) {
+        return { output: { adapter: "call_webhook" }, error: urlError };
+      }
+
+      const body =
+        config.body !== undefined
+          ? config.body
+          : { runId: run.runId, actionType: "call_webhook", input: run.input };
+      const response = await fetch(url, {
+        method: config.method ?? "POST",
+        headers: { "Content-Type": "application/json", ...config.headers },
+        body: JSON.stringify(body),
+        redirect: "error",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      const responseText = await response.text().catch(() => "");
+      return {
+        output: {
+          adapter: "call_webhook",
+          status: response.status,
+          body: truncateText(responseText),
+        },
+        error: response.ok ? undefined : `Webhook responded with HTTP ${response.status}.`,
+      };
+    },
+  },
+
+  execute_composio_tool: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as ExecuteComposioToolConfig;
+      if (!config.toolName?.trim()) {
+        throw new Error("execute_composio_tool requires actionConfig.toolName.");
+      }
+      if (config.parameters !== undefined && !isPlainObject(config.parameters)) {
+        throw new Error("execute_composio_tool actionConfig.parameters must be an object.");
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as ExecuteComposioToolConfig;
+      const result: {
+        success: boolean;
+        data?: unknown;
+        error?: string;
+        executionTime?: number;
+      } = await ctx.runAction(internal.functions.composio.executeTool, {
+        userId: run.userId,
+        toolName: config.toolName!.trim(),
+        parameters: config.parameters,
+      });
+      return {
+        output: {
+          adapter: "execute_composio_tool",
+          toolName: config.toolName!.trim(),
+          data: truncateData(result.data),
+          executionTime: result.executionTime,
+        },
+        error: result.success ? undefined : result.error ?? "Composio tool failed.",
+      };
+    },
+  },
+
+  run_daytona_command: {
+    validate: (actionConfig) => {
+      const config = (actionConfig ?? {}) as RunDaytonaCommandConfig;
+      if (!config.command?.trim()) {
+        throw new Error("run_daytona_command requires actionConfig.command.");
+      }
+      if (
+        config.timeoutSeconds !== undefined &&
+        (typeof config.timeoutSeconds !== "number" ||
+          config.timeoutSeconds < 1 ||
+          config.timeoutSeconds > MAX_COMMAND_TIMEOUT_SECONDS)
+      ) {
+        throw new Error(
+          `run_daytona_command actionConfig.timeoutSeconds must be between 1 and ${MAX_COMMAND_TIMEOUT_SECONDS}.`
+        );
+      }
+    },
+    run: async (ctx, actionConfig, run) => {
+      const config = actionConfig as RunDaytonaCommandConfig;
+      const result: {
+        success: boolean;
+        stdout?: string;
+        stderr?: string;
+        exitCode?: number;
+        error?: string;
+        executionTime?: number;
+      } = await ctx.runAction(internal.functions.daytona.executeCommand, {
+        userId: run.userId,
+        command: config.command!.trim(),
+        workdir: config.workdir?.trim() || undefined,
+        timeout: config.timeoutSeconds ? config.timeoutSeconds * 1000 : undefined,
+      });
+      return {
+        output: {
+          adapter: "run_daytona_command",
+          exitCode: result.exitCode,
+          stdout: truncateText(result.stdout),
+          stderr: truncateText(result.stderr),
+          executionTime: result.executionTime,
+        },
+        error: result.success
+          ? undefined
+          : result.error ?? `Command exited with code ${result.exitCode ?? "unknown"}.`,
+      };
+    },
+  },
+};
+
+export function validateActionConfig(
+  actionType: AutomationActionType,
+  actionConfig?: unknown
+): void {
+  ACTION_ADAPTERS[actionType].validate(actionConfig);
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+/**
+ * Run one automation action and record the result on its run.
+ * Scheduled by `startRun` in convex/functions/automations.ts.
+ */
+export const execute = internalAction({
+  args: {
+    runId: v.id("automationRuns"),
+    userId: v.id("users"),
+    actionType: automationActionTypeValidator,
+    actionConfig: v.optional(v.any()),
+    input: v.optional(v.any()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const adapter = ACTION_ADAPTERS[args.actionType];
+    let result: AdapterResult;
+    try {
+      result = await adapter.run(ctx, args.actionConfig ?? {}, {
+        runId: args.runId,
+        userId: args.userId,
+        input: args.input,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.functions.automations.failRun, {
+        runId: args.runId,
+        error: error instanceof Error ? error.message : "Automation action failed.",
+        output: { adapter: args.actionType },
+      });
+      return null;
+    }
+
+    if (result.error) {
+      await ctx.runMutation(internal.functions.automations.failRun, {
+        runId: args.runId,
+        error: result.error,
+        output: result.output,
+      });
+      return null;
+    }
+    await ctx.runMutation(internal.functions.automations.completeRun, {
+      runId: args.runId,
+      output: result.output,
+    });
+    return null;
+  },
+});
@@ -1,30 +1,29 @@
 import { v } from "convex/values";
-import { internalAction, internalMutation, query } from "../_generated/server";
+import { internalMutation, query } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import {
+  AUTOMATION_EVENT_TYPES,
+  automationEventValidator,
+  isAutomationEventType,
+} from "./events";
+import {
+  automationActionTypeValidator,
+  validateActionConfig,
+  type AutomationActionType,
+} from "./automationActions";
+import { isOwnedAgentInbox } from "./agents";
 
 const MAX_LIST_ITEMS = 200;
 const MIN_INTERVAL_MINUTES = 1;
-const automationActionTypeValidator = v.union(
-  v.literal("process_agent_tasks"),
-  v.literal("run_symphony")
-);
 
-type AutomationActionType = "process_agent_tasks" | "run_symphony";
-
-type ProcessAgentTasksConfig = {
-  agentId?: Id<"agents">;
-};
-
-type RunSymphonyConfig = {
-  agentId?: Id<"agents">;
-  instruction?: string;
-  repoUrl?: string;
-  baseBranch?: string;
-  projectPath?: string;
-  promptPrefix?: string;
-};
+// Event runs chained from other automation runs stop after this many hops
+const MAX_EVENT_CHAIN_DEPTH = 3;
+// Each event automation starts at most this many runs per window
+const MAX_EVENT_RUNS_PER_WINDOW = 20;
+const EVENT_RUN_WINDOW_MS = 10 * 60_000;
 
 type AutomationDefinitionDoc = {
   _id: Id<"automationDefinitions">;
@@ -42,21 +41,32 @@ function toNextRunAt(intervalMinutes?: number, now = Date.now()): number | undef
   return now + intervalMinutes * 60_000;
 }
 
-function validateActionConfig(actionType: AutomationActionType, actionConfig?: unknown): void {
-  if (actionType === "process_agent_tasks") {
-    const config = (actionConfig ?? {}) as ProcessAgentTasksConfig;
-    if (!config.agentId) {
-      throw new Error("process_agent_tasks requires actionConfig.agentId.");
-    }
-    return;
+// Agents named in actionConfig must belong to the definition owner
+async function checkActionAgent(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  actionConfig?: unknown
+): Promise<void> {
+  const agentId = (actionConfig as { agentId?: unknown } | undefined)?.agentId;
+  if (agentId === undefined) return;
+  const normalized =
+    typeof agentId === "string" ? ctx.db.normalizeId("agents", agentId) : null;
+  const agent = normalized ? await ctx.db.get(normalized) : null;
+  if (!agent || agent.userId !== userId) {
+    throw new Error("actionConfig.agentId is not one of your agents.");
   }
+}
 
-  const config = (actionConfig ?? {}) as RunSymphonyConfig;
-  if (!config.agentId) {
-    throw new Error("run_symphony requires actionConfig.agentId.");
-  }
-  if (!config.instruction?.trim()) {
-    throw new Error("run_symphony requires actionConfig.instruction.");
+// Inboxes named in actionConfig must belong to one of the owner's agents
+async function checkActionInbox(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  actionConfig?: unknown
+): Promise<void> {
+  const inboxAddress = (actionConfig as { inboxAddress?: unknown } | undefined)?.inboxAddress;
+  if (inboxAddress === undefined) return;
+  if (typeof inboxAddress !== "string" || !(await isOwnedAgentInbox(ctx, userId, inboxAddress))) {
+    throw new Error("actionConfig.inboxAddress is not one of your agents' inboxes.");
   }
 }
 
@@ -86,6 +96,54 @@ async function touchDefinitionSchedule(
   });
 }
 
+function validateEventType(eventType?: string): void {
+  if (!eventType?.trim()) {
+    throw new Error("Event automations require eventType.");
+  }
+  if (!isAutomationEventType(eventType.trim())) {
+    throw new Error(
+      `Unknown eventType "${eventType.trim()}". Supported: ${AUTOMATION_EVENT_TYPES.join(", ")}.`
+    );
+  }
+}
+
+// Hand a queued run to its action adapter. Errors mark the run failed.
+async function startRun(
+  ctx: MutationCtx,
+  definition: AutomationDefinitionDoc,
+  runId: Id<"automationRuns">,
+  input?: unknown
+): Promise<boolean> {
+  try {
+    validateActionConfig(definition.actionType, definition.actionConfig);
+
+    await ctx.db.patch(runId, {
+      status: "running",
+      startedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.functions.automationActions.execute, {
+      runId,
+      userId: definition.userId,
+      actionType: definition.actionType,
+      actionConfig: definition.actionConfig,
+      input,
+    });
+    return true;
+  } catch (error) {
+    await ctx.db.patch(runId, {
+      status: "failed",
+      error:
+        error instanceof Error
+          ? error.message
+          : "Automation dispatch failed.",
+      endedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    return false;
+  }
+}
+
 export const listDefinitions = authedQuery({
   args: {},
   returns: v.array(v.any()),
@@ -148,11 +206,13 @@ export const createDefinition = authedMutation({
       }
     }
 
-    if (args.triggerType === "event" && !args.eventType?.trim()) {
-      throw new Error("Event automations require eventType.");
+    if (args.triggerType === "event") {
+      validateEventType(args.eventType);
     }
 
     validateActionConfig(args.actionType, args.actionConfig);
+    await checkActionAgent(ctx, ctx.userId, args.actionConfig);
+    await checkActionInbox(ctx, ctx.userId, args.actionConfig);
 
     const now = Date.now();
     const isActive = args.isActive ?? true;
@@ -216,11 +276,19 @@ export const updateDefinition = authedMutation({
 
     const nextEventType =
       args.eventType === null ? undefined : args.eventType ?? existing.eventType;
-    if (nextTriggerType === "event" && !nextEventType?.trim()) {
-      throw new Error("Event automations require eventType.");
+    // Only check against the catalog when the trigger changes, so older
+    // definitions with free-form event types can still be edited
+    if (nextTriggerType === "event") {
+      if (args.triggerType !== undefined || args.eventType !== undefined) {
+        validateEventType(nextEventType);
+      } else if (!nextEventType?.trim()) {
+        throw new Error("Event automations require eventType.");
+      }
     }
 
     validateActionConfig(nextActionType, nextActionConfig);
+    await checkActionAgent(ctx, ctx.userId, nextActionConfig);
+    await checkActionInbox(ctx, ctx.userId, nextActionConfig);
 
     const patch: {
       name?: string;
@@ -313,68 +381,7 @@ export const runNow = authedMutation({
       updatedAt: now,
     });
 
-    try {
-      if (definition.actionType === "process_agent_tasks") {
-        const actionConfig = (definition.actionConfig ?? {}) as ProcessAgentTasksConfig;
-        if (!actionConfig.agentId) {
-          throw new Error("Missing actionConfig.agentId for process_agent_tasks.");
-        }
-
-        await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
-          userId: ctx.userId,
-          agentId: actionConfig.agentId,
-        });
-
-        await ctx.db.patch(runId, {
-          status: "succeeded",
-          output: {
-            queued: true,
-            adapter: "process_agent_tasks",
-          },
-          endedAt: Date.now(),
-          updatedAt: Date.now(),
-        });
-      } else {
-        const actionConfig = (definition.actionConfig ?? {}) as RunSymphonyConfig;
-        if (!actionConfig.agentId) {
-          throw new Error("Missing actionConfig.agentId for run_symphony.");
-        }
-        if (!actionConfig.instruction?.trim()) {
-          throw new Error("Missing actionConfig.instruction for run_symphony.");
-        }
-
-        await ctx.db.patch(runId, {
-          status: "running",
-          startedAt: Date.now(),
-          updatedAt: Date.now(),
-        });
-
-        await ctx.scheduler.runAfter(
-          0,
-          internal.functions.automations.runSymphonyAutomationRun,
-          {
-            runId,
-            userId: ctx.userId,
-            agentId: actionConfig.agentId,
-            instruction: actionConfig.instruction.trim(),
-            repoUrl: actionConfig.repoUrl?.trim() || undefined,
-            baseBranch: actionConfig.baseBranch?.trim() || undefined,
-            projectPath: actionConfig.projectPath?.trim() || undefined,
-            promptPrefix: actionConfig.promptPrefix?.trim() || undefined,
-          }
-        );
-      }
-    } catch (error) {
-      await ctx.db.patch(runId, {
-        status: "failed",
-        error:
-          error instanceof Error
-            ? error.message
-            : "Automation dispatch failed.",
-        endedAt: Date.now(),
-        updatedAt: Date.now(),
-      });
-    }
+    await startRun(ctx, definition as AutomationDefinitionDoc, runId, args.input);
 
     await touchDefinitionSchedule(ctx, definition as AutomationDefinitionDoc, now);
     return runId;
@@ -401,82 +408,24 @@ export const dispatchDueAutomations = internalMutation({
     let failed = 0;
 
     for (const definition of dueDefinitions) {
+      const input = {
+        source: "automation_control_plane_tick",
+        actionType: definition.actionType,
+      };
       const runId = await ctx.db.insert("automationRuns", {
         userId: definition.userId,
         automationId: definition._id,
         triggerSource: definition.triggerType === "interval" ? "interval" : "manual",
         status: "queued",
-        input: {
-          source: "automation_control_plane_tick",
-          actionType: definition.actionType,
-        },
+        input,
         createdAt: now,
         updatedAt: now,
       });
 
-      try {
-        if (definition.actionType === "process_agent_tasks") {
-          const actionConfig = (definition.actionConfig ?? {}) as ProcessAgentTasksConfig;
-          if (!actionConfig.agentId) {
-            throw new Error("Missing actionConfig.agentId for process_agent_tasks.");
-          }
-
-          await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
-            userId: definition.userId,
-            agentId: actionConfig.agentId,
-          });
-
-          await ctx.db.patch(runId, {
-            status: "succeeded",
-            output: {
-              queued: true,
-              adapter: "process_agent_tasks",
-            },
-            endedAt: Date.now(),
-            updatedAt: Date.now(),
-          });
-        } else {
-          const actionConfig = (definition.actionConfig ?? {}) as RunSymphonyConfig;
-          if (!actionConfig.agentId) {
-            throw new Error("Missing actionConfig.agentId for run_symphony.");
-          }
-          if (!actionConfig.instruction?.trim()) {
-            throw new Error("Missing actionConfig.instruction for run_symphony.");
-          }
-
-          await ctx.db.patch(runId, {
-            status: "running",
-            startedAt: Date.now(),
-            updatedAt: Date.now(),
-          });
-
-          await ctx.scheduler.runAfter(
-            0,
-            internal.functions.automations.runSymphonyAutomationRun,
-            {
-              runId,
-              userId: definition.userId,
-              agentId: actionConfig.agentId,
-              instruction: actionConfig.instruction.trim(),
-              repoUrl: actionConfig.repoUrl?.trim() || undefined,
-              baseBranch: actionConfig.baseBranch?.trim() || undefined,
-              projectPath: actionConfig.projectPath?.trim() || undefined,
-              promptPrefix: actionConfig.promptPrefix?.trim() || undefined,
-            }
-          );
-        }
+      if (await startRun(ctx, definition as AutomationDefinitionDoc, runId, input)) {
         queued += 1;
-      } catch (error) {
+      } else {
         failed += 1;
-        await ctx.db.patch(runId, {
-          status: "failed",
-          error:
-            error instanceof Error
-              ? error.message
-              : "Automation dispatch failed.",
-          endedAt: Date.now(),
-          updatedAt: Date.now(),
-        });
       }
 
       await touchDefinitionSchedule(ctx, definition as AutomationDefinitionDoc, now);
@@ -490,6 +439,95 @@ export const dispatchDueAutomations = internalMutation({
   },
 });
 
+/**
+ * Start a run for each active automation listening for an event.
+ * Scheduled by `emitEvent` in convex/functions/events.ts. The event type,
+ * payload, and emit time become the run input.
+ *
+ * Loop guards: an event caused by an automation run never re-triggers that
+ * run's own automation, chains stop after MAX_EVENT_CHAIN_DEPTH runs, and an
+ * automation that hits MAX_EVENT_RUNS_PER_WINDOW is skipped until the window
+ * moves on.
+ */
+export const dispatchEvent = internalMutation({
+  args: {
+    userId: v.id("users"),
+    event: automationEventValidator,
+    emittedAt: v.number(),
+    automationRunId: v.optional(v.id("automationRuns")),
+  },
+  returns: v.object({
+    matched: v.number(),
+    queued: v.number(),
+    failed: v.number(),
+    skipped: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const originRun = args.automationRunId ? await ctx.db.get(args.automationRunId) : null;
+    const eventDepth = originRun ? (originRun.eventDepth ?? 0) + 1 : 0;
+
+    const definitions = await ctx.db
+      .query("automationDefinitions")
+      .withIndex("by_userId_and_triggerType_and_eventType", (q) =>
+        q
+          .eq("userId", args.userId)
+          .eq("triggerType", "event")
+          .eq("eventType", args.event.type)
+      )
+      .take(MAX_LIST_ITEMS);
+    const active = definitions.filter((definition) => definition.isActive);
+
+    let queued = 0;
+    let failed = 0;
+    let skipped = 0;
+    const now = Date.now();
+
+    const input = {
+      eventType: args.event.type,
+      payload: args.event.payload,
+      emittedAt: args.emittedAt,
+      automationRunId: args.automationRunId,
+    };
+
+    for (const definition of active) {
+      if (eventDepth > MAX_EVENT_CHAIN_DEPTH || originRun?.automationId === definition._id) {
+        skipped += 1;
+        continue;
+      }
+      const recentRuns = await ctx.db
+        .query("automationRuns")
+        .withIndex("by_automationId_and_createdAt", (q) =>
+          q.eq("automationId", definition._id).gte("createdAt", now - EVENT_RUN_WINDOW_MS)
+        )
+        .take(MAX_EVENT_RUNS_PER_WINDOW);
+      if (recentRuns.length >= MAX_EVENT_RUNS_PER_WINDOW) {
+        skipped += 1;
+        continue;
+      }
+
+      const runId = await ctx.db.insert("automationRuns", {
+        userId: definition.userId,
+        automationId: definition._id,
+        triggerSource: "event",
+        status: "queued",
+        input,
+        eventDepth: originRun ? eventDepth : undefined,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      if (await startRun(ctx, definition as AutomationDefinitionDoc, runId, input)) {
+        queued += 1;
+      } else {
+        failed += 1;
+      }
+      await touchDefinitionSchedule(ctx, definition as AutomationDefinitionDoc, now);
+    }
+
+    return { matched: active.length, queued, failed, skipped };
+  },
+});
+
 export const completeRun = internalMutation({
   args: {
     runId: v.id("automationRuns"),
@@ -526,62 +564,6 @@ export const failRun = internalMutation({
   },
 });
 
-export const runSymphonyAutomationRun = internalAction({
-  args: {
-    runId: v.id("automationRuns"),
-    userId: v.id("users"),
-    agentId: v.id("agents"),
-    instruction: v.string(),
-    repoUrl: v.optional(v.string()),
-    baseBranch: v.optional(v.string()),
-    projectPath: v.optional(v.string()),
-    promptPrefix: v.optional(v.string()),
-  },
-  returns: v.null(),
-  handler: async (ctx, args): Promise<null> => {
-    const result: {
-      success: boolean;
-      externalRunId?: string;
-      result?: string;
-      error?: string;
-    } = await ctx.runAction(internal.functions.daytona.runSymphonyAutomation, {
-      userId: args.userId,
-      agentId: args.agentId,
-      instruction: args.instruction,
-      repoUrl: args.repoUrl,
-      baseBranch: args.baseBranch,
-      projectPath: args.projectPath,
-      promptPrefix: args.promptPrefix,
-    });
-
-    if (result.success) {
-      const completeResult: null = await ctx.runMutation(
-        internal.functions.automations.completeRun,
-        {
-          runId: args.runId,
-          output: {
-            adapter: "run_symphony",
-            externalRunId: result.externalRunId,
-            result: result.result,
-          },
-        }
-      );
-      return completeResult;
-    }
-
-    const failResult: null = await ctx.runMutation(internal.functions.automations.failRun, {
-      runId: args.runId,
-      error: result.error ?? "Symphony automation failed.",
-      output: {
-        adapter: "run_symphony",
-        externalRunId: result.externalRunId,
-        result: result.result,
-      },
-    });
-    return failResult;
-  },
-});
-
 // Public helper query for event-driven trigger lookups in API/webhook handlers.
 export const listEventDefinitions = query({
   args: {
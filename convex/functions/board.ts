@@ -6,6 +6,17 @@ import { internal } from "../_generated/api";
 import type { MutationCtx } from "../_generated/server";
 import type { QueryCtx } from "../_generated/server";
 import type { Id } from "../_generated/dataModel";
+import { automationRunIdFromCaller, emitEvent } from "./events";
+import {
+  detachDeletedTask,
+  getPrerequisiteChain,
+  getPendingDependents,
+  isTaskBlocked,
+  normalizeTaskDependencies,
+  onTaskFinished,
+  releaseTasks,
+  syncDependencyEdges,
+} from "./taskDependencies";
 
 const DEFAULT_BOARD_COLUMNS = ["Inbox", "Todo", "In Progress", "Done"] as const;
 
@@ -17,7 +28,7 @@ type TaskWithRequesterRefs = {
   outcomeLinks?: Array<string>;
 };
 
-async function getOrCreateInboxColumnId(
+export async function getOrCreateInboxColumnId(
   ctx: Pick<MutationCtx, "db">,
   userId: Id<"users">
 ): Promise<Id<"boardColumns">> {
@@ -377,6 +388,7 @@ export const createTask = authedMutation({
     projectId: v.optional(v.id("boardProjects")),
     isPublic: v.optional(v.boolean()),
     targetCompletionAt: v.optional(v.number()),
+    blockedBy: v.optional(v.array(v.id("tasks"))),
   },
   returns: v.id("tasks"),
   handler: async (ctx, args) => {
@@ -422,6 +434,11 @@ export const createTask = authedMutation({
       throw new Error("Task description is required");
     }
 
+    const blockedBy = args.blockedBy
+      ? await normalizeTaskDependencies(ctx, ctx.userId, null, args.blockedBy)
+      : [];
+    const blocked = await isTaskBlocked(ctx, { status: "pending", blockedBy });
+
     const isPublic = args.isPublic ?? false;
     const targetCompletionAt =
       args.targetCompletionAt !== undefined ? Math.trunc(args.targetCompletionAt) : undefined;
@@ -438,7 +455,9 @@ export const createTask = authedMutation({
       isPublic,
       createdAt: Date.now(),
       targetCompletionAt,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
     });
+    await syncDependencyEdges(ctx, ctx.userId, taskId, blockedBy);
 
     await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
       userId: ctx.userId,
@@ -458,14 +477,15 @@ export const createTask = authedMutation({
       isPublic,
     });
 
-    // Immediately schedule agent processing so the task doesn't wait for the cron
-    if (args.agentId) {
+    // Immediately schedule agent processing so the task doesn't wait for the cron.
+    // Blocked tasks are released when their last prerequisite completes.
+    if (args.agentId && !blocked) {
       await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
         userId: ctx.userId,
         agentId: args.agentId,
       });
     }
-    if (team?.autonomy.executionMode === "auto") {
+    if (team?.autonomy.executionMode === "auto" && !blocked) {
       await ctx.scheduler.runAfter(0, internal.functions.teams.processTeamTasks, {
         userId: ctx.userId,
         teamId: team._id,
@@ -645,6 +665,9 @@ export const moveTask = authedMutation({
     const task = await ctx.db.get(args.taskId);
     if (!task || task.userId !== ctx.userId) throw new Error("Task not found");
     const previousStatus = task.status;
+    if (args.status === "in_progress" && (await isTaskBlocked(ctx, task))) {
+      throw new Error("Task is blocked until its prerequisites complete");
+    }
 
     const patch: Record<string, unknown> = {
       boardColumnId: args.boardColumnId,
@@ -659,6 +682,19 @@ export const moveTask = authedMutation({
     await ctx.db.patch(args.taskId, patch);
 
     const statusChanged = !!args.status && args.status !== previousStatus;
+    if (statusChanged && (args.status === "completed" || args.status === "failed")) {
+      await onTaskFinished(ctx, ctx.userId, task._id, args.status);
+      await emitEvent(ctx, ctx.userId, {
+        type: args.status === "completed" ? "task.completed" : "task.failed",
+        payload: {
+          taskId: task._id,
+          agentId: task.agentId,
+          description: task.description.slice(0, 500),
+          outcomeSummary: task.outcomeSummary?.slice(0, 500),
+          source: "dashboard",
+        },
+      }, task.automationRunId);
+    }
     const assignedAgent = task.agentId ? await ctx.db.get(task.agentId) : null;
     const actorName = assignedAgent?.name ?? "Task";
     if (statusChanged && (args.status === "completed" || args.status === "failed")) {
@@ -780,6 +816,7 @@ export const updateTask = authedMutation({
     targetCompletionAt: v.optional(v.union(v.number(), v.null())),
     outcomeSummary: v.optional(v.union(v.string(), v.null())),
     outcomeLinks: v.optional(v.union(v.array(v.string()), v.null())),
+    blockedBy: v.optional(v.array(v.id("tasks"))),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -838,21 +875,31 @@ export const updateTask = authedMutation({
           .slice(0, 8) ?? [];
       patch.outcomeLinks = cleanLinks.length > 0 ? cleanLinks : undefined;
     }
+    let blockedBy = task.blockedBy ?? [];
+    if (args.blockedBy !== undefined) {
+      blockedBy = await normalizeTaskDependencies(ctx, ctx.userId, task._id, args.blockedBy);
+      patch.blockedBy = blockedBy.length > 0 ? blockedBy : undefined;
+      await syncDependencyEdges(ctx, ctx.userId, task._id, blockedBy);
+    }
 
     if (Object.keys(patch).length > 0) {
       await ctx.db.patch(args.taskId, patch);
     }
 
-    if (args.agentId) {
+    // Blocked tasks are released when their last prerequisite completes
+    const blocked = await isTaskBlocked(ctx, { status: task.status, blockedBy });
+    if (!blocked && args.agentId) {
       await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, {
         userId: ctx.userId,
         agentId: args.agentId,
       });
-    } else if (updatedTeam?.autonomy.executionMode === "auto") {
+    } else if (!blocked && updatedTeam?.autonomy.executionMode === "auto") {
       await ctx.scheduler.runAfter(0, internal.functions.teams.processTeamTasks, {
         userId: ctx.userId,
         teamId: updatedTeam._id,
       });
+    } else if (!blocked && args.blockedBy !== undefined && task.status === "pending") {
+      await releaseTasks(ctx, ctx.userId, [task]);
     }
 
     const hasOutcomeUpdate =
@@ -903,6 +950,9 @@ export const doNow = authedMutation({
     if (!task || task.userId !== ctx.userId) {
       throw new Error("Task not found");
     }
+    if (await isTaskBlocked(ctx, task)) {
+      throw new Error("Task is blocked until its prerequisites complete");
+    }
 
     const columns = await ctx.db
       .query("boardColumns")
@@ -952,6 +1002,17 @@ export const doNow = authedMutation({
   },
 });
 
+// Instances of a deleted recurring template become standalone tasks
+async function detachRecurrenceInstances(ctx: MutationCtx, templateId: Id<"tasks">) {
+  const instances = await ctx.db
+    .query("tasks")
+    .withIndex("by_recurrenceTemplateId", (q) => q.eq("recurrenceTemplateId", templateId))
+    .collect();
+  await Promise.all(
+    instances.map((instance) => ctx.db.patch(instance._id, { recurrenceTemplateId: undefined }))
+  );
+}
+
 // Delete a task
 export const deleteTask = authedMutation({
   args: { taskId: v.id("tasks") },
@@ -960,6 +1021,10 @@ export const deleteTask = authedMutation({
     const task = await ctx.db.get(taskId);
     if (!task || task.userId !== ctx.userId) throw new Error("Task not found");
     await ctx.db.delete(taskId);
+    await detachDeletedTask(ctx, ctx.userId, taskId);
+    if (task.recurrence) {
+      await detachRecurrenceInstances(ctx, taskId);
+    }
     return null;
   },
 });
@@ -1032,6 +1097,12 @@ export const deleteArchivedTasks = authedMutation({
     const archivedTasks = tasks.filter((t) => t.isArchived === true);
 
     await Promise.all(archivedTasks.map((t) => ctx.db.delete(t._id)));
+    for (const task of archivedTasks) {
+      await detachDeletedTask(ctx, ctx.userId, task._id);
+      if (task.recurrence) {
+        await detachRecurrenceInstances(ctx, task._id);
+      }
+    }
 
     return archivedTasks.length;
   },
@@ -1168,6 +1239,9 @@ export const createTaskFromAgent = internalMutation({
     ),
     parentTaskId: v.optional(v.id("tasks")),
     delegatedByAgentId: v.optional(v.id("agents")),
+    blockedBy: v.optional(v.array(v.id("tasks"))),
+    // Runtime caller; tasks started by automation runs remember the run
+    callerId: v.optional(v.string()),
   },
   returns: v.id("tasks"),
   handler: async (ctx, args) => {
@@ -1192,6 +1266,10 @@ export const createTaskFromAgent = internalMutation({
       }
     }
 
+    const blockedBy = args.blockedBy
+      ? await normalizeTaskDependencies(ctx, args.userId, null, args.blockedBy)
+      : [];
+
     const inboxColumnId = await getOrCreateInboxColumnId(ctx, args.userId);
     const taskId = await ctx.db.insert("tasks", {
       userId: args.userId,
@@ -1205,8 +1283,11 @@ export const createTaskFromAgent = internalMutation({
       isPublic: args.isPublic,
       parentTaskId: args.parentTaskId,
       delegatedByAgentId: args.delegatedByAgentId,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+      automationRunId: automationRunIdFromCaller(ctx, args.callerId),
       createdAt: Date.now(),
     });
+    await syncDependencyEdges(ctx, args.userId, taskId, blockedBy);
 
     const isSubtask = !!args.parentTaskId;
     await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
@@ -1259,6 +1340,7 @@ export const updateTaskFromAgent = internalMutation({
       v.literal("a2a"),
       v.literal("dashboard")
     ),
+    callerId: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -1266,6 +1348,9 @@ export const updateTaskFromAgent = internalMutation({
     if (!task || task.userId !== args.userId) {
       throw new Error("Task not found");
     }
+    if (args.status === "in_progress" && (await isTaskBlocked(ctx, task))) {
+      throw new Error("Task is blocked until its prerequisites complete");
+    }
 
     let resolvedBoardColumnId = args.boardColumnId;
     if (!resolvedBoardColumnId && args.boardColumnName?.trim()) {
@@ -1332,6 +1417,21 @@ export const updateTaskFromAgent = internalMutation({
     const completedNow = args.status === "completed" && task.status !== "completed";
     const startedNow = args.status === "in_progress" && task.status !== "in_progress";
     const failedNow = args.status === "failed" && task.status !== "failed";
+    if (completedNow || failedNow) {
+      await onTaskFinished(ctx, args.userId, task._id, completedNow ? "completed" : "failed");
+      const outcomeSummary =
+        (patch.outcomeSummary as string | undefined) ?? task.outcomeSummary;
+      await emitEvent(ctx, args.userId, {
+        type: completedNow ? "task.completed" : "task.failed",
+        payload: {
+          taskId: task._id,
+          agentId: args.agentId ?? task.agentId,
+          description: task.description.slice(0, 500),
+          outcomeSummary: outcomeSummary?.slice(0, 500),
+          source: args.source,
+        },
+      }, task.automationRunId ?? automationRunIdFromCaller(ctx, args.callerId));
+    }
 
     const resolvedAgent = args.agentId
       ? await ctx.db.get(args.agentId)
@@ -1560,6 +1660,31 @@ export const setWorkflowSteps = internalMutation({
   },
 });
 
+// Append external tool calls made while working a task (capped at the latest 100)
+export const appendToolCallLog = internalMutation({
+  args: {
+    taskId: v.id("tasks"),
+    userId: v.id("users"),
+    entries: v.array(v.object({
+      toolName: v.string(),
+      input: v.optional(v.any()),
+      output: v.optional(v.any()),
+      durationMs: v.optional(v.number()),
+      calledAt: v.number(),
+    })),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== args.userId) return null;
+    const existing = task.toolCallLog ?? [];
+    await ctx.db.patch(args.taskId, {
+      toolCallLog: [...existing, ...args.entries].slice(-100),
+    });
+    return null;
+  },
+});
+
 // Link a generated audio file to a task outcome
 export const linkOutcomeAudio = internalMutation({
   args: {
@@ -1642,6 +1767,55 @@ export const getSubtasks = authedQuery({
   },
 });
 
+const dependencyTaskValidator = v.object({
+  _id: v.id("tasks"),
+  description: v.string(),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("in_progress"),
+    v.literal("completed"),
+    v.literal("failed")
+  ),
+  depth: v.number(),
+});
+
+// Upstream dependency chain and direct dependents for task details
+export const getTaskDependencies = authedQuery({
+  args: { taskId: v.id("tasks") },
+  returns: v.union(
+    v.object({
+      blocked: v.boolean(),
+      prerequisites: v.array(dependencyTaskValidator),
+      dependents: v.array(dependencyTaskValidator),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== ctx.userId) return null;
+    const [chain, dependents, blocked] = await Promise.all([
+      getPrerequisiteChain(ctx, task),
+      getPendingDependents(ctx, ctx.userId, task._id),
+      isTaskBlocked(ctx, task),
+    ]);
+    return {
+      blocked,
+      prerequisites: chain.map(({ task: prerequisite, depth }) => ({
+        _id: prerequisite._id,
+        description: prerequisite.description,
+        status: prerequisite.status,
+        depth,
+      })),
+      dependents: dependents.map((dependent) => ({
+        _id: dependent._id,
+        description: dependent.description,
+        status: dependent.status,
+        depth: 1,
+      })),
+    };
+  },
+});
+
 export const setOutcomeEmailDelivery = internalMutation({
   args: {
     taskId: v.id("tasks"),
@@ -8,6 +8,7 @@
  */
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
+import { apiKeySlot, openSecret } from "../lib/secrets";
 import { authedMutation, authedQuery } from "../lib/functions";
 
 // Profile status validator
@@ -215,9 +216,8 @@ export const getCredential = internalQuery({
 
     if (!cred?.encryptedApiKey || !cred.isActive) return null;
 
-    // Decrypt (placeholder, uses base64 in dev)
     return {
-      apiKey: atob(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, cred.userId, apiKeySlot(cred._id), cred.encryptedApiKey),
     };
   },
 });
@@ -324,7 +324,7 @@ export const getCredentialByUserId = internalQuery({
     if (!cred?.encryptedApiKey || !cred.isActive) return null;
 
     return {
-      apiKey: atob(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, cred.userId, apiKeySlot(cred._id), cred.encryptedApiKey),
     };
   },
 });
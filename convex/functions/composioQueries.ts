@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { internalQuery } from "../_generated/server";
+import { apiKeySlot, openSecret } from "../lib/secrets";
 import { authedQuery } from "../lib/functions";
 
 /**
@@ -43,7 +44,7 @@ export const getComposioCredential = internalQuery({
     }
 
     return {
-      apiKey: atob(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, cred.userId, apiKeySlot(cred._id), cred.encryptedApiKey),
       config: cred.config,
     };
   },
@@ -6,16 +6,15 @@
 import { v } from "convex/values";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { internalMutation, internalQuery, query } from "../_generated/server";
-
-// Simple encoding for API keys (should use real encryption in production)
-function encodeToken(token: string): string {
-  // Use btoa for V8 runtime compatibility
-  return btoa(token);
-}
-
-function decodeToken(encoded: string): string {
-  // Use atob for V8 runtime compatibility
-  return atob(encoded);
+import type { Id } from "../_generated/dataModel";
+import { openSecret, sealSecret } from "../lib/secrets";
+import type { SecretSlot } from "../lib/secrets";
+
+function tokenSlot(
+  id: Id<"connectedApps">,
+  field: "encryptedAccessToken" | "encryptedRefreshToken"
+): SecretSlot {
+  return { table: "connectedApps", id, field };
 }
 
 // ============================================================
@@ -120,10 +119,6 @@ export const connect = authedMutation({
     const data = {
       userId: ctx.userId,
       service: args.service,
-      encryptedAccessToken: encodeToken(args.accessToken),
-      encryptedRefreshToken: args.refreshToken
-        ? encodeToken(args.refreshToken)
-        : undefined,
       tokenExpiresAt: args.expiresIn ? now + args.expiresIn * 1000 : undefined,
       scopes: args.scopes,
       externalUserId: args.externalUserId,
@@ -134,12 +129,28 @@ export const connect = authedMutation({
       createdAt: existing?.createdAt ?? now,
     };
 
-    if (existing) {
-      await ctx.db.patch(existing._id, data);
-      return existing._id;
-    }
-
-    return await ctx.db.insert("connectedApps", data);
+    // Tokens are sealed to their row, so a new row is inserted first
+    const appId =
+      existing?._id ??
+      (await ctx.db.insert("connectedApps", { ...data, encryptedAccessToken: "" }));
+    await ctx.db.patch(appId, {
+      ...data,
+      encryptedAccessToken: await sealSecret(
+        ctx,
+        ctx.userId,
+        tokenSlot(appId, "encryptedAccessToken"),
+        args.accessToken
+      ),
+      encryptedRefreshToken: args.refreshToken
+        ? await sealSecret(
+            ctx,
+            ctx.userId,
+            tokenSlot(appId, "encryptedRefreshToken"),
+            args.refreshToken
+          )
+        : undefined,
+    });
+    return appId;
   },
 });
 
@@ -202,9 +213,19 @@ export const getToken = internalQuery({
     if (!app || !app.isActive) return null;
 
     return {
-      accessToken: decodeToken(app.encryptedAccessToken),
+      accessToken: await openSecret(
+        ctx,
+        userId,
+        tokenSlot(app._id, "encryptedAccessToken"),
+        app.encryptedAccessToken
+      ),
       refreshToken: app.encryptedRefreshToken
-        ? decodeToken(app.encryptedRefreshToken)
+        ? await openSecret(
+            ctx,
+            userId,
+            tokenSlot(app._id, "encryptedRefreshToken"),
+            app.encryptedRefreshToken
+          )
         : undefined,
       expiresAt: app.tokenExpiresAt,
     };
@@ -232,9 +253,14 @@ export const updateToken = internalMutation({
     if (!app) return null;
 
     await ctx.db.patch(app._id, {
-      encryptedAccessToken: encodeToken(accessToken),
+      encryptedAccessToken: await sealSecret(
+        ctx,
+        userId,
+        tokenSlot(app._id, "encryptedAccessToken"),
+        accessToken
+      ),
       encryptedRefreshToken: refreshToken
-        ? encodeToken(refreshToken)
+        ? await sealSecret(ctx, userId, tokenSlot(app._id, "encryptedRefreshToken"), refreshToken)
         : app.encryptedRefreshToken,
       tokenExpiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
       lastUsedAt: Date.now(),
@@ -6,7 +6,10 @@
 import { v } from "convex/values";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { internalAction, internalMutation, internalQuery } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { emitEvent } from "./events";
 
 type EmailChannelMetadata = {
   from: string;
@@ -23,8 +26,27 @@ type EmailChannelMetadata = {
   lastBounceSubType?: string;
 };
 
+type PhoneChannelMetadata = {
+  provider: "twilio" | "telnyx" | "plivo";
+  from: string;
+  to: string;
+  lastKind: "sms" | "voice";
+  lastMessageSid?: string;
+  lastCallSid?: string;
+};
+
+const phoneChannelMetadataValidator = v.object({
+  provider: v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo")),
+  from: v.string(),
+  to: v.string(),
+  lastKind: v.union(v.literal("sms"), v.literal("voice")),
+  lastMessageSid: v.optional(v.string()),
+  lastCallSid: v.optional(v.string()),
+});
+
 type ChannelMetadata = {
   email?: EmailChannelMetadata;
+  phone?: PhoneChannelMetadata;
 };
 
 function mergeChannelMetadata(
@@ -38,14 +60,76 @@ function mergeChannelMetadata(
         ...incoming.email,
       }
     : existing?.email;
+  const mergedPhone = incoming?.phone
+    ? {
+        ...existing?.phone,
+        ...incoming.phone,
+      }
+    : existing?.phone;
 
   return {
     ...(existing ?? {}),
     ...(incoming ?? {}),
     ...(mergedEmail ? { email: mergedEmail } : {}),
+    ...(mergedPhone ? { phone: mergedPhone } : {}),
   };
 }
 
+/**
+ * Add an agent-initiated phone message (outbound SMS or call) to the thread
+ * with that number, starting the thread if needed. `phone.from` stays the
+ * other party and `phone.to` the agent number, matching inbound threads.
+ */
+export async function addOutboundPhoneMessage(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    agentId: Id<"agents">;
+    content: string;
+    phone: PhoneChannelMetadata;
+  }
+): Promise<Id<"conversations">> {
+  const { userId, agentId, content, phone } = args;
+  const externalId = `${phone.to}:${phone.from}`;
+  const message = { role: "agent" as const, content, timestamp: Date.now() };
+
+  const existing = await ctx.db
+    .query("conversations")
+    .withIndex("by_channel_externalId", (q) =>
+      q.eq("channel", "phone").eq("externalId", externalId)
+    )
+    .filter((q) => q.eq(q.field("userId"), userId))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      messages: [...existing.messages, message],
+      status: "active",
+      channelMetadata: mergeChannelMetadata(
+        (existing as typeof existing & { channelMetadata?: ChannelMetadata }).channelMetadata,
+        { phone }
+      ),
+    });
+    return existing._id;
+  }
+
+  const conversationId = await ctx.db.insert("conversations", {
+    userId,
+    channel: "phone",
+    externalId,
+    agentId,
+    channelMetadata: { phone },
+    messages: [message],
+    status: "active",
+    createdAt: Date.now(),
+  });
+  await emitEvent(ctx, userId, {
+    type: "conversation.created",
+    payload: { conversationId, channel: "phone", externalId, agentId },
+  });
+  return conversationId;
+}
+
 // ============================================================
 // Public queries
 // ============================================================
@@ -166,7 +250,7 @@ export const startAgentChat = authedMutation({
       return existingDashboardChat._id;
     }
 
-    return await ctx.db.insert("conversations", {
+    const conversationId = await ctx.db.insert("conversations", {
       userId: ctx.userId,
       channel: "dashboard",
       externalId: `agent:${args.agentId}`,
@@ -175,6 +259,16 @@ export const startAgentChat = authedMutation({
       status: "active",
       createdAt: Date.now(),
     });
+    await emitEvent(ctx, ctx.userId, {
+      type: "conversation.created",
+      payload: {
+        conversationId,
+        channel: "dashboard",
+        externalId: `agent:${args.agentId}`,
+        agentId: args.agentId,
+      },
+    });
+    return conversationId;
   },
 });
 
@@ -210,6 +304,17 @@ export const sendDashboardMessage = authedMutation({
       status: "active",
     });
 
+    // Live reply record the chat page renders while tokens stream in
+    const streamId = await ctx.db.insert("streamingMessages", {
+      userId: ctx.userId,
+      agentId: conversation.agentId,
+      conversationId: args.conversationId,
+      content: "",
+      status: "streaming",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
     await ctx.scheduler.runAfter(
       0,
       internal.functions.conversations.processDashboardMessage,
@@ -218,6 +323,7 @@ export const sendDashboardMessage = authedMutation({
         userId: ctx.userId,
         agentId: conversation.agentId,
         message: content,
+        streamId,
       }
     );
 
@@ -312,6 +418,7 @@ export const create = internalMutation({
             lastBounceSubType: v.optional(v.string()),
           })
         ),
+        phone: v.optional(phoneChannelMetadataValidator),
       })
     ),
   },
@@ -327,6 +434,22 @@ export const create = internalMutation({
       (c) => c.channel === channel && c.externalId === externalId
     );
 
+    // Inbound email arrives through here from the AgentMail webhook
+    const email = channelMetadata?.email;
+    const emitEmailReceived = async (conversationId: Id<"conversations">) => {
+      if (channel !== "email" || email?.deliveryStatus !== "received") return;
+      await emitEvent(ctx, userId, {
+        type: "email.received",
+        payload: {
+          conversationId,
+          from: email.from,
+          inboxAddress: email.inboxAddress,
+          subject: email.subject,
+          snippet: initialMessage.slice(0, 500),
+        },
+      });
+    };
+
     if (existingConv) {
       // Add to existing conversation
       const messages = [
@@ -348,11 +471,12 @@ export const create = internalMutation({
         ),
       });
 
+      await emitEmailReceived(existingConv._id);
       return existingConv._id;
     }
 
     // Create new conversation
-    return await ctx.db.insert("conversations", {
+    const conversationId = await ctx.db.insert("conversations", {
       userId,
       channel,
       externalId,
@@ -368,6 +492,12 @@ export const create = internalMutation({
       status: "active",
       createdAt: Date.now(),
     });
+    await emitEvent(ctx, userId, {
+      type: "conversation.created",
+      payload: { conversationId, channel, externalId, agentId },
+    });
+    await emitEmailReceived(conversationId);
+    return conversationId;
   },
 });
 
@@ -377,19 +507,34 @@ export const processDashboardMessage = internalAction({
     userId: v.id("users"),
     agentId: v.id("agents"),
     message: v.string(),
+    streamId: v.optional(v.id("streamingMessages")),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-      userId: args.userId,
-      agentId: args.agentId,
-      message: args.message,
-      channel: "dashboard",
-    });
+    let result: { response: string; blocked: boolean };
+    try {
+      result = await ctx.runAction(internal.agent.runtime.processMessage, {
+        userId: args.userId,
+        agentId: args.agentId,
+        message: args.message,
+        channel: "dashboard",
+        streamId: args.streamId,
+      });
+    } catch (error) {
+      if (args.streamId) {
+        await ctx.runMutation(internal.functions.streamingMessages.finish, {
+          streamId: args.streamId,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
 
     await ctx.runMutation(internal.functions.conversations.addAgentResponse, {
       conversationId: args.conversationId,
       content: result.response,
+      streamId: args.streamId,
     });
 
     return null;
@@ -401,9 +546,16 @@ export const addAgentResponse = internalMutation({
   args: {
     conversationId: v.id("conversations"),
     content: v.string(),
+    // Streaming record to remove in the same transaction, so the live
+    // bubble and the saved message never render together
+    streamId: v.optional(v.id("streamingMessages")),
   },
   returns: v.null(),
-  handler: async (ctx, { conversationId, content }) => {
+  handler: async (ctx, { conversationId, content, streamId }) => {
+    if (streamId && (await ctx.db.get(streamId))) {
+      await ctx.db.delete(streamId);
+    }
+
     const conv = await ctx.db.get(conversationId);
     if (!conv) return null;
 
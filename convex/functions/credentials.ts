@@ -2,6 +2,7 @@ import { v } from "convex/values";
 import { action, internalQuery, internalMutation } from "../_generated/server";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { api, internal } from "../_generated/api";
+import { apiKeySlot, openSecret, sealSecret } from "../lib/secrets";
 
 // Service types for validation
 const serviceValidator = v.union(
@@ -461,10 +462,6 @@ export const saveApiKey = authedMutation({
     ),
   },
   handler: async (ctx, args) => {
-    // In production, encrypt the API key before storing
-    // For now, we store as-is (should use crypto in production)
-    const encryptedApiKey = encryptApiKey(args.apiKey);
-
     const existing = await ctx.db
       .query("userCredentials")
       .withIndex("by_userId_service", (q) =>
@@ -477,7 +474,7 @@ export const saveApiKey = authedMutation({
     if (existing) {
       // Update existing credential
       await ctx.db.patch(existing._id, {
-        encryptedApiKey,
+        encryptedApiKey: await sealSecret(ctx, ctx.userId, apiKeySlot(existing._id), args.apiKey),
         config: args.config,
         isActive: true,
         updatedAt: now,
@@ -485,16 +482,19 @@ export const saveApiKey = authedMutation({
       return existing._id;
     }
 
-    // Create new credential
-    return await ctx.db.insert("userCredentials", {
+    // Create new credential, then seal the key to its id
+    const credentialId = await ctx.db.insert("userCredentials", {
       userId: ctx.userId,
       service: args.service,
-      encryptedApiKey,
       config: args.config,
       isActive: true,
       createdAt: now,
       updatedAt: now,
     });
+    await ctx.db.patch(credentialId, {
+      encryptedApiKey: await sealSecret(ctx, ctx.userId, apiKeySlot(credentialId), args.apiKey),
+    });
+    return credentialId;
   },
 });
 
@@ -561,9 +561,8 @@ export const getDecryptedApiKey = internalQuery({
       return null;
     }
 
-    // In production, decrypt the API key
     return {
-      apiKey: decryptApiKey(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, userId, apiKeySlot(cred._id), cred.encryptedApiKey),
       config: cred.config,
     };
   },
@@ -621,7 +620,7 @@ export const getActiveLLMCredential = internalQuery({
       if (cred?.isActive && cred.encryptedApiKey) {
         return {
           provider: preferredProvider,
-          apiKey: decryptApiKey(cred.encryptedApiKey),
+          apiKey: await openSecret(ctx, userId, apiKeySlot(cred._id), cred.encryptedApiKey),
           config: cred.config,
         };
       }
@@ -638,7 +637,7 @@ export const getActiveLLMCredential = internalQuery({
     if (openrouterCred?.isActive && openrouterCred.encryptedApiKey) {
       return {
         provider: "openrouter" as const,
-        apiKey: decryptApiKey(openrouterCred.encryptedApiKey),
+        apiKey: await openSecret(ctx, userId, apiKeySlot(openrouterCred._id), openrouterCred.encryptedApiKey),
         config: openrouterCred.config,
       };
     }
@@ -648,24 +647,6 @@ export const getActiveLLMCredential = internalQuery({
   },
 });
 
-// ============================================================
-// Encryption helpers (simplified, use proper encryption in production)
-// ============================================================
-
-// In production, use AES-256-GCM with a key from env vars
-// This is a placeholder implementation using btoa/atob for V8 runtime compatibility
-function encryptApiKey(apiKey: string): string {
-  // In production: encrypt with AES-256-GCM
-  // For now, we use base64 encoding (NOT SECURE - replace in production)
-  return btoa(apiKey);
-}
-
-function decryptApiKey(encrypted: string): string {
-  // In production: decrypt with AES-256-GCM
-  // For now, we use base64 decoding (NOT SECURE - replace in production)
-  return atob(encrypted);
-}
-
 function normalizeModelOptions(
   rawModels: Array<{ id?: string; name?: string }>
 ): Array<{ id: string; label: string }> {
@@ -0,0 +1,131 @@
+/**
+ * Automation Events
+ *
+ * Typed internal event bus. Mutations that own a state change call
+ * `emitEvent`, which schedules `automations.dispatchEvent` to start a run for
+ * every active automation with `triggerType: "event"` and a matching
+ * `eventType`. Scheduling from the emitting mutation means an event only
+ * fires when its state change commits, and a failing automation never rolls
+ * the change back. Events caused by an automation run carry that run's id so
+ * dispatch can stop a rule from re-triggering itself.
+ */
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+
+const taskPayload = v.object({
+  taskId: v.id("tasks"),
+  agentId: v.optional(v.id("agents")),
+  description: v.string(),
+  outcomeSummary: v.optional(v.string()),
+  source: v.optional(v.string()),
+});
+
+export const automationEventValidator = v.union(
+  v.object({ type: v.literal("task.completed"), payload: taskPayload }),
+  v.object({ type: v.literal("task.failed"), payload: taskPayload }),
+  v.object({
+    type: v.literal("conversation.created"),
+    payload: v.object({
+      conversationId: v.id("conversations"),
+      channel: v.string(),
+      externalId: v.string(),
+      agentId: v.optional(v.id("agents")),
+    }),
+  }),
+  v.object({
+    type: v.literal("email.received"),
+    payload: v.object({
+      conversationId: v.id("conversations"),
+      from: v.string(),
+      inboxAddress: v.string(),
+      subject: v.optional(v.string()),
+      snippet: v.string(),
+    }),
+  }),
+  v.object({
+    type: v.literal("security.flag"),
+    payload: v.object({
+      source: v.string(),
+      flagType: v.string(),
+      severity: v.union(v.literal("warn"), v.literal("block")),
+      pattern: v.string(),
+      action: v.string(),
+    }),
+  }),
+  v.object({
+    type: v.literal("a2a.message.received"),
+    payload: v.object({
+      threadId: v.string(),
+      agentId: v.optional(v.id("agents")),
+      peerAgentId: v.optional(v.id("agents")),
+      peerRemoteAgentId: v.optional(v.id("a2aRemoteAgents")),
+      peerName: v.optional(v.string()),
+      preview: v.string(),
+    }),
+  }),
+  v.object({
+    type: v.literal("skill.published"),
+    payload: v.object({
+      skillId: v.id("skills"),
+      agentId: v.optional(v.id("agents")),
+      name: v.string(),
+    }),
+  })
+);
+
+export type AutomationEvent = Infer<typeof automationEventValidator>;
+export type AutomationEventType = AutomationEvent["type"];
+
+export const AUTOMATION_EVENT_TYPES: Array<AutomationEventType> = [
+  "task.completed",
+  "task.failed",
+  "conversation.created",
+  "email.received",
+  "security.flag",
+  "a2a.message.received",
+  "skill.published",
+];
+
+export function isAutomationEventType(value: string): value is AutomationEventType {
+  return (AUTOMATION_EVENT_TYPES as Array<string>).includes(value);
+}
+
+// Agent messages and tasks started by an automation run carry this callerId
+const AUTOMATION_CALLER_PREFIX = "automation:";
+
+export function automationCallerId(runId: Id<"automationRuns">): string {
+  return `${AUTOMATION_CALLER_PREFIX}${runId}`;
+}
+
+// The automation run behind a runtime callerId, if the caller was one
+export function automationRunIdFromCaller(
+  ctx: Pick<MutationCtx, "db">,
+  callerId?: string
+): Id<"automationRuns"> | undefined {
+  if (!callerId?.startsWith(AUTOMATION_CALLER_PREFIX)) return undefined;
+  return (
+    ctx.db.normalizeId("automationRuns", callerId.slice(AUTOMATION_CALLER_PREFIX.length)) ??
+    undefined
+  );
+}
+
+/**
+ * Emit an event for a user's automations from inside a mutation. Pass the
+ * automation run whose action caused the event, when there is one.
+ */
+export async function emitEvent(
+  ctx: Pick<MutationCtx, "scheduler">,
+  userId: Id<"users">,
+  event: AutomationEvent,
+  automationRunId?: Id<"automationRuns">
+): Promise<void> {
+  await ctx.scheduler.runAfter(0, internal.functions.automations.dispatchEvent, {
+    userId,
+    event,
+    emittedAt: Date.now(),
+    automationRunId,
+  });
+}
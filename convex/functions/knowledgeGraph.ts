@@ -573,6 +573,74 @@ export const listNodesInternal = internalQuery({
   },
 });
 
+/**
+ * Published nodes an agent exposes to MCP clients as resources: nodes
+ * assigned to the agent plus the owner's unassigned nodes.
+ */
+export const listPublishedForAgent = internalQuery({
+  args: { userId: v.id("users"), agentId: v.id("agents") },
+  returns: v.array(
+    v.object({
+      _id: v.id("knowledgeNodes"),
+      title: v.string(),
+      description: v.string(),
+      nodeType: v.string(),
+    })
+  ),
+  handler: async (ctx, { userId, agentId }) => {
+    const nodes = await ctx.db
+      .query("knowledgeNodes")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .take(300);
+    return nodes
+      .filter((n) => n.isPublished && (!n.agentId || n.agentId === agentId))
+      .slice(0, 100)
+      .map((n) => ({
+        _id: n._id,
+        title: n.title,
+        description: n.description,
+        nodeType: n.nodeType,
+      }));
+  },
+});
+
+/**
+ * Read one published node for an MCP resources/read request.
+ */
+export const getPublishedForAgent = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    nodeId: v.id("knowledgeNodes"),
+  },
+  returns: v.union(
+    v.object({
+      title: v.string(),
+      description: v.string(),
+      content: v.string(),
+      tags: v.array(v.string()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { userId, agentId, nodeId }) => {
+    const node = await ctx.db.get(nodeId);
+    if (
+      !node ||
+      node.userId !== userId ||
+      !node.isPublished ||
+      (node.agentId && node.agentId !== agentId)
+    ) {
+      return null;
+    }
+    return {
+      title: node.title,
+      description: node.description,
+      content: node.content,
+      tags: node.tags,
+    };
+  },
+});
+
 /**
  * Link two nodes from the agent runtime (internal mutation).
  */
@@ -0,0 +1,321 @@
+/**
+ * MCP Client
+ *
+ * Outbound Streamable HTTP client for the servers registered in
+ * `mcpConnections`. Discovery runs `initialize` and `tools/list` and stores
+ * the tools on the connection; the agent runtime calls them through
+ * `callTool`, which enforces the connection allow-list.
+ */
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { checkOutboundUrl } from "../agent/toolBindings";
+
+const MCP_CLIENT_PROTOCOL_VERSION = "2025-06-18";
+const MCP_CLIENT_INFO = { name: "HumanAgent", version: "1.0.0" };
+const MCP_REQUEST_TIMEOUT_MS = 30_000;
+const MAX_DISCOVERED_TOOLS = 100;
+const MAX_TOOL_LIST_PAGES = 10;
+const MAX_TOOL_OUTPUT_CHARS = 12_000;
+
+interface McpClientSession {
+  url: string;
+  sessionId?: string;
+  protocolVersion?: string;
+  serverVersion?: string;
+  nextId: number;
+}
+
+type JsonRpcReply = {
+  id?: string | number | null;
+  result?: unknown;
+  error?: { code?: number; message?: string };
+};
+
+type McpToolCallResult = {
+  ok: boolean;
+  output: string;
+  structuredContent?: unknown;
+};
+
+type ClientConnection = {
+  userId: Id<"users">;
+  serverUrl: string;
+  serverName: string;
+  version: string;
+  status: "active" | "paused" | "revoked";
+};
+
+type DiscoveredTool = {
+  name: string;
+  description?: string;
+  inputSchema?: unknown;
+};
+
+function sessionHeaders(session: McpClientSession): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json, text/event-stream",
+  };
+  if (session.sessionId) headers["Mcp-Session-Id"] = session.sessionId;
+  if (session.protocolVersion) headers["MCP-Protocol-Version"] = session.protocolVersion;
+  return headers;
+}
+
+// Pick the JSON-RPC reply with our id out of an SSE body
+function findReplyInEventStream(body: string, id: number): JsonRpcReply | null {
+  for (const event of body.split(/\r?\n\r?\n/)) {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) continue;
+    try {
+      const message = JSON.parse(data) as JsonRpcReply;
+      if (message.id === id) return message;
+    } catch {
+      // Ignore non-JSON keepalive events
+    }
+  }
+  return null;
+}
+
+async function sendRequest(
+  session: McpClientSession,
+  method: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const id = session.nextId++;
+  const response = await fetch(session.url, {
+    method: "POST",
+    headers: sessionHeaders(session),
+    body: JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+    redirect: "error",
+    signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS),
+  });
+
+  const returnedSessionId = response.headers.get("Mcp-Session-Id");
+  if (returnedSessionId) session.sessionId = returnedSessionId;
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${method} failed with HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  let reply: JsonRpcReply | null;
+  if (contentType.includes("text/event-stream")) {
+    reply = findReplyInEventStream(text, id);
+  } else {
+    const parsed = JSON.parse(text) as JsonRpcReply | JsonRpcReply[];
+    reply = Array.isArray(parsed) ? parsed.find((message) => message.id === id) ?? null : parsed;
+  }
+
+  if (!reply) {
+    throw new Error(`${method} returned no response`);
+  }
+  if (reply.error) {
+    throw new Error(`${method} failed (${reply.error.code ?? "error"}): ${reply.error.message ?? "Unknown error"}`);
+  }
+  return reply.result;
+}
+
+async function sendNotification(session: McpClientSession, method: string): Promise<void> {
+  const response = await fetch(session.url, {
+    method: "POST",
+    headers: sessionHeaders(session),
+    body: JSON.stringify({ jsonrpc: "2.0", method }),
+    redirect: "error",
+    signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS),
+  });
+  // Servers answer 202 with no body; drain anything else
+  await response.text().catch(() => "");
+}
+
+async function openSession(url: string): Promise<McpClientSession> {
+  const urlError = checkOutboundUrl(url);
+  if (urlError) throw new Error(urlError);
+
+  const session: McpClientSession = { url, nextId: 1 };
+  const result = (await sendRequest(session, "initialize", {
+    protocolVersion: MCP_CLIENT_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: MCP_CLIENT_INFO,
+  })) as { protocolVersion?: unknown; serverInfo?: { version?: unknown } } | undefined;
+
+  session.serverVersion =
+    typeof result?.serverInfo?.version === "string" ? result.serverInfo.version : undefined;
+  session.protocolVersion =
+    typeof result?.protocolVersion === "string"
+      ? result.protocolVersion
+      : MCP_CLIENT_PROTOCOL_VERSION;
+  await sendNotification(session, "notifications/initialized");
+  return session;
+}
+
+// End the server-side session. Best effort; servers may not support DELETE.
+async function closeSession(session: McpClientSession): Promise<void> {
+  if (!session.sessionId) return;
+  try {
+    await fetch(session.url, {
+      method: "DELETE",
+      headers: sessionHeaders(session),
+      signal: AbortSignal.timeout(5_000),
+    });
+  } catch {
+    // Ignore: the server will expire the session on its own
+  }
+}
+
+async function listAllTools(session: McpClientSession): Promise<DiscoveredTool[]> {
+  const tools: DiscoveredTool[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_TOOL_LIST_PAGES; page++) {
+    const result = (await sendRequest(session, "tools/list", cursor ? { cursor } : {})) as {
+      tools?: Array<Record<string, unknown>>;
+      nextCursor?: unknown;
+    } | undefined;
+
+    for (const tool of result?.tools ?? []) {
+      if (typeof tool.name !== "string" || !tool.name) continue;
+      tools.push({
+        name: tool.name,
+        description: typeof tool.description === "string" ? tool.description.slice(0, 1000) : undefined,
+        inputSchema: tool.inputSchema,
+      });
+    }
+
+    cursor = typeof result?.nextCursor === "string" ? result.nextCursor : undefined;
+    if (!cursor || tools.length >= MAX_DISCOVERED_TOOLS) break;
+  }
+  return tools.slice(0, MAX_DISCOVERED_TOOLS);
+}
+
+// Flatten MCP content items into text the model can read
+function contentToText(content: unknown): string {
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((item: Record<string, unknown>) => {
+      if (item?.type === "text" && typeof item.text === "string") return item.text;
+      if (item?.type === "resource" && item.resource && typeof item.resource === "object") {
+        const resource = item.resource as { uri?: string; text?: string };
+        return resource.text ?? `[resource ${resource.uri ?? ""}]`;
+      }
+      if (item?.type === "resource_link" && typeof item.uri === "string") return `[resource ${item.uri}]`;
+      return `[${String(item?.type ?? "content")}]`;
+    })
+    .join("\n");
+}
+
+/**
+ * Run initialize and tools/list against a connection and store the result.
+ * Scheduled when a connection is added, re-activated, or refreshed.
+ */
+export const discoverTools = internalAction({
+  args: { connectionId: v.id("mcpConnections") },
+  returns: v.null(),
+  handler: async (ctx, { connectionId }) => {
+    const connection = await ctx.runQuery(internal.functions.mcpConnections.getForClient, {
+      connectionId,
+    });
+    if (!connection || connection.status !== "active") return null;
+
+    let session: McpClientSession | undefined;
+    try {
+      session = await openSession(connection.serverUrl);
+
+      // A server that no longer reports the pinned version loses its tools
+      // until the owner reviews it and updates the pin
+      if (session.serverVersion && session.serverVersion !== connection.version) {
+        await ctx.runMutation(internal.functions.mcpConnections.recordDiscovery, {
+          connectionId,
+          protocolVersion: session.protocolVersion,
+          tools: [],
+          error: `Server reports version ${session.serverVersion}, pinned ${connection.version}`,
+        });
+        return null;
+      }
+
+      const tools = await listAllTools(session);
+      await ctx.runMutation(internal.functions.mcpConnections.recordDiscovery, {
+        connectionId,
+        protocolVersion: session.protocolVersion,
+        tools,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.warn(`MCP discovery failed for ${connection.serverName}:`, message);
+      await ctx.runMutation(internal.functions.mcpConnections.recordDiscovery, {
+        connectionId,
+        error: message.slice(0, 500),
+      });
+    } finally {
+      if (session) await closeSession(session);
+    }
+    return null;
+  },
+});
+
+/**
+ * Call one tool on an external MCP server for the agent runtime.
+ * The connection must belong to the user and allow the tool.
+ */
+export const callTool = internalAction({
+  args: {
+    userId: v.id("users"),
+    connectionId: v.id("mcpConnections"),
+    toolName: v.string(),
+    arguments: v.optional(v.any()),
+  },
+  returns: v.object({
+    ok: v.boolean(),
+    output: v.string(),
+    structuredContent: v.optional(v.any()),
+  }),
+  handler: async (ctx, args): Promise<McpToolCallResult> => {
+    const connection: ClientConnection | null = await ctx.runQuery(
+      internal.functions.mcpConnections.getForClient,
+      { connectionId: args.connectionId }
+    );
+    if (!connection || connection.userId !== args.userId) {
+      return { ok: false, output: "MCP connection not found." };
+    }
+
+    const allowed = await ctx.runQuery(internal.functions.mcpConnections.isToolAllowed, {
+      connectionId: args.connectionId,
+      toolName: args.toolName,
+    });
+    if (!allowed) {
+      return {
+        ok: false,
+        output: `Tool "${args.toolName}" is not allowed on ${connection.serverName}.`,
+      };
+    }
+
+    let session: McpClientSession | undefined;
+    try {
+      session = await openSession(connection.serverUrl);
+      const result = (await sendRequest(session, "tools/call", {
+        name: args.toolName,
+        arguments: args.arguments ?? {},
+      })) as { content?: unknown; structuredContent?: unknown; isError?: unknown } | undefined;
+
+      const text =
+        contentToText(result?.content) ||
+        (result?.structuredContent !== undefined ? JSON.stringify(result.structuredContent) : "");
+      return {
+        ok: result?.isError !== true,
+        output: text.slice(0, MAX_TOOL_OUTPUT_CHARS),
+        structuredContent: result?.structuredContent,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return { ok: false, output: `MCP call failed: ${message}` };
+    } finally {
+      if (session) await closeSession(session);
+    }
+  },
+});
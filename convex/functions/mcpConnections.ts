@@ -1,11 +1,23 @@
 /**
  * MCP Connections Functions
  *
- * Track and manage external MCP server connections
+ * Track and manage external MCP server connections. Tool discovery and calls
+ * run in convex/functions/mcpClient.ts.
  */
 import { v } from "convex/values";
 import { authedMutation, authedQuery } from "../lib/functions";
-import { internalQuery } from "../_generated/server";
+import { internalMutation, internalQuery } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { checkOutboundUrl } from "../agent/toolBindings";
+
+// Cap on external tools offered to the agent per run, across all servers
+const MAX_RUNTIME_TOOLS = 40;
+
+const discoveredToolValidator = v.object({
+  name: v.string(),
+  description: v.optional(v.string()),
+  inputSchema: v.optional(v.any()),
+});
 
 // ============================================================
 // Public queries
@@ -66,6 +78,10 @@ export const add = authedMutation({
     } catch {
       throw new Error("Invalid server URL");
     }
+    const urlError = checkOutboundUrl(args.serverUrl);
+    if (urlError) {
+      throw new Error(`Invalid server URL: ${urlError}`);
+    }
 
     // Check for duplicate
     const existing = await ctx.db
@@ -77,7 +93,7 @@ export const add = authedMutation({
       throw new Error("MCP server already connected");
     }
 
-    return await ctx.db.insert("mcpConnections", {
+    const connectionId = await ctx.db.insert("mcpConnections", {
       userId: ctx.userId,
       serverUrl: args.serverUrl,
       serverName: args.serverName,
@@ -86,6 +102,11 @@ export const add = authedMutation({
       status: "active",
       createdAt: Date.now(),
     });
+
+    await ctx.scheduler.runAfter(0, internal.functions.mcpClient.discoverTools, {
+      connectionId,
+    });
+    return connectionId;
   },
 });
 
@@ -121,6 +142,33 @@ export const update = authedMutation({
     }
 
     await ctx.db.patch(connectionId, patch);
+
+    // Re-discover when a connection comes back or its pinned version changes
+    const reactivated = updates.status === "active" && connection.status !== "active";
+    const versionChanged = updates.version !== undefined && updates.version !== connection.version;
+    if (reactivated || versionChanged) {
+      await ctx.scheduler.runAfter(0, internal.functions.mcpClient.discoverTools, {
+        connectionId,
+      });
+    }
+  },
+});
+
+// Re-run initialize and tools/list against the server
+export const refreshTools = authedMutation({
+  args: { connectionId: v.id("mcpConnections") },
+  handler: async (ctx, { connectionId }) => {
+    const connection = await ctx.db.get(connectionId);
+    if (!connection || connection.userId !== ctx.userId) {
+      throw new Error("Connection not found");
+    }
+    if (connection.status !== "active") {
+      throw new Error("Only active connections can be refreshed");
+    }
+
+    await ctx.scheduler.runAfter(0, internal.functions.mcpClient.discoverTools, {
+      connectionId,
+    });
   },
 });
 
@@ -205,3 +253,101 @@ export const isToolAllowed = internalQuery({
     return connection.allowedTools.includes(toolName);
   },
 });
+
+// Connection details for the MCP client
+export const getForClient = internalQuery({
+  args: { connectionId: v.id("mcpConnections") },
+  returns: v.union(
+    v.object({
+      userId: v.id("users"),
+      serverUrl: v.string(),
+      serverName: v.string(),
+      version: v.string(),
+      status: v.union(
+        v.literal("active"),
+        v.literal("paused"),
+        v.literal("revoked")
+      ),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { connectionId }) => {
+    const connection = await ctx.db.get(connectionId);
+    if (!connection) return null;
+    return {
+      userId: connection.userId,
+      serverUrl: connection.serverUrl,
+      serverName: connection.serverName,
+      version: connection.version,
+      status: connection.status,
+    };
+  },
+});
+
+// Save the result of a discovery run
+export const recordDiscovery = internalMutation({
+  args: {
+    connectionId: v.id("mcpConnections"),
+    protocolVersion: v.optional(v.string()),
+    tools: v.optional(v.array(discoveredToolValidator)),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { connectionId, protocolVersion, tools, error }) => {
+    const connection = await ctx.db.get(connectionId);
+    if (!connection) return null;
+
+    // A network failure (no tool list) keeps the last good list so the
+    // agent is not cut off by a transient outage
+    if (tools === undefined) {
+      await ctx.db.patch(connectionId, { lastDiscoveryError: error });
+      return null;
+    }
+    await ctx.db.patch(connectionId, {
+      protocolVersion,
+      discoveredTools: tools,
+      lastDiscoveredAt: Date.now(),
+      lastDiscoveryError: error,
+    });
+    return null;
+  },
+});
+
+// Discovered tools the agent may call: active connections, allow-list applied
+export const getRuntimeTools = internalQuery({
+  args: { userId: v.id("users") },
+  returns: v.array(
+    v.object({
+      connectionId: v.id("mcpConnections"),
+      serverName: v.string(),
+      toolName: v.string(),
+      description: v.optional(v.string()),
+      inputSchema: v.optional(v.any()),
+    })
+  ),
+  handler: async (ctx, { userId }) => {
+    const connections = await ctx.db
+      .query("mcpConnections")
+      .withIndex("by_userId_status", (q) =>
+        q.eq("userId", userId).eq("status", "active")
+      )
+      .take(20);
+
+    const tools = connections.flatMap((connection) =>
+      (connection.discoveredTools ?? [])
+        .filter(
+          (tool) =>
+            connection.allowedTools.length === 0 ||
+            connection.allowedTools.includes(tool.name)
+        )
+        .map((tool) => ({
+          connectionId: connection._id,
+          serverName: connection.serverName,
+          toolName: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        }))
+    );
+    return tools.slice(0, MAX_RUNTIME_TOOLS);
+  },
+});
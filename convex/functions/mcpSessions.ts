@@ -0,0 +1,122 @@
+/**
+ * MCP Sessions Functions
+ *
+ * Session state for the inbound MCP Streamable HTTP transport. A session is
+ * created on `initialize` and referenced by the Mcp-Session-Id header.
+ */
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+
+// Sessions idle longer than this are treated as expired
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+function generateSessionId(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+export const create = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    protocolVersion: v.string(),
+    keyPrefix: v.string(),
+    clientName: v.optional(v.string()),
+    clientVersion: v.optional(v.string()),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const sessionId = generateSessionId();
+    const now = Date.now();
+    await ctx.db.insert("mcpSessions", {
+      ...args,
+      sessionId,
+      createdAt: now,
+      lastSeenAt: now,
+    });
+    return sessionId;
+  },
+});
+
+// Validate a session for this user, agent, and API key and mark it as seen.
+// Returns the negotiated protocol version, or null when the session is
+// unknown, expired, terminated, or belongs to another route or key.
+export const touch = internalMutation({
+  args: {
+    sessionId: v.string(),
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    keyPrefix: v.string(),
+  },
+  returns: v.union(v.object({ protocolVersion: v.string() }), v.null()),
+  handler: async (ctx, args) => {
+    const session = await ctx.db
+      .query("mcpSessions")
+      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+    if (
+      !session ||
+      session.terminatedAt ||
+      session.userId !== args.userId ||
+      session.agentId !== args.agentId ||
+      session.keyPrefix !== args.keyPrefix
+    ) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (now - session.lastSeenAt > SESSION_IDLE_TTL_MS) {
+      return null;
+    }
+    await ctx.db.patch(session._id, { lastSeenAt: now });
+    return { protocolVersion: session.protocolVersion };
+  },
+});
+
+// Client-initiated termination (HTTP DELETE), only by the key that opened it
+export const terminate = internalMutation({
+  args: {
+    sessionId: v.string(),
+    userId: v.id("users"),
+    keyPrefix: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const session = await ctx.db
+      .query("mcpSessions")
+      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+    if (
+      !session ||
+      session.userId !== args.userId ||
+      session.keyPrefix !== args.keyPrefix ||
+      session.terminatedAt
+    ) {
+      return false;
+    }
+    await ctx.db.patch(session._id, { terminatedAt: Date.now() });
+    return true;
+  },
+});
+
+// Delete expired and terminated sessions (cron)
+export const cleanup = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - SESSION_IDLE_TTL_MS;
+    const stale = await ctx.db
+      .query("mcpSessions")
+      .withIndex("by_lastSeenAt", (q) => q.lt("lastSeenAt", cutoff))
+      .take(500);
+    await Promise.all(stale.map((session) => ctx.db.delete(session._id)));
+    return stale.length;
+  },
+});
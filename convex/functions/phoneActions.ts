@@ -0,0 +1,446 @@
+/**
+ * Phone Actions Functions
+ *
+ * Outbound SMS and calls started by agents through the `send_sms` and
+ * `place_call` runtime actions. Before anything is sent, the agent's
+ * phoneConfig must allow it: the channel is enabled, the destination is on
+ * `outboundAllowList`, and the agent's local time (skill
+ * communicationPrefs.timezone) is outside quiet hours. Every attempt is
+ * written to auditLog, and sent messages are added to the phone thread with
+ * that number.
+ */
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { TELEPHONY_ADAPTERS } from "../lib/telephony";
+import type { TelephonyProvider } from "../lib/telephony";
+import { addOutboundPhoneMessage } from "./conversations";
+import { telephonyProviderValidator } from "./phoneWebhooks";
+
+const DEFAULT_QUIET_HOURS = { start: "21:00", end: "08:00" };
+const DEFAULT_TIMEZONE = "America/Los_Angeles";
+const MAX_SMS_LENGTH = 1600;
+const MAX_CALL_MESSAGE_LENGTH = 1000;
+
+type OutboundKind = "sms" | "voice";
+
+type OutboundContext = {
+  from: string | null;
+  provider: TelephonyProvider;
+  smsEnabled: boolean;
+  voiceEnabled: boolean;
+  allowList: Array<string>;
+  quietHours: { start: string; end: string };
+  timezone: string;
+};
+
+type PhoneActionResult = { success: boolean; result?: string; error?: string };
+
+// Keep a leading + and digits so "+1 (555) 010-0000" matches "+15550100000"
+export function normalizePhoneNumber(value: string): string {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  return trimmed.startsWith("+") ? `+${digits}` : digits;
+}
+
+function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Minutes past midnight in the given timezone, or null if it is not valid
+function getLocalMinutes(timezone: string, now: Date): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+    const hour = Number(parts.find((part) => part.type === "hour")?.value);
+    const minute = Number(parts.find((part) => part.type === "minute")?.value);
+    return Number.isFinite(hour) && Number.isFinite(minute) ? hour * 60 + minute : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when `now` falls inside the quiet window. Windows may wrap past
+ * midnight (21:00-08:00). Unparseable times fall back to the default window.
+ */
+export function isQuietTime(
+  quietHours: { start: string; end: string },
+  timezone: string,
+  now: Date
+): boolean {
+  const start = parseClock(quietHours.start) ?? parseClock(DEFAULT_QUIET_HOURS.start) ?? 0;
+  const end = parseClock(quietHours.end) ?? parseClock(DEFAULT_QUIET_HOURS.end) ?? 0;
+  if (start === end) return false;
+
+  const local =
+    getLocalMinutes(timezone, now) ?? getLocalMinutes(DEFAULT_TIMEZONE, now) ?? 0;
+  return start < end ? local >= start && local < end : local >= start || local < end;
+}
+
+// Reason the send is not allowed, or null when it may go ahead
+function checkOutbound(
+  context: OutboundContext,
+  kind: OutboundKind,
+  to: string
+): string | null {
+  if (!context.from) {
+    return "This agent has no phone number. Add one in the agent's phone settings.";
+  }
+  if (kind === "sms" && !context.smsEnabled) {
+    return "SMS is turned off for this agent.";
+  }
+  if (kind === "voice" && !context.voiceEnabled) {
+    return "Voice calls are turned off for this agent.";
+  }
+  if (!context.allowList.includes(normalizePhoneNumber(to))) {
+    return `${to} is not on this agent's outbound allow-list.`;
+  }
+  if (isQuietTime(context.quietHours, context.timezone, new Date())) {
+    return `Quiet hours are ${context.quietHours.start}-${context.quietHours.end} (${context.timezone}). Try again after ${context.quietHours.end}.`;
+  }
+  return null;
+}
+
+function getPhoneBaseUrl(): string | null {
+  const baseUrl = (process.env.PHONE_WEBHOOK_BASE_URL ?? process.env.CONVEX_SITE_URL)?.trim();
+  return baseUrl ? baseUrl.replace(/\/$/, "") : null;
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+/**
+ * Agent phone number and the outbound rules from its phoneConfig and skill.
+ */
+export const getOutboundContext = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+  },
+  returns: v.union(
+    v.object({
+      from: v.union(v.string(), v.null()),
+      provider: telephonyProviderValidator,
+      smsEnabled: v.boolean(),
+      voiceEnabled: v.boolean(),
+      allowList: v.array(v.string()),
+      quietHours: v.object({ start: v.string(), end: v.string() }),
+      timezone: v.string(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { userId, agentId }) => {
+    const agent = await ctx.db.get(agentId);
+    if (!agent || agent.userId !== userId) return null;
+
+    const assignment = await ctx.db
+      .query("skillAgents")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+      .first();
+    const skill = assignment
+      ? await ctx.db.get(assignment.skillId)
+      : await ctx.db
+          .query("skills")
+          .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+          .first();
+
+    const phoneConfig = agent.phoneConfig;
+    return {
+      from: agent.agentPhone?.trim() || null,
+      provider: phoneConfig?.provider ?? "twilio",
+      smsEnabled: phoneConfig?.smsEnabled ?? false,
+      voiceEnabled: phoneConfig?.voiceEnabled ?? false,
+      allowList: (phoneConfig?.outboundAllowList ?? [])
+        .map(normalizePhoneNumber)
+        .filter(Boolean),
+      quietHours: phoneConfig?.quietHours ?? DEFAULT_QUIET_HOURS,
+      timezone: skill?.communicationPrefs.timezone || DEFAULT_TIMEZONE,
+    };
+  },
+});
+
+/**
+ * Audit an outbound attempt and, when it was sent, add it to the thread.
+ */
+export const recordOutbound = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    kind: v.union(v.literal("sms"), v.literal("voice")),
+    provider: telephonyProviderValidator,
+    from: v.optional(v.string()),
+    to: v.string(),
+    content: v.string(),
+    status: v.union(v.literal("success"), v.literal("error"), v.literal("blocked")),
+    reason: v.optional(v.string()),
+    providerId: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.insert("auditLog", {
+      userId: args.userId,
+      action: args.kind === "sms" ? "phone_send_sms" : "phone_place_call",
+      resource: args.to,
+      callerType: "agent",
+      callerIdentity: String(args.agentId),
+      details: {
+        provider: args.provider,
+        from: args.from,
+        content: args.content.slice(0, 500),
+        reason: args.reason,
+        providerId: args.providerId,
+      },
+      status: args.status,
+      channel: "phone",
+      timestamp: Date.now(),
+    });
+
+    if (args.status === "success" && args.from) {
+      await addOutboundPhoneMessage(ctx, {
+        userId: args.userId,
+        agentId: args.agentId,
+        content: args.kind === "voice" ? `[Outbound call] ${args.content}` : args.content,
+        phone: {
+          provider: args.provider,
+          from: args.to,
+          to: args.from,
+          lastKind: args.kind,
+          lastMessageSid: args.kind === "sms" ? args.providerId : undefined,
+          lastCallSid: args.kind === "voice" ? args.providerId : undefined,
+        },
+      });
+    }
+    return null;
+  },
+});
+
+export const createOutboundCall = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    provider: telephonyProviderValidator,
+    from: v.string(),
+    to: v.string(),
+    message: v.string(),
+    audioUrl: v.optional(v.string()),
+  },
+  returns: v.id("phoneOutboundCalls"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("phoneOutboundCalls", { ...args, createdAt: Date.now() });
+  },
+});
+
+// Served to the provider when an outbound call is answered
+export const getOutboundCall = internalQuery({
+  args: {
+    callId: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      userId: v.id("users"),
+      agentId: v.id("agents"),
+      provider: telephonyProviderValidator,
+      from: v.string(),
+      to: v.string(),
+      message: v.string(),
+      audioUrl: v.optional(v.string()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { callId }) => {
+    const id = ctx.db.normalizeId("phoneOutboundCalls", callId);
+    const call = id ? await ctx.db.get(id) : null;
+    if (!call) return null;
+    return {
+      userId: call.userId,
+      agentId: call.agentId,
+      provider: call.provider,
+      from: call.from,
+      to: call.to,
+      message: call.message,
+      audioUrl: call.audioUrl,
+    };
+  },
+});
+
+/**
+ * Send an SMS from the agent's number. Used by the `send_sms` action.
+ */
+export const sendSmsFromAgent = internalAction({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    to: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args): Promise<PhoneActionResult> => {
+    const context: OutboundContext | null = await ctx.runQuery(
+      internal.functions.phoneActions.getOutboundContext,
+      { userId: args.userId, agentId: args.agentId }
+    );
+    if (!context) return { success: false, error: "Agent not found." };
+
+    const to = normalizePhoneNumber(args.to);
+    const text = args.text.trim().slice(0, MAX_SMS_LENGTH);
+    const record = async (
+      status: "success" | "error" | "blocked",
+      reason?: string,
+      providerId?: string
+    ) => {
+      await ctx.runMutation(internal.functions.phoneActions.recordOutbound, {
+        userId: args.userId,
+        agentId: args.agentId,
+        kind: "sms",
+        provider: context.provider,
+        from: context.from ?? undefined,
+        to,
+        content: text,
+        status,
+        reason,
+        providerId,
+      });
+    };
+
+    const blockedReason = text ? checkOutbound(context, "sms", to) : "Message text is empty.";
+    if (blockedReason || !context.from) {
+      const reason = blockedReason ?? "This agent has no phone number.";
+      await record("blocked", reason);
+      return { success: false, error: reason };
+    }
+
+    const credential = await ctx.runQuery(internal.functions.phoneWebhooks.getPhoneCredential, {
+      userId: args.userId,
+      provider: context.provider,
+    });
+    if (!credential) {
+      const reason = `No ${context.provider} credential saved. Add one in Settings.`;
+      await record("error", reason);
+      return { success: false, error: reason };
+    }
+
+    try {
+      const sent = await TELEPHONY_ADAPTERS[context.provider].sendSms(credential, {
+        from: context.from,
+        to,
+        text,
+      });
+      await record("success", undefined, sent.messageId);
+      return { success: true, result: `SMS sent to ${to}.` };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await record("error", reason);
+      return { success: false, error: `SMS failed: ${reason}` };
+    }
+  },
+});
+
+/**
+ * Call a number from the agent's number and speak a message in the agent's
+ * voice, then hang up. Used by the `place_call` action.
+ */
+export const placeCallFromAgent = internalAction({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    to: v.string(),
+    message: v.string(),
+  },
+  handler: async (ctx, args): Promise<PhoneActionResult> => {
+    const context: OutboundContext | null = await ctx.runQuery(
+      internal.functions.phoneActions.getOutboundContext,
+      { userId: args.userId, agentId: args.agentId }
+    );
+    if (!context) return { success: false, error: "Agent not found." };
+
+    const to = normalizePhoneNumber(args.to);
+    const message = args.message.trim().slice(0, MAX_CALL_MESSAGE_LENGTH);
+    const adapter = TELEPHONY_ADAPTERS[context.provider];
+    const record = async (
+      status: "success" | "error" | "blocked",
+      reason?: string,
+      providerId?: string
+    ) => {
+      await ctx.runMutation(internal.functions.phoneActions.recordOutbound, {
+        userId: args.userId,
+        agentId: args.agentId,
+        kind: "voice",
+        provider: context.provider,
+        from: context.from ?? undefined,
+        to,
+        content: message,
+        status,
+        reason,
+        providerId,
+      });
+    };
+
+    const placeCall = adapter.placeCall;
+    const baseUrl = getPhoneBaseUrl();
+    const blockedReason = !message
+      ? "Call message is empty."
+      : !placeCall
+        ? `Outbound calls are not supported for ${context.provider} numbers.`
+        : !baseUrl
+          ? "Set PHONE_WEBHOOK_BASE_URL so the provider can fetch the call message."
+          : checkOutbound(context, "voice", to);
+    if (blockedReason || !context.from || !placeCall || !baseUrl) {
+      const reason = blockedReason ?? "This agent has no phone number.";
+      await record("blocked", reason);
+      return { success: false, error: reason };
+    }
+
+    const credential = await ctx.runQuery(internal.functions.phoneWebhooks.getPhoneCredential, {
+      userId: args.userId,
+      provider: context.provider,
+    });
+    if (!credential) {
+      const reason = `No ${context.provider} credential saved. Add one in Settings.`;
+      await record("error", reason);
+      return { success: false, error: reason };
+    }
+
+    const audioUrl: string | null = await ctx.runAction(internal.agent.tts.generatePhoneAudio, {
+      userId: args.userId,
+      agentId: args.agentId,
+      text: message,
+    });
+    const callId: Id<"phoneOutboundCalls"> = await ctx.runMutation(
+      internal.functions.phoneActions.createOutboundCall,
+      {
+        userId: args.userId,
+        agentId: args.agentId,
+        provider: context.provider,
+        from: context.from,
+        to,
+        message,
+        audioUrl: audioUrl ?? undefined,
+      }
+    );
+
+    try {
+      const placed = await placeCall(credential, {
+        from: context.from,
+        to,
+        answerUrl: `${baseUrl}/webhooks/${context.provider}/voice/outbound?call=${callId}`,
+      });
+      await record("success", undefined, placed.callId);
+      return { success: true, result: `Calling ${to}.` };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await record("error", reason);
+      return { success: false, error: `Call failed: ${reason}` };
+    }
+  },
+});
@@ -0,0 +1,289 @@
+/**
+ * Phone Webhooks Functions
+ *
+ * Database side of the inbound SMS and voice webhooks in convex/http.ts: the
+ * provider credential for the number's owner, the replay guard, and the
+ * cache of synthesized call audio. Parsing, signature checks, and markup live
+ * in the adapters in convex/lib/telephony.ts.
+ */
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "../_generated/server";
+import { apiKeySlot, openSecret } from "../lib/secrets";
+import type { TelephonyCredential, TelephonyProvider } from "../lib/telephony";
+import { emitEvent } from "./events";
+
+// Telnyx signs a timestamp, so a request older than its receipt is refused
+// outright. Twilio and Plivo sign none; their receipts are the only replay
+// guard and are kept much longer.
+const RECEIPT_TTL_MS: Record<TelephonyProvider, number> = {
+  telnyx: 24 * 60 * 60 * 1000,
+  twilio: 30 * 24 * 60 * 60 * 1000,
+  plivo: 30 * 24 * 60 * 60 * 1000,
+};
+const AUDIO_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Rejected webhooks are flagged at most this often per sender and reason,
+// and per source overall, so a flood of bad requests cannot flood the flags
+const REJECTION_FLAG_WINDOW_MS = 10 * 60 * 1000;
+const MAX_REJECTION_FLAGS_PER_SENDER = 3;
+const MAX_REJECTION_FLAGS_PER_SOURCE = 20;
+const MAX_RECENT_FLAGS_SCANNED = 200;
+
+export const telephonyProviderValidator = v.union(
+  v.literal("twilio"),
+  v.literal("telnyx"),
+  v.literal("plivo")
+);
+
+// Split a stored "FIRST:SECOND" credential into the provider's fields
+function parseStoredCredential(
+  provider: TelephonyProvider,
+  stored: string
+): TelephonyCredential {
+  const separator = stored.indexOf(":");
+  const first = separator >= 0 ? stored.slice(0, separator).trim() : "";
+  const second = (separator >= 0 ? stored.slice(separator + 1) : stored).trim();
+
+  switch (provider) {
+    case "telnyx":
+      // "API_KEY:PUBLIC_KEY", or just the API key
+      return separator >= 0
+        ? { apiKey: first || undefined, publicKey: second || undefined }
+        : { apiKey: second || undefined };
+    case "twilio":
+    case "plivo":
+      // "ACCOUNT_SID:AUTH_TOKEN" / "AUTH_ID:AUTH_TOKEN", or just the token
+      return { accountId: first || undefined, authToken: second || undefined };
+  }
+}
+
+function getPlatformCredential(provider: TelephonyProvider): TelephonyCredential | null {
+  const credential: TelephonyCredential =
+    provider === "twilio"
+      ? {
+          accountId: process.env.TWILIO_ACCOUNT_SID,
+          authToken: process.env.TWILIO_AUTH_TOKEN,
+        }
+      : provider === "plivo"
+        ? {
+            accountId: process.env.PLIVO_AUTH_ID,
+            authToken: process.env.PLIVO_AUTH_TOKEN,
+          }
+        : {
+            apiKey: process.env.TELNYX_API_KEY,
+            publicKey: process.env.TELNYX_PUBLIC_KEY,
+          };
+  return Object.values(credential).some(Boolean) ? credential : null;
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+/**
+ * Phone provider credential for a number's owner, used to check webhook
+ * signatures and send SMS. Falls back to the platform env vars for numbers
+ * provisioned by the deployment.
+ */
+export const getPhoneCredential = internalQuery({
+  args: {
+    userId: v.id("users"),
+    provider: telephonyProviderValidator,
+  },
+  returns: v.union(
+    v.object({
+      accountId: v.optional(v.string()),
+      authToken: v.optional(v.string()),
+      apiKey: v.optional(v.string()),
+      publicKey: v.optional(v.string()),
+      source: v.union(v.literal("user"), v.literal("platform")),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, { userId, provider }) => {
+    const cred = await ctx.db
+      .query("userCredentials")
+      .withIndex("by_userId_service", (q) =>
+        q.eq("userId", userId).eq("service", provider)
+      )
+      .first();
+
+    if (cred?.isActive && cred.encryptedApiKey) {
+      const stored = (await openSecret(ctx, userId, apiKeySlot(cred._id), cred.encryptedApiKey)).trim();
+      if (stored) {
+        return { ...parseStoredCredential(provider, stored), source: "user" as const };
+      }
+    }
+
+    const platform = getPlatformCredential(provider);
+    return platform ? { ...platform, source: "platform" as const } : null;
+  },
+});
+
+/**
+ * Record a webhook receipt. Returns false when the key was already seen, or
+ * when the signed request time is older than receipts are kept, so the caller
+ * can reject the replay.
+ */
+export const claimReceipt = internalMutation({
+  args: {
+    provider: telephonyProviderValidator,
+    key: v.string(),
+    signedAt: v.optional(v.number()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, { provider, key, signedAt }) => {
+    if (signedAt !== undefined && Date.now() - signedAt >= RECEIPT_TTL_MS[provider]) {
+      return false;
+    }
+    const existing = await ctx.db
+      .query("webhookReceipts")
+      .withIndex("by_provider_key", (q) => q.eq("provider", provider).eq("key", key))
+      .first();
+    if (existing) return false;
+
+    await ctx.db.insert("webhookReceipts", { provider, key, receivedAt: Date.now() });
+    return true;
+  },
+});
+
+// Drop receipts older than each provider's replay window
+export const cleanupReceipts = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    let deleted = 0;
+    for (const provider of ["twilio", "telnyx", "plivo"] as const) {
+      const cutoff = Date.now() - RECEIPT_TTL_MS[provider];
+      const stale = await ctx.db
+        .query("webhookReceipts")
+        .withIndex("by_provider_receivedAt", (q) =>
+          q.eq("provider", provider).lt("receivedAt", cutoff)
+        )
+        .take(500);
+      await Promise.all(stale.map((receipt) => ctx.db.delete(receipt._id)));
+      deleted += stale.length;
+    }
+    return deleted;
+  },
+});
+
+/**
+ * Log a rejected phone webhook as a `spoofing` flag for the number's owner.
+ * Repeats from the same sender for the same reason, and bursts on one
+ * source, are dropped within REJECTION_FLAG_WINDOW_MS. Returns whether a flag
+ * was written.
+ */
+export const flagRejectedWebhook = internalMutation({
+  args: {
+    userId: v.id("users"),
+    source: v.string(),
+    pattern: v.string(),
+    from: v.string(),
+    to: v.string(),
+    content: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const senderPrefix = `From ${args.from || "unknown"} to ${args.to}:`;
+    const recent = await ctx.db
+      .query("securityFlags")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(MAX_RECENT_FLAGS_SCANNED);
+
+    let fromSource = 0;
+    let fromSender = 0;
+    for (const flag of recent) {
+      if (flag.timestamp < now - REJECTION_FLAG_WINDOW_MS) break;
+      if (flag.flagType !== "spoofing" || flag.source !== args.source) continue;
+      fromSource++;
+      if (flag.pattern === args.pattern && flag.inputSnippet.startsWith(senderPrefix)) {
+        fromSender++;
+      }
+    }
+    if (
+      fromSender >= MAX_REJECTION_FLAGS_PER_SENDER ||
+      fromSource >= MAX_REJECTION_FLAGS_PER_SOURCE
+    ) {
+      return false;
+    }
+
+    await ctx.db.insert("securityFlags", {
+      userId: args.userId,
+      source: args.source,
+      flagType: "spoofing",
+      severity: "block",
+      pattern: args.pattern,
+      inputSnippet: `${senderPrefix} ${args.content.slice(0, 200)}`,
+      action: "blocked",
+      timestamp: now,
+    });
+    await emitEvent(ctx, args.userId, {
+      type: "security.flag",
+      payload: {
+        source: args.source,
+        flagType: "spoofing",
+        severity: "block",
+        pattern: args.pattern,
+        action: "blocked",
+      },
+    });
+    return true;
+  },
+});
+
+/**
+ * URL of cached call audio for this agent and cache key, or null on a miss or
+ * once the entry has expired.
+ */
+export const getCachedAudio = internalQuery({
+  args: {
+    agentId: v.id("agents"),
+    cacheKey: v.string(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, { agentId, cacheKey }) => {
+    const cached = await ctx.db
+      .query("phoneAudioCache")
+      .withIndex("by_agentId_cacheKey", (q) => q.eq("agentId", agentId).eq("cacheKey", cacheKey))
+      .first();
+    if (!cached || cached.expiresAt <= Date.now()) return null;
+    return await ctx.storage.getUrl(cached.storageId);
+  },
+});
+
+export const cacheAudio = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    cacheKey: v.string(),
+    storageId: v.id("_storage"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.insert("phoneAudioCache", {
+      ...args,
+      expiresAt: Date.now() + AUDIO_CACHE_TTL_MS,
+    });
+    return null;
+  },
+});
+
+// Drop expired call audio and its stored files
+export const cleanupAudioCache = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("phoneAudioCache")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", Date.now()))
+      .take(200);
+    for (const entry of expired) {
+      await ctx.storage.delete(entry.storageId);
+      await ctx.db.delete(entry._id);
+    }
+    return expired.length;
+  },
+});
@@ -1,118 +1,336 @@
 /**
  * Rate Limits Functions
  *
- * Sliding window rate limiting for API calls
+ * Token bucket rate limiting with burst allowances, plus calendar day and
+ * month quotas, per route group and per API key. Each request spends one
+ * token from the owner's route group bucket and, when it carries an API key,
+ * from that key's bucket too. Buckets refill continuously at the per-minute
+ * rate up to the rate plus the burst allowance.
  */
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
 import { authedQuery } from "../lib/functions";
 
-// Window duration in milliseconds (1 minute)
-const WINDOW_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+type RouteGroup = "api" | "mcp" | "docs" | "skills";
+type QuotaWindow = "minute" | "day" | "month";
+
+type RateLimitPolicy = {
+  perMinute: number;
+  burst: number;
+  perDay?: number;
+  perMonth?: number;
+};
+
+type BucketState = {
+  tokens: number;
+  refilledAt: number;
+  dayStart: number;
+  dayCount: number;
+  monthStart: number;
+  monthCount: number;
+};
+
+type Quota = {
+  window: QuotaWindow;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+const routeGroupValidator = v.union(
+  v.literal("api"),
+  v.literal("mcp"),
+  v.literal("docs"),
+  v.literal("skills")
+);
+
+const quotaValidator = v.object({
+  window: v.union(v.literal("minute"), v.literal("day"), v.literal("month")),
+  limit: v.number(),
+  remaining: v.number(),
+  resetAt: v.number(),
+});
+
+// Burst and quotas per route group. The api and mcp rates come from the
+// user's rateLimitConfig; docs and skills are public and use a fixed rate.
+const ROUTE_GROUP_QUOTAS: Record<
+  RouteGroup,
+  { perMinute?: number; burst: number; perDay: number; perMonth: number }
+> = {
+  api: { burst: 10, perDay: 5_000, perMonth: 100_000 },
+  mcp: { burst: 10, perDay: 5_000, perMonth: 100_000 },
+  docs: { perMinute: 120, burst: 60, perDay: 20_000, perMonth: 300_000 },
+  skills: { perMinute: 120, burst: 60, perDay: 20_000, perMonth: 300_000 },
+};
+
+// Default rate limits when user hasn't configured custom values
+const DEFAULT_RATE_LIMITS = {
+  apiRequestsPerMinute: 60,
+  mcpRequestsPerMinute: 30,
+  skillExecutionsPerMinute: 20,
+  emailsPerHour: 50,
+  a2aRequestsPerMinute: 30,
+} as const;
+
+function getRateLimitConfig(user: Doc<"users"> | null) {
+  return {
+    ...DEFAULT_RATE_LIMITS,
+    ...user?.rateLimitConfig,
+  };
+}
+
+function startOfUtcDay(now: number): number {
+  return now - (now % DAY_MS);
+}
+
+function startOfUtcMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function startOfNextUtcMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+function bucketCapacity(policy: RateLimitPolicy): number {
+  return policy.perMinute + policy.burst;
+}
+
+// Bring a stored bucket up to `now`: add the tokens earned since the last
+// refill and start new day and month counters when the calendar rolled over
+function refillBucket(
+  bucket: BucketState | null,
+  policy: RateLimitPolicy,
+  now: number
+): BucketState {
+  const capacity = bucketCapacity(policy);
+  const dayStart = startOfUtcDay(now);
+  const monthStart = startOfUtcMonth(now);
+  if (!bucket) {
+    return { tokens: capacity, refilledAt: now, dayStart, dayCount: 0, monthStart, monthCount: 0 };
+  }
+
+  const earned = ((now - bucket.refilledAt) / MINUTE_MS) * policy.perMinute;
+  return {
+    tokens: Math.min(capacity, bucket.tokens + Math.max(0, earned)),
+    refilledAt: now,
+    dayStart,
+    dayCount: bucket.dayStart === dayStart ? bucket.dayCount : 0,
+    monthStart,
+    monthCount: bucket.monthStart === monthStart ? bucket.monthCount : 0,
+  };
+}
+
+function describeQuotas(state: BucketState, policy: RateLimitPolicy, now: number): Array<Quota> {
+  const capacity = bucketCapacity(policy);
+  const quotas: Array<Quota> = [
+    {
+      window: "minute",
+      limit: capacity,
+      remaining: Math.floor(state.tokens),
+      // When the bucket is full again
+      resetAt: now + Math.ceil(((capacity - state.tokens) / policy.perMinute) * MINUTE_MS),
+    },
+  ];
+  if (policy.perDay !== undefined) {
+    quotas.push({
+      window: "day",
+      limit: policy.perDay,
+      remaining: Math.max(0, policy.perDay - state.dayCount),
+      resetAt: state.dayStart + DAY_MS,
+    });
+  }
+  if (policy.perMonth !== undefined) {
+    quotas.push({
+      window: "month",
+      limit: policy.perMonth,
+      remaining: Math.max(0, policy.perMonth - state.monthCount),
+      resetAt: startOfNextUtcMonth(now),
+    });
+  }
+  return quotas;
+}
+
+// Milliseconds until the bucket can take another request, or 0 if it can now
+function getRetryAfterMs(state: BucketState, policy: RateLimitPolicy, now: number): number {
+  let waitMs = 0;
+  if (state.tokens < 1) {
+    waitMs = Math.ceil(((1 - state.tokens) / policy.perMinute) * MINUTE_MS);
+  }
+  if (policy.perDay !== undefined && state.dayCount >= policy.perDay) {
+    waitMs = Math.max(waitMs, state.dayStart + DAY_MS - now);
+  }
+  if (policy.perMonth !== undefined && state.monthCount >= policy.perMonth) {
+    waitMs = Math.max(waitMs, startOfNextUtcMonth(now) - now);
+  }
+  return waitMs;
+}
+
+type BucketTarget = {
+  key: string;
+  scope: "route_group" | "key";
+  apiKeyId?: Id<"apiKeys">;
+  keyPrefix?: string;
+  policy: RateLimitPolicy;
+};
+
+async function getBucketTargets(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  routeGroup: RouteGroup,
+  apiKeyId: Id<"apiKeys"> | undefined
+): Promise<Array<BucketTarget>> {
+  const config = getRateLimitConfig(await ctx.db.get(userId));
+  const groupQuotas = ROUTE_GROUP_QUOTAS[routeGroup];
+  const groupRate =
+    routeGroup === "api"
+      ? config.apiRequestsPerMinute
+      : routeGroup === "mcp"
+        ? config.mcpRequestsPerMinute
+        : groupQuotas.perMinute ?? DEFAULT_RATE_LIMITS.apiRequestsPerMinute;
+
+  const targets: Array<BucketTarget> = [
+    {
+      key: buildRateLimitKey("user", userId, routeGroup),
+      scope: "route_group",
+      policy: {
+        perMinute: Math.max(1, groupRate),
+        burst: groupQuotas.burst,
+        perDay: groupQuotas.perDay,
+        perMonth: groupQuotas.perMonth,
+      },
+    },
+  ];
+
+  if (apiKeyId) {
+    // Keyed by id: prefixes are short enough for two tenants' keys to share one
+    const apiKey = await ctx.db.get(apiKeyId);
+    if (apiKey && apiKey.userId === userId && apiKey.isActive) {
+      targets.push({
+        key: buildRateLimitKey("apiKey", apiKey._id, routeGroup),
+        scope: "key",
+        apiKeyId: apiKey._id,
+        keyPrefix: apiKey.keyPrefix,
+        policy: {
+          perMinute: Math.max(1, apiKey.rateLimitPerMinute),
+          burst: apiKey.burstLimit ?? 0,
+          perDay: apiKey.dailyQuota,
+          perMonth: apiKey.monthlyQuota,
+        },
+      });
+    }
+  }
+
+  return targets;
+}
 
 // ============================================================
 // Internal functions
 // ============================================================
 
-// Check if a request is allowed (and increment counter if so)
-export const checkAndIncrement = internalMutation({
+/**
+ * Spend one request from the route group bucket and, for API key requests,
+ * the key's bucket. Nothing is spent unless every bucket allows it. The
+ * returned limit, remaining, and resetAt describe the quota closest to
+ * running out, for the RateLimit-* headers.
+ */
+export const consume = internalMutation({
   args: {
-    key: v.string(), // e.g., "user:{userId}:api" or "key:{keyPrefix}:mcp"
-    limit: v.number(),
+    userId: v.id("users"),
+    routeGroup: routeGroupValidator,
+    apiKeyId: v.optional(v.id("apiKeys")),
   },
   returns: v.object({
     allowed: v.boolean(),
+    limit: v.number(),
     remaining: v.number(),
     resetAt: v.number(),
+    retryAfterMs: v.number(),
+    quotas: v.array(quotaValidator),
   }),
-  handler: async (ctx, { key, limit }) => {
+  handler: async (ctx, { userId, routeGroup, apiKeyId }) => {
     const now = Date.now();
-    const windowStart = now - WINDOW_MS;
-
-    // Get current window record
-    const record = await ctx.db
-      .query("rateLimits")
-      .withIndex("by_key", (q) => q.eq("key", key))
-      .first();
+    const targets = await getBucketTargets(ctx, userId, routeGroup, apiKeyId);
 
-    // If no record or window expired, create new window
-    if (!record || record.windowStart < windowStart) {
-      if (record) {
-        await ctx.db.delete(record._id);
-      }
-
-      await ctx.db.insert("rateLimits", {
-        key,
-        windowStart: now,
-        count: 1,
-      });
+    const buckets = await Promise.all(
+      targets.map(async (target) => {
+        // Only the owner's row counts, whatever else shares the key
+        const record =
+          (
+            await ctx.db
+              .query("rateLimitBuckets")
+              .withIndex("by_key", (q) => q.eq("key", target.key))
+              .take(10)
+          ).find((bucket) => bucket.userId === userId) ?? null;
+        return { target, record, state: refillBucket(record, target.policy, now) };
+      })
+    );
 
-      return {
-        allowed: true,
-        remaining: limit - 1,
-        resetAt: now + WINDOW_MS,
-      };
-    }
+    const retryAfterMs = Math.max(
+      ...buckets.map(({ target, state }) => getRetryAfterMs(state, target.policy, now))
+    );
+    const allowed = retryAfterMs === 0;
 
-    // Check if limit exceeded
-    if (record.count >= limit) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: record.windowStart + WINDOW_MS,
-      };
+    if (allowed) {
+      for (const bucket of buckets) {
+        bucket.state = {
+          ...bucket.state,
+          tokens: bucket.state.tokens - 1,
+          dayCount: bucket.state.dayCount + 1,
+          monthCount: bucket.state.monthCount + 1,
+        };
+        const fields = {
+          ...bucket.state,
+          policy: bucket.target.policy,
+          updatedAt: now,
+        };
+        if (bucket.record) {
+          await ctx.db.patch(bucket.record._id, fields);
+        } else {
+          await ctx.db.insert("rateLimitBuckets", {
+            key: bucket.target.key,
+            userId,
+            routeGroup,
+            scope: bucket.target.scope,
+            apiKeyId: bucket.target.apiKeyId,
+            keyPrefix: bucket.target.keyPrefix,
+            ...fields,
+          });
+        }
+      }
     }
 
-    // Increment counter
-    await ctx.db.patch(record._id, { count: record.count + 1 });
-
-    return {
-      allowed: true,
-      remaining: limit - record.count - 1,
-      resetAt: record.windowStart + WINDOW_MS,
-    };
-  },
-});
-
-// Get current rate limit status without incrementing
-export const getStatus = internalQuery({
-  args: { key: v.string() },
-  returns: v.union(
-    v.object({
-      count: v.number(),
-      windowStart: v.number(),
-      resetAt: v.number(),
-    }),
-    v.null()
-  ),
-  handler: async (ctx, { key }) => {
-    const now = Date.now();
-    const windowStart = now - WINDOW_MS;
-
-    const record = await ctx.db
-      .query("rateLimits")
-      .withIndex("by_key", (q) => q.eq("key", key))
-      .first();
-
-    if (!record || record.windowStart < windowStart) {
-      return null;
-    }
+    const quotas = buckets.flatMap(({ target, state }) =>
+      describeQuotas(state, target.policy, now)
+    );
+    const closest = quotas.reduce((a, b) =>
+      b.remaining < a.remaining || (b.remaining === a.remaining && b.resetAt > a.resetAt) ? b : a
+    );
 
     return {
-      count: record.count,
-      windowStart: record.windowStart,
-      resetAt: record.windowStart + WINDOW_MS,
+      allowed,
+      limit: closest.limit,
+      remaining: allowed ? closest.remaining : 0,
+      resetAt: closest.resetAt,
+      retryAfterMs,
+      quotas,
     };
   },
 });
 
-// Reset rate limit for a key
+// Reset a bucket, e.g. after raising a key's quota mid-month
 export const reset = internalMutation({
   args: { key: v.string() },
   returns: v.null(),
   handler: async (ctx, { key }) => {
     const record = await ctx.db
-      .query("rateLimits")
+      .query("rateLimitBuckets")
       .withIndex("by_key", (q) => q.eq("key", key))
       .first();
 
@@ -124,67 +342,86 @@ export const reset = internalMutation({
   },
 });
 
+// Drop buckets that have not been used since before this month. Their day
+// and month counters are stale and their tokens would be full again.
+export const cleanupBuckets = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("rateLimitBuckets")
+      .withIndex("by_updatedAt", (q) => q.lt("updatedAt", startOfUtcMonth(Date.now())))
+      .take(500);
+    await Promise.all(stale.map((bucket) => ctx.db.delete(bucket._id)));
+    return stale.length;
+  },
+});
+
 export const getDashboard = authedQuery({
   args: {},
   returns: v.object({
-    activeWindows: v.number(),
-    totalRequestsInWindow: v.number(),
-    topKeys: v.array(
+    requestsToday: v.number(),
+    requestsThisMonth: v.number(),
+    buckets: v.array(
       v.object({
         key: v.string(),
-        count: v.number(),
-        resetAt: v.number(),
+        label: v.string(),
+        routeGroup: routeGroupValidator,
+        scope: v.union(v.literal("route_group"), v.literal("key")),
+        quotas: v.array(quotaValidator),
+        updatedAt: v.number(),
       })
     ),
   }),
   handler: async (ctx) => {
     const now = Date.now();
-    const activeCutoff = now - WINDOW_MS;
-    const userIdString = String(ctx.userId);
 
     const userApiKeys = await ctx.db
       .query("apiKeys")
       .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
       .take(200);
-    const keyPrefixes = new Set(userApiKeys.map((apiKey) => apiKey.keyPrefix));
-
-    const windows = await ctx.db.query("rateLimits").take(1000);
-    const scoped = windows.filter((window) => {
-      if (window.windowStart < activeCutoff) return false;
-      if (window.key.includes(userIdString)) return true;
-      for (const prefix of keyPrefixes) {
-        if (window.key.includes(prefix)) return true;
+    const keyNames = new Map<string, string>(
+      userApiKeys.map((apiKey) => [apiKey._id, apiKey.name])
+    );
+
+    // Key buckets from before they were keyed by id may hold other tenants' usage
+    const records = (
+      await ctx.db
+        .query("rateLimitBuckets")
+        .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+        .take(500)
+    ).filter((record) => record.scope === "route_group" || record.apiKeyId !== undefined);
+
+    let requestsToday = 0;
+    let requestsThisMonth = 0;
+    const buckets = records.map((record) => {
+      const state = refillBucket(record, record.policy, now);
+      if (record.scope === "route_group") {
+        requestsToday += state.dayCount;
+        requestsThisMonth += state.monthCount;
       }
-      return false;
+      return {
+        key: record.key,
+        label:
+          record.scope === "key"
+            ? `${keyNames.get(record.apiKeyId ?? "") ?? "API key"} (${record.keyPrefix})`
+            : `All ${record.routeGroup} requests`,
+        routeGroup: record.routeGroup,
+        scope: record.scope,
+        quotas: describeQuotas(state, record.policy, now),
+        updatedAt: record.updatedAt,
+      };
     });
 
-    const topKeys = scoped
-      .slice()
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10)
-      .map((entry) => ({
-        key: entry.key,
-        count: entry.count,
-        resetAt: entry.windowStart + WINDOW_MS,
-      }));
+    // Route group totals first, then keys by recent use
+    buckets.sort((a, b) =>
+      a.scope === b.scope ? b.updatedAt - a.updatedAt : a.scope === "route_group" ? -1 : 1
+    );
 
-    return {
-      activeWindows: scoped.length,
-      totalRequestsInWindow: scoped.reduce((sum, entry) => sum + entry.count, 0),
-      topKeys,
-    };
+    return { requestsToday, requestsThisMonth, buckets };
   },
 });
 
-// Default rate limits when user hasn't configured custom values
-const DEFAULT_RATE_LIMITS = {
-  apiRequestsPerMinute: 60,
-  mcpRequestsPerMinute: 30,
-  skillExecutionsPerMinute: 20,
-  emailsPerHour: 50,
-  a2aRequestsPerMinute: 30,
-} as const;
-
 // Get user's rate limit config (returns defaults if not set)
 export const getUserLimits = internalQuery({
   args: { userId: v.id("users") },
@@ -199,30 +436,13 @@ export const getUserLimits = internalQuery({
   }),
   handler: async (ctx, { userId }) => {
     const user = await ctx.db.get(userId);
-    if (!user) {
-      return {
-        ...DEFAULT_RATE_LIMITS,
-        tokenBudget: 100000,
-        tokensUsedThisMonth: 0,
-      };
-    }
-
-    const rlConfig = (user as Record<string, unknown>).rateLimitConfig as
-      | typeof DEFAULT_RATE_LIMITS
-      | undefined;
-
     return {
-      apiRequestsPerMinute: rlConfig?.apiRequestsPerMinute ?? DEFAULT_RATE_LIMITS.apiRequestsPerMinute,
-      mcpRequestsPerMinute: rlConfig?.mcpRequestsPerMinute ?? DEFAULT_RATE_LIMITS.mcpRequestsPerMinute,
-      skillExecutionsPerMinute: rlConfig?.skillExecutionsPerMinute ?? DEFAULT_RATE_LIMITS.skillExecutionsPerMinute,
-      emailsPerHour: rlConfig?.emailsPerHour ?? DEFAULT_RATE_LIMITS.emailsPerHour,
-      a2aRequestsPerMinute: rlConfig?.a2aRequestsPerMinute ?? DEFAULT_RATE_LIMITS.a2aRequestsPerMinute,
-      tokenBudget: user.llmConfig?.tokenBudget ?? 100000,
-      tokensUsedThisMonth: user.llmConfig?.tokensUsedThisMonth ?? 0,
+      ...getRateLimitConfig(user),
+      tokenBudget: user?.llmConfig?.tokenBudget ?? 100000,
+      tokensUsedThisMonth: user?.llmConfig?.tokensUsedThisMonth ?? 0,
     };
   },
 });
-
 // Check if user has exceeded their monthly token budget
 export const checkTokenBudget = internalQuery({
   args: { userId: v.id("users") },
@@ -0,0 +1,320 @@
+/**
+ * Recurring Tasks
+ *
+ * A board task with `recurrence` is the template for a series. Daily, weekly,
+ * and monthly rules are turned into cron expressions and read in the rule's
+ * timezone with convex/lib/cron.ts, the same way userSchedules are.
+ * `spawnDue` runs from crons.ts and inserts a fresh pending instance for each
+ * due template, carrying over its description, steps, assignee, and project,
+ * with `recurrenceTemplateId` pointing back at the template.
+ */
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { authedMutation, authedQuery } from "../lib/functions";
+import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import { getOrCreateInboxColumnId } from "./board";
+import { releaseTasks } from "./taskDependencies";
+import { DEFAULT_SCHEDULE_TIMEZONE, nextCronRun, validateCronExpression } from "../lib/cron";
+
+const DEFAULT_RECURRENCE_TIME = "09:00";
+const MAX_SPAWN_BATCH = 50;
+const MAX_LIST_INSTANCES = 50;
+
+export const recurrenceRuleValidator = v.object({
+  frequency: v.union(
+    v.literal("daily"),
+    v.literal("weekly"),
+    v.literal("monthly"),
+    v.literal("cron")
+  ),
+  time: v.optional(v.string()), // "HH:MM", defaults to 09:00
+  daysOfWeek: v.optional(v.array(v.number())), // 0 = Sunday
+  dayOfMonth: v.optional(v.number()), // 1-28
+  cronSpec: v.optional(v.string()),
+  timezone: v.optional(v.string()), // IANA zone, defaults to America/Los_Angeles
+  endsAt: v.optional(v.number()),
+});
+
+type RecurrenceRule = Infer<typeof recurrenceRuleValidator>;
+type Recurrence = NonNullable<Doc<"tasks">["recurrence"]>;
+type NormalizedRule = Omit<Recurrence, "status" | "nextRunAt" | "lastSpawnedAt" | "spawnCount">;
+
+function parseTime(time: string): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+  if (!(hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59)) {
+    throw new Error(`Invalid time "${time}". Use HH:MM, for example 09:00`);
+  }
+  return { hour, minute };
+}
+
+// The cron expression a stored rule fires on
+function recurrenceToCron(rule: NormalizedRule): string {
+  if (rule.frequency === "cron") return rule.cronSpec ?? "";
+  const { hour, minute } = parseTime(rule.time ?? DEFAULT_RECURRENCE_TIME);
+  if (rule.frequency === "weekly") {
+    return `${minute} ${hour} * * ${(rule.daysOfWeek ?? []).join(",")}`;
+  }
+  if (rule.frequency === "monthly") {
+    return `${minute} ${hour} ${rule.dayOfMonth ?? 1} * *`;
+  }
+  return `${minute} ${hour} * * *`;
+}
+
+// Trim and check a rule before it is stored. Throws on invalid input.
+function normalizeRule(rule: RecurrenceRule, now: number): NormalizedRule {
+  const timezone = rule.timezone?.trim() || DEFAULT_SCHEDULE_TIMEZONE;
+  const endsAt = rule.endsAt !== undefined ? Math.trunc(rule.endsAt) : undefined;
+  if (endsAt !== undefined && endsAt <= now) {
+    throw new Error("Recurrence end must be in the future");
+  }
+
+  let normalized: NormalizedRule;
+  if (rule.frequency === "cron") {
+    const cronSpec = rule.cronSpec?.trim();
+    if (!cronSpec) {
+      throw new Error("Cron recurrence requires cronSpec");
+    }
+    normalized = { frequency: "cron", cronSpec, timezone, endsAt };
+  } else {
+    const { hour, minute } = parseTime(rule.time ?? DEFAULT_RECURRENCE_TIME);
+    const time = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+    if (rule.frequency === "weekly") {
+      const daysOfWeek = [...new Set(rule.daysOfWeek ?? [])].sort((a, b) => a - b);
+      if (daysOfWeek.length === 0) {
+        throw new Error("Weekly recurrence needs at least one day");
+      }
+      if (daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new Error("Days of the week run from 0 (Sunday) to 6 (Saturday)");
+      }
+      normalized = { frequency: "weekly", time, daysOfWeek, timezone, endsAt };
+    } else if (rule.frequency === "monthly") {
+      const dayOfMonth = rule.dayOfMonth ?? 1;
+      // Every month has days 1-28, so a monthly series never skips a month
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28) {
+        throw new Error("Monthly recurrence day must be from 1 to 28");
+      }
+      normalized = { frequency: "monthly", time, dayOfMonth, timezone, endsAt };
+    } else {
+      normalized = { frequency: "daily", time, timezone, endsAt };
+    }
+  }
+
+  const error = validateCronExpression(recurrenceToCron(normalized), timezone);
+  if (error) {
+    throw new Error(`Invalid recurrence: ${error}`);
+  }
+  return normalized;
+}
+
+// The next spawn time after `after`, or undefined once the series is over
+function computeNextRunAt(rule: NormalizedRule, after: number): number | undefined {
+  const next = nextCronRun(recurrenceToCron(rule), rule.timezone, after);
+  if (next === null || (rule.endsAt !== undefined && next > rule.endsAt)) {
+    return undefined;
+  }
+  return next;
+}
+
+// ============================================================
+// Public queries
+// ============================================================
+
+// Instances spawned from a recurring template, newest first
+export const listInstances = authedQuery({
+  args: { templateId: v.id("tasks") },
+  returns: v.array(v.any()),
+  handler: async (ctx, args) => {
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.userId !== ctx.userId) return [];
+    return await ctx.db
+      .query("tasks")
+      .withIndex("by_recurrenceTemplateId", (q) => q.eq("recurrenceTemplateId", args.templateId))
+      .order("desc")
+      .take(MAX_LIST_INSTANCES);
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+// Set or clear the recurrence rule. A paused series stays paused.
+export const setRecurrence = authedMutation({
+  args: {
+    taskId: v.id("tasks"),
+    recurrence: v.union(recurrenceRuleValidator, v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== ctx.userId) throw new Error("Task not found");
+    if (task.recurrenceTemplateId) {
+      throw new Error("This task was spawned by a recurring task. Edit the recurring task instead");
+    }
+
+    if (args.recurrence === null) {
+      await ctx.db.patch(args.taskId, { recurrence: undefined });
+      return null;
+    }
+
+    const now = Date.now();
+    const rule = normalizeRule(args.recurrence, now);
+    const nextRunAt = computeNextRunAt(rule, now);
+    if (nextRunAt === undefined) {
+      throw new Error("Recurrence never runs before its end date");
+    }
+    const status = task.recurrence?.status === "paused" ? "paused" : "active";
+    await ctx.db.patch(args.taskId, {
+      recurrence: {
+        ...rule,
+        status,
+        nextRunAt: status === "active" ? nextRunAt : undefined,
+        lastSpawnedAt: task.recurrence?.lastSpawnedAt,
+        spawnCount: task.recurrence?.spawnCount ?? 0,
+      },
+    });
+    return null;
+  },
+});
+
+// Pause, resume, or end a series. Resuming skips occurrences missed while paused.
+export const setRecurrenceStatus = authedMutation({
+  args: {
+    taskId: v.id("tasks"),
+    status: v.union(v.literal("active"), v.literal("paused"), v.literal("ended")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== ctx.userId) throw new Error("Task not found");
+    const recurrence = task.recurrence;
+    if (!recurrence) throw new Error("Task does not repeat");
+    if (recurrence.status === "ended" && args.status !== "ended") {
+      throw new Error("This series has ended. Set a new repeat rule to start it again");
+    }
+
+    if (args.status === "active") {
+      const nextRunAt = computeNextRunAt(recurrence, Date.now());
+      await ctx.db.patch(args.taskId, {
+        recurrence: {
+          ...recurrence,
+          status: nextRunAt === undefined ? "ended" : "active",
+          nextRunAt,
+        },
+      });
+      return null;
+    }
+
+    await ctx.db.patch(args.taskId, {
+      recurrence: { ...recurrence, status: args.status, nextRunAt: undefined },
+    });
+    return null;
+  },
+});
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+/**
+ * Spawn one instance per due template, then move the template's `nextRunAt`
+ * past now so occurrences missed during downtime collapse into one instance.
+ */
+export const spawnDue = internalMutation({
+  args: {},
+  returns: v.object({ spawned: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("tasks")
+      .withIndex("by_recurrenceStatus_nextRunAt", (q) =>
+        q.eq("recurrence.status", "active").lte("recurrence.nextRunAt", now)
+      )
+      .take(MAX_SPAWN_BATCH);
+
+    let spawned = 0;
+    for (const template of due) {
+      const recurrence = template.recurrence;
+      if (!recurrence) continue;
+      if (recurrence.nextRunAt === undefined) {
+        // Active without a next run; schedule it rather than spawning now
+        const nextRunAt = computeNextRunAt(recurrence, now);
+        await ctx.db.patch(template._id, {
+          recurrence: { ...recurrence, status: nextRunAt === undefined ? "ended" : "active", nextRunAt },
+        });
+        continue;
+      }
+
+      const columns = await ctx.db
+        .query("boardColumns")
+        .withIndex("by_userId", (q) => q.eq("userId", template.userId))
+        .take(20);
+      const todoColumn = columns.find((column) => column.name === "Todo");
+      // Unassigned tasks are kept out of Todo, like on the board
+      const boardColumnId =
+        (template.agentId || template.teamId) && todoColumn
+          ? todoColumn._id
+          : await getOrCreateInboxColumnId(ctx, template.userId);
+
+      const targetOffset = template.targetCompletionAt
+        ? template.targetCompletionAt - template.createdAt
+        : 0;
+      const instanceId = await ctx.db.insert("tasks", {
+        userId: template.userId,
+        agentId: template.agentId,
+        teamId: template.teamId,
+        projectId: template.projectId,
+        requestedBy: "recurrence",
+        description: template.description,
+        status: "pending",
+        steps: template.steps.map((step) => ({
+          description: step.description,
+          status: "pending" as const,
+        })),
+        boardColumnId,
+        isPublic: template.isPublic,
+        createdAt: now,
+        targetCompletionAt: targetOffset > 0 ? now + targetOffset : undefined,
+        recurrenceTemplateId: template._id,
+      });
+
+      const nextRunAt = computeNextRunAt(recurrence, now);
+      await ctx.db.patch(template._id, {
+        recurrence: {
+          ...recurrence,
+          status: nextRunAt === undefined ? "ended" : "active",
+          nextRunAt,
+          lastSpawnedAt: now,
+          spawnCount: recurrence.spawnCount + 1,
+        },
+      });
+
+      await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+        userId: template.userId,
+        type: "status_update",
+        title: "Recurring task created",
+        content: template.description.slice(0, 140),
+        metadata: {
+          taskId: instanceId,
+          recurrenceTemplateId: template._id,
+          agentId: template.agentId,
+          teamId: template.teamId,
+          projectId: template.projectId,
+        },
+        isPublic: false,
+      });
+
+      const instance = await ctx.db.get(instanceId);
+      if (instance) {
+        await releaseTasks(ctx, template.userId, [instance]);
+      }
+      spawned++;
+    }
+
+    return { spawned };
+  },
+});
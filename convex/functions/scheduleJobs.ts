@@ -0,0 +1,607 @@
+/**
+ * Schedule Jobs
+ *
+ * Handlers for userSchedules job types. `dispatchDue` in userSchedules.ts
+ * starts a userScheduleRuns row for each due schedule and schedules `execute`,
+ * which runs the handler for the schedule's job name and records the result
+ * with `finishRun`. Job names without a handler are recorded as skipped.
+ * Adding a job type means adding an entry to JOB_HANDLERS.
+ *
+ * Every handler reads the same optional config from `userSchedules.config`:
+ * `agentId` (agent that writes and sends, defaults to the default agent with
+ * an inbox), `to` (defaults to the account email), `inboxAddress` (one of the
+ * owner's agent inboxes, defaults to the agent's), and `lookbackHours`
+ * (defaults to 24).
+ */
+import { v } from "convex/values";
+import { internalAction, internalQuery } from "../_generated/server";
+import type { ActionCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import type { JobType } from "./userSchedules";
+import { isOwnedAgentInbox } from "./agents";
+
+const DEFAULT_LOOKBACK_HOURS = 24;
+const MAX_LOOKBACK_HOURS = 7 * 24;
+const MAX_PROMPT_CHARS = 12_000;
+const MAX_EXCERPT_CHARS = 300;
+const MAX_REMINDER_TASKS = 50;
+
+type JobConfig = {
+  agentId?: Id<"agents">;
+  to?: string;
+  inboxAddress?: string;
+  lookbackHours?: number;
+};
+
+type JobContext = {
+  runId: Id<"userScheduleRuns">;
+  userId: Id<"users">;
+  config: JobConfig;
+  timezone: string;
+  now: number;
+};
+
+type JobResult = {
+  result: "success" | "failure" | "skipped";
+  output: Record<string, unknown>;
+  error?: string;
+};
+
+type JobHandler = (ctx: ActionCtx, job: JobContext) => Promise<JobResult>;
+
+type Delivery = {
+  agentId: Id<"agents"> | null;
+  inboxAddress: string | null;
+  to: string | null;
+};
+
+type SendResult = {
+  sent: boolean;
+  messageId?: string;
+  error?: string;
+};
+
+type Activity = {
+  conversations: Array<{
+    channel: string;
+    with: string;
+    subject?: string;
+    newMessages: number;
+    latest: string;
+    inbound: Array<string>;
+  }>;
+  tasksCreated: Array<{ description: string; status: string }>;
+  tasksCompleted: Array<{ description: string; outcome?: string }>;
+  feedItems: Array<{ title: string }>;
+};
+
+type OverdueTask = {
+  taskId: Id<"tasks">;
+  description: string;
+  status: string;
+  targetCompletionAt: number;
+};
+
+type AgentReply = {
+  response: string;
+  tokensUsed: number;
+  blocked: boolean;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_EXCERPT_CHARS ? `${flat.slice(0, MAX_EXCERPT_CHARS)}...` : flat;
+}
+
+function lookbackMs(config: JobConfig): number {
+  return (config.lookbackHours ?? DEFAULT_LOOKBACK_HOURS) * 60 * 60 * 1000;
+}
+
+function formatDay(now: number, timezone: string): string {
+  return new Date(now).toLocaleDateString("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function getJobHandler(jobName: string): JobHandler | undefined {
+  return Object.prototype.hasOwnProperty.call(JOB_HANDLERS, jobName)
+    ? JOB_HANDLERS[jobName as JobType]
+    : undefined;
+}
+
+/**
+ * Check a schedule's config for a job name with a handler. Other job names
+ * keep accepting any config. Throws on invalid config.
+ */
+export function validateJobConfig(jobName: string, config: unknown): void {
+  if (!getJobHandler(jobName) || config === undefined || config === null) return;
+  if (!isPlainObject(config)) {
+    throw new Error(`${jobName} config must be an object.`);
+  }
+  const { agentId, to, inboxAddress, lookbackHours } = config as Record<string, unknown>;
+  if (agentId !== undefined && typeof agentId !== "string") {
+    throw new Error(`${jobName} config.agentId must be an agent id.`);
+  }
+  if (to !== undefined && (typeof to !== "string" || !to.includes("@"))) {
+    throw new Error(`${jobName} config.to must be an email address.`);
+  }
+  if (
+    inboxAddress !== undefined &&
+    (typeof inboxAddress !== "string" || !inboxAddress.includes("@"))
+  ) {
+    throw new Error(`${jobName} config.inboxAddress must be an email address.`);
+  }
+  if (
+    lookbackHours !== undefined &&
+    (typeof lookbackHours !== "number" ||
+      lookbackHours < 1 ||
+      lookbackHours > MAX_LOOKBACK_HOURS)
+  ) {
+    throw new Error(`${jobName} config.lookbackHours must be between 1 and ${MAX_LOOKBACK_HOURS}.`);
+  }
+}
+
+/**
+ * A configured `inboxAddress` must be the inbox of one of the owner's agents,
+ * or any user could send as another tenant's agent. Throws otherwise.
+ */
+export async function checkJobInbox(
+  ctx: Pick<QueryCtx, "db">,
+  userId: Id<"users">,
+  jobName: string,
+  config: unknown
+): Promise<void> {
+  if (!getJobHandler(jobName) || !isPlainObject(config)) return;
+  const { inboxAddress } = config as Record<string, unknown>;
+  if (typeof inboxAddress !== "string" || !inboxAddress.trim()) return;
+  if (!(await isOwnedAgentInbox(ctx, userId, inboxAddress))) {
+    throw new Error(`${jobName} config.inboxAddress is not one of your agents' inboxes.`);
+  }
+}
+
+async function resolveDelivery(ctx: ActionCtx, job: JobContext): Promise<Delivery> {
+  const defaults: Delivery = await ctx.runQuery(internal.functions.scheduleJobs.getDelivery, {
+    userId: job.userId,
+    agentId: job.config.agentId,
+    inboxAddress: job.config.inboxAddress?.trim() || undefined,
+  });
+  return {
+    agentId: defaults.agentId,
+    inboxAddress: defaults.inboxAddress,
+    to: job.config.to?.trim() || defaults.to,
+  };
+}
+
+function missingDeliveryError(delivery: Delivery): string | null {
+  if (!delivery.inboxAddress) {
+    return "No AgentMail inbox to send from. Give an agent an email address or set config.inboxAddress.";
+  }
+  if (!delivery.to) {
+    return "No recipient. Add an email to your account or set config.to.";
+  }
+  return null;
+}
+
+// Have the agent write the email body, then send it from the agent's inbox
+async function summarizeAndSend(
+  ctx: ActionCtx,
+  job: JobContext,
+  delivery: Delivery,
+  prompt: string,
+  subject: string
+): Promise<{ reply: AgentReply; send: SendResult | null }> {
+  const reply: AgentReply = await ctx.runAction(internal.agent.runtime.processMessage, {
+    userId: job.userId,
+    agentId: delivery.agentId ?? undefined,
+    message: prompt.slice(0, MAX_PROMPT_CHARS),
+    channel: "api",
+    callerId: `schedule:${String(job.runId)}`,
+  });
+  if (reply.blocked || !reply.response.trim()) {
+    return { reply, send: null };
+  }
+
+  const send: SendResult = await ctx.runAction(internal.functions.agentmail.sendMessage, {
+    userId: job.userId,
+    inboxAddress: delivery.inboxAddress!,
+    to: delivery.to!,
+    subject,
+    text: reply.response,
+  });
+  return { reply, send };
+}
+
+function sendOutcome(
+  output: Record<string, unknown>,
+  reply: AgentReply,
+  send: SendResult | null
+): JobResult {
+  const full = {
+    ...output,
+    tokensUsed: reply.tokensUsed,
+    sent: send?.sent ?? false,
+    messageId: send?.messageId,
+  };
+  if (reply.blocked) {
+    return { result: "failure", output: full, error: "The summary was blocked by the security scanner." };
+  }
+  if (!send) {
+    return { result: "failure", output: full, error: "The agent returned an empty summary." };
+  }
+  return send.sent
+    ? { result: "success", output: full }
+    : { result: "failure", output: full, error: send.error ?? "Email was not sent." };
+}
+
+const JOB_HANDLERS: Partial<Record<JobType, JobHandler>> = {
+  daily_digest: async (ctx, job) => {
+    const since = job.now - lookbackMs(job.config);
+    const activity: Activity = await ctx.runQuery(
+      internal.functions.scheduleJobs.getActivity,
+      { userId: job.userId, since }
+    );
+    const counts = {
+      conversations: activity.conversations.length,
+      tasksCreated: activity.tasksCreated.length,
+      tasksCompleted: activity.tasksCompleted.length,
+      feedItems: activity.feedItems.length,
+    };
+    if (Object.values(counts).every((count) => count === 0)) {
+      return { result: "skipped", output: counts, error: "No activity in the lookback window." };
+    }
+
+    const delivery = await resolveDelivery(ctx, job);
+    const deliveryError = missingDeliveryError(delivery);
+    if (deliveryError) {
+      return { result: "failure", output: counts, error: deliveryError };
+    }
+
+    const lines = [
+      "Write my daily digest email. Summarize what happened below in a few short sections",
+      "(conversations, tasks, activity), lead with anything that needs my attention, and do",
+      "not take any actions. Reply with only the email body.",
+      "",
+      "## Conversations",
+      ...activity.conversations.map(
+        (conversation) =>
+          `- ${conversation.channel} with ${conversation.with}: ${conversation.newMessages} new messages. Latest: ${conversation.latest}`
+      ),
+      "",
+      "## Tasks created",
+      ...activity.tasksCreated.map((task) => `- [${task.status}] ${task.description}`),
+      "",
+      "## Tasks completed",
+      ...activity.tasksCompleted.map(
+        (task) => `- ${task.description}${task.outcome ? ` -> ${task.outcome}` : ""}`
+      ),
+      "",
+      "## Feed",
+      ...activity.feedItems.map((item) => `- ${item.title}`),
+    ];
+    const { reply, send } = await summarizeAndSend(
+      ctx,
+      job,
+      delivery,
+      lines.join("\n"),
+      `Daily digest: ${formatDay(job.now, job.timezone)}`
+    );
+    return sendOutcome(counts, reply, send);
+  },
+
+  email_summary: async (ctx, job) => {
+    const since = job.now - lookbackMs(job.config);
+    const activity: Activity = await ctx.runQuery(
+      internal.functions.scheduleJobs.getActivity,
+      { userId: job.userId, since }
+    );
+    const threads = activity.conversations.filter(
+      (conversation) => conversation.channel === "email" && conversation.inbound.length > 0
+    );
+    const counts = {
+      threads: threads.length,
+      messages: threads.reduce((total, thread) => total + thread.inbound.length, 0),
+    };
+    if (threads.length === 0) {
+      return { result: "skipped", output: counts, error: "No email received in the lookback window." };
+    }
+
+    const delivery = await resolveDelivery(ctx, job);
+    const deliveryError = missingDeliveryError(delivery);
+    if (deliveryError) {
+      return { result: "failure", output: counts, error: deliveryError };
+    }
+
+    const lines = [
+      "Summarize the email my agents received below. Group by thread, say who wrote and what",
+      "they want, flag anything that needs a reply from me, and do not take any actions.",
+      "Reply with only the email body.",
+      "",
+      ...threads.flatMap((thread) => [
+        `## ${thread.subject ?? "(no subject)"} from ${thread.with}`,
+        ...thread.inbound.map((message) => `- ${message}`),
+        "",
+      ]),
+    ];
+    const { reply, send } = await summarizeAndSend(
+      ctx,
+      job,
+      delivery,
+      lines.join("\n"),
+      `Email summary: ${formatDay(job.now, job.timezone)}`
+    );
+    return sendOutcome(counts, reply, send);
+  },
+
+  task_reminder: async (ctx, job) => {
+    const overdue: Array<OverdueTask> = await ctx.runQuery(
+      internal.functions.scheduleJobs.getOverdueTasks,
+      { userId: job.userId, now: job.now }
+    );
+    if (overdue.length === 0) {
+      return { result: "skipped", output: { overdue: 0 }, error: "No overdue tasks." };
+    }
+
+    const text = [
+      `${overdue.length} task${overdue.length === 1 ? " is" : "s are"} past the target completion time:`,
+      "",
+      ...overdue.map(
+        (task) =>
+          `- ${task.description} (${task.status}, due ${new Date(task.targetCompletionAt).toLocaleString("en-US", { timeZone: job.timezone })})`
+      ),
+    ].join("\n");
+
+    // Email when an inbox and recipient are available, otherwise leave the
+    // reminder in the private feed
+    const delivery = await resolveDelivery(ctx, job);
+    if (missingDeliveryError(delivery)) {
+      await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+        userId: job.userId,
+        type: "status_update",
+        title: `${overdue.length} overdue task${overdue.length === 1 ? "" : "s"}`,
+        content: text,
+        metadata: { scheduleRunId: job.runId },
+        isPublic: false,
+      });
+      return { result: "success", output: { overdue: overdue.length, delivery: "feed" } };
+    }
+
+    const send: SendResult = await ctx.runAction(internal.functions.agentmail.sendMessage, {
+      userId: job.userId,
+      inboxAddress: delivery.inboxAddress!,
+      to: delivery.to!,
+      subject: `Reminder: ${overdue.length} overdue task${overdue.length === 1 ? "" : "s"}`,
+      text,
+    });
+    const output = {
+      overdue: overdue.length,
+      delivery: "email",
+      sent: send.sent,
+      messageId: send.messageId,
+    };
+    return send.sent
+      ? { result: "success", output }
+      : { result: "failure", output, error: send.error ?? "Email was not sent." };
+  },
+};
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+// Agent, inbox, and recipient to use when the schedule config leaves them
+// out. A configured inbox is re-checked against the owner's agents.
+export const getDelivery = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+    inboxAddress: v.optional(v.string()),
+  },
+  returns: v.object({
+    agentId: v.union(v.id("agents"), v.null()),
+    inboxAddress: v.union(v.string(), v.null()),
+    to: v.union(v.string(), v.null()),
+  }),
+  handler: async (ctx, args) => {
+    if (args.inboxAddress && !(await isOwnedAgentInbox(ctx, args.userId, args.inboxAddress))) {
+      throw new Error("config.inboxAddress is not one of your agents' inboxes.");
+    }
+    const owner = await ctx.db.get(args.userId);
+    const agents = await ctx.db
+      .query("agents")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .take(50);
+    const configured = agents.find((agent) => agent._id === args.agentId);
+    const preferred =
+      configured ??
+      agents.find((agent) => agent.isDefault && !!agent.agentEmail) ??
+      agents.find((agent) => !!agent.agentEmail);
+    return {
+      agentId: preferred?._id ?? null,
+      inboxAddress:
+        args.inboxAddress?.trim().toLowerCase() || preferred?.agentEmail?.trim() || null,
+      to: owner?.email?.trim() || null,
+    };
+  },
+});
+
+// Conversations, tasks, and feed items with activity since `since`
+export const getActivity = internalQuery({
+  args: {
+    userId: v.id("users"),
+    since: v.number(),
+  },
+  returns: v.object({
+    conversations: v.array(
+      v.object({
+        channel: v.string(),
+        with: v.string(),
+        subject: v.optional(v.string()),
+        newMessages: v.number(),
+        latest: v.string(),
+        inbound: v.array(v.string()),
+      })
+    ),
+    tasksCreated: v.array(v.object({ description: v.string(), status: v.string() })),
+    tasksCompleted: v.array(
+      v.object({ description: v.string(), outcome: v.optional(v.string()) })
+    ),
+    feedItems: v.array(v.object({ title: v.string() })),
+  }),
+  handler: async (ctx, args) => {
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(200);
+    const activeConversations = conversations.flatMap((conversation) => {
+      const recent = conversation.messages.filter((message) => message.timestamp >= args.since);
+      const latest = recent[recent.length - 1];
+      if (!latest) return [];
+      const email = conversation.channelMetadata?.email;
+      return [
+        {
+          channel: conversation.channel,
+          with: email?.from ?? conversation.externalId,
+          subject: email?.subject,
+          newMessages: recent.length,
+          latest: excerpt(latest.content),
+          inbound: recent
+            .filter((message) => message.role === "external")
+            .map((message) => excerpt(message.content)),
+        },
+      ];
+    });
+
+    const tasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(500);
+    const tasksCreated = tasks
+      .filter((task) => task.createdAt >= args.since)
+      .map((task) => ({ description: excerpt(task.description), status: task.status }));
+    const tasksCompleted = tasks
+      .filter(
+        (task) =>
+          task.status === "completed" && task.completedAt !== undefined && task.completedAt >= args.since
+      )
+      .map((task) => ({
+        description: excerpt(task.description),
+        outcome: task.outcomeSummary ? excerpt(task.outcomeSummary) : undefined,
+      }));
+
+    const feedItems = await ctx.db
+      .query("feedItems")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(200);
+
+    return {
+      conversations: activeConversations,
+      tasksCreated,
+      tasksCompleted,
+      feedItems: feedItems
+        .filter((item) => item.createdAt >= args.since && !item.isHidden)
+        .map((item) => ({ title: excerpt(item.title) })),
+    };
+  },
+});
+
+// Open, unarchived tasks whose targetCompletionAt has passed
+export const getOverdueTasks = internalQuery({
+  args: {
+    userId: v.id("users"),
+    now: v.number(),
+  },
+  returns: v.array(
+    v.object({
+      taskId: v.id("tasks"),
+      description: v.string(),
+      status: v.string(),
+      targetCompletionAt: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const overdue = [];
+    for (const status of ["pending", "in_progress"] as const) {
+      const tasks = await ctx.db
+        .query("tasks")
+        .withIndex("by_userId_status", (q) => q.eq("userId", args.userId).eq("status", status))
+        .take(500);
+      for (const task of tasks) {
+        if (task.isArchived || task.targetCompletionAt === undefined) continue;
+        if (task.targetCompletionAt >= args.now) continue;
+        overdue.push({
+          taskId: task._id,
+          description: excerpt(task.description),
+          status: task.status,
+          targetCompletionAt: task.targetCompletionAt,
+        });
+      }
+    }
+    return overdue
+      .sort((a, b) => a.targetCompletionAt - b.targetCompletionAt)
+      .slice(0, MAX_REMINDER_TASKS);
+  },
+});
+
+/**
+ * Run one schedule's job and record the result. Scheduled by `dispatchDue`
+ * in convex/functions/userSchedules.ts.
+ */
+export const execute = internalAction({
+  args: {
+    runId: v.id("userScheduleRuns"),
+    scheduleId: v.id("userSchedules"),
+    userId: v.id("users"),
+    jobName: v.string(),
+    config: v.optional(v.any()),
+    timezone: v.string(),
+    scheduledFor: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const handler = getJobHandler(args.jobName);
+    let outcome: JobResult;
+    if (!handler) {
+      outcome = {
+        result: "skipped",
+        output: { jobName: args.jobName },
+        error: `No handler for job "${args.jobName}".`,
+      };
+    } else {
+      try {
+        outcome = await handler(ctx, {
+          runId: args.runId,
+          userId: args.userId,
+          config: isPlainObject(args.config) ? (args.config as JobConfig) : {},
+          timezone: args.timezone,
+          now: Date.now(),
+        });
+      } catch (error) {
+        outcome = {
+          result: "failure",
+          output: { jobName: args.jobName },
+          error: error instanceof Error ? error.message : "Scheduled job failed.",
+        };
+      }
+    }
+
+    await ctx.runMutation(internal.functions.userSchedules.finishRun, {
+      runId: args.runId,
+      result: outcome.result,
+      output: { ...outcome.output, scheduledFor: args.scheduledFor },
+      error: outcome.error,
+    });
+    return null;
+  },
+});
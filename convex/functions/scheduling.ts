@@ -0,0 +1,45 @@
+/**
+ * Cron schedule previews.
+ *
+ * Backs the "next runs" list under the cron inputs on the agent scheduling
+ * settings and the Settings cron jobs form. Uses the same parser the agent
+ * scheduler and userSchedules use (convex/lib/cron.ts), so what the preview
+ * shows is what will run.
+ */
+import { v } from "convex/values";
+import { authedQuery } from "../lib/functions";
+import { nextCronOccurrences, validateCronExpression } from "../lib/cron";
+
+const MAX_PREVIEW_RUNS = 10;
+
+// ============================================================
+// Public queries
+// ============================================================
+
+/**
+ * Validate an expression and list its next runs after `from`. The client
+ * passes `from` (rounded to the minute) so the result stays cacheable.
+ */
+export const previewCron = authedQuery({
+  args: {
+    expression: v.string(),
+    timezone: v.string(),
+    from: v.number(),
+    count: v.optional(v.number()),
+  },
+  returns: v.union(
+    v.object({ valid: v.literal(true), nextRuns: v.array(v.number()) }),
+    v.object({ valid: v.literal(false), error: v.string() })
+  ),
+  handler: async (_ctx, args) => {
+    const error = validateCronExpression(args.expression, args.timezone);
+    if (error) {
+      return { valid: false as const, error };
+    }
+    const count = Math.min(Math.max(1, Math.floor(args.count ?? 5)), MAX_PREVIEW_RUNS);
+    return {
+      valid: true as const,
+      nextRuns: nextCronOccurrences(args.expression, args.timezone, args.from, count),
+    };
+  },
+});
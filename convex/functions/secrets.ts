@@ -0,0 +1,264 @@
+/**
+ * Secrets Functions
+ *
+ * Batch jobs for the sealed secrets in userCredentials, connectedApps, and
+ * a2aRemoteAgents (see convex/lib/secrets.ts):
+ *
+ * - migrateLegacySecrets: one-time reseal of old base64 values and of
+ *   "enc1:" values sealed before table, row, and field were bound
+ * - rotateDataKeys: give every user a new data key, reseal their rows with
+ *   it, then delete the old keys
+ * - rewrapDataKeys: after adding a master key version, rewrap data keys
+ *   under it so the old master key can be removed
+ *
+ * Each job pages through its table and schedules itself until done.
+ */
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import type { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import {
+  createDataKey,
+  getCurrentDataKeyVersion,
+  getCurrentMasterKeyVersion,
+  getSealedKeyVersion,
+  isUserBoundOnly,
+  openSecret,
+  rewrapDataKey,
+  sealSecret,
+} from "../lib/secrets";
+import type { SecretSlot } from "../lib/secrets";
+
+const BATCH_SIZE = 100;
+
+const SECRET_TABLES = ["userCredentials", "connectedApps", "a2aRemoteAgents"] as const;
+type SecretTable = (typeof SECRET_TABLES)[number];
+
+const SECRET_FIELDS: Record<SecretTable, Array<SecretSlot["field"]>> = {
+  userCredentials: ["encryptedApiKey", "encryptedAccessToken", "encryptedRefreshToken"],
+  connectedApps: ["encryptedAccessToken", "encryptedRefreshToken"],
+  a2aRemoteAgents: ["encryptedToken"],
+};
+
+const secretTableValidator = v.union(
+  v.literal("userCredentials"),
+  v.literal("connectedApps"),
+  v.literal("a2aRemoteAgents")
+);
+
+const batchArgs = {
+  table: v.optional(secretTableValidator),
+  cursor: v.optional(v.union(v.string(), v.null())),
+};
+
+type BatchResult = { table: SecretTable; resealed: number; isDone: boolean };
+
+const batchResultValidator = v.object({
+  table: secretTableValidator,
+  resealed: v.number(),
+  isDone: v.boolean(),
+});
+
+// Reseal one page of a table. A value is resealed when `needsReseal` says so
+// for its current data key version (null for legacy base64), and always when
+// it is an "enc1:" value bound only to its user.
+async function resealPage(
+  ctx: MutationCtx,
+  table: SecretTable,
+  cursor: string | null,
+  needsReseal: (keyVersion: number | null, currentVersion: number | null) => boolean
+): Promise<{ resealed: number; isDone: boolean; continueCursor: string }> {
+  const page = await ctx.db.query(table).paginate({ cursor, numItems: BATCH_SIZE });
+  const currentVersions = new Map<Id<"users">, number | null>();
+
+  let resealed = 0;
+  for (const row of page.page) {
+    if (!currentVersions.has(row.userId)) {
+      currentVersions.set(row.userId, await getCurrentDataKeyVersion(ctx, row.userId));
+    }
+    const currentVersion = currentVersions.get(row.userId) ?? null;
+
+    const values = row as unknown as Record<string, unknown>;
+    const patch: Record<string, string> = {};
+    for (const field of SECRET_FIELDS[table]) {
+      const stored = values[field];
+      if (typeof stored !== "string" || !stored) continue;
+      if (!isUserBoundOnly(stored) && !needsReseal(getSealedKeyVersion(stored), currentVersion)) {
+        continue;
+      }
+      const slot = { table, id: row._id, field } as SecretSlot;
+      const plaintext = await openSecret(ctx, row.userId, slot, stored);
+      patch[field] = await sealSecret(ctx, row.userId, slot, plaintext);
+    }
+
+    if (Object.keys(patch).length > 0) {
+      await ctx.db.patch(row._id, patch);
+      resealed++;
+      // sealSecret may have created the user's first data key
+      currentVersions.delete(row.userId);
+    }
+  }
+
+  return { resealed, isDone: page.isDone, continueCursor: page.continueCursor };
+}
+
+function nextTable(table: SecretTable): SecretTable | null {
+  const index = SECRET_TABLES.indexOf(table);
+  return SECRET_TABLES[index + 1] ?? null;
+}
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+/**
+ * Reseal values still stored with the old base64 encoding or as "enc1:".
+ * Walks each secret table in turn and schedules itself until done. Safe to
+ * rerun: values already sealed to their slot are skipped.
+ *
+ * Run once after setting SECRETS_MASTER_KEYS:
+ * npx convex run functions/secrets:migrateLegacySecrets
+ */
+export const migrateLegacySecrets = internalMutation({
+  args: batchArgs,
+  returns: batchResultValidator,
+  handler: async (ctx, args): Promise<BatchResult> => {
+    const table = args.table ?? SECRET_TABLES[0];
+    const page = await resealPage(ctx, table, args.cursor ?? null, (keyVersion) => keyVersion === null);
+
+    const following = page.isDone ? nextTable(table) : table;
+    if (following) {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.migrateLegacySecrets, {
+        table: following,
+        cursor: page.isDone ? null : page.continueCursor,
+      });
+    }
+    return { table, resealed: page.resealed, isDone: page.isDone && !following };
+  },
+});
+
+/**
+ * Start a data key rotation: add a new key version for every user, then
+ * reseal their secrets with it.
+ *
+ * npx convex run functions/secrets:rotateDataKeys
+ */
+export const rotateDataKeys = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({ rotated: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args): Promise<{ rotated: number; isDone: boolean }> => {
+    const page = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    let rotated = 0;
+    for (const user of page.page) {
+      // Users without a key have nothing sealed; sealing creates one later
+      if ((await getCurrentDataKeyVersion(ctx, user._id)) === null) continue;
+      await createDataKey(ctx, user._id);
+      rotated++;
+    }
+
+    if (page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.resealSecrets, {});
+    } else {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.rotateDataKeys, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { rotated, isDone: page.isDone };
+  },
+});
+
+/**
+ * Reseal any value not under its user's newest data key, including legacy
+ * base64 and "enc1:" values. Deletes superseded keys once every table is done.
+ */
+export const resealSecrets = internalMutation({
+  args: batchArgs,
+  returns: batchResultValidator,
+  handler: async (ctx, args): Promise<BatchResult> => {
+    const table = args.table ?? SECRET_TABLES[0];
+    const page = await resealPage(
+      ctx,
+      table,
+      args.cursor ?? null,
+      (keyVersion, currentVersion) => keyVersion === null || keyVersion !== currentVersion
+    );
+
+    const following = page.isDone ? nextTable(table) : table;
+    if (following) {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.resealSecrets, {
+        table: following,
+        cursor: page.isDone ? null : page.continueCursor,
+      });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.pruneDataKeys, {});
+    }
+    return { table, resealed: page.resealed, isDone: page.isDone && !following };
+  },
+});
+
+/**
+ * Delete data keys that have a newer version for the same user. Only runs at
+ * the end of resealSecrets, when no sealed value still uses them.
+ */
+export const pruneDataKeys = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({ deleted: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args): Promise<{ deleted: number; isDone: boolean }> => {
+    const page = await ctx.db
+      .query("userDataKeys")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    let deleted = 0;
+    for (const row of page.page) {
+      const currentVersion = await getCurrentDataKeyVersion(ctx, row.userId);
+      if (currentVersion !== null && row.version < currentVersion) {
+        await ctx.db.delete(row._id);
+        deleted++;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.pruneDataKeys, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { deleted, isDone: page.isDone };
+  },
+});
+
+/**
+ * Rewrap data keys under the newest SECRETS_MASTER_KEYS version. Sealed
+ * values are untouched. Once this finishes, older master keys can be removed
+ * from the env var.
+ *
+ * npx convex run functions/secrets:rewrapDataKeys
+ */
+export const rewrapDataKeys = internalMutation({
+  args: {},
+  returns: v.object({ rewrapped: v.number(), isDone: v.boolean() }),
+  handler: async (ctx): Promise<{ rewrapped: number; isDone: boolean }> => {
+    const currentMasterVersion = getCurrentMasterKeyVersion();
+    const stale = await ctx.db
+      .query("userDataKeys")
+      .withIndex("by_masterKeyVersion", (q) => q.lt("masterKeyVersion", currentMasterVersion))
+      .take(BATCH_SIZE);
+
+    for (const row of stale) {
+      await ctx.db.patch(row._id, await rewrapDataKey(row));
+    }
+
+    const isDone = stale.length < BATCH_SIZE;
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.secrets.rewrapDataKeys, {});
+    }
+    return { rewrapped: stale.length, isDone };
+  },
+});
@@ -1,6 +1,7 @@
 import { internalMutation } from "../_generated/server";
 import { v } from "convex/values";
 import { authedQuery } from "../lib/functions";
+import { emitEvent } from "./events";
 
 // ============================================================
 // Public queries
@@ -30,7 +31,8 @@ export const logFlag = internalMutation({
         type: v.union(
           v.literal("injection"),
           v.literal("sensitive"),
-          v.literal("exfiltration")
+          v.literal("exfiltration"),
+          v.literal("spoofing")
         ),
         pattern: v.string(),
         severity: v.union(v.literal("warn"), v.literal("block")),
@@ -40,6 +42,7 @@ export const logFlag = internalMutation({
   },
   handler: async (ctx, args) => {
     for (const flag of args.flags) {
+      const action = flag.severity === "block" ? "blocked" : "allowed_with_warning";
       await ctx.db.insert("securityFlags", {
         userId: args.userId,
         source: args.source,
@@ -47,10 +50,19 @@ export const logFlag = internalMutation({
         severity: flag.severity,
         pattern: flag.pattern,
         inputSnippet: args.inputSnippet,
-        action:
-          flag.severity === "block" ? "blocked" : "allowed_with_warning",
+        action,
         timestamp: Date.now(),
       });
+      await emitEvent(ctx, args.userId, {
+        type: "security.flag",
+        payload: {
+          source: args.source,
+          flagType: flag.type,
+          severity: flag.severity,
+          pattern: flag.pattern,
+          action,
+        },
+      });
     }
   },
 });
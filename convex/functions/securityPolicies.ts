@@ -0,0 +1,320 @@
+/**
+ * Security policies for the input scanner and output redaction.
+ *
+ * Each user has one policy with no agentId, and may add one per agent. When a
+ * message arrives, the agent's policy is layered over the user's (see
+ * mergeSecurityPolicies) and handed to scanInput in convex/agent/securityUtils.ts
+ * together with the channel, and to redactOutput for everything the agent sends.
+ * Saving or deleting a policy writes an auditLog row.
+ */
+import { internalQuery } from "../_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import { authedMutation, authedQuery } from "../lib/functions";
+import {
+  BUILT_IN_SECURITY_RULES,
+  EMPTY_SECURITY_POLICY,
+  mergeSecurityPolicies,
+  scanInput,
+  validateSecurityPolicy,
+  type SecurityPolicy,
+} from "../agent/securityUtils";
+
+const ruleTypeValidator = v.union(
+  v.literal("injection"),
+  v.literal("sensitive"),
+  v.literal("exfiltration")
+);
+
+const ruleSeverityValidator = v.union(v.literal("warn"), v.literal("block"));
+
+const strictnessValidator = v.union(
+  v.literal("relaxed"),
+  v.literal("standard"),
+  v.literal("strict")
+);
+
+const channelValidator = v.union(
+  v.literal("dashboard"),
+  v.literal("api"),
+  v.literal("mcp"),
+  v.literal("webmcp"),
+  v.literal("a2a"),
+  v.literal("email"),
+  v.literal("phone")
+);
+
+const ruleValidator = v.object({
+  id: v.string(),
+  type: ruleTypeValidator,
+  pattern: v.string(),
+  severity: ruleSeverityValidator,
+  description: v.optional(v.string()),
+});
+
+const redactionRuleValidator = v.object({
+  id: v.string(),
+  pattern: v.string(),
+  replacement: v.optional(v.string()),
+  description: v.optional(v.string()),
+});
+
+const policyFields = {
+  severityOverrides: v.array(
+    v.object({
+      ruleId: v.string(),
+      severity: v.union(v.literal("off"), ruleSeverityValidator),
+    })
+  ),
+  customRules: v.array(ruleValidator),
+  redactionRules: v.array(redactionRuleValidator),
+  allowPhrases: v.array(v.string()),
+  channelStrictness: v.object({
+    dashboard: v.optional(strictnessValidator),
+    api: v.optional(strictnessValidator),
+    mcp: v.optional(strictnessValidator),
+    webmcp: v.optional(strictnessValidator),
+    a2a: v.optional(strictnessValidator),
+    email: v.optional(strictnessValidator),
+    phone: v.optional(strictnessValidator),
+  }),
+  classifier: v.optional(
+    v.object({
+      mode: v.union(
+        v.literal("off"),
+        v.literal("suspicious"),
+        v.literal("public"),
+        v.literal("all")
+      ),
+      threshold: v.number(),
+      model: v.optional(v.string()),
+    })
+  ),
+};
+
+const policyValidator = v.object(policyFields);
+
+async function getPolicyDoc(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  agentId: Id<"agents"> | undefined
+): Promise<Doc<"securityPolicies"> | null> {
+  return await ctx.db
+    .query("securityPolicies")
+    .withIndex("by_userId_agentId", (q) => q.eq("userId", userId).eq("agentId", agentId))
+    .first();
+}
+
+function toPolicy(doc: Doc<"securityPolicies"> | null): SecurityPolicy {
+  if (!doc) return EMPTY_SECURITY_POLICY;
+  return {
+    severityOverrides: doc.severityOverrides,
+    customRules: doc.customRules,
+    redactionRules: doc.redactionRules ?? [],
+    allowPhrases: doc.allowPhrases,
+    channelStrictness: doc.channelStrictness,
+    classifier: doc.classifier,
+  };
+}
+
+// The user's policy with the agent's layered on top, if it has one
+async function loadEffectivePolicy(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  agentId: Id<"agents"> | undefined
+): Promise<SecurityPolicy> {
+  const userPolicy = toPolicy(await getPolicyDoc(ctx, userId, undefined));
+  if (!agentId) return userPolicy;
+  const agentDoc = await getPolicyDoc(ctx, userId, agentId);
+  return agentDoc ? mergeSecurityPolicies(userPolicy, toPolicy(agentDoc)) : userPolicy;
+}
+
+async function requireOwnedAgent(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  agentId: Id<"agents"> | undefined
+): Promise<void> {
+  if (!agentId) return;
+  const agent = await ctx.db.get(agentId);
+  if (!agent || agent.userId !== userId) {
+    throw new Error("Agent not found");
+  }
+}
+
+// ============================================================
+// Public queries
+// ============================================================
+
+/**
+ * The stored policy for the user (no agentId) or one agent, plus the
+ * built-in rules it can override.
+ */
+export const get = authedQuery({
+  args: { agentId: v.optional(v.id("agents")) },
+  returns: v.object({
+    builtInRules: v.array(ruleValidator),
+    policy: v.union(policyValidator, v.null()),
+    updatedAt: v.union(v.number(), v.null()),
+  }),
+  handler: async (ctx, args) => {
+    await requireOwnedAgent(ctx, ctx.userId, args.agentId);
+    const doc = await getPolicyDoc(ctx, ctx.userId, args.agentId);
+    return {
+      builtInRules: BUILT_IN_SECURITY_RULES,
+      policy: doc ? toPolicy(doc) : null,
+      updatedAt: doc?.updatedAt ?? null,
+    };
+  },
+});
+
+/**
+ * Dry run: scan an input with the effective policy for an agent and channel
+ * and report which rules fire. Nothing is logged.
+ */
+export const testInput = authedQuery({
+  args: {
+    input: v.string(),
+    channel: channelValidator,
+    agentId: v.optional(v.id("agents")),
+  },
+  returns: v.object({
+    severity: v.union(v.literal("safe"), v.literal("warn"), v.literal("block")),
+    strictness: strictnessValidator,
+    flags: v.array(
+      v.object({
+        ruleId: v.string(),
+        type: ruleTypeValidator,
+        pattern: v.string(),
+        match: v.string(),
+        severity: ruleSeverityValidator,
+      })
+    ),
+  }),
+  handler: async (ctx, args) => {
+    await requireOwnedAgent(ctx, ctx.userId, args.agentId);
+    const policy = await loadEffectivePolicy(ctx, ctx.userId, args.agentId);
+    const result = scanInput(args.input.slice(0, 10000), policy, args.channel);
+    return {
+      severity: result.severity,
+      strictness: result.strictness,
+      flags: result.flags,
+    };
+  },
+});
+
+// ============================================================
+// Mutations
+// ============================================================
+
+export const save = authedMutation({
+  args: {
+    agentId: v.optional(v.id("agents")),
+    ...policyFields,
+  },
+  returns: v.id("securityPolicies"),
+  handler: async (ctx, args) => {
+    await requireOwnedAgent(ctx, ctx.userId, args.agentId);
+    const { agentId, ...fields } = args;
+    const policy: SecurityPolicy = {
+      ...fields,
+      customRules: fields.customRules.map((rule) => ({
+        ...rule,
+        id: rule.id.trim(),
+        description: rule.description?.trim() || undefined,
+      })),
+      redactionRules: fields.redactionRules.map((rule) => ({
+        ...rule,
+        id: rule.id.trim(),
+        description: rule.description?.trim() || undefined,
+      })),
+      allowPhrases: [
+        ...new Set(fields.allowPhrases.map((phrase) => phrase.trim()).filter(Boolean)),
+      ],
+      classifier: fields.classifier && {
+        ...fields.classifier,
+        model: fields.classifier.model?.trim() || undefined,
+      },
+    };
+
+    const errors = validateSecurityPolicy(policy);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+
+    const now = Date.now();
+    const existing = await getPolicyDoc(ctx, ctx.userId, agentId);
+    let policyId: Id<"securityPolicies">;
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...policy, updatedAt: now });
+      policyId = existing._id;
+    } else {
+      policyId = await ctx.db.insert("securityPolicies", {
+        userId: ctx.userId,
+        agentId,
+        ...policy,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.insert("auditLog", {
+      userId: ctx.userId,
+      action: "security_policy_updated",
+      resource: agentId ? `agent:${agentId}` : "user",
+      callerType: "user",
+      callerIdentity: String(ctx.userId),
+      details: {
+        previous: existing ? toPolicy(existing) : null,
+        policy,
+      },
+      status: "success",
+      channel: "dashboard",
+      timestamp: now,
+    });
+
+    return policyId;
+  },
+});
+
+/**
+ * Delete an agent's policy so it falls back to the user's, or reset the
+ * user's policy to the built-in defaults.
+ */
+export const remove = authedMutation({
+  args: { agentId: v.optional(v.id("agents")) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireOwnedAgent(ctx, ctx.userId, args.agentId);
+    const existing = await getPolicyDoc(ctx, ctx.userId, args.agentId);
+    if (!existing) return null;
+
+    await ctx.db.delete(existing._id);
+    await ctx.db.insert("auditLog", {
+      userId: ctx.userId,
+      action: "security_policy_deleted",
+      resource: args.agentId ? `agent:${args.agentId}` : "user",
+      callerType: "user",
+      callerIdentity: String(ctx.userId),
+      details: { previous: toPolicy(existing) },
+      status: "success",
+      channel: "dashboard",
+      timestamp: Date.now(),
+    });
+    return null;
+  },
+});
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+export const getEffective = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+  },
+  returns: policyValidator,
+  handler: async (ctx, args) => {
+    return await loadEffectivePolicy(ctx, args.userId, args.agentId);
+  },
+});
@@ -0,0 +1,242 @@
+/**
+ * Skill Tool Execution
+ *
+ * Runs `skills.toolDeclarations` entries called through MCP `tools/call`.
+ * Arguments are validated against the declared `inputSchema`, then sent to
+ * the bound handler (Composio action, Daytona command, HTTP endpoint, or LLM
+ * prompt template). Declarations without a binding are delegated to the agent.
+ */
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import type { ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import {
+  checkOutboundUrl,
+  encodeJsonArg,
+  encodeShellArg,
+  encodeUrlArg,
+  renderTemplate,
+  validateJsonSchema,
+} from "../agent/toolBindings";
+import type { DeclaredTool, ToolBinding } from "../agent/toolBindings";
+
+const HTTP_BINDING_TIMEOUT_MS = 30_000;
+const MAX_RESULT_CHARS = 50_000;
+
+type ToolContent = { type: "text"; text: string };
+
+type ToolCallOutcome = {
+  content: Array<ToolContent>;
+  structuredContent?: Record<string, unknown>;
+  isError: boolean;
+};
+
+type DeclaredToolCallResult =
+  | { status: "unknown_tool" | "invalid_params"; message: string }
+  | ({ status: "ok" } & ToolCallOutcome);
+
+type CallContext = {
+  userId: Id<"users">;
+  agentId: Id<"agents">;
+  callerId?: string;
+  streamId?: Id<"streamingMessages">;
+};
+
+const toolCallResultValidator = v.union(
+  v.object({ status: v.literal("unknown_tool"), message: v.string() }),
+  v.object({ status: v.literal("invalid_params"), message: v.string() }),
+  v.object({
+    status: v.literal("ok"),
+    content: v.array(v.object({ type: v.literal("text"), text: v.string() })),
+    structuredContent: v.optional(v.any()),
+    isError: v.boolean(),
+  })
+);
+
+function clipResult(text: string): string {
+  return text.length > MAX_RESULT_CHARS
+    ? `${text.slice(0, MAX_RESULT_CHARS)}\n...[truncated]`
+    : text;
+}
+
+function textResult(text: string, isError: boolean, structuredContent?: unknown): ToolCallOutcome {
+  const structured =
+    typeof structuredContent === "object" && structuredContent !== null && !Array.isArray(structuredContent)
+      ? (structuredContent as Record<string, unknown>)
+      : undefined;
+  return { content: [{ type: "text", text: clipResult(text) }], structuredContent: structured, isError };
+}
+
+async function runAgentPrompt(
+  ctx: ActionCtx,
+  call: CallContext,
+  message: string
+): Promise<ToolCallOutcome> {
+  const result = await ctx.runAction(internal.agent.runtime.processMessage, {
+    userId: call.userId,
+    agentId: call.agentId,
+    message,
+    channel: "mcp",
+    callerId: call.callerId,
+    streamId: call.streamId,
+  });
+  return textResult(result.response, result.blocked);
+}
+
+async function runHttpBinding(
+  binding: Extract<ToolBinding, { type: "http" }>,
+  args: Record<string, unknown>
+): Promise<ToolCallOutcome> {
+  const url = renderTemplate(binding.url, args, encodeUrlArg);
+  const urlError = checkOutboundUrl(url);
+  if (urlError) return textResult(urlError, true);
+
+  const hasBody = binding.method !== "GET" && binding.method !== "DELETE";
+  const body = hasBody
+    ? binding.bodyTemplate
+      ? renderTemplate(binding.bodyTemplate, args, encodeJsonArg)
+      : JSON.stringify(args)
+    : undefined;
+
+  try {
+    const response = await fetch(url, {
+      method: binding.method,
+      headers: {
+        ...(hasBody ? { "Content-Type": "application/json" } : {}),
+        ...binding.headers,
+      },
+      body,
+      // Redirects could leave the checked host, so they are treated as errors
+      redirect: "error",
+      signal: AbortSignal.timeout(HTTP_BINDING_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    let parsed: unknown;
+    if ((response.headers.get("content-type") ?? "").includes("json")) {
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        parsed = undefined;
+      }
+    }
+    const display = parsed !== undefined ? JSON.stringify(parsed, null, 2) : text;
+    return textResult(
+      response.ok ? display || `HTTP ${response.status}` : `HTTP ${response.status}: ${display}`,
+      !response.ok,
+      parsed
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return textResult(`HTTP request failed: ${message}`, true);
+  }
+}
+
+async function runBinding(
+  ctx: ActionCtx,
+  call: CallContext,
+  binding: ToolBinding,
+  args: Record<string, unknown>
+): Promise<ToolCallOutcome> {
+  switch (binding.type) {
+    case "composio": {
+      const result = await ctx.runAction(internal.functions.composio.executeTool, {
+        userId: call.userId,
+        toolName: binding.action,
+        parameters: args,
+      });
+      if (!result.success) {
+        return textResult(result.error ?? "Composio action failed", true);
+      }
+      const data = result.data ?? null;
+      return textResult(
+        typeof data === "string" ? data : JSON.stringify(data, null, 2),
+        false,
+        data
+      );
+    }
+
+    case "daytona": {
+      const result = await ctx.runAction(internal.functions.daytona.executeCommand, {
+        userId: call.userId,
+        command: renderTemplate(binding.command, args, encodeShellArg),
+        workdir: binding.workdir,
+        timeout: binding.timeoutMs,
+      });
+      if (result.error) {
+        return textResult(result.error, true);
+      }
+      const output = [result.stdout, result.stderr ? `stderr:\n${result.stderr}` : ""]
+        .filter(Boolean)
+        .join("\n\n");
+      return textResult(output || `Exited with code ${result.exitCode ?? 0}`, !result.success, {
+        stdout: result.stdout ?? "",
+        stderr: result.stderr ?? "",
+        exitCode: result.exitCode ?? 0,
+      });
+    }
+
+    case "http":
+      return await runHttpBinding(binding, args);
+
+    case "llm":
+      return await runAgentPrompt(ctx, call, renderTemplate(binding.promptTemplate, args));
+  }
+}
+
+/**
+ * Execute a declared tool from the agent's published skill.
+ * Unknown tools and arguments that fail the input schema are returned as
+ * statuses so the MCP handler can answer with -32602.
+ */
+export const executeDeclared = internalAction({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    toolName: v.string(),
+    arguments: v.optional(v.any()),
+    callerId: v.optional(v.string()),
+    streamId: v.optional(v.id("streamingMessages")),
+  },
+  returns: toolCallResultValidator,
+  handler: async (ctx, args): Promise<DeclaredToolCallResult> => {
+    const declaration: DeclaredTool | null = await ctx.runQuery(
+      internal.functions.skills.getPublishedToolDeclaration,
+      { userId: args.userId, agentId: args.agentId, toolName: args.toolName }
+    );
+    if (!declaration) {
+      return { status: "unknown_tool", message: `Unknown tool: ${args.toolName}` };
+    }
+
+    const toolArgs = (args.arguments ?? {}) as unknown;
+    if (typeof toolArgs !== "object" || toolArgs === null || Array.isArray(toolArgs)) {
+      return { status: "invalid_params", message: "arguments must be an object" };
+    }
+    if (declaration.inputSchema !== undefined) {
+      const errors = validateJsonSchema(declaration.inputSchema, toolArgs);
+      if (errors.length > 0) {
+        return {
+          status: "invalid_params",
+          message: `Invalid arguments for ${args.toolName}: ${errors.join("; ")}`,
+        };
+      }
+    }
+
+    const call: CallContext = {
+      userId: args.userId,
+      agentId: args.agentId,
+      callerId: args.callerId,
+      streamId: args.streamId,
+    };
+    const argRecord = toolArgs as Record<string, unknown>;
+    const outcome = declaration.binding
+      ? await runBinding(ctx, call, declaration.binding, argRecord)
+      : await runAgentPrompt(
+          ctx,
+          call,
+          `Execute tool: ${args.toolName} with arguments: ${JSON.stringify(argRecord)}`
+        );
+
+    return { status: "ok", ...outcome };
+  },
+});
@@ -1,7 +1,11 @@
 import { query, internalQuery, internalMutation } from "../_generated/server";
+import type { QueryCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { authedMutation, authedQuery, optionalAuthQuery } from "../lib/functions";
 import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { checkToolDeclarations } from "../agent/toolBindings";
+import { emitEvent } from "./events";
 
 const MAX_IMPORT_BYTES = 400_000;
 const MAX_SKILLS_PER_IMPORT = 25;
@@ -9,6 +13,38 @@ const MAX_NAME_LENGTH = 80;
 const MAX_BIO_LENGTH = 1200;
 const MAX_CAPABILITIES = 40;
 const MAX_DOMAINS = 60;
+const MAX_TOOL_DECLARATIONS = 50;
+
+const toolBindingValidator = v.union(
+  v.object({ type: v.literal("composio"), action: v.string() }),
+  v.object({
+    type: v.literal("daytona"),
+    command: v.string(),
+    workdir: v.optional(v.string()),
+    timeoutMs: v.optional(v.number()),
+  }),
+  v.object({
+    type: v.literal("http"),
+    url: v.string(),
+    method: v.union(
+      v.literal("GET"),
+      v.literal("POST"),
+      v.literal("PUT"),
+      v.literal("PATCH"),
+      v.literal("DELETE")
+    ),
+    headers: v.optional(v.record(v.string(), v.string())),
+    bodyTemplate: v.optional(v.string()),
+  }),
+  v.object({ type: v.literal("llm"), promptTemplate: v.string() })
+);
+
+const toolDeclarationValidator = v.object({
+  name: v.string(),
+  description: v.string(),
+  inputSchema: v.optional(v.any()),
+  binding: v.optional(toolBindingValidator),
+});
 
 type SkillImportCandidate = {
   name: string;
@@ -263,6 +299,60 @@ function runSecurityScan(payload: string): Array<SecurityMatch> {
   return matches;
 }
 
+// Published skill for an agent: junction or legacy assignment first, then
+// the user-level published skill for backwards compatibility.
+async function findPublishedSkillForAgent(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  agentId: Id<"agents">
+): Promise<Doc<"skills"> | null> {
+  // Check junction table for skills linked to this agent
+  const junctionAssignments = await ctx.db
+    .query("skillAgents")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .take(100);
+  const junctionSkills = await Promise.all(
+    junctionAssignments.map((a) => ctx.db.get(a.skillId))
+  );
+
+  // Also check legacy agentId field
+  const legacySkills = await ctx.db
+    .query("skills")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .take(100);
+
+  // Merge and deduplicate
+  const seen = new Set<string>();
+  const allAgentSkills = [];
+  for (const skill of [...junctionSkills, ...legacySkills]) {
+    if (skill && !seen.has(skill._id)) {
+      seen.add(skill._id);
+      allAgentSkills.push(skill);
+    }
+  }
+
+  const publishedAgentSkill = allAgentSkills.find((s) => s.isPublished);
+  if (publishedAgentSkill) return publishedAgentSkill;
+
+  // Backwards-compatible fallback: use user-level published skill.
+  const fallbackPublishedSkill = (await ctx.db
+    .query("skills")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .take(100))
+    .find((s) => s.isPublished && !s.agentId);
+  return fallbackPublishedSkill ?? null;
+}
+
+// Public view of tool declarations. Bindings stay private because they can
+// carry request headers, commands, and prompt templates.
+function publicToolDeclarations(skill: Doc<"skills">) {
+  return skill.toolDeclarations.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+  }));
+}
+
 // ============================================================
 // Public queries
 // ============================================================
@@ -370,7 +460,7 @@ export const getPublicSkill = query({
       knowledgeDomains: skill.knowledgeDomains,
       publicPermissions: skill.permissions.public,
       communicationPrefs: skill.communicationPrefs,
-      toolDeclarations: skill.toolDeclarations,
+      toolDeclarations: publicToolDeclarations(skill),
       version: skill.version,
     };
   },
@@ -393,43 +483,7 @@ export const getPublicSkillByAgent = query({
       .first();
     if (!agent || !agent.isPublic) return null;
 
-    // Check junction table for skills linked to this agent
-    const junctionAssignments = await ctx.db
-      .query("skillAgents")
-      .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-      .take(100);
-    const junctionSkills = await Promise.all(
-      junctionAssignments.map((a) => ctx.db.get(a.skillId))
-    );
-
-    // Also check legacy agentId field
-    const legacySkills = await ctx.db
-      .query("skills")
-      .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
-      .take(100);
-
-    // Merge and deduplicate
-    const seen = new Set<string>();
-    const allAgentSkills = [];
-    for (const skill of [...junctionSkills, ...legacySkills]) {
-      if (skill && !seen.has(skill._id)) {
-        seen.add(skill._id);
-        allAgentSkills.push(skill);
-      }
-    }
-
-    const publishedAgentSkill = allAgentSkills.find((s) => s.isPublished);
-
-    // Backwards-compatible fallback: use user-level published skill.
-    const fallbackPublishedSkill = publishedAgentSkill
-      ? null
-      : (await ctx.db
-          .query("skills")
-          .withIndex("by_userId", (q) => q.eq("userId", user._id))
-          .take(100))
-          .find((s) => s.isPublished && !s.agentId);
-
-    const skill = publishedAgentSkill ?? fallbackPublishedSkill;
+    const skill = await findPublishedSkillForAgent(ctx, user._id, agent._id);
     if (!skill) return null;
 
     return {
@@ -438,7 +492,7 @@ export const getPublicSkillByAgent = query({
       knowledgeDomains: skill.knowledgeDomains,
       publicPermissions: skill.permissions.public,
       communicationPrefs: skill.communicationPrefs,
-      toolDeclarations: skill.toolDeclarations,
+      toolDeclarations: publicToolDeclarations(skill),
       version: skill.version,
     };
   },
@@ -567,18 +621,29 @@ export const importSkills = authedMutation({
     const securityMatches = runSecurityScan(args.payload);
     if (securityMatches.length > 0) {
       await Promise.all(
-        securityMatches.map((match) =>
-          ctx.db.insert("securityFlags", {
+        securityMatches.map(async (match) => {
+          const action = match.severity === "block" ? "blocked_import" : "warned_import";
+          await ctx.db.insert("securityFlags", {
             userId: ctx.userId,
             source: args.source,
             flagType: match.flagType,
             severity: match.severity,
             pattern: match.pattern,
             inputSnippet: match.snippet,
-            action: match.severity === "block" ? "blocked_import" : "warned_import",
+            action,
             timestamp: Date.now(),
-          })
-        )
+          });
+          await emitEvent(ctx, ctx.userId, {
+            type: "security.flag",
+            payload: {
+              source: args.source,
+              flagType: match.flagType,
+              severity: match.severity,
+              pattern: match.pattern,
+              action,
+            },
+          });
+        })
       );
     }
 
@@ -684,6 +749,7 @@ export const update = authedMutation({
       })
     ),
     isActive: v.optional(v.boolean()),
+    toolDeclarations: v.optional(v.array(toolDeclarationValidator)),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -710,6 +776,14 @@ export const update = authedMutation({
     if (args.knowledgeDomains) patch.knowledgeDomains = args.knowledgeDomains;
     if (args.communicationPrefs) patch.communicationPrefs = args.communicationPrefs;
     if (args.isActive !== undefined) patch.isActive = args.isActive;
+    if (args.toolDeclarations) {
+      if (args.toolDeclarations.length > MAX_TOOL_DECLARATIONS) {
+        throw new Error(`A skill can declare at most ${MAX_TOOL_DECLARATIONS} tools`);
+      }
+      const declarationError = checkToolDeclarations(args.toolDeclarations);
+      if (declarationError) throw new Error(declarationError);
+      patch.toolDeclarations = args.toolDeclarations;
+    }
 
     // Bump version on each update
     patch.version = skill.version + 1;
@@ -867,7 +941,14 @@ export const publish = authedMutation({
         .first();
       if (!skill) throw new Error("Skill file not found");
     }
+    const wasPublished = skill.isPublished;
     await ctx.db.patch(skill._id, { isPublished: true, updatedAt: Date.now() });
+    if (!wasPublished) {
+      await emitEvent(ctx, ctx.userId, {
+        type: "skill.published",
+        payload: { skillId: skill._id, agentId: skill.agentId, name: skill.identity.name },
+      });
+    }
 
     // Schedule llms.txt regeneration when publishing
     await ctx.scheduler.runAfter(0, internal.functions.llmsTxt.regenerate, {
@@ -1069,3 +1150,18 @@ export const getByUserId = internalQuery({
       .first();
   },
 });
+
+// Declared tool (with its binding) from the agent's published skill, for MCP tools/call
+export const getPublishedToolDeclaration = internalQuery({
+  args: {
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    toolName: v.string(),
+  },
+  returns: v.union(toolDeclarationValidator, v.null()),
+  handler: async (ctx, { userId, agentId, toolName }) => {
+    const skill = await findPublishedSkillForAgent(ctx, userId, agentId);
+    if (!skill) return null;
+    return skill.toolDeclarations.find((tool) => tool.name === toolName) ?? null;
+  },
+});
@@ -0,0 +1,144 @@
+/**
+ * Streaming Messages Functions
+ *
+ * Progressive assistant replies written by the agent runtime while the LLM
+ * streams tokens. Dashboard chat subscribes to the active record for a
+ * conversation; the SSE messages API polls by id.
+ */
+import { v } from "convex/values";
+import { authedQuery } from "../lib/functions";
+import { internalMutation, internalQuery } from "../_generated/server";
+
+// Records left in "streaming" longer than this are treated as abandoned
+const STALE_STREAM_MS = 10 * 60 * 1000;
+
+const streamingMessageValidator = v.object({
+  _id: v.id("streamingMessages"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  agentId: v.optional(v.id("agents")),
+  conversationId: v.optional(v.id("conversations")),
+  content: v.string(),
+  statusDetail: v.optional(v.string()),
+  status: v.union(
+    v.literal("streaming"),
+    v.literal("completed"),
+    v.literal("failed")
+  ),
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+// ============================================================
+// Public queries
+// ============================================================
+
+// Active streaming reply for a dashboard chat, if any
+export const getActiveForConversation = authedQuery({
+  args: { conversationId: v.id("conversations") },
+  returns: v.union(streamingMessageValidator, v.null()),
+  handler: async (ctx, { conversationId }) => {
+    const rows = await ctx.db
+      .query("streamingMessages")
+      .withIndex("by_conversationId", (q) => q.eq("conversationId", conversationId))
+      .order("desc")
+      .take(5);
+    const active = rows.find(
+      (row) => row.userId === ctx.userId && row.status === "streaming"
+    );
+    return active ?? null;
+  },
+});
+
+// ============================================================
+// Internal functions
+// ============================================================
+
+export const create = internalMutation({
+  args: {
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+    conversationId: v.optional(v.id("conversations")),
+  },
+  returns: v.id("streamingMessages"),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await ctx.db.insert("streamingMessages", {
+      ...args,
+      content: "",
+      status: "streaming",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const get = internalQuery({
+  args: { streamId: v.id("streamingMessages") },
+  returns: v.union(streamingMessageValidator, v.null()),
+  handler: async (ctx, { streamId }) => {
+    return await ctx.db.get(streamId);
+  },
+});
+
+// Replace the visible text so far. No-op once the stream has finished.
+export const update = internalMutation({
+  args: {
+    streamId: v.id("streamingMessages"),
+    content: v.string(),
+    statusDetail: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { streamId, content, statusDetail }) => {
+    const stream = await ctx.db.get(streamId);
+    if (!stream || stream.status !== "streaming") return null;
+    await ctx.db.patch(streamId, { content, statusDetail, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+export const finish = internalMutation({
+  args: {
+    streamId: v.id("streamingMessages"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    content: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { streamId, status, content, error }) => {
+    const stream = await ctx.db.get(streamId);
+    if (!stream) return null;
+    await ctx.db.patch(streamId, {
+      status,
+      content: content ?? stream.content,
+      statusDetail: undefined,
+      error,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// Delete finished records and abandoned streams (cron)
+export const cleanup = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - STALE_STREAM_MS;
+    let deleted = 0;
+    for (const status of ["completed", "failed", "streaming"] as const) {
+      const rows = await ctx.db
+        .query("streamingMessages")
+        .withIndex("by_status_updatedAt", (q) =>
+          q.eq("status", status).lt("updatedAt", cutoff)
+        )
+        .take(200);
+      for (const row of rows) {
+        await ctx.db.delete(row._id);
+        deleted++;
+      }
+    }
+    return deleted;
+  },
+});
@@ -8,6 +8,7 @@
  */
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "../_generated/server";
+import { apiKeySlot, openSecret } from "../lib/secrets";
 import { authedMutation, authedQuery } from "../lib/functions";
 
 const PROFILE_CACHE_DURATION_MS = 10 * 60 * 1000; // 10 minutes
@@ -160,7 +161,7 @@ export const getCredential = internalQuery({
     if (!cred?.encryptedApiKey || !cred.isActive) return null;
 
     return {
-      apiKey: atob(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, cred.userId, apiKeySlot(cred._id), cred.encryptedApiKey),
     };
   },
 });
@@ -180,7 +181,7 @@ export const getCredentialByUserId = internalQuery({
     if (!cred?.encryptedApiKey || !cred.isActive) return null;
 
     return {
-      apiKey: atob(cred.encryptedApiKey),
+      apiKey: await openSecret(ctx, cred.userId, apiKeySlot(cred._id), cred.encryptedApiKey),
     };
   },
 });
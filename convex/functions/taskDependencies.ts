@@ -0,0 +1,367 @@
+/**
+ * Task Dependencies
+ *
+ * A task's `blockedBy` lists prerequisite tasks that must complete before it
+ * is released to its agent or team. Board mutations call these helpers to
+ * validate new edges (ownership, no cycles), to check whether a task is
+ * blocked before an agent picks it up, and to react when a prerequisite
+ * finishes: completion releases dependents whose prerequisites are all done,
+ * failure fails pending dependents and everything downstream of them.
+ * `taskDependencyEdges` mirrors every `blockedBy` entry so dependents are
+ * found through an index instead of a scan of the board.
+ */
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { emitEvent } from "./events";
+
+export const MAX_TASK_DEPENDENCIES = 20;
+
+// Upper bound on tasks visited by a cycle check or chain walk
+const MAX_GRAPH_NODES = 500;
+
+function label(task: Pick<Doc<"tasks">, "description">): string {
+  const description = task.description.trim();
+  return description.length > 60 ? `${description.slice(0, 57)}...` : description;
+}
+
+/**
+ * Dedupe and validate a new `blockedBy` list for `taskId` (null for a task
+ * that does not exist yet). Throws when a prerequisite is missing, belongs to
+ * another user, has already failed, or would close a cycle.
+ */
+export async function normalizeTaskDependencies(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  taskId: Id<"tasks"> | null,
+  blockedBy: Array<Id<"tasks">>
+): Promise<Array<Id<"tasks">>> {
+  const unique = [...new Set(blockedBy)];
+  if (unique.length > MAX_TASK_DEPENDENCIES) {
+    throw new Error(`A task can wait on at most ${MAX_TASK_DEPENDENCIES} other tasks`);
+  }
+
+  for (const prerequisiteId of unique) {
+    if (prerequisiteId === taskId) {
+      throw new Error("A task cannot be blocked by itself");
+    }
+    const prerequisite = await ctx.db.get(prerequisiteId);
+    if (!prerequisite || prerequisite.userId !== userId) {
+      throw new Error("Prerequisite task not found");
+    }
+    if (prerequisite.status === "failed") {
+      throw new Error(`Prerequisite "${label(prerequisite)}" has already failed`);
+    }
+  }
+
+  // A brand new task has no dependents, so it cannot close a cycle
+  if (taskId) {
+    const cycle = await findDependencyCycle(ctx, taskId, unique);
+    if (cycle) {
+      throw new Error(`This would create a dependency cycle: ${cycle.join(" → ")}`);
+    }
+  }
+
+  return unique;
+}
+
+/**
+ * If `taskId` is reachable from any of `blockedBy` by following existing
+ * `blockedBy` edges, the new edges would close a cycle. Returns the cycle as
+ * task labels, starting and ending at `taskId`, or null when there is none.
+ * Throws rather than allow the edges when the walk passes MAX_GRAPH_NODES.
+ */
+async function findDependencyCycle(
+  ctx: QueryCtx,
+  taskId: Id<"tasks">,
+  blockedBy: Array<Id<"tasks">>
+): Promise<Array<string> | null> {
+  const cache = new Map<Id<"tasks">, Doc<"tasks"> | null>();
+  const load = async (id: Id<"tasks">) => {
+    if (!cache.has(id)) cache.set(id, await ctx.db.get(id));
+    return cache.get(id) ?? null;
+  };
+
+  // Breadth-first from the new prerequisites, remembering how each was reached
+  const cameFrom = new Map<Id<"tasks">, Id<"tasks">>();
+  const queue: Array<Id<"tasks">> = [];
+  for (const id of blockedBy) {
+    cameFrom.set(id, taskId);
+    queue.push(id);
+  }
+
+  while (queue.length > 0) {
+    if (cameFrom.size > MAX_GRAPH_NODES) {
+      throw new Error("Dependency graph is too large to verify");
+    }
+    const current = queue.shift()!;
+    if (current === taskId) {
+      const path: Array<Id<"tasks">> = [taskId];
+      let step = cameFrom.get(taskId)!;
+      while (step !== taskId) {
+        path.push(step);
+        step = cameFrom.get(step)!;
+      }
+      path.push(taskId);
+      const labels: Array<string> = [];
+      for (const id of path.reverse()) {
+        const task = await load(id);
+        labels.push(task ? `"${label(task)}"` : "a deleted task");
+      }
+      return labels;
+    }
+
+    const task = await load(current);
+    for (const next of task?.blockedBy ?? []) {
+      if (!cameFrom.has(next)) {
+        cameFrom.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prerequisites of `task` that have not completed. Deleted prerequisites no
+ * longer block anything.
+ */
+export async function getUnfinishedPrerequisites(
+  ctx: QueryCtx,
+  task: Pick<Doc<"tasks">, "blockedBy">
+): Promise<Array<Doc<"tasks">>> {
+  const unfinished: Array<Doc<"tasks">> = [];
+  for (const prerequisiteId of task.blockedBy ?? []) {
+    const prerequisite = await ctx.db.get(prerequisiteId);
+    if (prerequisite && prerequisite.status !== "completed") {
+      unfinished.push(prerequisite);
+    }
+  }
+  return unfinished;
+}
+
+// A pending task waiting on at least one unfinished prerequisite
+export async function isTaskBlocked(
+  ctx: QueryCtx,
+  task: Pick<Doc<"tasks">, "status" | "blockedBy">
+): Promise<boolean> {
+  if (task.status !== "pending" || !task.blockedBy?.length) return false;
+  return (await getUnfinishedPrerequisites(ctx, task)).length > 0;
+}
+
+/**
+ * Every task upstream of `task`, nearest first, with its distance. Used by
+ * the board's task details to show the dependency chain.
+ */
+export async function getPrerequisiteChain(
+  ctx: QueryCtx,
+  task: Doc<"tasks">
+): Promise<Array<{ task: Doc<"tasks">; depth: number }>> {
+  const chain: Array<{ task: Doc<"tasks">; depth: number }> = [];
+  const seen = new Set<Id<"tasks">>([task._id]);
+  let frontier: Array<Doc<"tasks">> = [task];
+
+  for (let depth = 1; frontier.length > 0 && seen.size <= MAX_GRAPH_NODES; depth++) {
+    const next: Array<Doc<"tasks">> = [];
+    for (const current of frontier) {
+      for (const prerequisiteId of current.blockedBy ?? []) {
+        if (seen.has(prerequisiteId)) continue;
+        seen.add(prerequisiteId);
+        const prerequisite = await ctx.db.get(prerequisiteId);
+        if (!prerequisite) continue;
+        chain.push({ task: prerequisite, depth });
+        next.push(prerequisite);
+      }
+    }
+    frontier = next;
+  }
+
+  return chain;
+}
+
+/**
+ * Bring `taskDependencyEdges` in line with the task's new `blockedBy`. Call
+ * after every write to `blockedBy`.
+ */
+export async function syncDependencyEdges(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  taskId: Id<"tasks">,
+  blockedBy: Array<Id<"tasks">>
+): Promise<void> {
+  const edges = await ctx.db
+    .query("taskDependencyEdges")
+    .withIndex("by_taskId", (q) => q.eq("taskId", taskId))
+    .collect();
+  const existing = new Set<Id<"tasks">>();
+  for (const edge of edges) {
+    if (blockedBy.includes(edge.prerequisiteId)) {
+      existing.add(edge.prerequisiteId);
+    } else {
+      await ctx.db.delete(edge._id);
+    }
+  }
+  for (const prerequisiteId of blockedBy) {
+    if (!existing.has(prerequisiteId)) {
+      await ctx.db.insert("taskDependencyEdges", { userId, taskId, prerequisiteId });
+    }
+  }
+}
+
+// Pending tasks that list `taskId` in their `blockedBy`
+export async function getPendingDependents(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  taskId: Id<"tasks">
+): Promise<Array<Doc<"tasks">>> {
+  const edges = await ctx.db
+    .query("taskDependencyEdges")
+    .withIndex("by_prerequisiteId", (q) => q.eq("prerequisiteId", taskId))
+    .collect();
+  const dependents: Array<Doc<"tasks">> = [];
+  for (const edge of edges) {
+    const task = await ctx.db.get(edge.taskId);
+    if (task?.userId === userId && task.status === "pending" && task.blockedBy?.includes(taskId)) {
+      dependents.push(task);
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Hand unblocked tasks to their agents or auto-mode teams right away instead
+ * of waiting for the next scheduler tick.
+ */
+export async function releaseTasks(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  tasks: Array<Doc<"tasks">>
+): Promise<void> {
+  const agentIds = new Set<Id<"agents">>();
+  const teamIds = new Set<Id<"agentTeams">>();
+  for (const task of tasks) {
+    if (task.isArchived) continue;
+    if (task.agentId) agentIds.add(task.agentId);
+    else if (task.teamId) teamIds.add(task.teamId);
+  }
+
+  for (const agentId of agentIds) {
+    await ctx.scheduler.runAfter(0, internal.crons.processAgentTasks, { userId, agentId });
+  }
+  for (const teamId of teamIds) {
+    const team = await ctx.db.get(teamId);
+    if (team?.userId === userId && team.autonomy.executionMode === "auto") {
+      await ctx.scheduler.runAfter(0, internal.functions.teams.processTeamTasks, {
+        userId,
+        teamId,
+      });
+    }
+  }
+}
+
+/**
+ * React to a task reaching `completed` or `failed`. Completion releases
+ * dependents with no unfinished prerequisites left. Failure marks pending
+ * dependents failed, then their dependents, and so on down the graph.
+ */
+export async function onTaskFinished(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  taskId: Id<"tasks">,
+  status: "completed" | "failed"
+): Promise<void> {
+  if (status === "completed") {
+    const dependents = await getPendingDependents(ctx, userId, taskId);
+    const released: Array<Doc<"tasks">> = [];
+    for (const dependent of dependents) {
+      if (!(await isTaskBlocked(ctx, dependent))) {
+        released.push(dependent);
+      }
+    }
+    await releaseTasks(ctx, userId, released);
+    return;
+  }
+
+  const columns = await ctx.db
+    .query("boardColumns")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .take(50);
+  const doneColumn = columns.find((column) => column.name.trim().toLowerCase() === "done");
+
+  const failedIds: Array<Id<"tasks">> = [taskId];
+  const visited = new Set<Id<"tasks">>(failedIds);
+  while (failedIds.length > 0 && visited.size <= MAX_GRAPH_NODES) {
+    const failedId = failedIds.shift()!;
+    const failedTask = await ctx.db.get(failedId);
+    if (!failedTask) continue;
+
+    for (const dependent of await getPendingDependents(ctx, userId, failedId)) {
+      if (visited.has(dependent._id)) continue;
+      visited.add(dependent._id);
+      failedIds.push(dependent._id);
+
+      const outcomeSummary = `Not started because prerequisite "${label(failedTask)}" failed.`;
+      await ctx.db.patch(dependent._id, {
+        status: "failed",
+        outcomeSummary,
+        boardColumnId: doneColumn?._id ?? dependent.boardColumnId,
+      });
+      await emitEvent(ctx, userId, {
+        type: "task.failed",
+        payload: {
+          taskId: dependent._id,
+          agentId: dependent.agentId,
+          description: dependent.description.slice(0, 500),
+          outcomeSummary,
+          source: "dependency",
+        },
+      }, dependent.automationRunId);
+      await ctx.runMutation(internal.functions.feed.maybeCreateItem, {
+        userId,
+        type: "status_update",
+        title: "Blocked task failed with its prerequisite",
+        content: dependent.description.slice(0, 140),
+        metadata: {
+          taskId: dependent._id,
+          agentId: dependent.agentId,
+          blockedByTaskId: failedId,
+          status: "failed",
+        },
+        isPublic: false,
+      });
+    }
+  }
+}
+
+/**
+ * Drop a deleted task from its dependents' `blockedBy`, release any that were
+ * only waiting on it, and remove every dependency edge that touches it.
+ */
+export async function detachDeletedTask(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  taskId: Id<"tasks">
+): Promise<void> {
+  const dependents = await getPendingDependents(ctx, userId, taskId);
+  const released: Array<Doc<"tasks">> = [];
+  for (const dependent of dependents) {
+    const blockedBy = (dependent.blockedBy ?? []).filter((id) => id !== taskId);
+    await ctx.db.patch(dependent._id, { blockedBy: blockedBy.length > 0 ? blockedBy : undefined });
+    await syncDependencyEdges(ctx, userId, dependent._id, blockedBy);
+    if (!(await isTaskBlocked(ctx, { status: dependent.status, blockedBy }))) {
+      released.push(dependent);
+    }
+  }
+  await releaseTasks(ctx, userId, released);
+
+  const ownEdges = await ctx.db
+    .query("taskDependencyEdges")
+    .withIndex("by_taskId", (q) => q.eq("taskId", taskId))
+    .collect();
+  const dependentEdges = await ctx.db
+    .query("taskDependencyEdges")
+    .withIndex("by_prerequisiteId", (q) => q.eq("prerequisiteId", taskId))
+    .collect();
+  await Promise.all([...ownEdges, ...dependentEdges].map((edge) => ctx.db.delete(edge._id)));
+}
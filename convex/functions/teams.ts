@@ -3,6 +3,7 @@ import { v } from "convex/values";
 import { authedMutation, authedQuery } from "../lib/functions";
 import type { Id } from "../_generated/dataModel";
 import { internal } from "../_generated/api";
+import { isTaskBlocked } from "./taskDependencies";
 
 type TeamDoc = {
   _id: Id<"agentTeams">;
@@ -566,11 +567,15 @@ export const getRunnableTasks = internalQuery({
         q.eq("userId", args.userId).eq("teamId", args.teamId)
       )
       .take(100);
-    return tasks.filter(
-      (task) =>
-        !task.isArchived &&
-        (task.status === "pending" || task.status === "in_progress")
-    );
+    const runnable: typeof tasks = [];
+    for (const task of tasks) {
+      if (task.isArchived) continue;
+      if (task.status !== "pending" && task.status !== "in_progress") continue;
+      // Wait until every prerequisite has completed
+      if (await isTaskBlocked(ctx, task)) continue;
+      runnable.push(task);
+    }
+    return runnable;
   },
 });
 
@@ -2,12 +2,25 @@
  * User Schedules Functions
  *
  * Dynamic cron jobs per user (daily digest, calendar sync, etc.)
+ * Cron specs are validated on save and read in the schedule's timezone;
+ * nextRun is kept up to date with convex/lib/cron.ts.
+ * `dispatchDue` runs from crons.ts and hands each due schedule to the job
+ * handlers in scheduleJobs.ts, with one userScheduleRuns row per run.
  */
 import { v } from "convex/values";
 import { authedMutation, authedQuery } from "../lib/functions";
 import { internalMutation, internalQuery } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import { checkJobInbox, validateJobConfig } from "./scheduleJobs";
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  nextCronRun,
+  validateCronExpression,
+} from "../lib/cron";
 
-// Available job types (exported for documentation, not used in validators since cron is flexible)
+// Job names the runner knows. Other names are allowed and recorded as skipped
+// when they run; see JOB_HANDLERS in scheduleJobs.ts for what each one does.
 export const JOB_TYPES = [
   "daily_digest",
   "calendar_sync",
@@ -17,6 +30,75 @@ export const JOB_TYPES = [
   "task_reminder",
 ] as const;
 
+export type JobType = (typeof JOB_TYPES)[number];
+
+const MAX_LIST_RUNS = 100;
+const MAX_DISPATCH_BATCH = 50;
+const RUN_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const runResultValidator = v.union(
+  v.literal("success"),
+  v.literal("failure"),
+  v.literal("skipped")
+);
+
+const scheduleRunValidator = v.object({
+  _id: v.id("userScheduleRuns"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  scheduleId: v.id("userSchedules"),
+  jobName: v.string(),
+  status: v.union(v.literal("running"), runResultValidator),
+  output: v.optional(v.any()), // Shape depends on the job handler
+  error: v.optional(v.string()),
+  startedAt: v.number(),
+  endedAt: v.optional(v.number()),
+});
+
+const scheduleValidator = v.object({
+  kind: v.union(v.literal("cron"), v.literal("interval")),
+  cronspec: v.optional(v.string()), // e.g., "0 8 * * *"
+  timezone: v.optional(v.string()), // IANA zone, defaults to America/Los_Angeles
+  intervalMs: v.optional(v.number()),
+});
+
+type Schedule = Doc<"userSchedules">["schedule"];
+
+// Trim and check a schedule before it is stored. Throws on invalid input.
+function normalizeSchedule(schedule: Schedule): Schedule {
+  if (schedule.kind === "interval") {
+    if (!schedule.intervalMs || schedule.intervalMs <= 0) {
+      throw new Error("Interval schedule requires intervalMs");
+    }
+    return { kind: "interval", intervalMs: schedule.intervalMs };
+  }
+
+  const cronspec = schedule.cronspec?.trim();
+  if (!cronspec) {
+    throw new Error("Cron schedule requires cronspec");
+  }
+  const timezone = schedule.timezone?.trim() || DEFAULT_SCHEDULE_TIMEZONE;
+  const error = validateCronExpression(cronspec, timezone);
+  if (error) {
+    throw new Error(`Invalid cron schedule: ${error}`);
+  }
+  return { kind: "cron", cronspec, timezone };
+}
+
+// When the schedule next fires after `after`
+function computeNextRun(schedule: Schedule, after: number): number | undefined {
+  if (schedule.kind === "interval") {
+    return schedule.intervalMs ? after + schedule.intervalMs : undefined;
+  }
+  return (
+    nextCronRun(
+      schedule.cronspec ?? "",
+      schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
+      after
+    ) ?? undefined
+  );
+}
+
 // ============================================================
 // Public queries
 // ============================================================
@@ -44,6 +126,27 @@ export const get = authedQuery({
   },
 });
 
+// Run history, newest first, for one schedule or all of the user's schedules
+export const listRuns = authedQuery({
+  args: { scheduleId: v.optional(v.id("userSchedules")) },
+  returns: v.array(scheduleRunValidator),
+  handler: async (ctx, { scheduleId }) => {
+    const runs = scheduleId
+      ? await ctx.db
+          .query("userScheduleRuns")
+          .withIndex("by_scheduleId", (q) => q.eq("scheduleId", scheduleId))
+          .order("desc")
+          .take(MAX_LIST_RUNS)
+      : await ctx.db
+          .query("userScheduleRuns")
+          .withIndex("by_userId", (q) => q.eq("userId", ctx.userId))
+          .order("desc")
+          .take(MAX_LIST_RUNS);
+
+    return runs.filter((run) => run.userId === ctx.userId);
+  },
+});
+
 // ============================================================
 // Public mutations
 // ============================================================
@@ -52,21 +155,13 @@ export const get = authedQuery({
 export const create = authedMutation({
   args: {
     jobName: v.string(),
-    schedule: v.object({
-      kind: v.union(v.literal("cron"), v.literal("interval")),
-      cronspec: v.optional(v.string()), // e.g., "0 8 * * *"
-      intervalMs: v.optional(v.number()),
-    }),
+    schedule: scheduleValidator,
     config: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
-    // Validate schedule
-    if (args.schedule.kind === "cron" && !args.schedule.cronspec) {
-      throw new Error("Cron schedule requires cronspec");
-    }
-    if (args.schedule.kind === "interval" && !args.schedule.intervalMs) {
-      throw new Error("Interval schedule requires intervalMs");
-    }
+    const schedule = normalizeSchedule(args.schedule);
+    validateJobConfig(args.jobName, args.config);
+    await checkJobInbox(ctx, ctx.userId, args.jobName, args.config);
 
     // Check for duplicate job name
     const existing = await ctx.db
@@ -83,8 +178,9 @@ export const create = authedMutation({
     return await ctx.db.insert("userSchedules", {
       userId: ctx.userId,
       jobName: args.jobName,
-      schedule: args.schedule,
+      schedule,
       isActive: true,
+      nextRun: computeNextRun(schedule, Date.now()),
       config: args.config,
       createdAt: Date.now(),
     });
@@ -95,13 +191,7 @@ export const create = authedMutation({
 export const update = authedMutation({
   args: {
     scheduleId: v.id("userSchedules"),
-    schedule: v.optional(
-      v.object({
-        kind: v.union(v.literal("cron"), v.literal("interval")),
-        cronspec: v.optional(v.string()),
-        intervalMs: v.optional(v.number()),
-      })
-    ),
+    schedule: v.optional(scheduleValidator),
     config: v.optional(v.any()),
     isActive: v.optional(v.boolean()),
   },
@@ -111,11 +201,14 @@ export const update = authedMutation({
       throw new Error("Schedule not found");
     }
 
-    const patch: Record<string, unknown> = {};
+    const patch: Partial<Doc<"userSchedules">> = {};
     if (updates.schedule !== undefined) {
-      patch.schedule = updates.schedule;
+      patch.schedule = normalizeSchedule(updates.schedule);
+      patch.nextRun = computeNextRun(patch.schedule, Date.now());
     }
     if (updates.config !== undefined) {
+      validateJobConfig(existing.jobName, updates.config);
+      await checkJobInbox(ctx, ctx.userId, existing.jobName, updates.config);
       patch.config = updates.config;
     }
     if (updates.isActive !== undefined) {
@@ -135,7 +228,12 @@ export const toggleActive = authedMutation({
       throw new Error("Schedule not found");
     }
 
-    await ctx.db.patch(scheduleId, { isActive: !schedule.isActive });
+    // Resuming starts from the next occurrence rather than catching up
+    // on everything missed while paused
+    await ctx.db.patch(scheduleId, {
+      isActive: !schedule.isActive,
+      nextRun: schedule.isActive ? schedule.nextRun : computeNextRun(schedule.schedule, Date.now()),
+    });
   },
 });
 
@@ -148,6 +246,13 @@ export const remove = authedMutation({
       throw new Error("Schedule not found");
     }
 
+    const runs = await ctx.db
+      .query("userScheduleRuns")
+      .withIndex("by_scheduleId", (q) => q.eq("scheduleId", scheduleId))
+      .collect();
+    for (const run of runs) {
+      await ctx.db.delete(run._id);
+    }
     await ctx.db.delete(scheduleId);
   },
 });
@@ -164,13 +269,10 @@ export const getAllActive = internalQuery({
       _id: v.id("userSchedules"),
       userId: v.id("users"),
       jobName: v.string(),
-      schedule: v.object({
-        kind: v.union(v.literal("cron"), v.literal("interval")),
-        cronspec: v.optional(v.string()),
-        intervalMs: v.optional(v.number()),
-      }),
+      schedule: scheduleValidator,
       config: v.optional(v.any()),
       lastRun: v.optional(v.number()),
+      nextRun: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
@@ -184,19 +286,17 @@ export const getAllActive = internalQuery({
         schedule: s.schedule,
         config: s.config,
         lastRun: s.lastRun,
+        nextRun: s.nextRun,
       }));
   },
 });
 
-// Record job run result
+// Record job run result. Without an explicit nextRun, the next occurrence
+// after now is used, so missed occurrences are not replayed one by one.
 export const recordRun = internalMutation({
   args: {
     scheduleId: v.id("userSchedules"),
-    result: v.union(
-      v.literal("success"),
-      v.literal("failure"),
-      v.literal("skipped")
-    ),
+    result: runResultValidator,
     nextRun: v.optional(v.number()),
   },
   returns: v.null(),
@@ -204,12 +304,113 @@ export const recordRun = internalMutation({
     const schedule = await ctx.db.get(scheduleId);
     if (!schedule) return null;
 
+    const now = Date.now();
     await ctx.db.patch(scheduleId, {
-      lastRun: Date.now(),
+      lastRun: now,
       lastResult: result,
-      nextRun,
+      nextRun: nextRun ?? computeNextRun(schedule.schedule, now),
     });
 
     return null;
   },
 });
+
+/**
+ * Start a run for every active schedule whose nextRun has passed. nextRun
+ * moves to the next occurrence before the job starts, so a slow job is not
+ * dispatched twice and missed occurrences collapse into one run. Schedules
+ * saved before nextRun was tracked get one without running.
+ */
+export const dispatchDue = internalMutation({
+  args: {},
+  returns: v.object({ checked: v.number(), queued: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("userSchedules")
+      .withIndex("by_isActive_nextRun", (q) => q.eq("isActive", true).lte("nextRun", now))
+      .take(MAX_DISPATCH_BATCH);
+
+    let queued = 0;
+    for (const schedule of due) {
+      const nextRun = computeNextRun(schedule.schedule, now);
+      if (schedule.nextRun === undefined) {
+        // No next occurrence means the schedule can never fire; pause it so
+        // it does not come back every tick
+        await ctx.db.patch(schedule._id, nextRun ? { nextRun } : { isActive: false });
+        continue;
+      }
+
+      const runId = await ctx.db.insert("userScheduleRuns", {
+        userId: schedule.userId,
+        scheduleId: schedule._id,
+        jobName: schedule.jobName,
+        status: "running",
+        startedAt: now,
+      });
+      await ctx.db.patch(schedule._id, { nextRun });
+      await ctx.scheduler.runAfter(0, internal.functions.scheduleJobs.execute, {
+        runId,
+        scheduleId: schedule._id,
+        userId: schedule.userId,
+        jobName: schedule.jobName,
+        config: schedule.config,
+        timezone: schedule.schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE,
+        scheduledFor: schedule.nextRun,
+      });
+      queued += 1;
+    }
+
+    return { checked: due.length, queued };
+  },
+});
+
+// Record a job's result on its run and on the schedule
+export const finishRun = internalMutation({
+  args: {
+    runId: v.id("userScheduleRuns"),
+    result: runResultValidator,
+    output: v.optional(v.any()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) return null;
+
+    const now = Date.now();
+    await ctx.db.patch(args.runId, {
+      status: args.result,
+      output: args.output,
+      error: args.error,
+      endedAt: now,
+    });
+
+    const schedule = await ctx.db.get(run.scheduleId);
+    if (schedule) {
+      await ctx.db.patch(schedule._id, {
+        lastRun: now,
+        lastResult: args.result,
+        lastError: args.error,
+      });
+    }
+    return null;
+  },
+});
+
+// Drop run history older than the retention window
+export const cleanupRuns = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - RUN_RETENTION_MS;
+    const stale = await ctx.db
+      .query("userScheduleRuns")
+      .withIndex("by_startedAt", (q) => q.lt("startedAt", cutoff))
+      .take(500);
+    for (const run of stale) {
+      await ctx.db.delete(run._id);
+    }
+    return stale.length;
+  },
+});
@@ -79,6 +79,10 @@ function extractStorageIdFromImage(image?: string): Id<"_storage"> | null {
 const DELETE_BATCH_SIZE = 100;
 
 type UserOwnedTable =
+  | "a2aMessages"
+  | "a2aRemoteAgents"
+  | "a2aThreads"
+  | "agentApprovals"
   | "agents"
   | "apiKeys"
   | "auditLog"
@@ -89,11 +93,18 @@ type UserOwnedTable =
   | "llmsTxt"
   | "mcpConnections"
   | "permissions"
+  | "phoneOutboundCalls"
+  | "rateLimitBuckets"
   | "securityFlags"
+  | "securityPolicies"
+  | "injectionClassifications"
   | "skills"
   | "tasks"
+  | "taskDependencyEdges"
   | "userCredentials"
+  | "userDataKeys"
   | "userSchedules"
+  | "userScheduleRuns"
   | "agentHealth"
   | "agentMemory";
 
@@ -128,6 +139,22 @@ async function deleteAgentThoughtsForAgent(
   }
 }
 
+// Cached call audio also owns a stored file
+async function deletePhoneAudioForUser(ctx: MutationCtx, userId: Id<"users">) {
+  while (true) {
+    const entries = await ctx.db
+      .query("phoneAudioCache")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .take(DELETE_BATCH_SIZE);
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      await ctx.storage.delete(entry.storageId);
+      await ctx.db.delete(entry._id);
+    }
+  }
+}
+
 // ============================================================
 // Public queries
 // ============================================================
@@ -473,6 +500,10 @@ export const deleteAccount = authedMutation({
     }
 
     const userOwnedTables: Array<UserOwnedTable> = [
+      "a2aMessages",
+      "a2aThreads",
+      "a2aRemoteAgents",
+      "agentApprovals",
       "apiKeys",
       "auditLog",
       "boardColumns",
@@ -482,11 +513,18 @@ export const deleteAccount = authedMutation({
       "llmsTxt",
       "mcpConnections",
       "permissions",
+      "phoneOutboundCalls",
+      "rateLimitBuckets",
       "securityFlags",
+      "securityPolicies",
+      "injectionClassifications",
       "skills",
       "tasks",
+      "taskDependencyEdges",
       "userCredentials",
+      "userDataKeys",
       "userSchedules",
+      "userScheduleRuns",
       "agentHealth",
       "agentMemory",
     ];
@@ -494,6 +532,7 @@ export const deleteAccount = authedMutation({
     for (const table of userOwnedTables) {
       await deleteUserOwnedRows(ctx, userId, table);
     }
+    await deletePhoneAudioForUser(ctx, userId);
 
     await ctx.db.delete(userId);
 
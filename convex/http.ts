@@ -5,6 +5,15 @@ import { auth } from "./auth";
 import { corsRouter } from "convex-helpers/server/cors";
 import type { Id } from "./_generated/dataModel";
 import type { ActionCtx } from "./_generated/server";
+import { TELEPHONY_ADAPTERS, TELEPHONY_PROVIDERS } from "./lib/telephony";
+import { expandScopes, hasScope, mcpToolScope } from "./lib/apiScopes";
+import type { ApiKeyScope } from "./lib/apiScopes";
+import type {
+  Spoken,
+  TelephonyAdapter,
+  TelephonyCredential,
+  TelephonyProvider,
+} from "./lib/telephony";
 
 const http = httpRouter();
 
@@ -14,7 +23,15 @@ auth.addHttpRoutes(http);
 // CORS-enabled router for public API routes
 const cors = corsRouter(http, {
   allowedOrigins: ["*"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id", "MCP-Protocol-Version"],
+  exposedHeaders: [
+    "Mcp-Session-Id",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "RateLimit-Policy",
+    "Retry-After",
+  ],
   allowCredentials: false,
 });
 
@@ -23,11 +40,13 @@ type RouteGroup = "api" | "mcp" | "docs" | "skills";
 type RouteAccessOptions = {
   targetUserId: Id<"users">;
   routeGroup: RouteGroup;
-  requiredScope: "api:call" | "mcp:call";
+  // Omitted where the scope depends on the JSON-RPC method
+  requiredScope?: ApiKeyScope;
   targetAgentId?: Id<"agents">;
 };
 
 type AuthenticatedApiKey = {
+  _id: Id<"apiKeys">;
   keyPrefix: string;
   userId: Id<"users">;
   scopes: Array<string>;
@@ -42,14 +61,10 @@ const DEFAULT_ALLOWED_ROUTE_GROUPS: Array<RouteGroup> = [
   "skills",
 ];
 
-function hasRequiredScope(
-  scopes: Array<string>,
-  requiredScope: "api:call" | "mcp:call"
-) {
-  if (scopes.includes(requiredScope)) return true;
-  // Backward compatibility for legacy keys created before granular scopes.
-  if (scopes.includes("admin") || scopes.includes("write")) return true;
-  return false;
+function missingScopeError(requiredScope: string): Response {
+  return apiError(403, "forbidden", `Missing required scope: ${requiredScope}`, {
+    requiredScope,
+  });
 }
 
 async function enforceApiKeyAccess(
@@ -57,7 +72,15 @@ async function enforceApiKeyAccess(
   request: Request,
   options: RouteAccessOptions
 ): Promise<
-  | { ok: true; apiKey: { keyPrefix: string; userId: Id<"users"> } }
+  | {
+      ok: true;
+      apiKey: {
+        apiKeyId: Id<"apiKeys">;
+        keyPrefix: string;
+        userId: Id<"users">;
+        scopes: Array<string>;
+      };
+    }
   | { ok: false; response: Response }
 > {
   const authHeader = request.headers.get("Authorization");
@@ -114,15 +137,10 @@ async function enforceApiKeyAccess(
     };
   }
 
-  if (!hasRequiredScope(apiKey.scopes, options.requiredScope)) {
-    return {
-      ok: false,
-      response: apiError(
-        403,
-        "forbidden",
-        `Missing required scope: ${options.requiredScope}`
-      ),
-    };
+  // Legacy scopes such as api:call expand to the scopes they always allowed
+  const scopes = expandScopes(apiKey.scopes);
+  if (options.requiredScope && !hasScope(scopes, options.requiredScope)) {
+    return { ok: false, response: missingScopeError(options.requiredScope) };
   }
 
   const allowedAgentIds = (apiKey.allowedAgentIds ?? []) as Array<Id<"agents">>;
@@ -144,12 +162,106 @@ async function enforceApiKeyAccess(
   return {
     ok: true,
     apiKey: {
+      apiKeyId: apiKey._id,
       keyPrefix: apiKey.keyPrefix,
       userId: apiKey.userId,
+      scopes,
     },
   };
 }
 
+type RateLimitCheck =
+  | { ok: true; headers: Record<string, string> }
+  | { ok: false; headers: Record<string, string>; retryAfter: number };
+
+const QUOTA_WINDOW_SECONDS = {
+  minute: 60,
+  day: 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60,
+} as const;
+
+/**
+ * Spend one request from the owner's route group quota and, when given, the
+ * API key's quota. Returns RateLimit-* headers for the quota closest to
+ * running out, plus Retry-After when the request is refused.
+ */
+async function consumeRateLimit(
+  ctx: ActionCtx,
+  options: { userId: Id<"users">; routeGroup: RouteGroup; apiKeyId?: Id<"apiKeys"> }
+): Promise<RateLimitCheck> {
+  const result: {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number;
+    retryAfterMs: number;
+    quotas: Array<{ window: keyof typeof QUOTA_WINDOW_SECONDS; limit: number }>;
+  } = await ctx.runMutation(internal.functions.rateLimits.consume, options);
+  const policies = new Set(
+    result.quotas.map((quota) => `${quota.limit};w=${QUOTA_WINDOW_SECONDS[quota.window]}`)
+  );
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000))),
+    "RateLimit-Policy": [...policies].join(", "),
+  };
+  if (result.allowed) {
+    return { ok: true, headers };
+  }
+
+  const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+  return { ok: false, retryAfter, headers: { ...headers, "Retry-After": String(retryAfter) } };
+}
+
+function rateLimitedResponse(rateLimit: { headers: Record<string, string>; retryAfter: number }) {
+  return withHeaders(
+    apiError(429, "rate_limited", "Rate limit exceeded", { retryAfter: rateLimit.retryAfter }),
+    rateLimit.headers
+  );
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Owner username from a public docs or skill file path: /u/:username/...,
+// /@:username/..., /api/v1/agents/:username/..., or /:username/...
+function getPublicRouteUsername(pathname: string): string | undefined {
+  const parts = pathname.split("/").filter(Boolean);
+  const part = parts[0] === "u" ? parts[1] : parts[0] === "api" ? parts[3] : parts[0];
+  return part?.startsWith("@") ? part.slice(1) : part;
+}
+
+/**
+ * httpAction for public docs and skill file routes, rate limited against the
+ * owner's route group quota. Unknown usernames fall through to the handler's
+ * own 404.
+ */
+function publicRoute(
+  routeGroup: "docs" | "skills",
+  handler: (ctx: ActionCtx, request: Request) => Promise<Response>
+) {
+  return httpAction(async (ctx, request) => {
+    const username = getPublicRouteUsername(new URL(request.url).pathname);
+    const user = username
+      ? await ctx.runQuery(api.functions.users.getByUsername, { username })
+      : null;
+    if (!user) {
+      return await handler(ctx, request);
+    }
+
+    const rateLimit = await consumeRateLimit(ctx, { userId: user._id, routeGroup });
+    if (!rateLimit.ok) {
+      return rateLimitedResponse(rateLimit);
+    }
+    return withHeaders(await handler(ctx, request), rateLimit.headers);
+  });
+}
+
 // Basic service health check endpoint for external monitoring.
 http.route({
   path: "/health",
@@ -200,38 +312,55 @@ cors.route({
       const access = await enforceApiKeyAccess(ctx, request, {
         targetUserId: user._id,
         routeGroup: "api",
-        requiredScope: "api:call",
+        requiredScope: "messages:write",
         targetAgentId: defaultPublicAgent._id,
       });
       if (!access.ok) {
         return access.response;
       }
 
-      // Rate limit check: API channel
+      // Rate limit check: API route group and key quotas
+      const rateLimit = await consumeRateLimit(ctx, {
+        userId: user._id,
+        routeGroup: "api",
+        apiKeyId: access.apiKey.apiKeyId,
+      });
+      if (!rateLimit.ok) {
+        return rateLimitedResponse(rateLimit);
+      }
       const userLimits = await ctx.runQuery(
         internal.functions.rateLimits.getUserLimits,
         { userId: user._id }
       );
-      const rlKey = `user:${user._id}:api`;
-      const rlResult = await ctx.runMutation(
-        internal.functions.rateLimits.checkAndIncrement,
-        { key: rlKey, limit: userLimits.apiRequestsPerMinute }
-      );
-      if (!rlResult.allowed) {
-        return apiError(429, "rate_limited", "Rate limit exceeded", {
-          retryAfter: Math.ceil((rlResult.resetAt - Date.now()) / 1000),
-        });
-      }
 
       // Token budget check
       if (userLimits.tokensUsedThisMonth >= userLimits.tokenBudget) {
-        return apiError(429, "token_budget_exceeded", "Monthly token budget exceeded");
+        return withHeaders(
+          apiError(429, "token_budget_exceeded", "Monthly token budget exceeded"),
+          rateLimit.headers
+        );
       }
 
       // Parse body
       const body = (await request.json()) as { content?: string };
       if (!body.content) {
-        return apiError(400, "invalid_request", "content field required");
+        return withHeaders(
+          apiError(400, "invalid_request", "content field required"),
+          rateLimit.headers
+        );
+      }
+
+      // Stream tokens as server-sent events when the client asks for them
+      if (wantsEventStream(request)) {
+        return withHeaders(
+          await streamAgentReply(ctx, {
+            userId: user._id,
+            agentId: defaultPublicAgent._id,
+            message: body.content,
+            callerId: access.apiKey.keyPrefix,
+          }),
+          rateLimit.headers
+        );
       }
 
       // Process message
@@ -248,7 +377,7 @@ cors.route({
 
       return new Response(JSON.stringify(result), {
         status: result.blocked ? 400 : 200,
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...rateLimit.headers },
       });
     } catch (error) {
       return apiError(500, "internal_error", String(error));
@@ -288,37 +417,53 @@ cors.route({
       const access = await enforceApiKeyAccess(ctx, request, {
         targetUserId: user._id,
         routeGroup: "api",
-        requiredScope: "api:call",
+        requiredScope: "messages:write",
         targetAgentId: publicAgent._id,
       });
       if (!access.ok) {
         return access.response;
       }
 
-      // Rate limit check: API channel
+      // Rate limit check: API route group and key quotas
+      const rateLimit = await consumeRateLimit(ctx, {
+        userId: user._id,
+        routeGroup: "api",
+        apiKeyId: access.apiKey.apiKeyId,
+      });
+      if (!rateLimit.ok) {
+        return rateLimitedResponse(rateLimit);
+      }
       const userLimitsSlug = await ctx.runQuery(
         internal.functions.rateLimits.getUserLimits,
         { userId: user._id }
       );
-      const rlKeySlug = `user:${user._id}:api`;
-      const rlResultSlug = await ctx.runMutation(
-        internal.functions.rateLimits.checkAndIncrement,
-        { key: rlKeySlug, limit: userLimitsSlug.apiRequestsPerMinute }
-      );
-      if (!rlResultSlug.allowed) {
-        return apiError(429, "rate_limited", "Rate limit exceeded", {
-          retryAfter: Math.ceil((rlResultSlug.resetAt - Date.now()) / 1000),
-        });
-      }
 
       // Token budget check
       if (userLimitsSlug.tokensUsedThisMonth >= userLimitsSlug.tokenBudget) {
-        return apiError(429, "token_budget_exceeded", "Monthly token budget exceeded");
+        return withHeaders(
+          apiError(429, "token_budget_exceeded", "Monthly token budget exceeded"),
+          rateLimit.headers
+        );
       }
 
       const body = (await request.json()) as { content?: string };
       if (!body.content) {
-        return apiError(400, "invalid_request", "content field required");
+        return withHeaders(
+          apiError(400, "invalid_request", "content field required"),
+          rateLimit.headers
+        );
+      }
+
+      if (wantsEventStream(request)) {
+        return withHeaders(
+          await streamAgentReply(ctx, {
+            userId: user._id,
+            agentId: publicAgent._id,
+            message: body.content,
+            callerId: access.apiKey.keyPrefix,
+          }),
+          rateLimit.headers
+        );
       }
 
       const result = await ctx.runAction(
@@ -334,7 +479,7 @@ cors.route({
 
       return new Response(JSON.stringify(result), {
         status: result.blocked ? 400 : 200,
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...rateLimit.headers },
       });
     } catch (error) {
       return apiError(500, "internal_error", String(error));
@@ -454,7 +599,7 @@ cors.route({
     const card = {
       name: "HumanAgent Platform",
       description:
-        "Every human gets an agent. Find agents at humana.gent/{username}",
+        "Every human gets an agent. Find agents at humana.gent/{username}. A2A-enabled agents publish their own card at /a2a/u/{username}/.well-known/agent.json",
       url: "https://humana.gent",
       version: "0.1.0",
       capabilities: {
@@ -772,655 +917,1738 @@ http.route({
 });
 
 // ============================================================
-// Webhook: Twilio SMS/Voice inbound
+// Webhook: Phone SMS/Voice inbound (Twilio, Telnyx, Plivo)
 // ============================================================
-
-http.route({
-  path: "/webhooks/twilio/sms",
-  method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    try {
-      const formData = await request.formData();
-      const from = formData.get("From") as string;
-      const to = formData.get("To") as string;
-      const body = formData.get("Body") as string;
-
-      if (!from || !to || !body) {
-        return new Response(
-          '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Invalid request</Message></Response>',
-          { headers: { "Content-Type": "application/xml" } }
+//
+// Each provider in convex/lib/telephony.ts gets /webhooks/<provider>/sms and
+// /webhooks/<provider>/voice. Requests route to the agent that owns the `To`
+// number. Before the agent runs, the provider signature is checked against
+// the owner's credential, the number must belong to that provider, and the
+// request is claimed as a replay receipt. Rejections are written to
+// securityFlags. Each exchange is kept as a `phone` conversation per caller.
+
+for (const provider of TELEPHONY_PROVIDERS) {
+  const adapter = TELEPHONY_ADAPTERS[provider];
+
+  http.route({
+    path: `/webhooks/${provider}/sms`,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handlePhoneSms(ctx, request, adapter);
+      } catch (error) {
+        console.error(`${provider} SMS webhook error:`, error);
+        return phoneResponse(adapter, adapter.buildSmsReply("Error processing message"));
+      }
+    }),
+  });
+
+  http.route({
+    path: `/webhooks/${provider}/voice`,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handlePhoneVoice(ctx, request, adapter);
+      } catch (error) {
+        console.error(`${provider} voice webhook error:`, error);
+        return phoneResponse(
+          adapter,
+          adapter.buildHangup({ text: "An error occurred. Please try again later." })
         );
       }
+    }),
+  });
+
+  // Answer URL for calls placed by the place_call agent action
+  http.route({
+    path: `/webhooks/${provider}/voice/outbound`,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handleOutboundCallAnswer(ctx, request, adapter);
+      } catch (error) {
+        console.error(`${provider} outbound call webhook error:`, error);
+        return phoneResponse(adapter, adapter.buildHangup({ text: "Goodbye." }));
+      }
+    }),
+  });
+}
 
-      // Find agent by phone number
-      const agent = await ctx.runQuery(internal.functions.agents.getByPhone, {
-        phoneNumber: to,
-      });
+async function handlePhoneSms(
+  ctx: ActionCtx,
+  request: Request,
+  adapter: TelephonyAdapter
+): Promise<Response> {
+  const rawBody = await request.text();
+  const sms = adapter.parseSms(rawBody);
+  if (!sms) {
+    // Telnyx also posts delivery events here; those are acknowledged
+    return phoneResponse(adapter, adapter.buildSmsReply("Invalid request"));
+  }
 
-      if (!agent) {
-        return new Response(
-          '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Agent not found</Message></Response>',
-          { headers: { "Content-Type": "application/xml" } }
-        );
-      }
+  // Find agent by phone number
+  const agent = await ctx.runQuery(internal.functions.agents.getByPhone, {
+    phoneNumber: sms.to,
+  });
+  if (!agent) {
+    return phoneResponse(adapter, adapter.buildSmsReply("Agent not found", sms));
+  }
+
+  const authorized = await authorizePhoneWebhook(ctx, request, rawBody, adapter, agent, {
+    from: sms.from,
+    to: sms.to,
+    content: sms.text,
+    kind: "sms",
+  });
+  if (!authorized.ok) return authorized.response;
+
+  if (agent.phoneConfig && !agent.phoneConfig.smsEnabled) {
+    return phoneResponse(
+      adapter,
+      adapter.buildSmsReply("SMS is not enabled for this number.", sms)
+    );
+  }
+
+  const conversationId = await ctx.runMutation(internal.functions.conversations.create, {
+    userId: agent.userId,
+    channel: "phone",
+    externalId: `${sms.to}:${sms.from}`,
+    agentId: agent._id,
+    initialMessage: sms.text,
+    channelMetadata: {
+      phone: {
+        provider: adapter.provider,
+        from: sms.from,
+        to: sms.to,
+        lastKind: "sms",
+        lastMessageSid: sms.messageId,
+      },
+    },
+  });
+
+  // Process the SMS as an inbound message
+  const result = await ctx.runAction(internal.agent.runtime.processMessage, {
+    userId: agent.userId,
+    agentId: agent._id,
+    message: sms.text,
+    channel: "phone",
+    callerId: sms.from,
+  });
+
+  const responseText = result.blocked
+    ? "I cannot process that request."
+    : result.response;
+
+  await ctx.runMutation(internal.functions.conversations.addAgentResponse, {
+    conversationId,
+    content: responseText,
+  });
+
+  // Reply in the webhook response when the provider supports it, otherwise
+  // send it through the provider API
+  const markup = adapter.buildSmsReply(responseText, sms);
+  if (markup === null) {
+    await adapter.sendSms(authorized.credential, {
+      from: sms.to,
+      to: sms.from,
+      text: responseText,
+    });
+  }
+  return phoneResponse(adapter, markup);
+}
+
+async function handleOutboundCallAnswer(
+  ctx: ActionCtx,
+  request: Request,
+  adapter: TelephonyAdapter
+): Promise<Response> {
+  const rawBody = await request.text();
+  const callId = new URL(request.url).searchParams.get("call") ?? "";
+  const call = callId
+    ? await ctx.runQuery(internal.functions.phoneActions.getOutboundCall, { callId })
+    : null;
+  if (!call || call.provider !== adapter.provider) {
+    return new Response("Call not found", { status: 404 });
+  }
+
+  const authorized = await authorizePhoneWebhook(
+    ctx,
+    request,
+    rawBody,
+    adapter,
+    { userId: call.userId, phoneConfig: { provider: call.provider } },
+    { from: call.from, to: call.to, content: call.message, kind: "voice" }
+  );
+  if (!authorized.ok) return authorized.response;
 
-      // Process the SMS as an inbound message
-      const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-        userId: agent.userId,
-        agentId: agent._id,
-        message: body,
-        channel: "phone",
-        callerId: from,
+  return phoneResponse(
+    adapter,
+    adapter.buildHangup({ text: call.message, audioUrl: call.audioUrl })
+  );
+}
+
+async function handlePhoneVoice(
+  ctx: ActionCtx,
+  request: Request,
+  adapter: TelephonyAdapter
+): Promise<Response> {
+  const rawBody = await request.text();
+  const turn = adapter.parseVoiceTurn(rawBody);
+
+  // Find agent by phone number
+  const agent = turn
+    ? await ctx.runQuery(internal.functions.agents.getByPhone, { phoneNumber: turn.to })
+    : null;
+  if (!turn || !agent) {
+    return phoneResponse(
+      adapter,
+      adapter.buildHangup({ text: "I'm sorry, this agent is not available. Goodbye." })
+    );
+  }
+
+  const authorized = await authorizePhoneWebhook(ctx, request, rawBody, adapter, agent, {
+    from: turn.from,
+    to: turn.to,
+    content: turn.speech ?? "",
+    kind: "voice",
+  });
+  if (!authorized.ok) return authorized.response;
+
+  if (agent.phoneConfig && !agent.phoneConfig.voiceEnabled) {
+    return phoneResponse(
+      adapter,
+      adapter.buildHangup({ text: "This number does not accept calls. Goodbye." })
+    );
+  }
+
+  // Lines play in the agent's ElevenLabs or OpenAI voice. The provider voice
+  // reads the text if synthesis is unavailable.
+  const voice = agent.voiceConfig?.openaiVoice ?? "nova";
+  const actionUrl = getPhoneWebhookUrl(request);
+  const speak = async (text: string): Promise<Spoken> => {
+    const audioUrl = await ctx.runAction(internal.agent.tts.generatePhoneAudio, {
+      userId: agent.userId,
+      agentId: agent._id,
+      text,
+    });
+    return { text, audioUrl: audioUrl ?? undefined };
+  };
+
+  // Initial greeting
+  if (!turn.speech) {
+    const [prompt, goodbye] = await Promise.all([
+      speak(`Hello, this is ${agent.name}. How can I help you today?`),
+      speak("I didn't hear anything. Goodbye."),
+    ]);
+    return phoneResponse(
+      adapter,
+      adapter.buildVoiceResponse({ prompt, goodbye, voice, actionUrl })
+    );
+  }
+
+  const conversationId = await ctx.runMutation(internal.functions.conversations.create, {
+    userId: agent.userId,
+    channel: "phone",
+    externalId: `${turn.to}:${turn.from}`,
+    agentId: agent._id,
+    initialMessage: turn.speech,
+    channelMetadata: {
+      phone: {
+        provider: adapter.provider,
+        from: turn.from,
+        to: turn.to,
+        lastKind: "voice",
+        lastCallSid: turn.callId,
+      },
+    },
+  });
+
+  const result = await ctx.runAction(internal.agent.runtime.processMessage, {
+    userId: agent.userId,
+    agentId: agent._id,
+    message: turn.speech,
+    channel: "phone",
+    callerId: turn.from,
+  });
+
+  const responseText = result.blocked
+    ? "I cannot process that request."
+    : result.response;
+
+  await ctx.runMutation(internal.functions.conversations.addAgentResponse, {
+    conversationId,
+    content: responseText,
+  });
+
+  const [say, prompt, goodbye] = await Promise.all([
+    speak(responseText),
+    speak("Is there anything else I can help you with?"),
+    speak("Goodbye."),
+  ]);
+  return phoneResponse(
+    adapter,
+    adapter.buildVoiceResponse({ say, prompt, goodbye, voice, actionUrl })
+  );
+}
+
+// ============================================================
+// MCP Server: Streamable HTTP transport
+// ============================================================
+//
+// Both /mcp/u/:username (default public agent) and /mcp/u/:username/:slug
+// share one handler. POST carries JSON-RPC requests, notifications, and
+// responses; DELETE ends a session; GET returns 405 because the server never
+// opens standalone streams. `initialize` issues an Mcp-Session-Id that later
+// requests may echo. Requests without the header are still accepted so
+// 2024-11-05 clients keep working.
+
+const MCP_SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const MCP_LATEST_PROTOCOL_VERSION = "2025-06-18";
+const MCP_SERVER_VERSION = "1.1.0";
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  method?: string;
+  params?: Record<string, unknown>;
+  id?: JsonRpcId;
+};
+
+type JsonRpcResponseBody =
+  | { jsonrpc: "2.0"; result: unknown; id: JsonRpcId }
+  | { jsonrpc: "2.0"; error: { code: number; message: string }; id: JsonRpcId };
+
+type McpTarget = {
+  userId: Id<"users">;
+  agentId: Id<"agents">;
+  username: string;
+  slug: string;
+  displayName: string;
+};
+
+// The API key behind an MCP request
+type McpCaller = {
+  apiKeyId: Id<"apiKeys">;
+  keyPrefix: string;
+  scopes: Array<string>;
+};
+
+type McpDispatchResult = {
+  body: JsonRpcResponseBody;
+  status: number;
+  sessionId?: string;
+  headers?: Record<string, string>;
+};
+
+function jsonRpcResponse(
+  body: JsonRpcResponseBody | Array<JsonRpcResponseBody>,
+  status = 200,
+  headers?: Record<string, string>
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function jsonRpcError(id: JsonRpcId, code: number, message: string): JsonRpcResponseBody {
+  return { jsonrpc: "2.0", error: { code, message }, id };
+}
+
+function jsonRpcResult(id: JsonRpcId, result: unknown): JsonRpcResponseBody {
+  return { jsonrpc: "2.0", result, id };
+}
+
+// Resolve the agent an MCP route points at from /mcp/u/:username[/:slug]
+async function resolveMcpTarget(
+  ctx: ActionCtx,
+  request: Request
+): Promise<{ ok: true; target: McpTarget } | { ok: false; response: Response }> {
+  const pathParts = new URL(request.url).pathname.split("/");
+  const username = pathParts[3];
+  const slug = pathParts[4];
+
+  if (!username) {
+    return {
+      ok: false,
+      response: jsonRpcResponse(jsonRpcError(null, -32600, "Username required"), 400),
+    };
+  }
+
+  const user = await ctx.runQuery(api.functions.users.getByUsername, {
+    username,
+  });
+  if (!user || user.profileHidden) {
+    return {
+      ok: false,
+      response: jsonRpcResponse(jsonRpcError(null, -32601, "Agent not found"), 404),
+    };
+  }
+
+  const agent = slug
+    ? await ctx.runQuery(api.functions.agents.getPublicByUsernameAndSlug, {
+        username,
+        slug,
+      })
+    : await ctx.runQuery(api.functions.agents.getPublicDefaultByUsername, {
+        username,
       });
+  if (!agent) {
+    return {
+      ok: false,
+      response: jsonRpcResponse(
+        jsonRpcError(
+          null,
+          -32601,
+          slug ? "Public agent not found for this slug" : "No public agent configured"
+        ),
+        404
+      ),
+    };
+  }
 
-      // Return TwiML response with agent's reply
-      const responseText = result.blocked
-        ? "I cannot process that request."
-        : result.response;
+  return {
+    ok: true,
+    target: {
+      userId: user._id,
+      agentId: agent._id,
+      username,
+      slug: agent.slug,
+      displayName: slug ? agent.name : `${user.name ?? username}'s Agent`,
+    },
+  };
+}
 
-      return new Response(
-        `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(responseText)}</Message></Response>`,
-        { headers: { "Content-Type": "application/xml" } }
-      );
-    } catch (error) {
-      console.error("Twilio SMS webhook error:", error);
-      return new Response(
-        '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Error processing message</Message></Response>',
-        { headers: { "Content-Type": "application/xml" } }
+function mcpAccessDenied(response: Response, id: JsonRpcId): Response {
+  return jsonRpcResponse(
+    jsonRpcError(
+      id,
+      response.status === 401 ? -32001 : -32003,
+      response.status === 401 ? "Authentication required" : "Access denied for this MCP route"
+    ),
+    response.status
+  );
+}
+
+async function handleMcpPost(ctx: ActionCtx, request: Request): Promise<Response> {
+  const resolved = await resolveMcpTarget(ctx, request);
+  if (!resolved.ok) return resolved.response;
+  const { target } = resolved;
+
+  let payload: JsonRpcMessage | Array<JsonRpcMessage>;
+  try {
+    payload = (await request.json()) as JsonRpcMessage | Array<JsonRpcMessage>;
+  } catch {
+    return jsonRpcResponse(jsonRpcError(null, -32700, "Parse error"), 400);
+  }
+  const messages = Array.isArray(payload) ? payload : [payload];
+  const firstId = messages.find((m) => m.id !== undefined)?.id ?? null;
+
+  const access = await enforceApiKeyAccess(ctx, request, {
+    targetUserId: target.userId,
+    routeGroup: "mcp",
+    targetAgentId: target.agentId,
+  });
+  if (!access.ok) {
+    return mcpAccessDenied(access.response, firstId);
+  }
+
+  const protocolHeader = request.headers.get("MCP-Protocol-Version");
+  if (protocolHeader && !MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(protocolHeader)) {
+    return jsonRpcResponse(
+      jsonRpcError(firstId, -32600, `Unsupported MCP-Protocol-Version: ${protocolHeader}`),
+      400
+    );
+  }
+
+  // Requests carry a method and an id; notifications and client responses
+  // only need an acknowledgement
+  const requests = messages.filter(
+    (m) => typeof m.method === "string" && m.id !== undefined
+  );
+  const isInitialize = requests.some((m) => m.method === "initialize");
+
+  let sessionId = request.headers.get("Mcp-Session-Id") ?? undefined;
+  if (sessionId && !isInitialize) {
+    const session = await ctx.runMutation(internal.functions.mcpSessions.touch, {
+      sessionId,
+      userId: target.userId,
+      agentId: target.agentId,
+      keyPrefix: access.apiKey.keyPrefix,
+    });
+    if (!session) {
+      return jsonRpcResponse(
+        jsonRpcError(firstId, -32001, "Session not found or expired. Send initialize again."),
+        404
       );
     }
-  }),
-});
+  }
+  const sessionHeaders = (): Record<string, string> =>
+    sessionId ? { "Mcp-Session-Id": sessionId } : {};
 
-http.route({
-  path: "/webhooks/twilio/voice",
-  method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    try {
-      const formData = await request.formData();
-      const from = formData.get("From") as string;
-      const to = formData.get("To") as string;
-      const speechResult = formData.get("SpeechResult") as string | null;
-
-      // Find agent by phone number
-      const agent = await ctx.runQuery(internal.functions.agents.getByPhone, {
-        phoneNumber: to,
+  if (requests.length === 0) {
+    return new Response(null, { status: 202, headers: sessionHeaders() });
+  }
+
+  // Long tool calls stream progress over SSE when the client accepts it
+  const single = requests.length === 1 && !Array.isArray(payload) ? requests[0] : undefined;
+  const acceptsEventStream = (request.headers.get("Accept") ?? "").includes("text/event-stream");
+  if (single?.method === "tools/call" && acceptsEventStream) {
+    return await streamMcpToolCall(ctx, target, single, access.apiKey, sessionHeaders());
+  }
+
+  const results: Array<McpDispatchResult> = [];
+  for (const message of requests) {
+    const result = await dispatchMcpRequest(ctx, target, message, access.apiKey);
+    if (result.sessionId) {
+      sessionId = result.sessionId;
+    }
+    results.push(result);
+  }
+
+  if (!Array.isArray(payload)) {
+    const [result] = results;
+    return jsonRpcResponse(result!.body, result!.status, {
+      ...sessionHeaders(),
+      ...result!.headers,
+    });
+  }
+  return jsonRpcResponse(
+    results.map((result) => result.body),
+    200,
+    sessionHeaders()
+  );
+}
+
+async function handleMcpDelete(ctx: ActionCtx, request: Request): Promise<Response> {
+  const resolved = await resolveMcpTarget(ctx, request);
+  if (!resolved.ok) return resolved.response;
+
+  const access = await enforceApiKeyAccess(ctx, request, {
+    targetUserId: resolved.target.userId,
+    routeGroup: "mcp",
+    targetAgentId: resolved.target.agentId,
+  });
+  if (!access.ok) {
+    return mcpAccessDenied(access.response, null);
+  }
+
+  const sessionId = request.headers.get("Mcp-Session-Id");
+  if (!sessionId) {
+    return jsonRpcResponse(jsonRpcError(null, -32600, "Mcp-Session-Id header required"), 400);
+  }
+  const terminated = await ctx.runMutation(internal.functions.mcpSessions.terminate, {
+    sessionId,
+    userId: resolved.target.userId,
+    keyPrefix: access.apiKey.keyPrefix,
+  });
+  if (!terminated) {
+    return jsonRpcResponse(jsonRpcError(null, -32001, "Session not found"), 404);
+  }
+  return new Response(null, { status: 204 });
+}
+
+// Every method except ping spends the key's MCP quota. Tool calls spend it in
+// checkMcpToolCallLimits, which also checks the token budget.
+async function dispatchMcpRequest(
+  ctx: ActionCtx,
+  target: McpTarget,
+  message: JsonRpcMessage,
+  caller: McpCaller
+): Promise<McpDispatchResult> {
+  if (message.method === "ping" || message.method === "tools/call") {
+    return await runMcpMethod(ctx, target, message, caller);
+  }
+  const rateLimit = await consumeRateLimit(ctx, {
+    userId: target.userId,
+    routeGroup: "mcp",
+    apiKeyId: caller.apiKeyId,
+  });
+  if (!rateLimit.ok) {
+    return {
+      status: 429,
+      body: jsonRpcError(message.id ?? null, -32000, "Rate limit exceeded"),
+      headers: rateLimit.headers,
+    };
+  }
+  const result = await runMcpMethod(ctx, target, message, caller);
+  return { ...result, headers: { ...rateLimit.headers, ...result.headers } };
+}
+
+async function runMcpMethod(
+  ctx: ActionCtx,
+  target: McpTarget,
+  message: JsonRpcMessage,
+  caller: McpCaller
+): Promise<McpDispatchResult> {
+  const id = message.id ?? null;
+  const params = message.params ?? {};
+  const { keyPrefix, scopes } = caller;
+
+  switch (message.method) {
+    case "initialize": {
+      const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+      const protocolVersion = MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : MCP_LATEST_PROTOCOL_VERSION;
+      const clientInfo = params.clientInfo as { name?: unknown; version?: unknown } | undefined;
+      const sessionId = await ctx.runMutation(internal.functions.mcpSessions.create, {
+        userId: target.userId,
+        agentId: target.agentId,
+        protocolVersion,
+        keyPrefix,
+        clientName: typeof clientInfo?.name === "string" ? clientInfo.name : undefined,
+        clientVersion: typeof clientInfo?.version === "string" ? clientInfo.version : undefined,
       });
 
-      if (!agent) {
-        return new Response(
-          `<?xml version="1.0" encoding="UTF-8"?>
-          <Response>
-            <Say>I'm sorry, this agent is not available. Goodbye.</Say>
-            <Hangup/>
-          </Response>`,
-          { headers: { "Content-Type": "application/xml" } }
-        );
-      }
+      return {
+        status: 200,
+        sessionId,
+        body: jsonRpcResult(id, {
+          protocolVersion,
+          capabilities: {
+            tools: { listChanged: false },
+            prompts: { listChanged: false },
+            resources: { subscribe: false, listChanged: false },
+          },
+          serverInfo: {
+            name: target.displayName,
+            version: MCP_SERVER_VERSION,
+          },
+        }),
+      };
+    }
 
-      // If we have speech input, process it
-      if (speechResult) {
-        const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-          userId: agent.userId,
-          agentId: agent._id,
-          message: speechResult,
-          channel: "phone",
-          callerId: from,
-        });
+    case "ping":
+      return { status: 200, body: jsonRpcResult(id, {}) };
 
-        const responseText = result.blocked
-          ? "I cannot process that request."
-          : result.response;
-
-        // Get voice setting from agent config (ElevenLabs or OpenAI fallback)
-        const voiceName = agent.voiceConfig?.openaiVoice ?? "nova";
-
-        return new Response(
-          `<?xml version="1.0" encoding="UTF-8"?>
-          <Response>
-            <Say voice="Polly.${voiceName}">${escapeXml(responseText)}</Say>
-            <Gather input="speech" timeout="5" speechTimeout="auto" action="/webhooks/twilio/voice">
-              <Say voice="Polly.${voiceName}">Is there anything else I can help you with?</Say>
-            </Gather>
-            <Say voice="Polly.${voiceName}">Goodbye.</Say>
-            <Hangup/>
-          </Response>`,
-          { headers: { "Content-Type": "application/xml" } }
-        );
-      }
+    case "tools/list": {
+      const skill = await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
+        username: target.username,
+        slug: target.slug,
+      });
 
-      // Initial greeting
-      const voiceName = agent.voiceConfig?.openaiVoice ?? "nova";
-
-      return new Response(
-        `<?xml version="1.0" encoding="UTF-8"?>
-        <Response>
-          <Gather input="speech" timeout="5" speechTimeout="auto" action="/webhooks/twilio/voice">
-            <Say voice="Polly.${voiceName}">Hello, this is ${escapeXml(agent.name)}. How can I help you today?</Say>
-          </Gather>
-          <Say voice="Polly.${voiceName}">I didn't hear anything. Goodbye.</Say>
-          <Hangup/>
-        </Response>`,
-        { headers: { "Content-Type": "application/xml" } }
-      );
-    } catch (error) {
-      console.error("Twilio voice webhook error:", error);
-      return new Response(
-        `<?xml version="1.0" encoding="UTF-8"?>
-        <Response>
-          <Say>An error occurred. Please try again later.</Say>
-          <Hangup/>
-        </Response>`,
-        { headers: { "Content-Type": "application/xml" } }
+      const tools = skill?.toolDeclarations?.map((tool: { name: string; description: string; inputSchema?: unknown }) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
+      })) ?? [];
+
+      // Add default chat tool
+      tools.push({
+        name: "chat",
+        description: `Send a message to ${target.displayName}`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            message: { type: "string", description: "The message to send" },
+          },
+          required: ["message"],
+        },
+      });
+
+      // Only the tools this key may call
+      const allowedTools = tools.filter((tool: { name: string }) =>
+        hasScope(scopes, mcpToolScope(tool.name))
       );
+      return { status: 200, body: jsonRpcResult(id, { tools: allowedTools }) };
     }
-  }),
-});
 
-// ============================================================
-// MCP Server: Per-user MCP endpoint
-// ============================================================
+    case "tools/call": {
+      const scopeError = checkMcpToolScope(scopes, id, params);
+      if (scopeError) return scopeError;
+      const limits = await checkMcpToolCallLimits(ctx, target.userId, id, caller.apiKeyId);
+      if (!limits.ok) return limits.result;
+      const result = await runMcpToolCall(ctx, target, id, params, keyPrefix);
+      return { ...result, headers: limits.headers };
+    }
 
-cors.route({
-  path: "/mcp/u/:username",
-  method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    try {
-      const url = new URL(request.url);
-      const pathParts = url.pathname.split("/");
-      const username = pathParts[3];
+    case "resources/list": {
+      const resources = await listMcpResources(ctx, target, scopes);
+      return { status: 200, body: jsonRpcResult(id, { resources }) };
+    }
 
-      if (!username) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32600, message: "Username required" }, id: null }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
+    case "resources/read": {
+      const uri = typeof params.uri === "string" ? params.uri : "";
+      const requiredScope = getMcpResourceScope(target, uri);
+      if (requiredScope && !hasScope(scopes, requiredScope)) {
+        return mcpMissingScope(id, requiredScope);
       }
+      const contents = requiredScope ? await readMcpResource(ctx, target, uri) : null;
+      if (!contents) {
+        return {
+          status: 404,
+          body: jsonRpcError(id, -32002, `Resource not found: ${uri || "(missing uri)"}`),
+        };
+      }
+      return { status: 200, body: jsonRpcResult(id, { contents: [contents] }) };
+    }
 
-      // Look up user
-      const user = await ctx.runQuery(api.functions.users.getByUsername, {
-        username,
-      });
-
-      if (!user || user.profileHidden) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32601, message: "Agent not found" }, id: null }),
-          { status: 404, headers: { "Content-Type": "application/json" } }
-        );
+    case "prompts/list": {
+      if (!hasScope(scopes, "skills:read")) {
+        return mcpMissingScope(id, "skills:read");
       }
+      const prompts = await listMcpPrompts(ctx, target);
+      return {
+        status: 200,
+        body: jsonRpcResult(id, {
+          prompts: prompts.map((prompt) => ({
+            name: prompt.name,
+            title: prompt.capability.name,
+            description: prompt.capability.description,
+            arguments: [
+              {
+                name: "request",
+                description: "What you want the agent to do with this capability",
+                required: true,
+              },
+            ],
+          })),
+        }),
+      };
+    }
 
-      const defaultPublicAgent = await ctx.runQuery(
-        api.functions.agents.getPublicDefaultByUsername,
-        { username }
-      );
-      if (!defaultPublicAgent) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32601, message: "No public agent configured" }, id: null }),
-          { status: 404, headers: { "Content-Type": "application/json" } }
-        );
+    case "prompts/get": {
+      if (!hasScope(scopes, "skills:read")) {
+        return mcpMissingScope(id, "skills:read");
       }
+      const name = typeof params.name === "string" ? params.name : "";
+      const prompt = (await listMcpPrompts(ctx, target)).find((entry) => entry.name === name);
+      if (!prompt) {
+        return { status: 400, body: jsonRpcError(id, -32602, `Unknown prompt: ${name}`) };
+      }
+      const promptArgs = (params.arguments ?? {}) as Record<string, unknown>;
+      const userRequest = typeof promptArgs.request === "string" ? promptArgs.request.trim() : "";
+      if (!userRequest) {
+        return { status: 400, body: jsonRpcError(id, -32602, "request argument required") };
+      }
+      return {
+        status: 200,
+        body: jsonRpcResult(id, {
+          description: prompt.capability.description,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Use your "${prompt.capability.name}" capability (${prompt.capability.description}).\n\n${userRequest}`,
+              },
+            },
+          ],
+        }),
+      };
+    }
 
-      // Parse JSON-RPC request
-      const rpcRequest = (await request.json()) as {
-        jsonrpc: string;
-        method: string;
-        params?: Record<string, unknown>;
-        id: string | number | null;
+    default:
+      return {
+        status: 400,
+        body: jsonRpcError(id, -32601, `Method not found: ${message.method}`),
       };
+  }
+}
 
-      const access = await enforceApiKeyAccess(ctx, request, {
-        targetUserId: user._id,
-        routeGroup: "mcp",
-        requiredScope: "mcp:call",
-        targetAgentId: defaultPublicAgent._id,
+function mcpMissingScope(id: JsonRpcId, requiredScope: string): McpDispatchResult {
+  return {
+    status: 403,
+    body: jsonRpcError(id, -32003, `Missing required scope: ${requiredScope}`),
+  };
+}
+
+// Each tool needs its own mcp:tools:<name> scope, or mcp:tools:*. A missing
+// name is left to runMcpToolCall's own error.
+function checkMcpToolScope(
+  scopes: Array<string>,
+  id: JsonRpcId,
+  params: Record<string, unknown>
+): McpDispatchResult | null {
+  if (typeof params.name !== "string" || !params.name) return null;
+  const requiredScope = mcpToolScope(params.name);
+  return hasScope(scopes, requiredScope) ? null : mcpMissingScope(id, requiredScope);
+}
+
+// Rate limit and token budget checks for MCP tool calls
+async function checkMcpToolCallLimits(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  id: JsonRpcId,
+  apiKeyId: Id<"apiKeys">
+): Promise<
+  | { ok: true; headers: Record<string, string> }
+  | { ok: false; result: McpDispatchResult }
+> {
+  const rateLimit = await consumeRateLimit(ctx, { userId, routeGroup: "mcp", apiKeyId });
+  if (!rateLimit.ok) {
+    return {
+      ok: false,
+      result: {
+        status: 429,
+        body: jsonRpcError(id, -32000, "Rate limit exceeded"),
+        headers: rateLimit.headers,
+      },
+    };
+  }
+  const mcpLimits = await ctx.runQuery(
+    internal.functions.rateLimits.getUserLimits,
+    { userId }
+  );
+  if (mcpLimits.tokensUsedThisMonth >= mcpLimits.tokenBudget) {
+    return {
+      ok: false,
+      result: {
+        status: 429,
+        body: jsonRpcError(id, -32000, "Monthly token budget exceeded"),
+        headers: rateLimit.headers,
+      },
+    };
+  }
+  return { ok: true, headers: rateLimit.headers };
+}
+
+async function runMcpToolCall(
+  ctx: ActionCtx,
+  target: McpTarget,
+  id: JsonRpcId,
+  rawParams: Record<string, unknown>,
+  keyPrefix: string,
+  streamId?: Id<"streamingMessages">
+): Promise<McpDispatchResult> {
+  const params = rawParams as {
+    name?: string;
+    arguments?: Record<string, unknown>;
+  };
+
+  if (params.name === "chat") {
+    const chatMessage = params.arguments?.message;
+    if (typeof chatMessage !== "string" || !chatMessage) {
+      return { status: 400, body: jsonRpcError(id, -32602, "message argument required") };
+    }
+
+    // Process the message through the agent runtime
+    const result = await ctx.runAction(internal.agent.runtime.processMessage, {
+      userId: target.userId,
+      agentId: target.agentId,
+      message: chatMessage,
+      channel: "mcp",
+      callerId: keyPrefix,
+      streamId,
+    });
+
+    return {
+      status: 200,
+      body: jsonRpcResult(id, {
+        content: [{ type: "text", text: result.response }],
+        isError: result.blocked,
+      }),
+    };
+  }
+
+  if (typeof params.name !== "string" || !params.name) {
+    return { status: 400, body: jsonRpcError(id, -32602, "Tool name required") };
+  }
+
+  // Declared skill tools: schema-validated, then run by their binding
+  const result = await ctx.runAction(internal.functions.skillTools.executeDeclared, {
+    userId: target.userId,
+    agentId: target.agentId,
+    toolName: params.name,
+    arguments: params.arguments,
+    callerId: keyPrefix,
+    streamId,
+  });
+  if (result.status !== "ok") {
+    return { status: 400, body: jsonRpcError(id, -32602, result.message) };
+  }
+
+  return {
+    status: 200,
+    body: jsonRpcResult(id, {
+      content: result.content,
+      ...(result.structuredContent !== undefined
+        ? { structuredContent: result.structuredContent }
+        : {}),
+      isError: result.isError,
+    }),
+  };
+}
+
+/**
+ * Run a tool call behind an SSE response. Streamed agent text and tool
+ * activity are sent as `notifications/progress` when the client passed a
+ * progress token; the JSON-RPC response is the final event.
+ */
+async function streamMcpToolCall(
+  ctx: ActionCtx,
+  target: McpTarget,
+  message: JsonRpcMessage,
+  caller: McpCaller,
+  headers: Record<string, string>
+): Promise<Response> {
+  const id = message.id ?? null;
+  const params = message.params ?? {};
+  const { keyPrefix } = caller;
+  const scopeError = checkMcpToolScope(caller.scopes, id, params);
+  if (scopeError) {
+    return jsonRpcResponse(scopeError.body, scopeError.status, headers);
+  }
+  const limits = await checkMcpToolCallLimits(ctx, target.userId, id, caller.apiKeyId);
+  if (!limits.ok) {
+    return jsonRpcResponse(limits.result.body, limits.result.status, {
+      ...headers,
+      ...limits.result.headers,
+    });
+  }
+
+  const meta = params._meta as { progressToken?: unknown } | undefined;
+  const progressToken =
+    typeof meta?.progressToken === "string" || typeof meta?.progressToken === "number"
+      ? meta.progressToken
+      : undefined;
+  const streamId = await ctx.runMutation(internal.functions.streamingMessages.create, {
+    userId: target.userId,
+    agentId: target.agentId,
+  });
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      let settled = false;
+      const run = runMcpToolCall(ctx, target, id, params, keyPrefix, streamId)
+        .catch((error: unknown) => ({
+          status: 500,
+          body: jsonRpcError(id, -32603, String(error)),
+        }))
+        .finally(() => {
+          settled = true;
+        });
+
+      let progress = 0;
+      let lastSnapshot = "";
+      while (!settled) {
+        await new Promise((resolve) => setTimeout(resolve, SSE_POLL_INTERVAL_MS));
+        if (progressToken === undefined) continue;
+        const stream = await ctx.runQuery(internal.functions.streamingMessages.get, { streamId });
+        if (!stream) continue;
+        const snapshot = `${stream.statusDetail ?? ""}|${stream.content.length}`;
+        if (snapshot === lastSnapshot) continue;
+        lastSnapshot = snapshot;
+        progress++;
+        send({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            message: stream.statusDetail ?? stream.content.slice(-200),
+          },
+        });
+      }
+
+      const result = await run;
+      await ctx.runMutation(internal.functions.streamingMessages.finish, {
+        streamId,
+        status: result.status < 400 ? "completed" : "failed",
       });
-      if (!access.ok) {
-        return new Response(
-          JSON.stringify({
-            jsonrpc: "2.0",
-            error: {
-              code: access.response.status === 401 ? -32001 : -32003,
-              message:
-                access.response.status === 401
-                  ? "Authentication required"
-                  : "Access denied for this MCP route",
-            },
-            id: rpcRequest.id,
-          }),
-          {
-            status: access.response.status,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
+      send(result.body);
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      ...headers,
+      ...limits.headers,
+    },
+  });
+}
+
+type McpResourceContents = { uri: string; mimeType: string; text: string };
+
+function mcpResourceBase(target: McpTarget): string {
+  return `humanagent://${target.username}/${target.slug}`;
+}
+
+// Scope needed to read a resource, or null when the URI is not one of ours
+function getMcpResourceScope(target: McpTarget, uri: string): ApiKeyScope | null {
+  const base = mcpResourceBase(target);
+  if (!uri.startsWith(`${base}/`)) return null;
+  const path = uri.slice(base.length + 1);
+  if (path === "SKILL.md") return "skills:read";
+  if (path.startsWith("knowledge/")) return "memory:read";
+  if (path.startsWith("tasks/")) return "tasks:read";
+  return null;
+}
+
+// Published skill file, published knowledge nodes, and public tasks the key
+// has scopes for
+async function listMcpResources(ctx: ActionCtx, target: McpTarget, scopes: Array<string>) {
+  const base = mcpResourceBase(target);
+  const resources: Array<{
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType: string;
+  }> = [];
+
+  const skill = hasScope(scopes, "skills:read")
+    ? await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
+        username: target.username,
+        slug: target.slug,
+      })
+    : null;
+  if (skill) {
+    resources.push({
+      uri: `${base}/SKILL.md`,
+      name: "SKILL.md",
+      title: `${skill.identity.name} skill file`,
+      description: skill.identity.bio,
+      mimeType: "text/markdown",
+    });
+  }
+
+  const nodes = hasScope(scopes, "memory:read")
+    ? await ctx.runQuery(internal.functions.knowledgeGraph.listPublishedForAgent, {
+        userId: target.userId,
+        agentId: target.agentId,
+      })
+    : [];
+  for (const node of nodes) {
+    resources.push({
+      uri: `${base}/knowledge/${node._id}`,
+      name: node.title,
+      description: node.description,
+      mimeType: "text/markdown",
+    });
+  }
+
+  const tasks = hasScope(scopes, "tasks:read") ? await listMcpPublicTasks(ctx, target) : [];
+  for (const task of tasks) {
+    resources.push({
+      uri: `${base}/tasks/${task._id}`,
+      name: task.description.slice(0, 80),
+      description: `Public task (${task.status})`,
+      mimeType: "application/json",
+    });
+  }
+
+  return resources;
+}
+
+async function readMcpResource(
+  ctx: ActionCtx,
+  target: McpTarget,
+  uri: string
+): Promise<McpResourceContents | null> {
+  const base = mcpResourceBase(target);
+  if (!uri.startsWith(`${base}/`)) return null;
+  const path = uri.slice(base.length + 1);
+
+  if (path === "SKILL.md") {
+    const skill = await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
+      username: target.username,
+      slug: target.slug,
+    });
+    return skill
+      ? { uri, mimeType: "text/markdown", text: skillToMarkdown(skill, target.username) }
+      : null;
+  }
+
+  if (path.startsWith("knowledge/")) {
+    const nodeId = path.slice("knowledge/".length);
+    const nodes = await ctx.runQuery(internal.functions.knowledgeGraph.listPublishedForAgent, {
+      userId: target.userId,
+      agentId: target.agentId,
+    });
+    const listed = nodes.find((entry: { _id: Id<"knowledgeNodes"> }) => entry._id === nodeId);
+    if (!listed) return null;
+    const node = await ctx.runQuery(internal.functions.knowledgeGraph.getPublishedForAgent, {
+      userId: target.userId,
+      agentId: target.agentId,
+      nodeId: listed._id,
+    });
+    if (!node) return null;
+    const tags = node.tags.length > 0 ? `\n\nTags: ${node.tags.join(", ")}` : "";
+    return {
+      uri,
+      mimeType: "text/markdown",
+      text: `# ${node.title}\n\n${node.description}\n\n${node.content}${tags}`,
+    };
+  }
+
+  if (path.startsWith("tasks/")) {
+    const taskId = path.slice("tasks/".length);
+    const task = (await listMcpPublicTasks(ctx, target)).find((entry) => entry._id === taskId);
+    if (!task) return null;
+    return {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(
+        {
+          description: task.description,
+          status: task.status,
+          outcomeSummary: task.outcomeSummary,
+          outcomeLinks: task.outcomeLinks,
+          createdAt: task.createdAt,
+          completedAt: task.completedAt,
+        },
+        null,
+        2
+      ),
+    };
+  }
+
+  return null;
+}
+
+type McpPublicTask = {
+  _id: string;
+  agentId?: string;
+  description: string;
+  status: string;
+  outcomeSummary?: string;
+  outcomeLinks?: Array<string>;
+  createdAt: number;
+  completedAt?: number;
+};
+
+// Public tasks assigned to this agent or to no agent
+async function listMcpPublicTasks(ctx: ActionCtx, target: McpTarget): Promise<Array<McpPublicTask>> {
+  const tasks = (await ctx.runQuery(api.functions.board.getPublicTasks, {
+    username: target.username,
+  })) as Array<McpPublicTask>;
+  return tasks.filter((task) => !task.agentId || task.agentId === target.agentId);
+}
+
+// One prompt per published skill capability
+async function listMcpPrompts(ctx: ActionCtx, target: McpTarget) {
+  const skill = await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
+    username: target.username,
+    slug: target.slug,
+  });
+  const capabilities = (skill?.capabilities ?? []) as Array<{ name: string; description: string }>;
+  const seen = new Set<string>();
+  return capabilities.flatMap((capability) => {
+    const name =
+      capability.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "capability";
+    if (seen.has(name)) return [];
+    seen.add(name);
+    return [{ name, capability }];
+  });
+}
+
+for (const path of ["/mcp/u/:username", "/mcp/u/:username/:slug"]) {
+  cors.route({
+    path,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handleMcpPost(ctx, request);
+      } catch (error) {
+        return jsonRpcResponse(jsonRpcError(null, -32603, String(error)), 500);
       }
+    }),
+  });
+
+  cors.route({
+    path,
+    method: "DELETE",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handleMcpDelete(ctx, request);
+      } catch (error) {
+        return jsonRpcResponse(jsonRpcError(null, -32603, String(error)), 500);
+      }
+    }),
+  });
+
+  // No server-initiated streams: clients fall back to POST-only
+  cors.route({
+    path,
+    method: "GET",
+    handler: httpAction(async () => {
+      return new Response(null, { status: 405, headers: { Allow: "POST, DELETE" } });
+    }),
+  });
+}
 
-      // Handle MCP methods
-      switch (rpcRequest.method) {
-        case "initialize": {
-          // Return server info and capabilities
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              result: {
-                protocolVersion: "2024-11-05",
-                capabilities: {
-                  tools: { listChanged: false },
-                  prompts: { listChanged: false },
-                },
-                serverInfo: {
-                  name: `${user.name ?? username}'s Agent`,
-                  version: "1.0.0",
-                },
-              },
-              id: rpcRequest.id,
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+// ============================================================
+// A2A Server: JSON-RPC tasks endpoint
+// ============================================================
+//
+// /a2a/u/:username (default public agent) and /a2a/u/:username/:slug speak
+// A2A JSON-RPC 2.0: message/send, message/stream, tasks/get, tasks/cancel.
+// Each message becomes a row in `tasks` (see convex/functions/a2aTasks.ts).
+// The agent card for each endpoint is served under
+// /a2a/u/:username[/:slug]/.well-known/agent.json, built from the published
+// skill file. JSON-RPC errors are answered with HTTP 200, as A2A clients
+// expect; only auth and rate limit failures use 4xx statuses.
+
+const A2A_PROTOCOL_VERSION = "0.3.0";
+const A2A_CARD_FILES = ["agent.json", "agent-card.json"];
+
+const A2A_TASK_NOT_FOUND = -32001;
+const A2A_TASK_NOT_CANCELABLE = -32002;
+const A2A_PUSH_NOT_SUPPORTED = -32003;
+const A2A_UNSUPPORTED_OPERATION = -32004;
+const A2A_CONTENT_TYPE_NOT_SUPPORTED = -32005;
+
+const A2A_METHOD_SCOPES: Record<string, ApiKeyScope> = {
+  "message/send": "messages:write",
+  "message/stream": "messages:write",
+  "tasks/get": "tasks:read",
+  "tasks/cancel": "tasks:write",
+};
+
+type A2aTarget = {
+  userId: Id<"users">;
+  agentId: Id<"agents">;
+  username: string;
+  slug: string;
+  displayName: string;
+  endpointPath: string;
+  maxAutoReplyHops: number;
+};
+
+type A2aInboundMessage = {
+  text: string;
+  messageId: string;
+  contextId?: string;
+  taskId?: string;
+  hopCount: number;
+};
+
+// Resolve the agent from /a2a/u/:username[/:slug], ignoring a trailing
+// /.well-known/<card> segment. The agent must have A2A enabled.
+async function resolveA2aTarget(
+  ctx: ActionCtx,
+  request: Request
+): Promise<{ ok: true; target: A2aTarget } | { ok: false; response: Response }> {
+  const pathParts = new URL(request.url).pathname.split("/");
+  const username = pathParts[3];
+  const slug = pathParts[4] && pathParts[4] !== ".well-known" ? pathParts[4] : undefined;
+
+  if (!username) {
+    return {
+      ok: false,
+      response: jsonRpcResponse(jsonRpcError(null, -32600, "Username required"), 400),
+    };
+  }
+
+  const user = await ctx.runQuery(api.functions.users.getByUsername, {
+    username,
+  });
+  const agent =
+    user && !user.profileHidden
+      ? slug
+        ? await ctx.runQuery(api.functions.agents.getPublicByUsernameAndSlug, {
+            username,
+            slug,
+          })
+        : await ctx.runQuery(api.functions.agents.getPublicDefaultByUsername, {
+            username,
+          })
+      : null;
+  if (!user || !agent || !agent.a2aConfig?.enabled) {
+    return {
+      ok: false,
+      response: jsonRpcResponse(
+        jsonRpcError(null, -32601, "No A2A-enabled public agent at this address"),
+        404
+      ),
+    };
+  }
 
-        case "tools/list": {
-          // Get published skills for this user's default public agent
-          const skill = await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
-            username,
-            slug: defaultPublicAgent.slug,
-          });
+  return {
+    ok: true,
+    target: {
+      userId: user._id,
+      agentId: agent._id,
+      username,
+      slug: agent.slug,
+      displayName: slug ? agent.name : `${user.name ?? username}'s Agent`,
+      endpointPath: slug ? `/a2a/u/${username}/${slug}` : `/a2a/u/${username}`,
+      maxAutoReplyHops: agent.a2aConfig.maxAutoReplyHops ?? 2,
+    },
+  };
+}
 
-          const tools = skill?.toolDeclarations?.map((tool: { name: string; description: string; inputSchema?: unknown }) => ({
-            name: tool.name,
-            description: tool.description,
-            inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
-          })) ?? [];
-
-          // Add default chat tool
-          tools.push({
-            name: "chat",
-            description: `Send a message to ${user.name ?? username}'s agent`,
-            inputSchema: {
-              type: "object",
-              properties: {
-                message: { type: "string", description: "The message to send" },
-              },
-              required: ["message"],
-            },
-          });
+function a2aAccessDenied(response: Response, id: JsonRpcId): Response {
+  return jsonRpcResponse(
+    jsonRpcError(
+      id,
+      -32600,
+      response.status === 401 ? "Authentication required" : "Access denied for this A2A route"
+    ),
+    response.status
+  );
+}
 
-          return new Response(
-            JSON.stringify({ jsonrpc: "2.0", result: { tools }, id: rpcRequest.id }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+// Rate limit and token budget checks, shared with the REST messages API
+async function checkA2aLimits(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  id: JsonRpcId,
+  apiKeyId: Id<"apiKeys">
+): Promise<Response | null> {
+  const rateLimit = await consumeRateLimit(ctx, { userId, routeGroup: "api", apiKeyId });
+  if (!rateLimit.ok) {
+    return jsonRpcResponse(
+      jsonRpcError(id, -32000, "Rate limit exceeded"),
+      429,
+      rateLimit.headers
+    );
+  }
+  const limits = await ctx.runQuery(internal.functions.rateLimits.getUserLimits, { userId });
+  if (limits.tokensUsedThisMonth >= limits.tokenBudget) {
+    return jsonRpcResponse(
+      jsonRpcError(id, -32000, "Monthly token budget exceeded"),
+      429,
+      rateLimit.headers
+    );
+  }
+  return null;
+}
 
-        case "tools/call": {
-          // Rate limit check: MCP channel
-          const mcpLimits = await ctx.runQuery(
-            internal.functions.rateLimits.getUserLimits,
-            { userId: user._id }
-          );
-          const mcpRlKey = `user:${user._id}:mcp`;
-          const mcpRl = await ctx.runMutation(
-            internal.functions.rateLimits.checkAndIncrement,
-            { key: mcpRlKey, limit: mcpLimits.mcpRequestsPerMinute }
-          );
-          if (!mcpRl.allowed) {
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                error: { code: -32000, message: "Rate limit exceeded" },
-                id: rpcRequest.id,
-              }),
-              { status: 429, headers: { "Content-Type": "application/json" } }
-            );
-          }
-          if (mcpLimits.tokensUsedThisMonth >= mcpLimits.tokenBudget) {
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                error: { code: -32000, message: "Monthly token budget exceeded" },
-                id: rpcRequest.id,
-              }),
-              { status: 429, headers: { "Content-Type": "application/json" } }
-            );
-          }
+// Flatten an A2A Message into text. Text and data parts are accepted; file
+// parts are not supported yet.
+function parseA2aMessage(
+  params: Record<string, unknown>
+): { ok: true; message: A2aInboundMessage } | { ok: false; code: number; error: string } {
+  const message = params.message as Record<string, unknown> | undefined;
+  if (!message || typeof message !== "object" || !Array.isArray(message.parts)) {
+    return { ok: false, code: -32602, error: "params.message with parts is required" };
+  }
+  if (message.role !== undefined && message.role !== "user") {
+    return { ok: false, code: -32602, error: "message.role must be user" };
+  }
 
-          const params = rpcRequest.params as {
-            name: string;
-            arguments?: Record<string, unknown>;
-          };
-
-          if (params.name === "chat") {
-            const message = params.arguments?.message as string;
-            if (!message) {
-              return new Response(
-                JSON.stringify({
-                  jsonrpc: "2.0",
-                  error: { code: -32602, message: "message argument required" },
-                  id: rpcRequest.id,
-                }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-              );
-            }
+  const texts: Array<string> = [];
+  for (const part of message.parts as Array<Record<string, unknown>>) {
+    // Pre-0.3 clients send `type` instead of `kind`
+    const kind = part?.kind ?? part?.type;
+    if (kind === "text" && typeof part.text === "string") {
+      texts.push(part.text);
+    } else if (kind === "data") {
+      texts.push(JSON.stringify(part.data));
+    } else {
+      return {
+        ok: false,
+        code: A2A_CONTENT_TYPE_NOT_SUPPORTED,
+        error: `Unsupported message part: ${String(kind ?? "unknown")}`,
+      };
+    }
+  }
+  const text = texts.join("\n").trim();
+  if (!text) {
+    return { ok: false, code: -32602, error: "message must contain text" };
+  }
+  // HumanAgent senders carry the A2A loop guard counter in message metadata
+  const metadata = message.metadata as { hopCount?: unknown } | undefined;
+  const hopCount = typeof metadata?.hopCount === "number" ? Math.max(0, metadata.hopCount) : 0;
 
-            // Process the message through the agent runtime
-            const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-              userId: user._id,
-              agentId: defaultPublicAgent._id,
-              message,
-              channel: "mcp",
-              callerId: access.apiKey.keyPrefix,
-            });
-
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                result: {
-                  content: [{ type: "text", text: result.response }],
-                  isError: result.blocked,
-                },
-                id: rpcRequest.id,
-              }),
-              { headers: { "Content-Type": "application/json" } }
-            );
-          }
+  return {
+    ok: true,
+    message: {
+      text,
+      messageId: typeof message.messageId === "string" ? message.messageId : crypto.randomUUID(),
+      contextId:
+        typeof message.contextId === "string" && message.contextId ? message.contextId : undefined,
+      taskId: typeof message.taskId === "string" && message.taskId ? message.taskId : undefined,
+      hopCount,
+    },
+  };
+}
 
-          // Handle other tool calls by delegating to agent
-          const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-            userId: user._id,
-            agentId: defaultPublicAgent._id,
-            message: `Execute tool: ${params.name} with arguments: ${JSON.stringify(params.arguments)}`,
-            channel: "mcp",
-            callerId: access.apiKey.keyPrefix,
-          });
+async function handleA2aPost(ctx: ActionCtx, request: Request): Promise<Response> {
+  const resolved = await resolveA2aTarget(ctx, request);
+  if (!resolved.ok) return resolved.response;
+  const { target } = resolved;
 
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              result: {
-                content: [{ type: "text", text: result.response }],
-                isError: result.blocked,
-              },
-              id: rpcRequest.id,
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+  let payload: JsonRpcMessage;
+  try {
+    payload = (await request.json()) as JsonRpcMessage;
+  } catch {
+    return jsonRpcResponse(jsonRpcError(null, -32700, "Parse error"));
+  }
+  if (Array.isArray(payload) || typeof payload.method !== "string") {
+    return jsonRpcResponse(jsonRpcError(null, -32600, "Invalid request"));
+  }
+  const id = payload.id ?? null;
+  const params = payload.params ?? {};
+
+  const access = await enforceApiKeyAccess(ctx, request, {
+    targetUserId: target.userId,
+    routeGroup: "api",
+    targetAgentId: target.agentId,
+  });
+  if (!access.ok) {
+    return a2aAccessDenied(access.response, id);
+  }
+  const callerId = access.apiKey.keyPrefix;
 
-        case "prompts/list": {
-          // Return available prompts (based on capabilities)
-          return new Response(
-            JSON.stringify({ jsonrpc: "2.0", result: { prompts: [] }, id: rpcRequest.id }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+  const requiredScope = A2A_METHOD_SCOPES[payload.method];
+  if (requiredScope && !hasScope(access.apiKey.scopes, requiredScope)) {
+    return jsonRpcResponse(
+      jsonRpcError(id, -32600, `Missing required scope: ${requiredScope}`),
+      403
+    );
+  }
 
-        default:
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              error: { code: -32601, message: `Method not found: ${rpcRequest.method}` },
-              id: rpcRequest.id,
-            }),
-            { status: 400, headers: { "Content-Type": "application/json" } }
-          );
+  switch (payload.method) {
+    case "message/send":
+    case "message/stream": {
+      const parsed = parseA2aMessage(params);
+      if (!parsed.ok) {
+        return jsonRpcResponse(jsonRpcError(id, parsed.code, parsed.error));
+      }
+      const { message } = parsed;
+      if (message.hopCount > target.maxAutoReplyHops) {
+        return jsonRpcResponse(
+          jsonRpcError(id, -32600, "A2A loop protection triggered: hop limit reached")
+        );
       }
-    } catch (error) {
-      return new Response(
-        JSON.stringify({
-          jsonrpc: "2.0",
-          error: { code: -32603, message: String(error) },
-          id: null,
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
-  }),
-});
-
-// MCP Server: Specific public agent by slug
-cors.route({
-  path: "/mcp/u/:username/:slug",
-  method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    try {
-      const url = new URL(request.url);
-      const pathParts = url.pathname.split("/");
-      const username = pathParts[3];
-      const slug = pathParts[4];
 
-      if (!username || !slug) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32600, message: "Username and slug are required" }, id: null }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
+      // Tasks finish in one turn, so a follow-up starts a new task in the
+      // same context instead of reopening the old one
+      if (message.taskId) {
+        const existing = await ctx.runQuery(internal.functions.a2aTasks.get, {
+          userId: target.userId,
+          agentId: target.agentId,
+          taskId: message.taskId,
+          historyLength: 0,
+        });
+        if (!existing) {
+          return jsonRpcResponse(jsonRpcError(id, A2A_TASK_NOT_FOUND, "Task not found"));
+        }
+        return jsonRpcResponse(
+          jsonRpcError(
+            id,
+            A2A_UNSUPPORTED_OPERATION,
+            `Task is ${existing.status.state}. Send a new message with contextId ${existing.contextId} to continue.`
+          )
         );
       }
 
-      const user = await ctx.runQuery(api.functions.users.getByUsername, {
-        username,
+      const limitError = await checkA2aLimits(ctx, target.userId, id, access.apiKey.apiKeyId);
+      if (limitError) return limitError;
+
+      const task = await ctx.runMutation(internal.functions.a2aTasks.create, {
+        userId: target.userId,
+        agentId: target.agentId,
+        callerId,
+        contextId: message.contextId,
+        messageId: message.messageId,
+        text: message.text,
       });
+      const executeArgs = {
+        taskId: task.id as Id<"tasks">,
+        userId: target.userId,
+        agentId: target.agentId,
+        callerId,
+        message: message.text,
+      };
 
-      if (!user || user.profileHidden) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32601, message: "Agent not found" }, id: null }),
-          { status: 404, headers: { "Content-Type": "application/json" } }
-        );
+      if (payload.method === "message/stream") {
+        return await streamA2aTask(ctx, target, id, task, executeArgs);
       }
 
-      const publicAgent = await ctx.runQuery(
-        api.functions.agents.getPublicByUsernameAndSlug,
-        { username, slug }
-      );
-      if (!publicAgent) {
-        return new Response(
-          JSON.stringify({ jsonrpc: "2.0", error: { code: -32601, message: "Public agent not found for this slug" }, id: null }),
-          { status: 404, headers: { "Content-Type": "application/json" } }
-        );
+      const configuration = params.configuration as
+        | { blocking?: unknown; historyLength?: unknown }
+        | undefined;
+      if (configuration?.blocking === false) {
+        await ctx.scheduler.runAfter(0, internal.functions.a2aTasks.execute, executeArgs);
+        return jsonRpcResponse(jsonRpcResult(id, task));
       }
 
-      const rpcRequest = (await request.json()) as {
-        jsonrpc: string;
-        method: string;
-        params?: Record<string, unknown>;
-        id: string | number | null;
-      };
+      await ctx.runAction(internal.functions.a2aTasks.execute, executeArgs);
+      const finished = await ctx.runQuery(internal.functions.a2aTasks.get, {
+        userId: target.userId,
+        agentId: target.agentId,
+        taskId: task.id,
+        historyLength:
+          typeof configuration?.historyLength === "number" ? configuration.historyLength : undefined,
+      });
+      return jsonRpcResponse(jsonRpcResult(id, finished ?? task));
+    }
 
-      const access = await enforceApiKeyAccess(ctx, request, {
-        targetUserId: user._id,
-        routeGroup: "mcp",
-        requiredScope: "mcp:call",
-        targetAgentId: publicAgent._id,
+    case "tasks/get": {
+      const taskId = typeof params.id === "string" ? params.id : "";
+      const task = taskId
+        ? await ctx.runQuery(internal.functions.a2aTasks.get, {
+            userId: target.userId,
+            agentId: target.agentId,
+            taskId,
+            historyLength: typeof params.historyLength === "number" ? params.historyLength : undefined,
+          })
+        : null;
+      if (!task) {
+        return jsonRpcResponse(jsonRpcError(id, A2A_TASK_NOT_FOUND, "Task not found"));
+      }
+      return jsonRpcResponse(jsonRpcResult(id, task));
+    }
+
+    case "tasks/cancel": {
+      const taskId = typeof params.id === "string" ? params.id : "";
+      const result = await ctx.runMutation(internal.functions.a2aTasks.cancel, {
+        userId: target.userId,
+        agentId: target.agentId,
+        taskId,
       });
-      if (!access.ok) {
-        return new Response(
-          JSON.stringify({
-            jsonrpc: "2.0",
-            error: {
-              code: access.response.status === 401 ? -32001 : -32003,
-              message:
-                access.response.status === 401
-                  ? "Authentication required"
-                  : "Access denied for this MCP route",
-            },
-            id: rpcRequest.id,
-          }),
-          {
-            status: access.response.status,
-            headers: { "Content-Type": "application/json" },
-          }
+      if (result.status === "not_found") {
+        return jsonRpcResponse(jsonRpcError(id, A2A_TASK_NOT_FOUND, "Task not found"));
+      }
+      if (result.status === "not_cancelable") {
+        return jsonRpcResponse(
+          jsonRpcError(id, A2A_TASK_NOT_CANCELABLE, `Task is already ${result.state}`)
         );
       }
+      const task = await ctx.runQuery(internal.functions.a2aTasks.get, {
+        userId: target.userId,
+        agentId: target.agentId,
+        taskId,
+      });
+      return jsonRpcResponse(jsonRpcResult(id, task));
+    }
 
-      switch (rpcRequest.method) {
-        case "initialize": {
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              result: {
-                protocolVersion: "2024-11-05",
-                capabilities: {
-                  tools: { listChanged: false },
-                  prompts: { listChanged: false },
-                },
-                serverInfo: {
-                  name: `${publicAgent.name}`,
-                  version: "1.0.0",
-                },
-              },
-              id: rpcRequest.id,
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+    case "tasks/resubscribe":
+      return jsonRpcResponse(
+        jsonRpcError(id, A2A_UNSUPPORTED_OPERATION, "Resubscribe is not supported; poll tasks/get")
+      );
 
-        case "tools/list": {
-          const skill = await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
-            username,
-            slug,
-          });
+    case "tasks/pushNotificationConfig/set":
+    case "tasks/pushNotificationConfig/get":
+    case "tasks/pushNotificationConfig/list":
+    case "tasks/pushNotificationConfig/delete":
+      return jsonRpcResponse(
+        jsonRpcError(id, A2A_PUSH_NOT_SUPPORTED, "Push notifications are not supported")
+      );
 
-          const tools = skill?.toolDeclarations?.map((tool: { name: string; description: string; inputSchema?: unknown }) => ({
-            name: tool.name,
-            description: tool.description,
-            inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
-          })) ?? [];
-
-          tools.push({
-            name: "chat",
-            description: `Send a message to ${publicAgent.name}`,
-            inputSchema: {
-              type: "object",
-              properties: {
-                message: { type: "string", description: "The message to send" },
-              },
-              required: ["message"],
-            },
-          });
+    default:
+      return jsonRpcResponse(jsonRpcError(id, -32601, `Method not found: ${payload.method}`));
+  }
+}
 
-          return new Response(
-            JSON.stringify({ jsonrpc: "2.0", result: { tools }, id: rpcRequest.id }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+/**
+ * Run an A2A task behind an SSE response. Events are JSON-RPC responses
+ * carrying the Task, a `working` status update, `artifact-update` chunks as
+ * the reply streams, and a final status update.
+ */
+async function streamA2aTask(
+  ctx: ActionCtx,
+  target: A2aTarget,
+  id: JsonRpcId,
+  task: { id: string; contextId: string },
+  executeArgs: {
+    taskId: Id<"tasks">;
+    userId: Id<"users">;
+    agentId: Id<"agents">;
+    callerId: string;
+    message: string;
+  }
+): Promise<Response> {
+  const streamId = await ctx.runMutation(internal.functions.streamingMessages.create, {
+    userId: target.userId,
+    agentId: target.agentId,
+  });
+  const encoder = new TextEncoder();
+  const artifactId = `${task.id}-response`;
 
-        case "tools/call": {
-          // Rate limit check: MCP channel (slug endpoint)
-          const mcpSlugLimits = await ctx.runQuery(
-            internal.functions.rateLimits.getUserLimits,
-            { userId: user._id }
-          );
-          const mcpSlugRlKey = `user:${user._id}:mcp`;
-          const mcpSlugRl = await ctx.runMutation(
-            internal.functions.rateLimits.checkAndIncrement,
-            { key: mcpSlugRlKey, limit: mcpSlugLimits.mcpRequestsPerMinute }
-          );
-          if (!mcpSlugRl.allowed) {
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                error: { code: -32000, message: "Rate limit exceeded" },
-                id: rpcRequest.id,
-              }),
-              { status: 429, headers: { "Content-Type": "application/json" } }
-            );
-          }
-          if (mcpSlugLimits.tokensUsedThisMonth >= mcpSlugLimits.tokenBudget) {
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                error: { code: -32000, message: "Monthly token budget exceeded" },
-                id: rpcRequest.id,
-              }),
-              { status: 429, headers: { "Content-Type": "application/json" } }
-            );
-          }
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (result: unknown) => {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(jsonRpcResult(id, result))}\n\n`)
+        );
+      };
+      const statusUpdate = (state: string, final: boolean, message?: unknown) => ({
+        kind: "status-update",
+        taskId: task.id,
+        contextId: task.contextId,
+        status: { state, timestamp: new Date().toISOString(), ...(message ? { message } : {}) },
+        final,
+      });
+      const artifactUpdate = (text: string, append: boolean, lastChunk: boolean) => ({
+        kind: "artifact-update",
+        taskId: task.id,
+        contextId: task.contextId,
+        artifact: { artifactId, name: "response", parts: [{ kind: "text", text }] },
+        append,
+        lastChunk,
+      });
 
-          const params = rpcRequest.params as {
-            name: string;
-            arguments?: Record<string, unknown>;
-          };
-
-          if (params.name === "chat") {
-            const message = params.arguments?.message as string;
-            if (!message) {
-              return new Response(
-                JSON.stringify({
-                  jsonrpc: "2.0",
-                  error: { code: -32602, message: "message argument required" },
-                  id: rpcRequest.id,
-                }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-              );
-            }
+      send(task);
+      send(statusUpdate("working", false));
+
+      let settled = false;
+      const run = ctx
+        .runAction(internal.functions.a2aTasks.execute, { ...executeArgs, streamId })
+        .then(
+          (result) => ({ ok: true as const, result }),
+          (error: unknown) => ({ ok: false as const, error: String(error) })
+        )
+        .finally(() => {
+          settled = true;
+        });
 
-            const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-              userId: user._id,
-              agentId: publicAgent._id,
-              message,
-              channel: "mcp",
-              callerId: access.apiKey.keyPrefix,
-            });
-
-            return new Response(
-              JSON.stringify({
-                jsonrpc: "2.0",
-                result: {
-                  content: [{ type: "text", text: result.response }],
-                  isError: result.blocked,
-                },
-                id: rpcRequest.id,
-              }),
-              { headers: { "Content-Type": "application/json" } }
-            );
-          }
+      let sentContent = "";
+      while (!settled) {
+        await new Promise((resolve) => setTimeout(resolve, SSE_POLL_INTERVAL_MS));
+        const stream = await ctx.runQuery(internal.functions.streamingMessages.get, { streamId });
+        if (!stream || stream.content === sentContent) continue;
+        // A new tool turn replaces the text, so the artifact is resent whole
+        if (stream.content.startsWith(sentContent)) {
+          send(artifactUpdate(stream.content.slice(sentContent.length), sentContent !== "", false));
+        } else {
+          send(artifactUpdate(stream.content, false, false));
+        }
+        sentContent = stream.content;
+      }
 
-          const result = await ctx.runAction(internal.agent.runtime.processMessage, {
-            userId: user._id,
-            agentId: publicAgent._id,
-            message: `Execute tool: ${params.name} with arguments: ${JSON.stringify(params.arguments)}`,
-            channel: "mcp",
-            callerId: access.apiKey.keyPrefix,
-          });
+      const outcome = await run;
+      await ctx.runMutation(internal.functions.streamingMessages.finish, {
+        streamId,
+        status: outcome.ok && outcome.result.state === "completed" ? "completed" : "failed",
+        ...(outcome.ok ? {} : { error: outcome.error }),
+      });
 
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              result: {
-                content: [{ type: "text", text: result.response }],
-                isError: result.blocked,
-              },
-              id: rpcRequest.id,
-            }),
-            { headers: { "Content-Type": "application/json" } }
-          );
+      if (outcome.ok && outcome.result.state === "completed") {
+        const response = outcome.result.response;
+        if (response.startsWith(sentContent)) {
+          send(artifactUpdate(response.slice(sentContent.length), sentContent !== "", true));
+        } else {
+          send(artifactUpdate(response, false, true));
         }
+      }
 
-        case "prompts/list": {
-          return new Response(
-            JSON.stringify({ jsonrpc: "2.0", result: { prompts: [] }, id: rpcRequest.id }),
-            { headers: { "Content-Type": "application/json" } }
-          );
-        }
+      const finished = await ctx.runQuery(internal.functions.a2aTasks.get, {
+        userId: target.userId,
+        agentId: target.agentId,
+        taskId: task.id,
+        historyLength: 0,
+      });
+      send(
+        statusUpdate(
+          finished?.status.state ?? "failed",
+          true,
+          finished?.status.message
+        )
+      );
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-        default:
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              error: { code: -32601, message: `Method not found: ${rpcRequest.method}` },
-              id: rpcRequest.id,
-            }),
-            { status: 400, headers: { "Content-Type": "application/json" } }
-          );
+// Build the A2A agent card from the agent's published skill file
+async function buildA2aAgentCard(ctx: ActionCtx, request: Request, target: A2aTarget) {
+  const skill = (await ctx.runQuery(api.functions.skills.getPublicSkillByAgent, {
+    username: target.username,
+    slug: target.slug,
+  })) as (PublicSkill & { version?: number }) | null;
+
+  const capabilities = skill?.capabilities ?? [];
+  const tags = (skill?.knowledgeDomains ?? []).slice(0, 10);
+  const skills =
+    capabilities.length > 0
+      ? capabilities.map((capability, index) => ({
+          id:
+            capability.name
+              .toLowerCase()
+              .replace(/[^a-z0-9]+/g, "-")
+              .replace(/^-+|-+$/g, "") || `capability-${index + 1}`,
+          name: capability.name,
+          description: capability.description,
+          tags,
+        }))
+      : [
+          {
+            id: "chat",
+            name: "Chat",
+            description: `Send a message to ${target.displayName}`,
+            tags,
+          },
+        ];
+
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: skill?.identity.name ?? target.displayName,
+    description: skill?.identity.bio || `A2A endpoint for ${target.displayName}`,
+    url: `${new URL(request.url).origin}${target.endpointPath}`,
+    preferredTransport: "JSONRPC",
+    version: String(skill?.version ?? 1),
+    provider: { organization: "HumanAgent", url: "https://humana.gent" },
+    capabilities: {
+      streaming: true,
+      pushNotifications: false,
+      stateTransitionHistory: false,
+    },
+    securitySchemes: {
+      apiKey: {
+        type: "http",
+        scheme: "bearer",
+        description: "HumanAgent API key with the messages:write scope (tasks:read and tasks:write for task methods)",
+      },
+    },
+    security: [{ apiKey: [] }],
+    defaultInputModes: ["text/plain", "application/json"],
+    defaultOutputModes: ["text/plain"],
+    skills,
+  };
+}
+
+for (const path of ["/a2a/u/:username", "/a2a/u/:username/:slug"]) {
+  cors.route({
+    path,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      try {
+        return await handleA2aPost(ctx, request);
+      } catch (error) {
+        return jsonRpcResponse(jsonRpcError(null, -32603, String(error)), 500);
       }
-    } catch (error) {
-      return new Response(
-        JSON.stringify({
-          jsonrpc: "2.0",
-          error: { code: -32603, message: String(error) },
-          id: null,
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
-  }),
-});
+    }),
+  });
+
+  for (const cardFile of A2A_CARD_FILES) {
+    cors.route({
+      path: `${path}/.well-known/${cardFile}`,
+      method: "GET",
+      handler: httpAction(async (ctx, request) => {
+        const resolved = await resolveA2aTarget(ctx, request);
+        if (!resolved.ok) {
+          return apiError(404, "not_found", "No A2A-enabled public agent at this address");
+        }
+        const card = await buildA2aAgentCard(ctx, request, resolved.target);
+        return new Response(JSON.stringify(card), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "public, max-age=300",
+          },
+        });
+      }),
+    });
+  }
+}
 
 // ============================================================
 // Skill File Endpoints
@@ -1429,7 +2657,7 @@ cors.route({
 cors.route({
   path: "/u/:username/skill.json",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("skills", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[2];
 
@@ -1461,7 +2689,7 @@ cors.route({
 cors.route({
   path: "/u/:username/:slug/skill.json",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("skills", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[2];
@@ -1495,7 +2723,7 @@ cors.route({
 cors.route({
   path: "/u/:username/SKILL.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("skills", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[2];
 
@@ -1524,7 +2752,7 @@ cors.route({
 cors.route({
   path: "/u/:username/:slug/SKILL.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("skills", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[2];
@@ -1566,7 +2794,7 @@ const NO_AGENT_TEXT =
 cors.route({
   path: "/u/:username/llms.txt",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[2];
 
@@ -1599,7 +2827,7 @@ cors.route({
 cors.route({
   path: "/u/:username/llms-full.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[2];
 
@@ -1633,7 +2861,7 @@ cors.route({
 cors.route({
   path: "/:username/llms.txt",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[1];
 
@@ -1666,7 +2894,7 @@ cors.route({
 cors.route({
   path: "/:username/llms-full.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[1];
 
@@ -1700,7 +2928,7 @@ cors.route({
 cors.route({
   path: "/:username/:slug/llms.txt",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[1];
@@ -1736,7 +2964,7 @@ cors.route({
 cors.route({
   path: "/:username/:slug/llms-full.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[1];
@@ -1773,7 +3001,7 @@ cors.route({
 cors.route({
   path: "/u/:username/:slug/llms.txt",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[2];
@@ -1809,7 +3037,7 @@ cors.route({
 cors.route({
   path: "/u/:username/:slug/llms-full.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const pathParts = url.pathname.split("/");
     const username = pathParts[2];
@@ -1846,7 +3074,7 @@ cors.route({
 cors.route({
   path: "/@:username/llms.txt",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     // Extract username after @
     const pathPart = url.pathname.split("/")[1];
@@ -1881,7 +3109,7 @@ cors.route({
 cors.route({
   path: "/@:username/llms-full.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const pathPart = url.pathname.split("/")[1];
     const username = pathPart?.startsWith("@") ? pathPart.slice(1) : pathPart;
@@ -1919,7 +3147,7 @@ cors.route({
 cors.route({
   path: "/:username/sitemap.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[1];
     if (!username) {
@@ -1946,7 +3174,7 @@ cors.route({
 cors.route({
   path: "/api/v1/agents/:username/docs.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[4];
     if (!username) {
@@ -1973,7 +3201,7 @@ cors.route({
 cors.route({
   path: "/api/v1/agents/:username/tools.md",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[4];
     if (!username) {
@@ -2000,7 +3228,7 @@ cors.route({
 cors.route({
   path: "/api/v1/agents/:username/openapi.json",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
+  handler: publicRoute("docs", async (ctx, request) => {
     const url = new URL(request.url);
     const username = url.pathname.split("/")[4];
     if (!username) {
@@ -2040,6 +3268,135 @@ function apiError(
   );
 }
 
+const SSE_POLL_INTERVAL_MS = 250;
+
+function wantsEventStream(request: Request): boolean {
+  return (request.headers.get("Accept") ?? "").includes("text/event-stream");
+}
+
+/**
+ * Run the agent with a streaming record and relay its progress as SSE.
+ * Events: `delta` (appended text), `reset` (text replaced, e.g. a new tool
+ * turn), `status` (tool activity), then `done` with the same JSON body as
+ * the non-streaming route, or `error`.
+ */
+async function streamAgentReply(
+  ctx: ActionCtx,
+  args: {
+    userId: Id<"users">;
+    agentId: Id<"agents">;
+    message: string;
+    callerId: string;
+  }
+): Promise<Response> {
+  const streamId = await ctx.runMutation(internal.functions.streamingMessages.create, {
+    userId: args.userId,
+    agentId: args.agentId,
+  });
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      let settled = false;
+      const run = ctx
+        .runAction(internal.agent.runtime.processMessage, {
+          userId: args.userId,
+          agentId: args.agentId,
+          message: args.message,
+          channel: "api",
+          callerId: args.callerId,
+          streamId,
+        })
+        .then(
+          (result) => ({ ok: true as const, result }),
+          (error: unknown) => ({ ok: false as const, error: String(error) })
+        )
+        .finally(() => {
+          settled = true;
+        });
+
+      let sentContent = "";
+      let sentStatus: string | undefined;
+      const relay = async () => {
+        const stream = await ctx.runQuery(internal.functions.streamingMessages.get, { streamId });
+        if (!stream) return;
+        if (stream.content !== sentContent) {
+          if (stream.content.startsWith(sentContent)) {
+            send("delta", { text: stream.content.slice(sentContent.length) });
+          } else {
+            send("reset", { content: stream.content });
+          }
+          sentContent = stream.content;
+        }
+        if (stream.statusDetail !== sentStatus) {
+          sentStatus = stream.statusDetail;
+          send("status", { detail: sentStatus ?? null });
+        }
+      };
+
+      try {
+        while (!settled) {
+          await new Promise((resolve) => setTimeout(resolve, SSE_POLL_INTERVAL_MS));
+          await relay();
+        }
+
+        const outcome = await run;
+        if (outcome.ok) {
+          await ctx.runMutation(internal.functions.streamingMessages.finish, {
+            streamId,
+            status: "completed",
+            content: outcome.result.response,
+          });
+          send("done", outcome.result);
+        } else {
+          await ctx.runMutation(internal.functions.streamingMessages.finish, {
+            streamId,
+            status: "failed",
+            error: outcome.error,
+          });
+          send("error", { code: "internal_error", message: outcome.error });
+        }
+      } catch (error) {
+        // Relay or finish failed, or the client went away mid-stream
+        const message = String(error);
+        try {
+          await ctx.runMutation(internal.functions.streamingMessages.finish, {
+            streamId,
+            status: "failed",
+            error: message,
+          });
+        } catch (finishError) {
+          console.warn("Failed to finish streaming message:", finishError);
+        }
+        try {
+          send("error", { code: "internal_error", message });
+        } catch {
+          // Stream already closed by the client
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 async function verifyWebhookSignature(
   body: string,
   signature: string
@@ -2196,6 +3553,92 @@ function timingSafeEqualString(a: string, b: string): boolean {
   return mismatch === 0;
 }
 
+// Markup responses use the adapter's content type; null means plain OK
+function phoneResponse(adapter: TelephonyAdapter, markup: string | null): Response {
+  if (markup === null) {
+    return new Response("OK", { status: 200 });
+  }
+  return new Response(markup, { headers: { "Content-Type": adapter.contentType } });
+}
+
+// The URL the provider signed. PHONE_WEBHOOK_BASE_URL overrides the origin
+// when the provider is pointed at a proxy or custom domain instead of the
+// Convex site URL.
+function getPhoneWebhookUrl(request: Request): string {
+  const url = new URL(request.url);
+  const baseUrl = process.env.PHONE_WEBHOOK_BASE_URL?.trim().replace(/\/$/, "");
+  return baseUrl ? `${baseUrl}${url.pathname}${url.search}` : url.toString();
+}
+
+type PhoneAuthorization =
+  | { ok: true; credential: TelephonyCredential }
+  | { ok: false; response: Response };
+
+/**
+ * Check provider, signature, and replay for a phone webhook. Rejections are
+ * logged to the number owner's securityFlags, coalesced per sender.
+ */
+async function authorizePhoneWebhook(
+  ctx: ActionCtx,
+  request: Request,
+  rawBody: string,
+  adapter: TelephonyAdapter,
+  agent: { userId: Id<"users">; phoneConfig?: { provider?: TelephonyProvider } },
+  inbound: { from: string; to: string; content: string; kind: "sms" | "voice" }
+): Promise<PhoneAuthorization> {
+  const reject = async (pattern: string, status: number, message: string) => {
+    await ctx.runMutation(internal.functions.phoneWebhooks.flagRejectedWebhook, {
+      userId: agent.userId,
+      source: `${adapter.provider}_${inbound.kind}`,
+      pattern,
+      from: inbound.from,
+      to: inbound.to,
+      content: inbound.content,
+    });
+    return { ok: false as const, response: new Response(message, { status }) };
+  };
+
+  const numberProvider = agent.phoneConfig?.provider ?? "twilio";
+  if (numberProvider !== adapter.provider) {
+    return await reject(
+      `${adapter.provider}_not_number_provider`,
+      403,
+      "Number is not configured for this provider"
+    );
+  }
+
+  const credential = await ctx.runQuery(internal.functions.phoneWebhooks.getPhoneCredential, {
+    userId: agent.userId,
+    provider: adapter.provider,
+  });
+  if (!credential) {
+    return await reject(
+      `${adapter.provider}_credential_missing`,
+      403,
+      `Number owner has no ${adapter.provider} credential`
+    );
+  }
+
+  const check = await adapter.verifySignature(
+    { url: getPhoneWebhookUrl(request), headers: request.headers, rawBody },
+    credential
+  );
+  if (!check.ok) {
+    return await reject(check.reason, 403, "Invalid signature");
+  }
+
+  const fresh = await ctx.runMutation(internal.functions.phoneWebhooks.claimReceipt, {
+    provider: adapter.provider,
+    key: check.replayKey,
+    signedAt: check.signedAt,
+  });
+  if (!fresh) {
+    return await reject(`${adapter.provider}_replay`, 409, "Duplicate request");
+  }
+
+  return { ok: true, credential };
+}
+
 function normalizeEmailAddress(value?: string): string {
   if (!value) return "";
   const trimmed = value.trim();
@@ -2237,15 +3680,6 @@ function extractEventRecipients(
   return [];
 }
 
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
-}
-
 interface PublicSkill {
   identity: { name: string; bio: string };
   capabilities: Array<{ name: string; description: string }>;
@@ -2278,7 +3712,7 @@ ${skill.knowledgeDomains.join(", ") || "None listed."}
 
 ## Contact
 
-- API: \`POST https://humana.gent/api/v1/agents/${username}/messages\`
+- API: \`POST https://humana.gent/api/v1/agents/${username}/messages\` (send \`Accept: text/event-stream\` to stream)
 - Email: ${username}@humana.gent
 - Agent Page: https://humana.gent/${username}
 `;
@@ -0,0 +1,63 @@
+/**
+ * API key scope vocabulary.
+ *
+ * The scopes a key can be created with, what scopes from keys created before
+ * the vocabulary still grant, and the checks the REST, A2A, and MCP handlers
+ * in convex/http.ts run before doing any work. MCP tools are scoped one by one
+ * as "mcp:tools:<name>", or all at once with "mcp:tools:*".
+ */
+
+export const API_KEY_SCOPES = [
+  "messages:write", // REST messages routes and A2A message/send
+  "tasks:read", // A2A tasks/get and public task resources over MCP
+  "tasks:write", // A2A tasks/cancel
+  "skills:read", // Skill file resource and capability prompts over MCP
+  "memory:read", // Published knowledge node resources over MCP
+  "mcp:tools:*", // Every MCP tool
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const MCP_TOOL_SCOPE_PREFIX = "mcp:tools:";
+const MCP_TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+
+// Scopes from keys created before the vocabulary, and what they still grant
+const LEGACY_SCOPE_GRANTS: Record<string, Array<string>> = {
+  "api:call": ["messages:write", "tasks:read", "tasks:write"],
+  "mcp:call": ["mcp:tools:*", "skills:read", "memory:read", "tasks:read"],
+  admin: [...API_KEY_SCOPES],
+  write: [...API_KEY_SCOPES],
+};
+
+export function mcpToolScope(toolName: string): string {
+  return `${MCP_TOOL_SCOPE_PREFIX}${toolName}`;
+}
+
+function isValidScope(scope: string): boolean {
+  if ((API_KEY_SCOPES as ReadonlyArray<string>).includes(scope)) return true;
+  return (
+    scope.startsWith(MCP_TOOL_SCOPE_PREFIX) &&
+    MCP_TOOL_NAME_PATTERN.test(scope.slice(MCP_TOOL_SCOPE_PREFIX.length))
+  );
+}
+
+// Scopes a new key may not be created with
+export function findInvalidScopes(scopes: Array<string>): Array<string> {
+  return scopes.filter((scope) => !isValidScope(scope));
+}
+
+// The scopes a stored key grants, with legacy scopes expanded
+export function expandScopes(scopes: Array<string>): Array<string> {
+  const granted = new Set<string>();
+  for (const scope of scopes) {
+    for (const grant of LEGACY_SCOPE_GRANTS[scope] ?? [scope]) {
+      granted.add(grant);
+    }
+  }
+  return [...granted];
+}
+
+export function hasScope(granted: Array<string>, required: string): boolean {
+  if (granted.includes(required)) return true;
+  return required.startsWith(MCP_TOOL_SCOPE_PREFIX) && granted.includes("mcp:tools:*");
+}
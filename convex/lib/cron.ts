@@ -0,0 +1,303 @@
+/**
+ * Cron expressions.
+ *
+ * Parses standard 5-field expressions (minute hour day-of-month month
+ * day-of-week) and the common @macros, and finds the next times they fire in
+ * a given IANA timezone. Used by the agent scheduler in convex/crons.ts, by
+ * userSchedules, and by the "next runs" preview in the scheduling UI.
+ *
+ * Day-of-month and day-of-week follow Vixie cron: when both are restricted
+ * (neither starts with "*"), a day matches if either one does. Wall times that
+ * a DST change skips do not fire; wall times it repeats fire once, at the
+ * earlier instant.
+ */
+
+// Onboarding default, used when neither the schedule nor the agent has one
+export const DEFAULT_SCHEDULE_TIMEZONE = "America/Los_Angeles";
+
+export const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+export type CronSchedule = {
+  minutes: Array<number>;
+  hours: Array<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+type FieldSpec = {
+  name: string;
+  min: number;
+  max: number;
+  names?: Array<string>;
+};
+
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: "month",
+  min: 1,
+  max: 12,
+  names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+};
+// 7 is accepted as Sunday and folded to 0 after parsing
+const DAY_OF_WEEK: FieldSpec = {
+  name: "day-of-week",
+  min: 0,
+  max: 7,
+  names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Far enough for expressions like "0 0 29 2 *" that only fire in leap years
+const MAX_SEARCH_DAYS = 8 * 366;
+
+function parseValue(raw: string, field: FieldSpec): number {
+  const lower = raw.toLowerCase();
+  const named = field.names?.indexOf(lower) ?? -1;
+  const value = named >= 0 ? named + field.min : /^\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid ${field.name} value "${raw}" (allowed ${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [range, stepRaw, extra] = part.split("/");
+    if (!range || extra !== undefined) {
+      throw new Error(`Invalid ${field.name} field "${raw}"`);
+    }
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      step = /^\d+$/.test(stepRaw) ? Number(stepRaw) : 0;
+      if (step < 1) {
+        throw new Error(`Invalid ${field.name} step "${stepRaw}"`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to, rest] = range.split("-");
+      if (!from || !to || rest !== undefined) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}": start is after end`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepRaw !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse an expression into the values each field matches. Throws an Error
+ * with a readable message when the expression is not valid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  if (!trimmed) {
+    throw new Error("Cron expression is empty");
+  }
+
+  const expanded = trimmed.startsWith("@") ? CRON_MACROS[trimmed.toLowerCase()] : trimmed;
+  if (!expanded) {
+    throw new Error(
+      `Unknown cron macro "${trimmed}". Use one of ${Object.keys(CRON_MACROS).join(", ")}`
+    );
+  }
+
+  const [minuteRaw, hourRaw, dayOfMonthRaw, monthRaw, dayOfWeekRaw, ...extra] =
+    expanded.split(/\s+/);
+  if (!minuteRaw || !hourRaw || !dayOfMonthRaw || !monthRaw || !dayOfWeekRaw || extra.length > 0) {
+    throw new Error(
+      "Cron expressions need 5 fields: minute hour day-of-month month day-of-week"
+    );
+  }
+
+  const minutes = parseField(minuteRaw, MINUTE);
+  const hours = parseField(hourRaw, HOUR);
+  const daysOfMonth = parseField(dayOfMonthRaw, DAY_OF_MONTH);
+  const months = parseField(monthRaw, MONTH);
+  const daysOfWeek = parseField(dayOfWeekRaw, DAY_OF_WEEK);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonthRaw.startsWith("*"),
+    dayOfWeekRestricted: !dayOfWeekRaw.startsWith("*"),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reason the expression or timezone cannot be scheduled, or null when it is
+ * fine. Expressions that parse but never fire (such as "0 0 31 2 *") are
+ * rejected too.
+ */
+export function validateCronExpression(expression: string, timeZone: string): string | null {
+  if (!isValidTimeZone(timeZone)) {
+    return `Unknown timezone "${timeZone}"`;
+  }
+  try {
+    parseCronExpression(expression);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  if (nextCronOccurrences(expression, timeZone, Date.now(), 1).length === 0) {
+    return "Cron expression never runs";
+  }
+  return null;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// The local wall-clock time at `instant`, encoded as if it were UTC
+function toWallTime(instant: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return Date.UTC(
+    field("year"),
+    field("month") - 1,
+    field("day"),
+    field("hour"),
+    field("minute"),
+    field("second")
+  );
+}
+
+function utcOffset(instant: number, timeZone: string): number {
+  return toWallTime(instant, timeZone) - Math.floor(instant / 1000) * 1000;
+}
+
+function matchesDay(schedule: CronSchedule, wallDay: number): boolean {
+  const date = new Date(wallDay);
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * The next `count` instants (epoch ms) strictly after `after` at which the
+ * expression fires in `timeZone`. Returns fewer when the expression runs out
+ * within the search window, and none for an invalid expression or timezone.
+ */
+export function nextCronOccurrences(
+  expression: string,
+  timeZone: string,
+  after: number,
+  count: number
+): Array<number> {
+  let schedule: CronSchedule;
+  try {
+    schedule = parseCronExpression(expression);
+  } catch {
+    return [];
+  }
+  if (!isValidTimeZone(timeZone) || count < 1) return [];
+
+  const startWall = toWallTime(after, timeZone);
+  const firstDay = startWall - (startWall % DAY_MS);
+  const results: Array<number> = [];
+
+  for (let dayIndex = 0; dayIndex < MAX_SEARCH_DAYS; dayIndex++) {
+    const wallDay = firstDay + dayIndex * DAY_MS;
+    if (!matchesDay(schedule, wallDay)) continue;
+
+    // Offsets either side of the day; they differ only around a DST change
+    const offsetBefore = utcOffset(wallDay - DAY_MS / 2, timeZone);
+    const offsetAfter = utcOffset(wallDay + DAY_MS + DAY_MS / 2, timeZone);
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const wall = wallDay + hour * 60 * 60 * 1000 + minute * 60 * 1000;
+        let instant: number | null = wall - offsetBefore;
+        if (offsetBefore !== offsetAfter) {
+          // Keep the earlier instant that shows this wall time; none means
+          // the time falls in a DST gap
+          const candidates = [wall - offsetBefore, wall - offsetAfter].filter(
+            (candidate) => toWallTime(candidate, timeZone) === wall
+          );
+          instant = candidates.length > 0 ? Math.min(...candidates) : null;
+        }
+        if (instant === null || instant <= after) continue;
+
+        results.push(instant);
+        if (results.length >= count) return results;
+      }
+    }
+  }
+
+  return results;
+}
+
+// The next instant after `after`, or null when there is none
+export function nextCronRun(expression: string, timeZone: string, after: number): number | null {
+  return nextCronOccurrences(expression, timeZone, after, 1)[0] ?? null;
+}
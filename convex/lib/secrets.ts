@@ -0,0 +1,323 @@
+/**
+ * Secret sealing helpers.
+ *
+ * AES-256-GCM envelope encryption for credentials stored at rest in
+ * userCredentials, connectedApps, and a2aRemoteAgents. Each user has a random
+ * data key in userDataKeys, wrapped by a deployment master key from the
+ * SECRETS_MASTER_KEYS env var ("<version>:<base64 32 byte key>", comma
+ * separated; the highest version wraps new data keys).
+ *
+ * Sealed values look like "enc2:<dataKeyVersion>:<iv>:<ciphertext>", with the
+ * user id, table, row id, and field bound as GCM additional data. "enc1:"
+ * values bound only the user id, and values without a prefix are the old
+ * base64 encoding; both still open until functions/secrets:migrateLegacySecrets
+ * has resealed them.
+ */
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+type SecretsCtx = QueryCtx | MutationCtx;
+
+const SEALED_PREFIX = "enc2:";
+const USER_BOUND_PREFIX = "enc1:";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function aesEncrypt(
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  additionalData: string
+): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(additionalData) },
+    key,
+    plaintext
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function aesDecrypt(
+  key: CryptoKey,
+  iv: string,
+  ciphertext: string,
+  additionalData: string
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv), additionalData: encoder.encode(additionalData) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new Uint8Array(plaintext);
+}
+
+// ============================================================
+// Master keys
+// ============================================================
+
+/**
+ * Parse SECRETS_MASTER_KEYS into raw keys by version. Throws if the variable
+ * is missing or malformed, so nothing is ever sealed with a weak key.
+ */
+function getMasterKeys(): { current: number; keys: Map<number, Uint8Array> } {
+  const raw = process.env.SECRETS_MASTER_KEYS ?? "";
+  const keys = new Map<number, Uint8Array>();
+  for (const entry of raw.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.indexOf(":");
+    const version = Number(trimmed.slice(0, separator));
+    if (separator <= 0 || !Number.isInteger(version) || version < 1) {
+      throw new Error("SECRETS_MASTER_KEYS entries must look like <version>:<base64 key>");
+    }
+    const key = fromBase64(trimmed.slice(separator + 1));
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`SECRETS_MASTER_KEYS version ${version} must be a 32 byte key`);
+    }
+    keys.set(version, key);
+  }
+  if (keys.size === 0) {
+    throw new Error("SECRETS_MASTER_KEYS is not configured");
+  }
+  return { current: Math.max(...keys.keys()), keys };
+}
+
+export function getCurrentMasterKeyVersion(): number {
+  return getMasterKeys().current;
+}
+
+async function getMasterKey(version: number): Promise<CryptoKey> {
+  const raw = getMasterKeys().keys.get(version);
+  if (!raw) {
+    throw new Error(`Master key version ${version} is not in SECRETS_MASTER_KEYS`);
+  }
+  return await importAesKey(raw);
+}
+
+/**
+ * Wrap a raw data key with the current master key. The user id is bound as
+ * additional data so a wrapped key cannot be moved to another user.
+ */
+export async function wrapDataKey(
+  userId: Id<"users">,
+  rawKey: Uint8Array
+): Promise<{ wrappedKey: string; masterKeyVersion: number }> {
+  const masterKeyVersion = getCurrentMasterKeyVersion();
+  const masterKey = await getMasterKey(masterKeyVersion);
+  const { iv, ciphertext } = await aesEncrypt(masterKey, rawKey, userId);
+  return { wrappedKey: `${iv}:${ciphertext}`, masterKeyVersion };
+}
+
+async function unwrapDataKey(row: Doc<"userDataKeys">): Promise<Uint8Array> {
+  const masterKey = await getMasterKey(row.masterKeyVersion);
+  const [iv = "", ciphertext = ""] = row.wrappedKey.split(":");
+  return await aesDecrypt(masterKey, iv, ciphertext, row.userId);
+}
+
+/**
+ * Rewrap an existing data key row under the current master key.
+ */
+export async function rewrapDataKey(
+  row: Doc<"userDataKeys">
+): Promise<{ wrappedKey: string; masterKeyVersion: number }> {
+  return await wrapDataKey(row.userId, await unwrapDataKey(row));
+}
+
+// ============================================================
+// Data keys
+// ============================================================
+
+type DataKey = { version: number; key: CryptoKey };
+
+async function getLatestDataKeyRow(
+  ctx: SecretsCtx,
+  userId: Id<"users">
+): Promise<Doc<"userDataKeys"> | null> {
+  return await ctx.db
+    .query("userDataKeys")
+    .withIndex("by_userId_version", (q) => q.eq("userId", userId))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Add a new data key version for a user. New secrets are sealed with it;
+ * older versions stay readable until the user's rows are resealed.
+ */
+export async function createDataKey(
+  ctx: MutationCtx,
+  userId: Id<"users">
+): Promise<DataKey> {
+  const latest = await getLatestDataKeyRow(ctx, userId);
+  const version = (latest?.version ?? 0) + 1;
+  const rawKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const wrapped = await wrapDataKey(userId, rawKey);
+  await ctx.db.insert("userDataKeys", {
+    userId,
+    version,
+    ...wrapped,
+    createdAt: Date.now(),
+  });
+  return { version, key: await importAesKey(rawKey) };
+}
+
+/**
+ * The user's newest data key version, or null if they have none yet.
+ */
+export async function getCurrentDataKeyVersion(
+  ctx: SecretsCtx,
+  userId: Id<"users">
+): Promise<number | null> {
+  const latest = await getLatestDataKeyRow(ctx, userId);
+  return latest?.version ?? null;
+}
+
+async function getSealingKey(ctx: MutationCtx, userId: Id<"users">): Promise<DataKey> {
+  const latest = await getLatestDataKeyRow(ctx, userId);
+  if (!latest) {
+    return await createDataKey(ctx, userId);
+  }
+  return { version: latest.version, key: await importAesKey(await unwrapDataKey(latest)) };
+}
+
+async function getOpeningKey(
+  ctx: SecretsCtx,
+  userId: Id<"users">,
+  version: number
+): Promise<CryptoKey> {
+  const row = await ctx.db
+    .query("userDataKeys")
+    .withIndex("by_userId_version", (q) => q.eq("userId", userId).eq("version", version))
+    .unique();
+  if (!row) {
+    throw new Error(`Data key version ${version} not found`);
+  }
+  return await importAesKey(await unwrapDataKey(row));
+}
+
+// ============================================================
+// Sealing
+// ============================================================
+
+/**
+ * The row and field a sealed value is stored in. Sealing binds it, so a
+ * value copied to another row, field, or table does not open.
+ */
+export type SecretSlot =
+  | {
+      table: "userCredentials";
+      id: Id<"userCredentials">;
+      field: "encryptedApiKey" | "encryptedAccessToken" | "encryptedRefreshToken";
+    }
+  | {
+      table: "connectedApps";
+      id: Id<"connectedApps">;
+      field: "encryptedAccessToken" | "encryptedRefreshToken";
+    }
+  | { table: "a2aRemoteAgents"; id: Id<"a2aRemoteAgents">; field: "encryptedToken" };
+
+// Slot of a userCredentials API key, the most common sealed value
+export function apiKeySlot(id: Id<"userCredentials">): SecretSlot {
+  return { table: "userCredentials", id, field: "encryptedApiKey" };
+}
+
+function slotData(userId: Id<"users">, slot: SecretSlot): string {
+  return `${userId}:${slot.table}:${slot.id}:${slot.field}`;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX) || value.startsWith(USER_BOUND_PREFIX);
+}
+
+// True for "enc1:" values, which are bound to the user but not to their slot
+export function isUserBoundOnly(value: string): boolean {
+  return value.startsWith(USER_BOUND_PREFIX);
+}
+
+/**
+ * The data key version a sealed value was encrypted with, or null for legacy
+ * base64 values.
+ */
+export function getSealedKeyVersion(value: string): number | null {
+  if (!isSealed(value)) return null;
+  const version = Number(value.slice(SEALED_PREFIX.length).split(":")[0]);
+  return Number.isInteger(version) ? version : null;
+}
+
+/**
+ * Encrypt a secret for `slot` with the user's current data key, creating the
+ * key on first use. A new row has no id yet, so insert it first and patch the
+ * sealed value in.
+ */
+export async function sealSecret(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  slot: SecretSlot,
+  plaintext: string
+): Promise<string> {
+  const dataKey = await getSealingKey(ctx, userId);
+  const { iv, ciphertext } = await aesEncrypt(
+    dataKey.key,
+    encoder.encode(plaintext),
+    slotData(userId, slot)
+  );
+  return `${SEALED_PREFIX}${dataKey.version}:${iv}:${ciphertext}`;
+}
+
+/**
+ * Decrypt a secret stored in `slot`. "enc1:" values open with the user id
+ * alone, legacy base64 values are decoded as before, and values that are not
+ * valid base64 are returned unchanged.
+ */
+export async function openSecret(
+  ctx: SecretsCtx,
+  userId: Id<"users">,
+  slot: SecretSlot,
+  stored: string
+): Promise<string> {
+  if (!isSealed(stored)) {
+    try {
+      return atob(stored);
+    } catch {
+      return stored;
+    }
+  }
+
+  const [version = "", iv = "", ciphertext = ""] = stored
+    .slice(SEALED_PREFIX.length)
+    .split(":");
+  const key = await getOpeningKey(ctx, userId, Number(version));
+  const additionalData = isUserBoundOnly(stored) ? userId : slotData(userId, slot);
+  try {
+    return decoder.decode(await aesDecrypt(key, iv, ciphertext, additionalData));
+  } catch {
+    throw new Error("Failed to decrypt stored secret");
+  }
+}
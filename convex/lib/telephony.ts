@@ -0,0 +1,571 @@
+/**
+ * Telephony adapters.
+ *
+ * One adapter per phone provider behind a shared interface: parse inbound
+ * SMS and voice turns, verify webhook signatures, build the response markup,
+ * send outbound SMS, and place outbound calls. convex/http.ts mounts
+ * /webhooks/<provider>/sms and /webhooks/<provider>/voice for every adapter,
+ * and agents.phoneConfig.provider says which provider owns an agent's number.
+ *
+ * - Twilio: form posts, TwiML, HMAC-SHA1 X-Twilio-Signature
+ * - Telnyx: JSON messaging webhooks, TeXML voice, Ed25519 signatures. No
+ *   outbound calls, which need a TeXML application id
+ * - Plivo: form posts, Plivo XML, HMAC-SHA256 X-Plivo-Signature-V3
+ */
+
+export type TelephonyProvider = "twilio" | "telnyx" | "plivo";
+
+export const TELEPHONY_PROVIDERS: Array<TelephonyProvider> = ["twilio", "telnyx", "plivo"];
+
+// Fields a provider needs; which are set depends on the provider
+export type TelephonyCredential = {
+  accountId?: string; // Twilio Account SID, Plivo Auth ID
+  authToken?: string; // Twilio and Plivo auth token, also signs webhooks
+  apiKey?: string; // Telnyx API key
+  publicKey?: string; // Telnyx webhook public key (base64 Ed25519)
+};
+
+export type InboundSms = {
+  from: string;
+  to: string;
+  text: string;
+  messageId?: string;
+};
+
+export type InboundVoiceTurn = {
+  from: string;
+  to: string;
+  speech?: string; // Empty on the first turn of a call
+  callId?: string;
+};
+
+export type WebhookRequest = {
+  url: string; // The URL the provider signed
+  headers: Headers;
+  rawBody: string;
+};
+
+export type SignatureCheck =
+  | { ok: true; replayKey: string; signedAt?: number } // signedAt: signed request time in ms, if the provider signs one
+  | { ok: false; reason: string };
+
+// Text to speak, with synthesized audio to play instead when available
+export type Spoken = {
+  text: string;
+  audioUrl?: string;
+};
+
+export type VoiceResponse = {
+  say?: Spoken; // Agent reply for this turn
+  prompt: Spoken; // Spoken while listening for the caller
+  goodbye: Spoken; // Spoken if the caller stays silent
+  voice?: string; // Provider voice for <Say> fallback
+  actionUrl: string; // Where the next speech turn is posted
+};
+
+export interface TelephonyAdapter {
+  provider: TelephonyProvider;
+  contentType: string;
+  parseSms(rawBody: string): InboundSms | null;
+  parseVoiceTurn(rawBody: string): InboundVoiceTurn | null;
+  verifySignature(
+    request: WebhookRequest,
+    credential: TelephonyCredential
+  ): Promise<SignatureCheck>;
+  // Markup that replies in the webhook response, or null when the provider
+  // needs the reply sent with sendSms instead
+  buildSmsReply(text: string, sms?: InboundSms): string | null;
+  buildVoiceResponse(response: VoiceResponse): string;
+  buildHangup(message: Spoken): string;
+  // Start a call that fetches its markup from answerUrl. Missing when the
+  // provider needs setup the stored credential does not carry.
+  placeCall?(
+    credential: TelephonyCredential,
+    call: { from: string; to: string; answerUrl: string }
+  ): Promise<{ callId?: string }>;
+  sendSms(
+    credential: TelephonyCredential,
+    message: { from: string; to: string; text: string }
+  ): Promise<{ messageId?: string }>;
+}
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+// ============================================================
+// Shared helpers
+// ============================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function parseForm(rawBody: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  new URLSearchParams(rawBody).forEach((value, key) => {
+    params[key] = value;
+  });
+  return params;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+async function hmacBase64(
+  hash: "SHA-1" | "SHA-256",
+  secret: string,
+  content: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(content));
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+// Concatenate POST params as name + value, sorted by name
+function sortedParamString(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map((key) => `${key}${params[key]}`)
+    .join("");
+}
+
+async function postProviderApi(
+  url: string,
+  init: { headers: Record<string, string>; body: string },
+  provider: TelephonyProvider
+): Promise<Record<string, unknown>> {
+  const response = await fetch(url, { method: "POST", ...init });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${provider} API request failed (${response.status}): ${text.slice(0, 300)}`);
+  }
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+// TwiML and TeXML share the same verbs; audio plays instead of <Say>
+function twimlSpeak(spoken: Spoken, sayAttributes = ""): string {
+  return spoken.audioUrl
+    ? `<Play>${escapeXml(spoken.audioUrl)}</Play>`
+    : `<Say${sayAttributes}>${escapeXml(spoken.text)}</Say>`;
+}
+
+function buildTwimlVoiceResponse(
+  response: VoiceResponse,
+  sayAttributes: string
+): string {
+  const speak = (spoken: Spoken) => twimlSpeak(spoken, sayAttributes);
+  return `${XML_HEADER}<Response>${response.say ? speak(response.say) : ""}<Gather input="speech" timeout="5" speechTimeout="auto" action="${escapeXml(response.actionUrl)}">${speak(response.prompt)}</Gather>${speak(response.goodbye)}<Hangup/></Response>`;
+}
+
+// ============================================================
+// Twilio
+// ============================================================
+
+const twilioAdapter: TelephonyAdapter = {
+  provider: "twilio",
+  contentType: "application/xml",
+
+  parseSms(rawBody) {
+    const params = parseForm(rawBody);
+    if (!params.From || !params.To || !params.Body) return null;
+    return {
+      from: params.From,
+      to: params.To,
+      text: params.Body,
+      messageId: params.MessageSid ?? params.SmsSid,
+    };
+  },
+
+  parseVoiceTurn(rawBody) {
+    const params = parseForm(rawBody);
+    if (!params.To) return null;
+    return {
+      from: params.From ?? "",
+      to: params.To,
+      speech: params.SpeechResult || undefined,
+      callId: params.CallSid,
+    };
+  },
+
+  async verifySignature(request, credential) {
+    const signature = request.headers.get("x-twilio-signature")?.trim();
+    if (!signature) return { ok: false, reason: "missing_twilio_signature" };
+    if (!credential.authToken) return { ok: false, reason: "twilio_credential_missing" };
+
+    const params = parseForm(request.rawBody);
+    if (credential.accountId && params.AccountSid && params.AccountSid !== credential.accountId) {
+      return { ok: false, reason: "twilio_account_mismatch" };
+    }
+
+    const expected = await hmacBase64(
+      "SHA-1",
+      credential.authToken,
+      request.url + sortedParamString(params)
+    );
+    if (!timingSafeEqual(expected, signature)) {
+      return { ok: false, reason: "invalid_twilio_signature" };
+    }
+
+    // A replayed request carries the same SID and signature
+    const sid = params.MessageSid ?? params.SmsSid ?? params.CallSid ?? "";
+    return { ok: true, replayKey: `${sid}:${signature}` };
+  },
+
+  buildSmsReply(text) {
+    return `${XML_HEADER}<Response><Message>${escapeXml(text)}</Message></Response>`;
+  },
+
+  buildVoiceResponse(response) {
+    return buildTwimlVoiceResponse(
+      response,
+      response.voice ? ` voice="Polly.${escapeXml(response.voice)}"` : ""
+    );
+  },
+
+  buildHangup(message) {
+    return `${XML_HEADER}<Response>${twimlSpeak(message)}<Hangup/></Response>`;
+  },
+
+  async sendSms(credential, message) {
+    if (!credential.accountId || !credential.authToken) {
+      throw new Error("Twilio credential must be saved as ACCOUNT_SID:AUTH_TOKEN");
+    }
+    const result = await postProviderApi(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(credential.accountId)}/Messages.json`,
+      {
+        headers: {
+          Authorization: `Basic ${btoa(`${credential.accountId}:${credential.authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          From: message.from,
+          To: message.to,
+          Body: message.text,
+        }).toString(),
+      },
+      "twilio"
+    );
+    return { messageId: typeof result.sid === "string" ? result.sid : undefined };
+  },
+
+  async placeCall(credential, call) {
+    if (!credential.accountId || !credential.authToken) {
+      throw new Error("Twilio credential must be saved as ACCOUNT_SID:AUTH_TOKEN");
+    }
+    const result = await postProviderApi(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(credential.accountId)}/Calls.json`,
+      {
+        headers: {
+          Authorization: `Basic ${btoa(`${credential.accountId}:${credential.authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          From: call.from,
+          To: call.to,
+          Url: call.answerUrl,
+          Method: "POST",
+        }).toString(),
+      },
+      "twilio"
+    );
+    return { callId: typeof result.sid === "string" ? result.sid : undefined };
+  },
+};
+
+// ============================================================
+// Telnyx
+// ============================================================
+
+type TelnyxMessageEvent = {
+  data?: {
+    event_type?: string;
+    payload?: {
+      id?: string;
+      text?: string;
+      from?: { phone_number?: string };
+      to?: Array<{ phone_number?: string }>;
+    };
+  };
+};
+
+const telnyxAdapter: TelephonyAdapter = {
+  provider: "telnyx",
+  contentType: "application/xml",
+
+  // Messaging webhooks are JSON events; only inbound messages count
+  parseSms(rawBody) {
+    let event: TelnyxMessageEvent;
+    try {
+      event = JSON.parse(rawBody) as TelnyxMessageEvent;
+    } catch {
+      return null;
+    }
+    const payload = event.data?.payload;
+    const from = payload?.from?.phone_number;
+    const to = payload?.to?.[0]?.phone_number;
+    if (event.data?.event_type !== "message.received" || !from || !to || !payload?.text) {
+      return null;
+    }
+    return { from, to, text: payload.text, messageId: payload.id };
+  },
+
+  // TeXML voice webhooks use Twilio-compatible form fields
+  parseVoiceTurn(rawBody) {
+    const params = parseForm(rawBody);
+    if (!params.To) return null;
+    return {
+      from: params.From ?? "",
+      to: params.To,
+      speech: params.SpeechResult || undefined,
+      callId: params.CallSid,
+    };
+  },
+
+  async verifySignature(request, credential) {
+    const signature = request.headers.get("telnyx-signature-ed25519")?.trim();
+    const timestamp = request.headers.get("telnyx-timestamp")?.trim();
+    if (!signature || !timestamp) return { ok: false, reason: "missing_telnyx_signature" };
+    if (!credential.publicKey) return { ok: false, reason: "telnyx_credential_missing" };
+
+    const timestampSeconds = Number.parseInt(timestamp, 10);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (
+      Number.isNaN(timestampSeconds) ||
+      Math.abs(nowSeconds - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      return { ok: false, reason: "stale_telnyx_timestamp" };
+    }
+
+    const publicKey = base64ToBytes(credential.publicKey);
+    const signatureBytes = base64ToBytes(signature);
+    if (!publicKey || !signatureBytes) {
+      return { ok: false, reason: "invalid_telnyx_signature" };
+    }
+
+    try {
+      const key = await crypto.subtle.importKey("raw", publicKey, { name: "Ed25519" }, false, [
+        "verify",
+      ]);
+      const valid = await crypto.subtle.verify(
+        { name: "Ed25519" },
+        key,
+        signatureBytes,
+        new TextEncoder().encode(`${timestamp}|${request.rawBody}`)
+      );
+      if (!valid) return { ok: false, reason: "invalid_telnyx_signature" };
+    } catch {
+      return { ok: false, reason: "invalid_telnyx_signature" };
+    }
+
+    return { ok: true, replayKey: `${timestamp}:${signature}`, signedAt: timestampSeconds * 1000 };
+  },
+
+  // Telnyx messaging does not read replies from the webhook response
+  buildSmsReply() {
+    return null;
+  },
+
+  buildVoiceResponse(response) {
+    return buildTwimlVoiceResponse(response, "");
+  },
+
+  buildHangup(message) {
+    return `${XML_HEADER}<Response>${twimlSpeak(message)}<Hangup/></Response>`;
+  },
+
+  async sendSms(credential, message) {
+    if (!credential.apiKey) {
+      throw new Error("Telnyx credential must include an API key");
+    }
+    const result = await postProviderApi(
+      "https://api.telnyx.com/v2/messages",
+      {
+        headers: {
+          Authorization: `Bearer ${credential.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ from: message.from, to: message.to, text: message.text }),
+      },
+      "telnyx"
+    );
+    const data = result.data as { id?: unknown } | undefined;
+    return { messageId: typeof data?.id === "string" ? data.id : undefined };
+  },
+};
+
+// ============================================================
+// Plivo
+// ============================================================
+
+// Signature V3 base: URL with sorted query params, then the sorted POST
+// params as name + value, then "." and the nonce
+function buildPlivoSignedContent(url: string, params: Record<string, string>, nonce: string) {
+  const parsed = new URL(url);
+  const pairs: Array<[string, string]> = [];
+  parsed.searchParams.forEach((value, key) => pairs.push([key, value]));
+  const query = pairs
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const base = `${parsed.origin}${parsed.pathname}${query ? `?${query}` : ""}`;
+  return `${base}${sortedParamString(params)}.${nonce}`;
+}
+
+function plivoSpeak(spoken: Spoken): string {
+  return spoken.audioUrl
+    ? `<Play>${escapeXml(spoken.audioUrl)}</Play>`
+    : `<Speak>${escapeXml(spoken.text)}</Speak>`;
+}
+
+const plivoAdapter: TelephonyAdapter = {
+  provider: "plivo",
+  contentType: "application/xml",
+
+  parseSms(rawBody) {
+    const params = parseForm(rawBody);
+    if (!params.From || !params.To || !params.Text) return null;
+    return {
+      from: params.From,
+      to: params.To,
+      text: params.Text,
+      messageId: params.MessageUUID,
+    };
+  },
+
+  parseVoiceTurn(rawBody) {
+    const params = parseForm(rawBody);
+    if (!params.To) return null;
+    return {
+      from: params.From ?? "",
+      to: params.To,
+      speech: params.Speech || undefined,
+      callId: params.CallUUID,
+    };
+  },
+
+  async verifySignature(request, credential) {
+    const header = request.headers.get("x-plivo-signature-v3")?.trim();
+    const nonce = request.headers.get("x-plivo-signature-v3-nonce")?.trim();
+    if (!header || !nonce) return { ok: false, reason: "missing_plivo_signature" };
+    if (!credential.authToken) return { ok: false, reason: "plivo_credential_missing" };
+
+    const expected = await hmacBase64(
+      "SHA-256",
+      credential.authToken,
+      buildPlivoSignedContent(request.url, parseForm(request.rawBody), nonce)
+    );
+    const provided = header.split(",").map((value) => value.trim());
+    if (!provided.some((candidate) => timingSafeEqual(expected, candidate))) {
+      return { ok: false, reason: "invalid_plivo_signature" };
+    }
+
+    return { ok: true, replayKey: nonce };
+  },
+
+  buildSmsReply(text, sms) {
+    if (!sms) return `${XML_HEADER}<Response></Response>`;
+    return `${XML_HEADER}<Response><Message src="${escapeXml(sms.to)}" dst="${escapeXml(sms.from)}">${escapeXml(text)}</Message></Response>`;
+  },
+
+  buildVoiceResponse(response) {
+    return `${XML_HEADER}<Response>${response.say ? plivoSpeak(response.say) : ""}<GetInput action="${escapeXml(response.actionUrl)}" method="POST" inputType="speech">${plivoSpeak(response.prompt)}</GetInput>${plivoSpeak(response.goodbye)}<Hangup/></Response>`;
+  },
+
+  buildHangup(message) {
+    return `${XML_HEADER}<Response>${plivoSpeak(message)}<Hangup/></Response>`;
+  },
+
+  async sendSms(credential, message) {
+    if (!credential.accountId || !credential.authToken) {
+      throw new Error("Plivo credential must be saved as AUTH_ID:AUTH_TOKEN");
+    }
+    const result = await postProviderApi(
+      `https://api.plivo.com/v1/Account/${encodeURIComponent(credential.accountId)}/Message/`,
+      {
+        headers: {
+          Authorization: `Basic ${btoa(`${credential.accountId}:${credential.authToken}`)}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ src: message.from, dst: message.to, text: message.text }),
+      },
+      "plivo"
+    );
+    const uuids = result.message_uuid;
+    return {
+      messageId: Array.isArray(uuids) && typeof uuids[0] === "string" ? uuids[0] : undefined,
+    };
+  },
+
+  async placeCall(credential, call) {
+    if (!credential.accountId || !credential.authToken) {
+      throw new Error("Plivo credential must be saved as AUTH_ID:AUTH_TOKEN");
+    }
+    const result = await postProviderApi(
+      `https://api.plivo.com/v1/Account/${encodeURIComponent(credential.accountId)}/Call/`,
+      {
+        headers: {
+          Authorization: `Basic ${btoa(`${credential.accountId}:${credential.authToken}`)}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: call.from,
+          to: call.to,
+          answer_url: call.answerUrl,
+          answer_method: "POST",
+        }),
+      },
+      "plivo"
+    );
+    return {
+      callId: typeof result.request_uuid === "string" ? result.request_uuid : undefined,
+    };
+  },
+};
+
+export const TELEPHONY_ADAPTERS: Record<TelephonyProvider, TelephonyAdapter> = {
+  twilio: twilioAdapter,
+  telnyx: telnyxAdapter,
+  plivo: plivoAdapter,
+};
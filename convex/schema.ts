@@ -15,6 +15,13 @@ const llmProviderValidator = v.union(
   v.literal("custom")
 );
 
+// Security policy channel strictness
+const strictnessValidator = v.union(
+  v.literal("relaxed"),
+  v.literal("standard"),
+  v.literal("strict")
+);
+
 export default defineSchema({
   // App-level users linked to auth component via authUserId
   users: defineTable({
@@ -94,10 +101,19 @@ export default defineSchema({
     // Phone configuration (Twilio + ElevenLabs)
     phoneConfig: v.optional(
       v.object({
+        // Provider that owns agentPhone; webhooks from others are rejected
+        provider: v.optional(
+          v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo"))
+        ), // Defaults to twilio
         voiceEnabled: v.boolean(), // Can receive voice calls
         smsEnabled: v.boolean(), // Can receive/send SMS
         transcribeVoicemail: v.boolean(), // Auto-transcribe voicemails
         language: v.optional(v.string()), // Primary language (e.g., "en-US")
+        // Numbers send_sms and place_call may reach; none when unset
+        outboundAllowList: v.optional(v.array(v.string())),
+        // "HH:MM" local window (communicationPrefs.timezone) with no outbound
+        // SMS or calls; defaults to 21:00-08:00
+        quietHours: v.optional(v.object({ start: v.string(), end: v.string() })),
       })
     ),
     // ElevenLabs voice configuration
@@ -143,6 +159,7 @@ export default defineSchema({
           v.literal("cron") // Runs on a schedule
         ),
         cronSpec: v.optional(v.string()), // e.g., "0 9 * * *" for daily at 9am
+        timezone: v.optional(v.string()), // IANA zone cronSpec is read in
         intervalMinutes: v.optional(v.number()), // For interval-based scheduling
         isActive: v.boolean(), // Whether scheduling is enabled
         lastRun: v.optional(v.number()), // Timestamp of last run
@@ -191,6 +208,13 @@ export default defineSchema({
         promptPrefix: v.optional(v.string()),
       })
     ),
+    // Action types that wait in the approvals inbox before they run
+    approvalGates: v.optional(
+      v.object({
+        actionTypes: v.array(v.string()), // Runtime action types, e.g. "call_tool"
+        timeoutMinutes: v.number(), // Pending requests expire after this long
+      })
+    ),
     // Supermemory configuration for personalized context
     supermemoryConfig: v.optional(
       v.object({
@@ -303,7 +327,7 @@ export default defineSchema({
       v.literal("symphony"), // Symphony bridge for isolated implementation runs
       v.literal("custom")
     ),
-    // Encrypted API key (never stored in plaintext)
+    // Sealed API key (never stored in plaintext, see convex/lib/secrets.ts)
     encryptedApiKey: v.optional(v.string()),
     // Additional config (e.g., custom endpoint URL)
     config: v.optional(
@@ -326,6 +350,19 @@ export default defineSchema({
     .index("by_userId", ["userId"])
     .index("by_userId_service", ["userId", "service"]),
 
+  // User Data Keys: Per-user AES-256-GCM keys that seal stored secrets,
+  // wrapped by a deployment master key (see convex/lib/secrets.ts)
+  userDataKeys: defineTable({
+    userId: v.id("users"),
+    version: v.number(), // Increments on rotation; sealed values carry it
+    wrappedKey: v.string(),
+    masterKeyVersion: v.number(), // SECRETS_MASTER_KEYS version used to wrap
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_version", ["userId", "version"])
+    .index("by_masterKeyVersion", ["masterKeyVersion"]),
+
   // Skills: Can be linked to multiple agents via skillAgents junction table
   skills: defineTable({
     userId: v.id("users"),
@@ -359,6 +396,32 @@ export default defineSchema({
         name: v.string(),
         description: v.string(),
         inputSchema: v.optional(v.any()),
+        // Concrete handler for MCP tools/call. Unbound tools are delegated to the agent.
+        binding: v.optional(
+          v.union(
+            v.object({ type: v.literal("composio"), action: v.string() }),
+            v.object({
+              type: v.literal("daytona"),
+              command: v.string(), // {{arg}} placeholders are shell-quoted
+              workdir: v.optional(v.string()),
+              timeoutMs: v.optional(v.number()),
+            }),
+            v.object({
+              type: v.literal("http"),
+              url: v.string(), // https only, {{arg}} placeholders are URL-encoded
+              method: v.union(
+                v.literal("GET"),
+                v.literal("POST"),
+                v.literal("PUT"),
+                v.literal("PATCH"),
+                v.literal("DELETE")
+              ),
+              headers: v.optional(v.record(v.string(), v.string())),
+              bodyTemplate: v.optional(v.string()), // {{arg}} placeholders are JSON-encoded
+            }),
+            v.object({ type: v.literal("llm"), promptTemplate: v.string() })
+          )
+        ),
       })
     ),
     isPublished: v.boolean(),
@@ -449,6 +512,9 @@ export default defineSchema({
     ),
     scopes: v.array(v.string()),
     rateLimitPerMinute: v.number(),
+    burstLimit: v.optional(v.number()), // Extra requests above the per-minute rate
+    dailyQuota: v.optional(v.number()), // Requests per UTC day, unset for no quota
+    monthlyQuota: v.optional(v.number()), // Requests per UTC month
     lastUsedAt: v.optional(v.number()),
     expiresAt: v.optional(v.number()),
     isActive: v.boolean(),
@@ -524,6 +590,16 @@ export default defineSchema({
             lastBounceSubType: v.optional(v.string()),
           })
         ),
+        phone: v.optional(
+          v.object({
+            provider: v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo")),
+            from: v.string(), // Caller number
+            to: v.string(), // Agent number that was called or texted
+            lastKind: v.union(v.literal("sms"), v.literal("voice")),
+            lastMessageSid: v.optional(v.string()),
+            lastCallSid: v.optional(v.string()),
+          })
+        ),
       })
     ),
     messages: v.array(
@@ -545,6 +621,26 @@ export default defineSchema({
     .index("by_channel_externalId", ["channel", "externalId"])
     .index("by_userId_agentId", ["userId", "agentId"]),
 
+  // In-flight assistant replies, written progressively while the LLM streams.
+  // Dashboard chat renders these live; the SSE messages API polls them.
+  streamingMessages: defineTable({
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+    conversationId: v.optional(v.id("conversations")), // Set for dashboard chats
+    content: v.string(), // Visible text so far (thinking and action blocks stripped)
+    statusDetail: v.optional(v.string()), // For example "Running create_task"
+    status: v.union(
+      v.literal("streaming"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_conversationId", ["conversationId"])
+    .index("by_status_updatedAt", ["status", "updatedAt"]),
+
   // Kanban board columns
   boardColumns: defineTable({
     userId: v.id("users"),
@@ -604,6 +700,7 @@ export default defineSchema({
     outcomeAudioId: v.optional(v.id("_storage")), // TTS audio narration of the outcome
     outcomeVideoUrl: v.optional(v.string()), // External video URL or storage reference
     parentTaskId: v.optional(v.id("tasks")), // Subtask parent reference for multi-step tasks
+    blockedBy: v.optional(v.array(v.id("tasks"))), // Prerequisites that must complete before the task is released
     toolCallLog: v.optional(v.array(v.object({
       toolName: v.string(),
       input: v.optional(v.any()),
@@ -611,6 +708,26 @@ export default defineSchema({
       durationMs: v.optional(v.number()),
       calledAt: v.number(),
     }))), // Record of tools called during task execution
+    a2a: v.optional(v.object({
+      contextId: v.string(), // A2A contextId grouping related tasks from one caller
+      callerId: v.string(), // API key prefix of the remote caller
+      state: v.union(
+        v.literal("submitted"),
+        v.literal("working"),
+        v.literal("completed"),
+        v.literal("canceled"),
+        v.literal("failed"),
+        v.literal("rejected")
+      ),
+      history: v.array(v.object({
+        role: v.union(v.literal("user"), v.literal("agent")),
+        messageId: v.string(),
+        text: v.string(),
+        createdAt: v.number(),
+      })),
+      error: v.optional(v.string()),
+      updatedAt: v.number(),
+    })), // Set for tasks created through the A2A JSON-RPC endpoint
     workflowSteps: v.optional(v.array(v.object({
       label: v.string(),
       status: v.union(
@@ -637,6 +754,26 @@ export default defineSchema({
     outcomeEmailLastAttemptAt: v.optional(v.number()),
     outcomeEmailSentAt: v.optional(v.number()),
     outcomeEmailError: v.optional(v.string()),
+    recurrence: v.optional(v.object({
+      frequency: v.union(
+        v.literal("daily"),
+        v.literal("weekly"),
+        v.literal("monthly"),
+        v.literal("cron")
+      ),
+      time: v.optional(v.string()), // "HH:MM" local time for daily, weekly, and monthly rules
+      daysOfWeek: v.optional(v.array(v.number())), // 0 = Sunday, for weekly rules
+      dayOfMonth: v.optional(v.number()), // 1-28, for monthly rules
+      cronSpec: v.optional(v.string()), // 5-field expression for cron rules
+      timezone: v.string(), // IANA zone the rule is read in
+      endsAt: v.optional(v.number()), // No instances are spawned after this time
+      status: v.union(v.literal("active"), v.literal("paused"), v.literal("ended")),
+      nextRunAt: v.optional(v.number()),
+      lastSpawnedAt: v.optional(v.number()),
+      spawnCount: v.number(),
+    })), // Set on a recurring template; instances are spawned from it
+    recurrenceTemplateId: v.optional(v.id("tasks")), // Recurring template this instance was spawned from
+    automationRunId: v.optional(v.id("automationRuns")), // Automation run that created the task
   })
     .index("by_userId", ["userId"])
     .index("by_agentId", ["agentId"])
@@ -645,7 +782,19 @@ export default defineSchema({
     .index("by_userId_teamId", ["userId", "teamId"])
     .index("by_userId_status", ["userId", "status"])
     .index("by_userId_archived", ["userId", "isArchived"])
-    .index("by_parentTaskId", ["parentTaskId"]),
+    .index("by_parentTaskId", ["parentTaskId"])
+    .index("by_recurrenceTemplateId", ["recurrenceTemplateId"])
+    .index("by_recurrenceStatus_nextRunAt", ["recurrence.status", "recurrence.nextRunAt"]),
+
+  // Reverse index of tasks.blockedBy, one row per edge, so a prerequisite can find every dependent
+  taskDependencyEdges: defineTable({
+    userId: v.id("users"),
+    taskId: v.id("tasks"), // The dependent task
+    prerequisiteId: v.id("tasks"), // A task listed in its blockedBy
+  })
+    .index("by_userId", ["userId"])
+    .index("by_taskId", ["taskId"])
+    .index("by_prerequisiteId", ["prerequisiteId"]),
 
   // Task comments for collaboration context on board tasks.
   taskComments: defineTable({
@@ -701,15 +850,143 @@ export default defineSchema({
     flagType: v.union(
       v.literal("injection"),
       v.literal("sensitive"),
-      v.literal("exfiltration")
+      v.literal("exfiltration"),
+      v.literal("spoofing") // Rejected inbound webhook (bad signature or replay)
     ),
     severity: v.union(v.literal("warn"), v.literal("block")),
     pattern: v.string(),
     inputSnippet: v.string(),
     action: v.string(),
+    // "output" for redactions in agent replies and sends. Unset means input.
+    direction: v.optional(v.union(v.literal("input"), v.literal("output"))),
+    // Set on flags from the prompt-injection classifier
+    classifier: v.optional(
+      v.object({
+        model: v.string(),
+        verdict: v.union(v.literal("injection"), v.literal("benign")),
+        confidence: v.number(),
+        threshold: v.number(),
+        rationale: v.string(),
+        cached: v.boolean(),
+      })
+    ),
     timestamp: v.number(),
   }).index("by_userId", ["userId"]),
 
+  // Cached prompt-injection classifier verdicts, keyed by input hash
+  injectionClassifications: defineTable({
+    userId: v.id("users"),
+    inputHash: v.string(), // SHA-256 of the classified input
+    model: v.string(),
+    verdict: v.union(v.literal("injection"), v.literal("benign")),
+    confidence: v.number(),
+    rationale: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_inputHash", ["userId", "inputHash"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  // Security scanner policies. One row per user with no agentId, plus
+  // optional per-agent rows layered on top of it.
+  securityPolicies: defineTable({
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+    severityOverrides: v.array(
+      v.object({
+        ruleId: v.string(),
+        severity: v.union(v.literal("off"), v.literal("warn"), v.literal("block")),
+      })
+    ),
+    customRules: v.array(
+      v.object({
+        id: v.string(),
+        type: v.union(
+          v.literal("injection"),
+          v.literal("sensitive"),
+          v.literal("exfiltration")
+        ),
+        pattern: v.string(),
+        severity: v.union(v.literal("warn"), v.literal("block")),
+        description: v.optional(v.string()),
+      })
+    ),
+    redactionRules: v.optional(
+      v.array(
+        v.object({
+          id: v.string(),
+          pattern: v.string(),
+          replacement: v.optional(v.string()),
+          description: v.optional(v.string()),
+        })
+      )
+    ),
+    allowPhrases: v.array(v.string()),
+    channelStrictness: v.object({
+      dashboard: v.optional(strictnessValidator),
+      api: v.optional(strictnessValidator),
+      mcp: v.optional(strictnessValidator),
+      webmcp: v.optional(strictnessValidator),
+      a2a: v.optional(strictnessValidator),
+      email: v.optional(strictnessValidator),
+      phone: v.optional(strictnessValidator),
+    }),
+    classifier: v.optional(
+      v.object({
+        mode: v.union(
+          v.literal("off"),
+          v.literal("suspicious"),
+          v.literal("public"),
+          v.literal("all")
+        ),
+        threshold: v.number(),
+        model: v.optional(v.string()),
+      })
+    ),
+    updatedAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_agentId", ["userId", "agentId"]),
+
+  // Agent actions held for the owner's sign-off by the agent's approvalGates
+  agentApprovals: defineTable({
+    userId: v.id("users"),
+    agentId: v.optional(v.id("agents")),
+    teamId: v.optional(v.id("agentTeams")),
+    actionType: v.string(),
+    payload: v.string(), // JSON of the full runtime action as the agent requested it
+    editedPayload: v.optional(v.string()), // The owner's edited JSON, run instead of payload
+    summary: v.string(),
+    channel: v.union(
+      v.literal("email"),
+      v.literal("phone"),
+      v.literal("api"),
+      v.literal("mcp"),
+      v.literal("webmcp"),
+      v.literal("a2a"),
+      v.literal("dashboard")
+    ),
+    callerId: v.optional(v.string()),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("approved"), // Approved and waiting to run
+      v.literal("rejected"),
+      v.literal("expired"),
+      v.literal("executed"),
+      v.literal("failed")
+    ),
+    decisionNote: v.optional(v.string()),
+    result: v.optional(v.string()),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    decidedAt: v.optional(v.number()),
+    executedAt: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_status", ["userId", "status"])
+    .index("by_status_expiresAt", ["status", "expiresAt"]),
+
   // ============================================================
   // NEW TABLES FROM PRD
   // ============================================================
@@ -809,13 +1086,46 @@ export default defineSchema({
     .index("by_userId", ["userId"])
     .index("by_userId_callerId", ["userId", "callerId"]),
 
-  // Rate Limits: Sliding window counters
+  // Rate Limits: Legacy fixed window counters. No longer written; the rate
+  // limit cleanup cron clears what is left.
   rateLimits: defineTable({
-    key: v.string(), // "user:{userId}:api", "key:{keyPrefix}:mcp"
+    key: v.string(),
     windowStart: v.number(),
     count: v.number(),
   }).index("by_key", ["key"]),
 
+  // Rate Limit Buckets: Token buckets with day and month quota counters
+  rateLimitBuckets: defineTable({
+    key: v.string(), // "user:{userId}:api", "apiKey:{apiKeyId}:mcp"
+    userId: v.id("users"), // For key buckets, the key's owner
+    routeGroup: v.union(
+      v.literal("api"),
+      v.literal("mcp"),
+      v.literal("docs"),
+      v.literal("skills")
+    ),
+    scope: v.union(v.literal("route_group"), v.literal("key")),
+    apiKeyId: v.optional(v.id("apiKeys")),
+    keyPrefix: v.optional(v.string()), // Display only; prefixes are not unique
+    // Limits in force at the last request, shown on the dashboard
+    policy: v.object({
+      perMinute: v.number(),
+      burst: v.number(),
+      perDay: v.optional(v.number()),
+      perMonth: v.optional(v.number()),
+    }),
+    tokens: v.number(),
+    refilledAt: v.number(),
+    dayStart: v.number(), // UTC midnight
+    dayCount: v.number(),
+    monthStart: v.number(), // First of the UTC month
+    monthCount: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_userId", ["userId"])
+    .index("by_updatedAt", ["updatedAt"]),
+
   // MCP Connections: Track external MCP server connections
   mcpConnections: defineTable({
     userId: v.id("users"),
@@ -829,11 +1139,115 @@ export default defineSchema({
       v.literal("revoked")
     ),
     lastAuditedAt: v.optional(v.number()),
+    // Filled by the outbound MCP client (initialize + tools/list)
+    protocolVersion: v.optional(v.string()),
+    discoveredTools: v.optional(v.array(v.object({
+      name: v.string(),
+      description: v.optional(v.string()),
+      inputSchema: v.optional(v.any()),
+    }))),
+    lastDiscoveredAt: v.optional(v.number()),
+    lastDiscoveryError: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
     .index("by_userId_status", ["userId", "status"]),
 
+  // A2A Remote Agents: External A2A agents on other hosts, with cached agent cards
+  a2aRemoteAgents: defineTable({
+    userId: v.id("users"),
+    cardUrl: v.string(), // Where the agent card was fetched from
+    endpointUrl: v.optional(v.string()), // JSON-RPC url from the card
+    name: v.string(),
+    description: v.optional(v.string()),
+    protocolVersion: v.optional(v.string()),
+    supportsStreaming: v.boolean(),
+    skills: v.array(v.object({
+      id: v.string(),
+      name: v.string(),
+      description: v.optional(v.string()),
+    })),
+    // Bearer credential for the remote endpoint, encrypted at rest
+    encryptedToken: v.optional(v.string()),
+    isActive: v.boolean(),
+    cardFetchedAt: v.optional(v.number()),
+    lastCardError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  // A2A Threads: One row per conversation between one of the user's agents
+  // and a peer, with inbox/outbox ordering and unread state
+  a2aThreads: defineTable({
+    userId: v.id("users"),
+    threadId: v.string(), // Shared id, e.g. "<agentA>:<agentB>" or "<agent>:remote:<remote>"
+    agentId: v.optional(v.id("agents")), // The user's agent in this thread
+    peerAgentId: v.optional(v.id("agents")),
+    peerRemoteAgentId: v.optional(v.id("a2aRemoteAgents")),
+    peerName: v.optional(v.string()),
+    inboundCount: v.number(),
+    outboundCount: v.number(),
+    unreadCount: v.number(), // Inbound messages without readAt
+    lastInboundAt: v.optional(v.number()),
+    lastOutboundAt: v.optional(v.number()),
+    inboundPreview: v.optional(v.string()),
+    outboundPreview: v.optional(v.string()),
+    remoteContextId: v.optional(v.string()), // Latest A2A contextId from a remote peer
+    lastMessageAt: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_threadId", ["userId", "threadId"])
+    .index("by_userId_lastInboundAt", ["userId", "lastInboundAt"])
+    .index("by_userId_lastOutboundAt", ["userId", "lastOutboundAt"]),
+
+  // A2A Messages: Messages in a2aThreads. Each side of a local exchange keeps
+  // its own copy, so direction is relative to the owning user.
+  a2aMessages: defineTable({
+    userId: v.id("users"),
+    threadId: v.string(),
+    agentId: v.optional(v.id("agents")),
+    direction: v.union(v.literal("inbound"), v.literal("outbound")),
+    content: v.string(),
+    peerAgentId: v.optional(v.id("agents")),
+    peerRemoteAgentId: v.optional(v.id("a2aRemoteAgents")),
+    peerName: v.optional(v.string()),
+    hopCount: v.number(),
+    // Outbound messages to remote agents are delivered by a2aClient
+    deliveryStatus: v.optional(v.union(
+      v.literal("queued"),
+      v.literal("sent"),
+      v.literal("failed")
+    )),
+    deliveryError: v.optional(v.string()),
+    remoteTaskId: v.optional(v.string()),
+    remoteContextId: v.optional(v.string()),
+    remoteState: v.optional(v.string()),
+    readAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_threadId", ["userId", "threadId", "createdAt"])
+    .index("by_userId_direction", ["userId", "direction", "createdAt"])
+    .index("by_peerAgentId", ["peerAgentId"])
+    .index("by_peerRemoteAgentId", ["peerRemoteAgentId"]),
+
+  // MCP Sessions: Streamable HTTP sessions for the inbound /mcp/u routes
+  mcpSessions: defineTable({
+    sessionId: v.string(), // Sent to clients as the Mcp-Session-Id header
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    protocolVersion: v.string(),
+    keyPrefix: v.string(), // API key that opened the session
+    clientName: v.optional(v.string()),
+    clientVersion: v.optional(v.string()),
+    createdAt: v.number(),
+    lastSeenAt: v.number(),
+    terminatedAt: v.optional(v.number()),
+  })
+    .index("by_sessionId", ["sessionId"])
+    .index("by_lastSeenAt", ["lastSeenAt"]),
+
   // Agent Health: Status tracking from heartbeat
   agentHealth: defineTable({
     userId: v.id("users"),
@@ -858,6 +1272,7 @@ export default defineSchema({
     schedule: v.object({
       kind: v.union(v.literal("cron"), v.literal("interval")),
       cronspec: v.optional(v.string()), // e.g. "0 8 * * *"
+      timezone: v.optional(v.string()), // IANA zone cronspec is read in
       intervalMs: v.optional(v.number()),
     }),
     isActive: v.boolean(),
@@ -869,12 +1284,35 @@ export default defineSchema({
         v.literal("skipped")
       )
     ),
+    lastError: v.optional(v.string()), // Failure or skip reason from the last run
     nextRun: v.optional(v.number()),
     config: v.optional(v.any()), // Job-specific configuration
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_jobName", ["userId", "jobName"]),
+    .index("by_userId_jobName", ["userId", "jobName"])
+    .index("by_isActive_nextRun", ["isActive", "nextRun"]),
+
+  // Run history for userSchedules jobs, written by the job runner in
+  // convex/functions/scheduleJobs.ts. Kept for 30 days.
+  userScheduleRuns: defineTable({
+    userId: v.id("users"),
+    scheduleId: v.id("userSchedules"),
+    jobName: v.string(),
+    status: v.union(
+      v.literal("running"),
+      v.literal("success"),
+      v.literal("failure"),
+      v.literal("skipped")
+    ),
+    output: v.optional(v.any()),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    endedAt: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_scheduleId", ["scheduleId"])
+    .index("by_startedAt", ["startedAt"]),
 
   // LLMs.txt: Auto-generated file listing user's agents and capabilities
   // Follows llms.txt spec for AI discoverability
@@ -959,6 +1397,42 @@ export default defineSchema({
       "nextAttemptAt",
     ]),
 
+  // Webhook receipts: replay guard for signed inbound webhooks. A request
+  // whose key was already seen is rejected. Rows expire after a day.
+  webhookReceipts: defineTable({
+    provider: v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo")),
+    key: v.string(), // Provider-specific: signature with SID or timestamp, or nonce
+    receivedAt: v.number(),
+  })
+    .index("by_provider_key", ["provider", "key"])
+    .index("by_provider_receivedAt", ["provider", "receivedAt"]),
+
+  // Outbound calls placed by agents. The provider fetches the message to
+  // speak from /webhooks/<provider>/voice/outbound?call=<id>.
+  phoneOutboundCalls: defineTable({
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    provider: v.union(v.literal("twilio"), v.literal("telnyx"), v.literal("plivo")),
+    from: v.string(),
+    to: v.string(),
+    message: v.string(),
+    audioUrl: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
+  // Synthesized phone audio, reused while the same agent voice says the same
+  // text. Short-lived; rows and their files are deleted after expiresAt.
+  phoneAudioCache: defineTable({
+    userId: v.id("users"),
+    agentId: v.id("agents"),
+    cacheKey: v.string(), // SHA-256 of the voice settings and text
+    storageId: v.id("_storage"),
+    expiresAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_agentId_cacheKey", ["agentId", "cacheKey"])
+    .index("by_expiresAt", ["expiresAt"]),
+
   // Automation control plane definitions: unified trigger + action contracts.
   automationDefinitions: defineTable({
     userId: v.id("users"),
@@ -975,7 +1449,18 @@ export default defineSchema({
     // Event trigger config
     eventType: v.optional(v.string()),
     // Action adapter to execute existing primitives
-    actionType: v.union(v.literal("process_agent_tasks"), v.literal("run_symphony")),
+    // Adapters are registered in convex/functions/automationActions.ts
+    actionType: v.union(
+      v.literal("process_agent_tasks"),
+      v.literal("run_symphony"),
+      v.literal("send_agent_message"),
+      v.literal("create_board_task"),
+      v.literal("post_feed_item"),
+      v.literal("send_email"),
+      v.literal("call_webhook"),
+      v.literal("execute_composio_tool"),
+      v.literal("run_daytona_command")
+    ),
     actionConfig: v.optional(v.any()),
     isActive: v.boolean(),
     lastRunAt: v.optional(v.number()),
@@ -1009,6 +1494,8 @@ export default defineSchema({
     input: v.optional(v.any()),
     output: v.optional(v.any()),
     error: v.optional(v.string()),
+    // Event runs caused by another automation run count up from 1
+    eventDepth: v.optional(v.number()),
     startedAt: v.optional(v.number()),
     endedAt: v.optional(v.number()),
     createdAt: v.number(),
@@ -1016,6 +1503,7 @@ export default defineSchema({
   })
     .index("by_userId", ["userId"])
     .index("by_automationId", ["automationId"])
+    .index("by_automationId_and_createdAt", ["automationId", "createdAt"])
     .index("by_userId_and_createdAt", ["userId", "createdAt"]),
 
   // Browser Use profiles: persistent login state for browser automation
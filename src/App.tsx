@@ -41,6 +41,7 @@ const TeamsPage = lazyNamed(() => import("./pages/TeamsPage"), "TeamsPage");
 const InboxPage = lazyNamed(() => import("./pages/InboxPage"), "InboxPage");
 const AgentChatPage = lazyNamed(() => import("./pages/AgentChatPage"), "AgentChatPage");
 const A2AInboxPage = lazyNamed(() => import("./pages/A2AInboxPage"), "A2AInboxPage");
+const ApprovalsPage = lazyNamed(() => import("./pages/ApprovalsPage"), "ApprovalsPage");
 const AgentThinkingPage = lazyNamed(
   () => import("./pages/AgentThinkingPage"),
   "AgentThinkingPage"
@@ -268,6 +269,15 @@ export default function App() {
           }
         />
 
+        <Route
+          path="/approvals"
+          element={
+            <AuthRequired>
+              <ApprovalsPage />
+            </AuthRequired>
+          }
+        />
+
         <Route
           path="/automation"
           element={
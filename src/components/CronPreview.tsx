@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+interface CronPreviewProps {
+  expression: string;
+  timezone: string;
+  count?: number;
+}
+
+type CronPreviewResult =
+  | { valid: true; nextRuns: Array<number> }
+  | { valid: false; error: string };
+
+/** Validation error or the next runs of a cron expression, shown in its timezone */
+export function CronPreview({ expression, timezone, count = 5 }: CronPreviewProps) {
+  // Rounded to the minute so the query result is stable across renders
+  const [from] = useState(() => Math.floor(Date.now() / 60_000) * 60_000);
+  const trimmed = expression.trim();
+  const preview = useQuery(
+    api.functions.scheduling.previewCron,
+    trimmed && timezone.trim() ? { expression: trimmed, timezone: timezone.trim(), from, count } : "skip"
+  ) as CronPreviewResult | undefined;
+
+  if (!trimmed || preview === undefined) return null;
+  if (!preview.valid) {
+    return <p className="mt-1 text-xs text-red-600">{preview.error}</p>;
+  }
+
+  return (
+    <div className="mt-2 text-xs text-ink-2">
+      <p>Next {preview.nextRuns.length} runs ({timezone}):</p>
+      <ul className="mt-1 space-y-0.5">
+        {preview.nextRuns.map((run) => (
+          <li key={run} className="text-ink-1">
+            {new Date(run).toLocaleString(undefined, {
+              timeZone: timezone,
+              weekday: "short",
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -177,6 +177,7 @@ export const platformApi = {
       generateProfilePhotoUploadUrl: api.functions.users.generateProfilePhotoUploadUrl,
       setProfilePhoto: api.functions.users.setProfilePhoto,
       listSchedules: api.functions.userSchedules.list,
+      listScheduleRuns: api.functions.userSchedules.listRuns,
       createSchedule: api.functions.userSchedules.create,
       updateSchedule: api.functions.userSchedules.update,
       toggleScheduleActive: api.functions.userSchedules.toggleActive,
@@ -194,6 +195,11 @@ export const platformApi = {
       getPublicDefaultByUsername: api.functions.agents.getPublicDefaultByUsername,
       getPublicByUsernameAndSlug: api.functions.agents.getPublicByUsernameAndSlug,
     },
+    approvals: {
+      list: api.functions.approvals.list,
+      approve: api.functions.approvals.approve,
+      reject: api.functions.approvals.reject,
+    },
     teams: {
       list: api.functions.teams.list,
       listAssignable: api.functions.teams.listAssignable,
@@ -255,6 +261,10 @@ export const platformApi = {
       getOutcomeFileUrl: api.functions.board.getOutcomeFileUrl,
       getOutcomeAudioUrl: api.functions.board.getOutcomeAudioUrl,
       getSubtasks: api.functions.board.getSubtasks,
+      getTaskDependencies: api.functions.board.getTaskDependencies,
+      setTaskRecurrence: api.functions.recurringTasks.setRecurrence,
+      setTaskRecurrenceStatus: api.functions.recurringTasks.setRecurrenceStatus,
+      listRecurringInstances: api.functions.recurringTasks.listInstances,
       getWorkflowSteps: api.functions.board.getWorkflowSteps,
     },
     feed: {
@@ -1,15 +1,17 @@
-import { useMemo, useState, type KeyboardEvent } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useEffect, useMemo, useState, type KeyboardEvent } from "react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
 import { notify } from "../lib/notify";
 
 type ThreadTab = "inbox" | "outbox";
+type RecipientKind = "local" | "remote";
 type ThreadItem = {
   threadId: string;
   lastMessageAt: number;
   messageCount: number;
+  unreadCount: number;
   preview: string;
   fromAgentName?: string;
   toAgentName?: string;
@@ -21,6 +23,8 @@ type ThreadMessage = {
   direction: "inbound" | "outbound";
   agentId?: Id<"agents">;
   peerAgentId?: Id<"agents">;
+  peerRemoteAgentId?: Id<"a2aRemoteAgents">;
+  deliveryStatus?: string;
 };
 type MyAgent = {
   _id: Id<"agents">;
@@ -34,6 +38,16 @@ type PublicAgentOption = {
   slug: string;
   description?: string;
 };
+const THREAD_PAGE_SIZE = 30;
+
+type RemoteAgentOption = {
+  _id: Id<"a2aRemoteAgents">;
+  cardUrl: string;
+  name: string;
+  hasToken: boolean;
+  isActive: boolean;
+  lastCardError?: string;
+};
 
 export function A2AInboxPage() {
   const [activeTab, setActiveTab] = useState<ThreadTab>("inbox");
@@ -45,17 +59,26 @@ export function A2AInboxPage() {
   const [composeTargetAgentSearch, setComposeTargetAgentSearch] = useState("");
   const [composeTargetAgentId, setComposeTargetAgentId] = useState<Id<"agents"> | null>(null);
   const [composePinnedTargetLabel, setComposePinnedTargetLabel] = useState<string | null>(null);
+  const [composeRecipientKind, setComposeRecipientKind] = useState<RecipientKind>("local");
+  const [composeRemoteAgentId, setComposeRemoteAgentId] = useState<Id<"a2aRemoteAgents"> | null>(null);
+  const [newRemoteUrl, setNewRemoteUrl] = useState("");
+  const [newRemoteToken, setNewRemoteToken] = useState("");
+  const [addingRemote, setAddingRemote] = useState(false);
   const [composeMessage, setComposeMessage] = useState("");
   const [sending, setSending] = useState(false);
   const [composeError, setComposeError] = useState<string | null>(null);
   const [quickReplyMessage, setQuickReplyMessage] = useState("");
 
-  const inboxThreads = useQuery(api.functions.a2a.getInboxThreads, {
-    limit: 60,
-  }) as ThreadItem[] | undefined;
-  const outboxThreads = useQuery(api.functions.a2a.getOutboxThreads, {
-    limit: 60,
-  }) as ThreadItem[] | undefined;
+  const inboxThreads = usePaginatedQuery(
+    api.functions.a2a.getInboxThreads,
+    {},
+    { initialNumItems: THREAD_PAGE_SIZE }
+  );
+  const outboxThreads = usePaginatedQuery(
+    api.functions.a2a.getOutboxThreads,
+    {},
+    { initialNumItems: THREAD_PAGE_SIZE }
+  );
   const threadMessages = useQuery(
     api.functions.a2a.getThreadMessages,
     selectedThreadId ? { threadId: selectedThreadId, limit: 200 } : "skip"
@@ -67,10 +90,31 @@ export function A2AInboxPage() {
       ? { username: composeTargetUsername.trim().toLowerCase() }
       : "skip"
   ) as PublicAgentOption[] | undefined;
+  const remoteAgents = useQuery(api.functions.a2aRemoteAgents.list) as
+    | RemoteAgentOption[]
+    | undefined;
   const summarizeThread = useMutation(api.functions.a2a.summarizeThread);
   const sendFromDashboard = useMutation(api.functions.a2a.sendFromDashboard);
+  const sendToRemote = useMutation(api.functions.a2aRemoteAgents.sendFromDashboard);
+  const addRemoteAgent = useMutation(api.functions.a2aRemoteAgents.add);
+  const markThreadRead = useMutation(api.functions.a2a.markThreadRead);
+
+  const threadPages = activeTab === "inbox" ? inboxThreads : outboxThreads;
+  const threads: ThreadItem[] | undefined =
+    threadPages.status === "LoadingFirstPage" ? undefined : threadPages.results;
+  const selectedThreadUnread =
+    threads?.find((thread) => thread.threadId === selectedThreadId)?.unreadCount ?? 0;
 
-  const threads = activeTab === "inbox" ? inboxThreads : outboxThreads;
+  // Opening a thread, or a reply arriving while it is open, clears its unread count
+  useEffect(() => {
+    if (!selectedThreadId || selectedThreadUnread === 0) return;
+    void markThreadRead({ threadId: selectedThreadId }).catch((error: unknown) => {
+      console.error("Failed to mark A2A thread read:", error);
+    });
+  }, [markThreadRead, selectedThreadId, selectedThreadUnread]);
+  const selectedRemoteAgent = remoteAgents?.find(
+    (remote) => remote._id === composeRemoteAgentId
+  );
 
   const selectedAgentId = useMemo(() => {
     if (!threadMessages || threadMessages.length === 0) return undefined;
@@ -80,10 +124,11 @@ export function A2AInboxPage() {
     if (!threadMessages || threadMessages.length === 0) return null;
     for (let i = threadMessages.length - 1; i >= 0; i -= 1) {
       const message = threadMessages[i];
-      if (message?.agentId && message.peerAgentId) {
+      if (message?.agentId && (message.peerAgentId || message.peerRemoteAgentId)) {
         return {
           myAgentId: message.agentId,
           peerAgentId: message.peerAgentId,
+          peerRemoteAgentId: message.peerRemoteAgentId,
         };
       }
     }
@@ -99,7 +144,61 @@ export function A2AInboxPage() {
     });
   }, [targetPublicAgents, composeTargetAgentSearch]);
 
+  async function handleAddRemoteAgent() {
+    if (!newRemoteUrl.trim()) return;
+    setAddingRemote(true);
+    try {
+      const remoteAgentId = await addRemoteAgent({
+        cardUrl: newRemoteUrl.trim(),
+        token: newRemoteToken.trim() || undefined,
+      });
+      setComposeRemoteAgentId(remoteAgentId);
+      setNewRemoteUrl("");
+      setNewRemoteToken("");
+      notify.success("External agent added", "Fetching its agent card now.");
+    } catch (error) {
+      notify.error("Could not add external agent", error);
+    } finally {
+      setAddingRemote(false);
+    }
+  }
+
+  async function handleSendToRemote() {
+    if (!composeFromAgentId || !composeRemoteAgentId || !composeMessage.trim()) {
+      const message = "Select sender, external agent, and message.";
+      setComposeError(message);
+      notify.warning("Missing message details", message);
+      return;
+    }
+
+    setSending(true);
+    setComposeError(null);
+    try {
+      const result = await sendToRemote({
+        fromAgentId: composeFromAgentId,
+        remoteAgentId: composeRemoteAgentId,
+        message: composeMessage.trim(),
+      });
+      setComposeMessage("");
+      setActiveTab("outbox");
+      setSelectedThreadId(result.threadId);
+      setSummaryResult(null);
+      notify.success("A2A message queued");
+    } catch (error) {
+      notify.error("Could not send A2A message", error);
+      setComposeError(
+        error instanceof Error ? error.message : "Could not send A2A message."
+      );
+    } finally {
+      setSending(false);
+    }
+  }
+
   async function handleSendMessage() {
+    if (composeRecipientKind === "remote") {
+      await handleSendToRemote();
+      return;
+    }
     if (!composeFromAgentId || !composeTargetAgentId || !composeMessage.trim()) {
       const message = "Select sender, recipient, and message.";
       setComposeError(message);
@@ -146,11 +245,19 @@ export function A2AInboxPage() {
     setSending(true);
     setComposeError(null);
     try {
-      await sendFromDashboard({
-        fromAgentId: selectedPair.myAgentId,
-        toAgentId: selectedPair.peerAgentId,
-        message: quickReplyMessage.trim(),
-      });
+      if (selectedPair.peerRemoteAgentId) {
+        await sendToRemote({
+          fromAgentId: selectedPair.myAgentId,
+          remoteAgentId: selectedPair.peerRemoteAgentId,
+          message: quickReplyMessage.trim(),
+        });
+      } else if (selectedPair.peerAgentId) {
+        await sendFromDashboard({
+          fromAgentId: selectedPair.myAgentId,
+          toAgentId: selectedPair.peerAgentId,
+          message: quickReplyMessage.trim(),
+        });
+      }
       setQuickReplyMessage("");
       setActiveTab("outbox");
       setSummaryResult(null);
@@ -182,8 +289,14 @@ export function A2AInboxPage() {
   function handleStartFromSelectedThread() {
     if (!selectedPair) return;
     setComposeFromAgentId(selectedPair.myAgentId);
-    setComposeTargetAgentId(selectedPair.peerAgentId);
-    setComposePinnedTargetLabel("Recipient from selected thread");
+    if (selectedPair.peerRemoteAgentId) {
+      setComposeRecipientKind("remote");
+      setComposeRemoteAgentId(selectedPair.peerRemoteAgentId);
+    } else if (selectedPair.peerAgentId) {
+      setComposeRecipientKind("local");
+      setComposeTargetAgentId(selectedPair.peerAgentId);
+      setComposePinnedTargetLabel("Recipient from selected thread");
+    }
     setComposeError(null);
   }
 
@@ -220,9 +333,28 @@ export function A2AInboxPage() {
         <div className="mt-6 card">
           <h2 className="text-lg font-semibold text-ink-0">Compose new A2A message</h2>
           <p className="mt-1 text-sm text-ink-1">
-            Choose one of your agents, pick a public recipient agent, and start a thread.
+            Choose one of your agents, pick a public recipient agent or an external A2A agent, and start a thread.
           </p>
-          <div className="mt-4 grid gap-4 md:grid-cols-3">
+          <div className="mt-4 inline-grid grid-cols-2 gap-2 rounded-lg bg-surface-1 p-1">
+            {(["local", "remote"] as const).map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => {
+                  setComposeRecipientKind(kind);
+                  setComposeError(null);
+                }}
+                className={`rounded-md px-3 py-1.5 text-sm ${
+                  composeRecipientKind === kind
+                    ? "bg-surface-0 text-ink-0 shadow-card"
+                    : "text-ink-1 hover:text-ink-0"
+                }`}
+              >
+                {kind === "local" ? "HumanAgent agent" : "External A2A agent"}
+              </button>
+            ))}
+          </div>
+          <div className={`mt-4 grid gap-4 ${composeRecipientKind === "local" ? "md:grid-cols-3" : "md:grid-cols-1"}`}>
             <div>
               <label className="block text-sm font-medium text-ink-0">From my agent</label>
               <select
@@ -242,63 +374,130 @@ export function A2AInboxPage() {
                 ))}
               </select>
             </div>
-            <div>
-              <label className="block text-sm font-medium text-ink-0">Recipient username</label>
-              <input
-                className="input mt-1.5"
-                value={composeTargetUsername}
-                onChange={(e) => {
-                  setComposeTargetUsername(e.target.value);
-                  setComposeTargetAgentSearch("");
-                  setComposeTargetAgentId(null);
-                  setComposePinnedTargetLabel(null);
-                }}
-                placeholder="username"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-ink-0">Recipient agent search</label>
-              <input
-                className="input mt-1.5"
-                value={composeTargetAgentSearch}
-                onChange={(e) => setComposeTargetAgentSearch(e.target.value)}
-                placeholder="Search by name or slug"
-                disabled={!targetPublicAgents || targetPublicAgents.length === 0}
-              />
-            </div>
+            {composeRecipientKind === "local" ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-ink-0">Recipient username</label>
+                  <input
+                    className="input mt-1.5"
+                    value={composeTargetUsername}
+                    onChange={(e) => {
+                      setComposeTargetUsername(e.target.value);
+                      setComposeTargetAgentSearch("");
+                      setComposeTargetAgentId(null);
+                      setComposePinnedTargetLabel(null);
+                    }}
+                    placeholder="username"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-0">Recipient agent search</label>
+                  <input
+                    className="input mt-1.5"
+                    value={composeTargetAgentSearch}
+                    onChange={(e) => setComposeTargetAgentSearch(e.target.value)}
+                    placeholder="Search by name or slug"
+                    disabled={!targetPublicAgents || targetPublicAgents.length === 0}
+                  />
+                </div>
+              </>
+            ) : null}
           </div>
-          <div className="mt-4 grid gap-4 md:grid-cols-1">
-            <div>
-              <label className="block text-sm font-medium text-ink-0">Recipient public agent</label>
-              <select
-                className="input mt-1.5"
-                value={composeTargetAgentId ?? ""}
-                onChange={(e) =>
-                  setComposeTargetAgentId(
-                    e.target.value ? (e.target.value as Id<"agents">) : null
-                  )
-                }
-                disabled={
-                  (!targetPublicAgents || targetPublicAgents.length === 0) &&
-                  composeTargetAgentId === null
-                }
-              >
-                <option value="">
-                  {composeTargetUsername.trim().length === 0
-                    ? "Enter username first"
-                    : "Select recipient agent"}
-                </option>
-                {filteredTargetPublicAgents.map((agent) => (
-                  <option key={agent._id} value={agent._id}>
-                    {agent.name} ({agent.slug})
+          {composeRecipientKind === "local" ? (
+            <div className="mt-4 grid gap-4 md:grid-cols-1">
+              <div>
+                <label className="block text-sm font-medium text-ink-0">Recipient public agent</label>
+                <select
+                  className="input mt-1.5"
+                  value={composeTargetAgentId ?? ""}
+                  onChange={(e) =>
+                    setComposeTargetAgentId(
+                      e.target.value ? (e.target.value as Id<"agents">) : null
+                    )
+                  }
+                  disabled={
+                    (!targetPublicAgents || targetPublicAgents.length === 0) &&
+                    composeTargetAgentId === null
+                  }
+                >
+                  <option value="">
+                    {composeTargetUsername.trim().length === 0
+                      ? "Enter username first"
+                      : "Select recipient agent"}
                   </option>
-                ))}
-              </select>
-              {composePinnedTargetLabel ? (
-                <p className="mt-1 text-xs text-ink-2">{composePinnedTargetLabel}</p>
-              ) : null}
+                  {filteredTargetPublicAgents.map((agent) => (
+                    <option key={agent._id} value={agent._id}>
+                      {agent.name} ({agent.slug})
+                    </option>
+                  ))}
+                </select>
+                {composePinnedTargetLabel ? (
+                  <p className="mt-1 text-xs text-ink-2">{composePinnedTargetLabel}</p>
+                ) : null}
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="mt-4 grid gap-4 md:grid-cols-1">
+              <div>
+                <label className="block text-sm font-medium text-ink-0">External agent</label>
+                <select
+                  className="input mt-1.5"
+                  value={composeRemoteAgentId ?? ""}
+                  onChange={(e) =>
+                    setComposeRemoteAgentId(
+                      e.target.value ? (e.target.value as Id<"a2aRemoteAgents">) : null
+                    )
+                  }
+                >
+                  <option value="">
+                    {remoteAgents && remoteAgents.length > 0
+                      ? "Select external agent"
+                      : "Add an external agent below"}
+                  </option>
+                  {(remoteAgents ?? []).map((remote) => (
+                    <option key={remote._id} value={remote._id} disabled={!remote.isActive}>
+                      {remote.name} ({new URL(remote.cardUrl).hostname})
+                      {remote.isActive ? "" : " paused"}
+                    </option>
+                  ))}
+                </select>
+                {selectedRemoteAgent?.lastCardError ? (
+                  <p className="mt-1 text-xs text-red-500">
+                    Agent card: {selectedRemoteAgent.lastCardError}
+                  </p>
+                ) : null}
+              </div>
+              <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end">
+                <div>
+                  <label className="block text-sm font-medium text-ink-0">Agent card or base URL</label>
+                  <input
+                    className="input mt-1.5"
+                    value={newRemoteUrl}
+                    onChange={(e) => setNewRemoteUrl(e.target.value)}
+                    placeholder="https://agents.example.com/.well-known/agent.json"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ink-0">Bearer token (optional)</label>
+                  <input
+                    className="input mt-1.5"
+                    type="password"
+                    value={newRemoteToken}
+                    onChange={(e) => setNewRemoteToken(e.target.value)}
+                    placeholder="Stored encrypted"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleAddRemoteAgent}
+                  disabled={addingRemote || !newRemoteUrl.trim()}
+                  className="btn-secondary text-sm"
+                >
+                  {addingRemote ? "Adding..." : "Add external agent"}
+                </button>
+              </div>
+            </div>
+          )}
           <div className="mt-4">
             <label className="block text-sm font-medium text-ink-0">Message</label>
             <textarea
@@ -391,7 +590,11 @@ export function A2AInboxPage() {
                       }`}
                     >
                       <div className="flex items-center justify-between gap-2">
-                        <p className="truncate text-sm font-medium text-ink-0">
+                        <p
+                          className={`truncate text-sm text-ink-0 ${
+                            thread.unreadCount > 0 ? "font-semibold" : "font-medium"
+                          }`}
+                        >
                           {activeTab === "inbox"
                             ? thread.fromAgentName ?? "Unknown sender"
                             : thread.toAgentName ?? "Unknown recipient"}
@@ -401,9 +604,28 @@ export function A2AInboxPage() {
                         </span>
                       </div>
                       <p className="mt-1 line-clamp-2 text-xs text-ink-1">{thread.preview}</p>
-                      <p className="mt-1 text-2xs text-ink-2">{thread.messageCount} messages</p>
+                      <p className="mt-1 text-2xs text-ink-2">
+                        {thread.messageCount} messages
+                        {thread.unreadCount > 0 ? (
+                          <span className="badge-accent ml-2 px-1.5 py-0 text-2xs">
+                            {thread.unreadCount} unread
+                          </span>
+                        ) : null}
+                      </p>
                     </button>
                   ))}
+                  {threadPages.status !== "Exhausted" ? (
+                    <div className="p-3">
+                      <button
+                        type="button"
+                        onClick={() => threadPages.loadMore(THREAD_PAGE_SIZE)}
+                        disabled={threadPages.status === "LoadingMore"}
+                        className="btn-secondary w-full text-sm"
+                      >
+                        {threadPages.status === "LoadingMore" ? "Loading..." : "Load more threads"}
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
               )}
             </div>
@@ -462,6 +684,8 @@ export function A2AInboxPage() {
                         <p className="mt-2 text-2xs text-ink-2">
                           {message.direction === "outbound" ? "Sent" : "Received"}{" "}
                           {new Date(message.createdAt).toLocaleString()}
+                          {message.deliveryStatus === "queued" ? " · delivering" : ""}
+                          {message.deliveryStatus === "failed" ? " · delivery failed" : ""}
                         </p>
                       </div>
                     ))
@@ -19,6 +19,11 @@ interface AgentChat {
   createdAt: number;
 }
 
+interface StreamingReply {
+  content: string;
+  statusDetail?: string;
+}
+
 interface AgentListItem {
   _id: Id<"agents">;
   name: string;
@@ -381,6 +386,12 @@ export function AgentChatPage() {
     return (chats.find((chat: AgentChat) => chat._id === selectedConversationId) as AgentChat | undefined) ?? null;
   }, [chats, selectedConversationId]);
 
+  // Live reply text while the agent streams (null when nothing is in flight)
+  const streamingReply = useQuery(
+    api.functions.streamingMessages.getActiveForConversation,
+    selectedConversationId ? { conversationId: selectedConversationId } : "skip"
+  ) as StreamingReply | null | undefined;
+
   const currentSetupStep = useMemo(() => {
     if (!setupState) return null;
     return getCurrentSetupStep(setupState);
@@ -1024,8 +1035,21 @@ export function AgentChatPage() {
                       </div>
                     ))
                   )}
-                  {awaitingAgentReply &&
-                  pendingReplyConversationId === selectedConversation._id ? (
+                  {streamingReply?.content ? (
+                    <div className="flex justify-start">
+                      <div className="max-w-[70%] rounded-lg bg-surface-1 p-3 text-ink-0">
+                        <p className="whitespace-pre-wrap text-sm">
+                          {streamingReply.content}
+                          <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-ink-2 align-middle" />
+                        </p>
+                        {streamingReply.statusDetail ? (
+                          <p className="mt-2 text-xs text-ink-2">{streamingReply.statusDetail}...</p>
+                        ) : null}
+                      </div>
+                    </div>
+                  ) : streamingReply ||
+                    (awaitingAgentReply &&
+                      pendingReplyConversationId === selectedConversation._id) ? (
                     <div className="flex justify-start">
                       <div className="max-w-[70%] rounded-lg bg-surface-1 p-3 text-ink-0">
                         <div className="flex items-center gap-2">
@@ -1038,7 +1062,11 @@ export function AgentChatPage() {
                             className="h-2 w-2 animate-pulse rounded-full bg-ink-2"
                             style={{ animationDelay: "240ms" }}
                           />
-                          <span className="ml-1 text-xs text-ink-2">Agent is thinking...</span>
+                          <span className="ml-1 text-xs text-ink-2">
+                            {streamingReply?.statusDetail
+                              ? `${streamingReply.statusDetail}...`
+                              : "Agent is thinking..."}
+                          </span>
                         </div>
                       </div>
                     </div>
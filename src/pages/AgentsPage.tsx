@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useAction, useQuery, useMutation } from "convex/react";
+import { Link } from "react-router-dom";
 import { api } from "../../convex/_generated/api";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
 import { Doc, Id } from "../../convex/_generated/dataModel";
@@ -11,6 +12,8 @@ import {
   UserCircle,
 } from "@phosphor-icons/react";
 import { notify } from "../lib/notify";
+import { getUserTimezone } from "../lib/datetime";
+import { CronPreview } from "../components/CronPreview";
 import { useEscapeKey } from "../hooks/useEscapeKey";
 
 // Agent type from schema
@@ -132,6 +135,32 @@ const AGENT_ICON_OPTIONS: Array<{
   { id: "user", label: "User", Icon: UserCircle },
 ];
 
+// Mirrors APPROVABLE_ACTION_TYPES in convex/functions/approvals.ts
+const APPROVAL_ACTION_OPTIONS = [
+  { id: "call_tool", label: "Integration tools (email, social, Composio)" },
+  { id: "call_mcp_tool", label: "External MCP tools" },
+  { id: "browser_navigate", label: "Browser navigation" },
+  { id: "browser_action", label: "Browser actions" },
+  { id: "delegate_to_agent", label: "Delegate to another agent" },
+  { id: "send_sms", label: "Send SMS" },
+  { id: "place_call", label: "Place phone call" },
+  { id: "execute_code", label: "Run code" },
+  { id: "execute_command", label: "Run shell command" },
+  { id: "create_task", label: "Create task" },
+  { id: "create_subtask", label: "Create subtask" },
+  { id: "move_task", label: "Move task" },
+  { id: "create_feed_item", label: "Post to feed" },
+  { id: "create_skill", label: "Create skill" },
+  { id: "update_skill", label: "Update skill" },
+  { id: "generate_image", label: "Generate image" },
+  { id: "generate_audio", label: "Generate audio" },
+  { id: "create_knowledge_node", label: "Add knowledge node" },
+  { id: "link_knowledge_nodes", label: "Link knowledge nodes" },
+] as const;
+
+// Mirrors DEFAULT_APPROVAL_TIMEOUT_MINUTES in convex/functions/approvals.ts
+const DEFAULT_APPROVAL_TIMEOUT_HOURS = 24;
+
 export function AgentsPage() {
   const agents = useQuery(api.functions.agents.list);
   const viewer = useQuery(api.functions.users.viewer);
@@ -175,6 +204,10 @@ export function AgentsPage() {
   const [editAgentPhone, setEditAgentPhone] = useState("");
   const [editPhoneSmsEnabled, setEditPhoneSmsEnabled] = useState(true);
   const [editPhoneVoiceEnabled, setEditPhoneVoiceEnabled] = useState(true);
+  const [editPhoneProvider, setEditPhoneProvider] = useState<"twilio" | "telnyx" | "plivo">("twilio");
+  const [editPhoneAllowList, setEditPhoneAllowList] = useState("");
+  const [editQuietHoursStart, setEditQuietHoursStart] = useState("21:00");
+  const [editQuietHoursEnd, setEditQuietHoursEnd] = useState("08:00");
   // ElevenLabs voice settings
   const [editVoiceProvider, setEditVoiceProvider] = useState<"elevenlabs" | "openai">("openai");
   const [editElevenLabsVoiceId, setEditElevenLabsVoiceId] = useState("");
@@ -186,6 +219,7 @@ export function AgentsPage() {
   // Scheduling settings
   const [editSchedulingMode, setEditSchedulingMode] = useState<"manual" | "auto" | "cron">("manual");
   const [editSchedulingCronSpec, setEditSchedulingCronSpec] = useState("");
+  const [editSchedulingTimezone, setEditSchedulingTimezone] = useState(getUserTimezone);
   const [editSchedulingActive, setEditSchedulingActive] = useState(false);
   // Thinking settings
   const [editThinkingEnabled, setEditThinkingEnabled] = useState(false);
@@ -220,6 +254,11 @@ export function AgentsPage() {
   const [editXCanMonitor, setEditXCanMonitor] = useState(true);
   const [editXAutoPostEnabled, setEditXAutoPostEnabled] = useState(false);
   const [editXAutoPostRequireApproval, setEditXAutoPostRequireApproval] = useState(true);
+  // Approval gates
+  const [editApprovalActionTypes, setEditApprovalActionTypes] = useState<Array<string>>([]);
+  const [editApprovalTimeoutHours, setEditApprovalTimeoutHours] = useState(
+    DEFAULT_APPROVAL_TIMEOUT_HOURS
+  );
   // ElevenLabs voice list for picker
   type ElevenLabsVoiceOption = {
     voiceId: string;
@@ -430,7 +469,21 @@ export function AgentsPage() {
     setEditAgentEmail(agent.agentEmail || "");
     setEditAgentPhone(agent.agentPhone || "");
     // Phone config
-    const phoneConfig = (agent as { phoneConfig?: { voiceEnabled?: boolean; smsEnabled?: boolean } }).phoneConfig;
+    const phoneConfig = (
+      agent as {
+        phoneConfig?: {
+          provider?: "twilio" | "telnyx" | "plivo";
+          voiceEnabled?: boolean;
+          smsEnabled?: boolean;
+          outboundAllowList?: string[];
+          quietHours?: { start: string; end: string };
+        };
+      }
+    ).phoneConfig;
+    setEditPhoneProvider(phoneConfig?.provider ?? "twilio");
+    setEditPhoneAllowList((phoneConfig?.outboundAllowList ?? []).join("\n"));
+    setEditQuietHoursStart(phoneConfig?.quietHours?.start ?? "21:00");
+    setEditQuietHoursEnd(phoneConfig?.quietHours?.end ?? "08:00");
     setEditPhoneVoiceEnabled(phoneConfig?.voiceEnabled ?? true);
     setEditPhoneSmsEnabled(phoneConfig?.smsEnabled ?? true);
     // Voice config
@@ -449,9 +502,12 @@ export function AgentsPage() {
     setEditPersonalitySpeakingStyle(personality?.speakingStyle || "conversational");
     setEditPersonalityInstructions(personality?.customInstructions || "");
     // Scheduling config
-    const scheduling = (agent as { scheduling?: { mode?: string; cronSpec?: string; isActive?: boolean } }).scheduling;
+    const scheduling = (agent as {
+      scheduling?: { mode?: string; cronSpec?: string; timezone?: string; isActive?: boolean };
+    }).scheduling;
     setEditSchedulingMode((scheduling?.mode as "manual" | "auto" | "cron") || "manual");
     setEditSchedulingCronSpec(scheduling?.cronSpec || "");
+    setEditSchedulingTimezone(scheduling?.timezone || getUserTimezone());
     setEditSchedulingActive(scheduling?.isActive ?? false);
     // Thinking config
     const thinking = (agent as { thinking?: { enabled?: boolean; isPaused?: boolean; currentGoal?: string } }).thinking;
@@ -496,6 +552,12 @@ export function AgentsPage() {
     setEditXCanMonitor(xConfig?.capabilities?.canMonitor ?? true);
     setEditXAutoPostEnabled(xConfig?.autoPost?.enabled ?? false);
     setEditXAutoPostRequireApproval(xConfig?.autoPost?.requireApproval ?? true);
+    // Approval gates
+    const approvalGates = (agent as { approvalGates?: { actionTypes: Array<string>; timeoutMinutes: number } }).approvalGates;
+    setEditApprovalActionTypes(approvalGates?.actionTypes ?? []);
+    setEditApprovalTimeoutHours(
+      approvalGates ? approvalGates.timeoutMinutes / 60 : DEFAULT_APPROVAL_TIMEOUT_HOURS
+    );
     setPhotoError(null);
   }
 
@@ -539,9 +601,15 @@ export function AgentsPage() {
         // Phone config (without voice, voice is now in voiceConfig)
         phoneConfig: editAgentPhone.trim()
           ? {
+              provider: editPhoneProvider,
               voiceEnabled: editPhoneVoiceEnabled,
               smsEnabled: editPhoneSmsEnabled,
               transcribeVoicemail: true,
+              outboundAllowList: editPhoneAllowList
+                .split(/[\n,]/)
+                .map((number) => number.trim())
+                .filter(Boolean),
+              quietHours: { start: editQuietHoursStart, end: editQuietHoursEnd },
             }
           : undefined,
         // Voice config for TTS (ElevenLabs or OpenAI)
@@ -560,6 +628,7 @@ export function AgentsPage() {
         scheduling: {
           mode: editSchedulingMode,
           cronSpec: editSchedulingCronSpec.trim() || undefined,
+          timezone: editSchedulingTimezone.trim() || undefined,
           isActive: editSchedulingActive,
         },
         // Thinking settings
@@ -609,6 +678,11 @@ export function AgentsPage() {
             requireApproval: editXAutoPostRequireApproval,
           },
         },
+        // Approval gate settings
+        approvalGates: {
+          actionTypes: editApprovalActionTypes,
+          timeoutMinutes: Math.round(editApprovalTimeoutHours * 60),
+        },
       });
       setEditingAgent(null);
       notify.success("Agent updated");
@@ -1209,6 +1283,21 @@ export function AgentsPage() {
                       {hasPhoneProviderKey && editAgentPhone && (
                         <div className="mt-4 rounded-lg border border-surface-3 bg-surface-1 p-4">
                           <h4 className="text-sm font-medium text-ink-0">Phone Settings</h4>
+                          <div className="mt-3 max-w-xs">
+                            <label className="block text-sm text-ink-1">Number Provider</label>
+                            <select
+                              value={editPhoneProvider}
+                              onChange={(e) => setEditPhoneProvider(e.target.value as "twilio" | "telnyx" | "plivo")}
+                              className="input mt-1"
+                            >
+                              <option value="twilio">Twilio {hasTwilioKey ? "(configured)" : "(needs key)"}</option>
+                              <option value="telnyx">Telnyx {hasTelnyxKey ? "(configured)" : "(needs key)"}</option>
+                              <option value="plivo">Plivo {hasPlivoKey ? "(configured)" : "(needs key)"}</option>
+                            </select>
+                            <p className="mt-1 text-xs text-ink-2">
+                              Point the number's SMS and voice webhooks at /webhooks/{editPhoneProvider}/sms and /webhooks/{editPhoneProvider}/voice
+                            </p>
+                          </div>
                           <div className="mt-3 flex flex-wrap gap-4">
                             <label className="flex items-center gap-2">
                               <input
@@ -1229,6 +1318,42 @@ export function AgentsPage() {
                               <span className="text-sm text-ink-0">Enable SMS messaging</span>
                             </label>
                           </div>
+                          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                            <div>
+                              <label className="block text-sm text-ink-1">Outbound Allow-list</label>
+                              <textarea
+                                value={editPhoneAllowList}
+                                onChange={(e) => setEditPhoneAllowList(e.target.value)}
+                                className="input mt-1"
+                                rows={3}
+                                placeholder={"+15550100000\n+15550100001"}
+                              />
+                              <p className="mt-1 text-xs text-ink-2">
+                                Numbers this agent may text or call, one per line. Leave empty to turn off outbound SMS and calls.
+                              </p>
+                            </div>
+                            <div>
+                              <label className="block text-sm text-ink-1">Quiet Hours</label>
+                              <div className="mt-1 flex items-center gap-2">
+                                <input
+                                  type="time"
+                                  value={editQuietHoursStart}
+                                  onChange={(e) => setEditQuietHoursStart(e.target.value)}
+                                  className="input"
+                                />
+                                <span className="text-sm text-ink-2">to</span>
+                                <input
+                                  type="time"
+                                  value={editQuietHoursEnd}
+                                  onChange={(e) => setEditQuietHoursEnd(e.target.value)}
+                                  className="input"
+                                />
+                              </div>
+                              <p className="mt-1 text-xs text-ink-2">
+                                No outbound SMS or calls in this window, in the timezone from the agent's skill.
+                              </p>
+                            </div>
+                          </div>
                         </div>
                       )}
 
@@ -1448,10 +1573,26 @@ export function AgentsPage() {
                                 placeholder="0 9 * * * (daily at 9am)"
                               />
                               <p className="mt-1 text-xs text-ink-2">
-                                Use cron format. <a href="https://crontab.guru" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">crontab.guru</a> for help.
+                                Use cron format or a macro like @daily. <a href="https://crontab.guru" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">crontab.guru</a> for help.
                               </p>
                             </div>
                           )}
+                          {editSchedulingMode === "cron" && (
+                            <div>
+                              <label className="block text-sm text-ink-1">Timezone</label>
+                              <input
+                                type="text"
+                                value={editSchedulingTimezone}
+                                onChange={(e) => setEditSchedulingTimezone(e.target.value)}
+                                className="input mt-1"
+                                placeholder="America/New_York"
+                              />
+                              <CronPreview
+                                expression={editSchedulingCronSpec}
+                                timezone={editSchedulingTimezone}
+                              />
+                            </div>
+                          )}
                         </div>
                         <div className="mt-3">
                           <label className="flex items-center gap-2">
@@ -1559,6 +1700,49 @@ export function AgentsPage() {
                         </div>
                       </div>
 
+                      {/* Approval gates */}
+                      <div className="mt-4 rounded-lg border border-surface-3 bg-surface-1 p-4">
+                        <h4 className="text-sm font-medium text-ink-0">Approval Gates</h4>
+                        <p className="mt-1 text-xs text-ink-2">
+                          Checked actions wait in{" "}
+                          <Link to="/approvals" className="text-accent hover:underline">
+                            Approvals
+                          </Link>{" "}
+                          until you approve, edit, or reject them
+                        </p>
+                        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+                          {APPROVAL_ACTION_OPTIONS.map((option) => (
+                            <label key={option.id} className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={editApprovalActionTypes.includes(option.id)}
+                                onChange={(e) =>
+                                  setEditApprovalActionTypes((current) =>
+                                    e.target.checked
+                                      ? [...current, option.id]
+                                      : current.filter((type) => type !== option.id)
+                                  )
+                                }
+                                className="h-4 w-4 rounded border-surface-3 text-accent focus:ring-accent"
+                              />
+                              <span className="text-sm text-ink-0">{option.label}</span>
+                            </label>
+                          ))}
+                        </div>
+                        <label className="mt-3 block text-xs text-ink-1">
+                          Expire unanswered requests after (hours)
+                          <input
+                            type="number"
+                            min={0.1}
+                            max={168}
+                            step={0.5}
+                            value={editApprovalTimeoutHours}
+                            onChange={(e) => setEditApprovalTimeoutHours(Number(e.target.value))}
+                            className="input mt-1 w-32 text-sm"
+                          />
+                        </label>
+                      </div>
+
                       <div className="mt-4 rounded-lg border border-surface-3 bg-surface-1 p-4">
                         <h4 className="text-sm font-medium text-ink-0">Code Execution Backend</h4>
                         <p className="mt-1 text-xs text-ink-2">
@@ -0,0 +1,275 @@
+/**
+ * Approvals Page
+ *
+ * Agent actions held by an agent's approval gates. Approve one as requested
+ * or after editing its JSON, or reject it. Decided requests keep their result.
+ */
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { DashboardLayout } from "../components/layout/DashboardLayout";
+import { Id } from "../../convex/_generated/dataModel";
+import { notify } from "../lib/notify";
+import { platformApi } from "../lib/platformApi";
+
+type ApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "executed" | "failed";
+
+interface Approval {
+  _id: Id<"agentApprovals">;
+  agentName?: string;
+  actionType: string;
+  payload: string;
+  editedPayload?: string;
+  summary: string;
+  channel: string;
+  status: ApprovalStatus;
+  decisionNote?: string;
+  result?: string;
+  error?: string;
+  createdAt: number;
+  expiresAt: number;
+  decidedAt?: number;
+}
+
+const STATUS_STYLES: Record<ApprovalStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-blue-100 text-blue-700",
+  rejected: "bg-surface-2 text-ink-1",
+  expired: "bg-surface-2 text-ink-1",
+  executed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function formatJson(json: string): string {
+  try {
+    return JSON.stringify(JSON.parse(json), null, 2);
+  } catch {
+    return json;
+  }
+}
+
+function formatExpiry(expiresAt: number): string {
+  const minutes = Math.round((expiresAt - Date.now()) / 60000);
+  if (minutes <= 0) return "Expiring now";
+  if (minutes < 60) return `Expires in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `Expires in ${hours} h`;
+  return `Expires in ${Math.round(hours / 24)} days`;
+}
+
+export function ApprovalsPage() {
+  const [view, setView] = useState<"pending" | "all">("pending");
+  const approvals = useQuery(
+    platformApi.convex.approvals.list,
+    view === "pending" ? { status: "pending" } : {}
+  );
+  const approve = useMutation(platformApi.convex.approvals.approve);
+  const reject = useMutation(platformApi.convex.approvals.reject);
+
+  const [editingId, setEditingId] = useState<Id<"agentApprovals"> | null>(null);
+  const [editedPayload, setEditedPayload] = useState("");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<Id<"agentApprovals"> | null>(null);
+
+  function startEditing(approval: Approval) {
+    setEditingId(approval._id);
+    setEditedPayload(formatJson(approval.payload));
+  }
+
+  async function handleApprove(approval: Approval) {
+    const isEditing = editingId === approval._id;
+    setBusyId(approval._id);
+    try {
+      await approve({
+        approvalId: approval._id,
+        editedPayload: isEditing ? editedPayload : undefined,
+        note: notes[approval._id]?.trim() || undefined,
+      });
+      setEditingId(null);
+      notify.success("Action approved", "It will run in a moment.");
+    } catch (error) {
+      notify.error("Could not approve action", error);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleReject(approval: Approval) {
+    setBusyId(approval._id);
+    try {
+      await reject({
+        approvalId: approval._id,
+        note: notes[approval._id]?.trim() || undefined,
+      });
+      if (editingId === approval._id) setEditingId(null);
+      notify.success("Action rejected");
+    } catch (error) {
+      notify.error("Could not reject action", error);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="mx-auto max-w-3xl animate-fade-in">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-ink-0">Approvals</h1>
+          <p className="mt-1 text-ink-1">
+            Agent actions waiting for your sign-off. Choose which actions need approval in each
+            agent's settings.
+          </p>
+        </div>
+
+        <div className="mt-6 mb-4 flex flex-wrap gap-2">
+          {(
+            [
+              { key: "pending", label: "Pending" },
+              { key: "all", label: "All" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.key}
+              type="button"
+              onClick={() => setView(option.key)}
+              className={`rounded-full border px-3 py-1.5 text-sm transition-colors ${
+                view === option.key
+                  ? "border-accent bg-accent/10 text-ink-0"
+                  : "border-surface-3 text-ink-1 hover:bg-surface-1"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {approvals === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-surface-3 border-t-accent" />
+          </div>
+        ) : approvals.length === 0 ? (
+          <div className="card py-12 text-center">
+            <p className="text-sm text-ink-1">
+              {view === "pending" ? "Nothing is waiting for approval" : "No approval requests yet"}
+            </p>
+            <p className="mt-1 text-xs text-ink-2">
+              Gated agent actions will appear here before they run
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {approvals.map((approval: Approval) => {
+              const isPending = approval.status === "pending";
+              const isEditing = editingId === approval._id;
+              const isBusy = busyId === approval._id;
+              return (
+                <div key={approval._id} className="card">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-ink-0">
+                      {approval.agentName ?? "Agent"}
+                    </span>
+                    <span className="rounded bg-surface-1 px-2 py-0.5 font-mono text-xs text-ink-1">
+                      {approval.actionType}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[approval.status]}`}
+                    >
+                      {approval.status.charAt(0).toUpperCase() + approval.status.slice(1)}
+                    </span>
+                    <span className="ml-auto text-xs text-ink-2">
+                      {isPending
+                        ? formatExpiry(approval.expiresAt)
+                        : new Date(approval.decidedAt ?? approval.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="mt-2 break-words text-sm text-ink-1">{approval.summary}</p>
+                  <p className="mt-1 text-xs text-ink-2">
+                    Requested {new Date(approval.createdAt).toLocaleString()} via {approval.channel}
+                  </p>
+
+                  {isEditing ? (
+                    <textarea
+                      value={editedPayload}
+                      onChange={(e) => setEditedPayload(e.target.value)}
+                      className="input mt-3 font-mono text-xs"
+                      rows={10}
+                      spellCheck={false}
+                    />
+                  ) : (
+                    <details className="mt-3">
+                      <summary className="cursor-pointer text-xs text-ink-2">
+                        {approval.editedPayload ? "Edited payload" : "Full payload"}
+                      </summary>
+                      <pre className="mt-2 max-h-64 overflow-auto rounded bg-surface-1 p-3 text-xs text-ink-1">
+                        {formatJson(approval.editedPayload ?? approval.payload)}
+                      </pre>
+                    </details>
+                  )}
+
+                  {approval.decisionNote && (
+                    <p className="mt-2 text-xs text-ink-1">Note: {approval.decisionNote}</p>
+                  )}
+                  {approval.result && (
+                    <p className="mt-2 whitespace-pre-wrap break-words text-xs text-ink-1">
+                      {approval.result}
+                    </p>
+                  )}
+                  {approval.error && (
+                    <p className="mt-2 whitespace-pre-wrap break-words text-xs text-red-600">
+                      {approval.error}
+                    </p>
+                  )}
+
+                  {isPending && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <input
+                        type="text"
+                        value={notes[approval._id] ?? ""}
+                        onChange={(e) =>
+                          setNotes((current) => ({ ...current, [approval._id]: e.target.value }))
+                        }
+                        placeholder="Note (optional)"
+                        className="input flex-1 py-1.5 text-sm"
+                      />
+                      <button
+                        onClick={() => void handleApprove(approval)}
+                        disabled={isBusy}
+                        className="btn-accent text-sm"
+                      >
+                        {isEditing ? "Approve edited" : "Approve"}
+                      </button>
+                      {isEditing ? (
+                        <button
+                          onClick={() => setEditingId(null)}
+                          disabled={isBusy}
+                          className="btn-secondary text-sm"
+                        >
+                          Cancel edit
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => startEditing(approval)}
+                          disabled={isBusy}
+                          className="btn-secondary text-sm"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      <button
+                        onClick={() => void handleReject(approval)}
+                        disabled={isBusy}
+                        className="btn-secondary text-sm"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
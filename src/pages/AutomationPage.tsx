@@ -1,5 +1,5 @@
 import { useMemo, useState } from "react";
-import { useQuery } from "convex/react";
+import { usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
 import { Link } from "react-router-dom";
@@ -40,8 +40,16 @@ export function AutomationPage() {
   const [selectedAgentId, setSelectedAgentId] = useState<Id<"agents"> | null>(null);
   const [selectedType, setSelectedType] = useState<"all" | ThoughtType>("all");
 
-  const inboxThreads = useQuery(api.functions.a2a.getInboxThreads, { limit: 20 });
-  const outboxThreads = useQuery(api.functions.a2a.getOutboxThreads, { limit: 20 });
+  const inboxThreads = usePaginatedQuery(
+    api.functions.a2a.getInboxThreads,
+    {},
+    { initialNumItems: 20 }
+  );
+  const outboxThreads = usePaginatedQuery(
+    api.functions.a2a.getOutboxThreads,
+    {},
+    { initialNumItems: 20 }
+  );
   const agents = useQuery(api.functions.agents.list) as AgentRow[] | undefined;
   const teamOverview = useQuery(api.functions.teams.getTaskOverview) as
     | TeamOverviewRow[]
@@ -115,11 +123,11 @@ export function AutomationPage() {
                 <div className="grid gap-4 sm:grid-cols-2">
                   <InfoCard
                     label="Inbox threads"
-                    value={inboxThreads ? inboxThreads.length : "-"}
+                    value={inboxThreads.status === "LoadingFirstPage" ? "-" : inboxThreads.results.length}
                   />
                   <InfoCard
                     label="Outbox threads"
-                    value={outboxThreads ? outboxThreads.length : "-"}
+                    value={outboxThreads.status === "LoadingFirstPage" ? "-" : outboxThreads.results.length}
                   />
                 </div>
                 <div className="mt-4 rounded-lg border border-surface-3 bg-surface-1 p-3">
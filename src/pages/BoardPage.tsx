@@ -4,10 +4,12 @@ import ReactMarkdown from "react-markdown";
 import { CopySimple } from "@phosphor-icons/react";
 import { api } from "../../convex/_generated/api";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
+import { CronPreview } from "../components/CronPreview";
 import { DateTimePicker } from "../components/DateTimePicker";
 import { WorkflowView } from "../components/WorkflowView";
 import { Doc, Id } from "../../convex/_generated/dataModel";
 import { useEscapeKey } from "../hooks/useEscapeKey";
+import { getUserTimezone } from "../lib/datetime";
 import { notify } from "../lib/notify";
 import { platformApi } from "../lib/platformApi";
 import { useVoiceChat } from "../hooks/useVoiceChat";
@@ -45,6 +47,9 @@ interface Task {
   outcomeImages?: Array<string>;
   outcomeVideoUrl?: string;
   parentTaskId?: Id<"tasks">;
+  blockedBy?: Array<Id<"tasks">>;
+  recurrence?: TaskRecurrence;
+  recurrenceTemplateId?: Id<"tasks">;
   outcomeEmailStatus?: "queued" | "sent" | "failed";
   outcomeEmailLastAttemptAt?: number;
   outcomeEmailSentAt?: number;
@@ -57,6 +62,41 @@ interface TaskComment {
   createdAt: number;
 }
 
+type RepeatFrequency = "daily" | "weekly" | "monthly" | "cron";
+
+interface RecurrenceRule {
+  frequency: RepeatFrequency;
+  time?: string;
+  daysOfWeek?: Array<number>;
+  dayOfMonth?: number;
+  cronSpec?: string;
+  timezone?: string;
+  endsAt?: number;
+}
+
+interface TaskRecurrence extends RecurrenceRule {
+  timezone: string;
+  status: "active" | "paused" | "ended";
+  nextRunAt?: number;
+  lastSpawnedAt?: number;
+  spawnCount: number;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface DependencyTask {
+  _id: Id<"tasks">;
+  description: string;
+  status: "pending" | "in_progress" | "completed" | "failed";
+  depth: number;
+}
+
+interface TaskDependencies {
+  blocked: boolean;
+  prerequisites: Array<DependencyTask>;
+  dependents: Array<DependencyTask>;
+}
+
 interface TaskAttachment {
   _id: Id<"taskAttachments">;
   fileName: string;
@@ -90,6 +130,8 @@ export function BoardPage() {
   const createTask = useMutation(platformApi.convex.board.createTask);
   const moveTask = useMutation(platformApi.convex.board.moveTask);
   const updateTask = useMutation(platformApi.convex.board.updateTask);
+  const setTaskRecurrence = useMutation(platformApi.convex.board.setTaskRecurrence);
+  const setTaskRecurrenceStatus = useMutation(platformApi.convex.board.setTaskRecurrenceStatus);
   const doTaskNow = useMutation(platformApi.convex.board.doNow);
   const deleteTask = useMutation(platformApi.convex.board.deleteTask);
   const archiveTask = useMutation(platformApi.convex.board.archiveTask);
@@ -129,6 +171,13 @@ export function BoardPage() {
   const [editTeam, setEditTeam] = useState<Id<"agentTeams"> | "none">("none");
   const [editProject, setEditProject] = useState<Id<"boardProjects"> | "none">("none");
   const [editTargetCompletionAt, setEditTargetCompletionAt] = useState("");
+  const [editRepeat, setEditRepeat] = useState<RepeatFrequency | "none">("none");
+  const [editRepeatTime, setEditRepeatTime] = useState("09:00");
+  const [editRepeatDays, setEditRepeatDays] = useState<Array<number>>([1]);
+  const [editRepeatDayOfMonth, setEditRepeatDayOfMonth] = useState("1");
+  const [editRepeatCron, setEditRepeatCron] = useState("");
+  const [editRepeatTimezone, setEditRepeatTimezone] = useState(getUserTimezone);
+  const [editRepeatEndsAt, setEditRepeatEndsAt] = useState("");
   
   // Drag state
   const [draggingTask, setDraggingTask] = useState<Id<"tasks"> | null>(null);
@@ -145,6 +194,7 @@ export function BoardPage() {
   const [showArchive, setShowArchive] = useState(false);
   const [detailsTaskId, setDetailsTaskId] = useState<Id<"tasks"> | null>(null);
   const [newCommentText, setNewCommentText] = useState("");
+  const [newPrerequisiteId, setNewPrerequisiteId] = useState<Id<"tasks"> | "none">("none");
   const [uploadingAttachment, setUploadingAttachment] = useState(false);
   const [outcomeSummaryDraft, setOutcomeSummaryDraft] = useState("");
   const [outcomeLinksDraft, setOutcomeLinksDraft] = useState("");
@@ -252,6 +302,15 @@ export function BoardPage() {
     platformApi.convex.board.getWorkflowSteps,
     detailsTaskId ? { taskId: detailsTaskId } : "skip"
   );
+  const taskDependencies = useQuery(
+    platformApi.convex.board.getTaskDependencies,
+    detailsTaskId ? { taskId: detailsTaskId } : "skip"
+  ) as TaskDependencies | null | undefined;
+  const detailsTaskRepeats = !!tasks?.find((task: Task) => task._id === detailsTaskId)?.recurrence;
+  const recurringInstances = useQuery(
+    platformApi.convex.board.listRecurringInstances,
+    detailsTaskId && detailsTaskRepeats ? { templateId: detailsTaskId } : "skip"
+  ) as Array<Task> | undefined;
 
   useEffect(() => {
     if (!columns) return;
@@ -366,6 +425,58 @@ export function BoardPage() {
         ? new Date(task.targetCompletionAt).toISOString().slice(0, 16)
         : ""
     );
+    const recurrence = task.recurrence;
+    setEditRepeat(recurrence?.frequency ?? "none");
+    setEditRepeatTime(recurrence?.time ?? "09:00");
+    setEditRepeatDays(recurrence?.daysOfWeek ?? [1]);
+    setEditRepeatDayOfMonth(String(recurrence?.dayOfMonth ?? 1));
+    setEditRepeatCron(recurrence?.cronSpec ?? "");
+    setEditRepeatTimezone(recurrence?.timezone ?? getUserTimezone());
+    setEditRepeatEndsAt(
+      recurrence?.endsAt ? toLocalDateTimeValue(recurrence.endsAt) : ""
+    );
+  }
+
+  // The repeat rule in the edit form, or null when the task should not repeat
+  function buildRecurrenceRule(): RecurrenceRule | null {
+    if (editRepeat === "none") return null;
+    const rule: RecurrenceRule = {
+      frequency: editRepeat,
+      timezone: editRepeatTimezone.trim() || undefined,
+      endsAt: editRepeatEndsAt ? new Date(editRepeatEndsAt).getTime() : undefined,
+    };
+    if (editRepeat === "cron") {
+      rule.cronSpec = editRepeatCron.trim();
+    } else {
+      rule.time = editRepeatTime;
+    }
+    if (editRepeat === "weekly") rule.daysOfWeek = [...editRepeatDays].sort((a, b) => a - b);
+    if (editRepeat === "monthly") rule.dayOfMonth = Number(editRepeatDayOfMonth);
+    return rule;
+  }
+
+  function isSameRecurrenceRule(rule: RecurrenceRule | null, current: TaskRecurrence | undefined): boolean {
+    if (!rule || !current) return !rule && !current;
+    return (
+      rule.frequency === current.frequency &&
+      (rule.time ?? null) === (current.time ?? null) &&
+      (rule.daysOfWeek ?? []).join(",") === (current.daysOfWeek ?? []).join(",") &&
+      (rule.dayOfMonth ?? null) === (current.dayOfMonth ?? null) &&
+      (rule.cronSpec ?? null) === (current.cronSpec ?? null) &&
+      (rule.timezone ?? null) === current.timezone &&
+      (rule.endsAt ?? null) === (current.endsAt ?? null)
+    );
+  }
+
+  async function handleSetRecurrenceStatus(taskId: Id<"tasks">, status: TaskRecurrence["status"]) {
+    try {
+      await setTaskRecurrenceStatus({ taskId, status });
+      notify.success(
+        status === "active" ? "Series resumed" : status === "paused" ? "Series paused" : "Series ended"
+      );
+    } catch (error) {
+      notify.error("Could not update series", error);
+    }
   }
 
   async function handleUpdateTask() {
@@ -389,6 +500,10 @@ export function BoardPage() {
           ? new Date(editTargetCompletionAt).getTime()
           : null,
       });
+      const rule = buildRecurrenceRule();
+      if (!currentTask?.recurrenceTemplateId && !isSameRecurrenceRule(rule, currentTask?.recurrence)) {
+        await setTaskRecurrence({ taskId: editingTask, recurrence: rule });
+      }
       setEditingTask(null);
       notify.success("Task updated");
     } catch (error) {
@@ -494,6 +609,17 @@ export function BoardPage() {
     }
   }
 
+  async function handleSetPrerequisites(blockedBy: Array<Id<"tasks">>) {
+    if (!detailsTaskId) return;
+    try {
+      await updateTask({ taskId: detailsTaskId, blockedBy });
+      setNewPrerequisiteId("none");
+      notify.success("Dependencies updated");
+    } catch (error) {
+      notify.error("Could not update dependencies", error);
+    }
+  }
+
   async function handleUploadAttachment(file: File | null, input: HTMLInputElement) {
     if (!detailsTaskId || !file) return;
     setUploadingAttachment(true);
@@ -626,10 +752,27 @@ export function BoardPage() {
     };
   }
 
+  // Prerequisites that have not completed yet; archived or deleted ones are not on the board
+  function getBlockingCount(task: Task): number {
+    if (!tasks || task.status !== "pending" || !task.blockedBy?.length) return 0;
+    return task.blockedBy.filter((id) => {
+      const prerequisite = (tasks as Array<Task>).find((t) => t._id === id);
+      return !!prerequisite && prerequisite.status !== "completed";
+    }).length;
+  }
+
+  const editingTaskDoc = tasks?.find((task: Task) => task._id === editingTask) as Task | undefined;
   const filteredTasks = tasks?.filter((task: Task) => matchesFilters(task)) ?? [];
   const detailTask =
     (tasks?.find((task: Task) => task._id === detailsTaskId) as Task | undefined) ??
     (archivedTasks?.find((task: Task) => task._id === detailsTaskId) as Task | undefined);
+  // Missing when the template was deleted
+  const recurrenceTemplate = detailTask?.recurrenceTemplateId
+    ? ((tasks?.find((task: Task) => task._id === detailTask.recurrenceTemplateId) as Task | undefined) ??
+      (archivedTasks?.find((task: Task) => task._id === detailTask.recurrenceTemplateId) as
+        | Task
+        | undefined))
+    : undefined;
 
   useEffect(() => {
     if (!detailsTaskId || !detailTask) {
@@ -643,6 +786,10 @@ export function BoardPage() {
     setEditingOutcome(false);
   }, [detailsTaskId, detailTask?._id, detailTask?.outcomeSummary, detailTask?.outcomeLinks]);
 
+  useEffect(() => {
+    setNewPrerequisiteId("none");
+  }, [detailsTaskId]);
+
   // Resolve outcome viewer task
   const outcomeViewerTask =
     outcomeViewerTaskId
@@ -1112,6 +1259,147 @@ export function BoardPage() {
                     variant="field"
                   />
                 </div>
+                {editingTaskDoc?.recurrenceTemplateId ? (
+                  <p className="text-xs text-ink-2">
+                    Spawned by a recurring task. Edit the recurring task to change the schedule.
+                  </p>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-ink-0">Repeat</label>
+                    <select
+                      value={editRepeat}
+                      onChange={(e) => setEditRepeat(e.target.value as RepeatFrequency | "none")}
+                      className="input mt-1.5"
+                    >
+                      <option value="none">Does not repeat</option>
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                      <option value="cron">Custom (cron)</option>
+                    </select>
+                    {editRepeat !== "none" && (
+                      <div className="mt-3 space-y-3 rounded-lg border border-surface-3 bg-surface-1 p-3">
+                        {editRepeat === "weekly" && (
+                          <div className="flex flex-wrap gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => {
+                              const selected = editRepeatDays.includes(day);
+                              return (
+                                <button
+                                  key={label}
+                                  type="button"
+                                  onClick={() =>
+                                    setEditRepeatDays(
+                                      selected
+                                        ? editRepeatDays.filter((value) => value !== day)
+                                        : [...editRepeatDays, day]
+                                    )
+                                  }
+                                  className={`rounded-full px-2.5 py-1 text-xs ${
+                                    selected ? "bg-accent text-white" : "bg-surface-2 text-ink-1"
+                                  }`}
+                                  aria-pressed={selected}
+                                >
+                                  {label}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                        {editRepeat === "monthly" && (
+                          <div>
+                            <label className="block text-xs text-ink-1">Day of month (1-28)</label>
+                            <input
+                              type="number"
+                              min={1}
+                              max={28}
+                              value={editRepeatDayOfMonth}
+                              onChange={(e) => setEditRepeatDayOfMonth(e.target.value)}
+                              className="input mt-1"
+                            />
+                          </div>
+                        )}
+                        {editRepeat === "cron" ? (
+                          <div>
+                            <label className="block text-xs text-ink-1">Cron expression</label>
+                            <input
+                              value={editRepeatCron}
+                              onChange={(e) => setEditRepeatCron(e.target.value)}
+                              className="input mt-1 font-mono"
+                              placeholder="0 9 * * 1"
+                            />
+                            <CronPreview expression={editRepeatCron} timezone={editRepeatTimezone} count={3} />
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="block text-xs text-ink-1">Time</label>
+                            <input
+                              type="time"
+                              value={editRepeatTime}
+                              onChange={(e) => setEditRepeatTime(e.target.value)}
+                              className="input mt-1"
+                            />
+                          </div>
+                        )}
+                        <div>
+                          <label className="block text-xs text-ink-1">Timezone</label>
+                          <input
+                            value={editRepeatTimezone}
+                            onChange={(e) => setEditRepeatTimezone(e.target.value)}
+                            className="input mt-1"
+                            placeholder="America/Los_Angeles"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-ink-1">Ends (optional)</label>
+                          <DateTimePicker
+                            value={editRepeatEndsAt}
+                            onChange={setEditRepeatEndsAt}
+                            variant="field"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {editingTaskDoc?.recurrence && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-ink-1">
+                        <span>
+                          {editingTaskDoc.recurrence.status === "active" && editingTaskDoc.recurrence.nextRunAt
+                            ? `Next instance ${new Date(editingTaskDoc.recurrence.nextRunAt).toLocaleString()}`
+                            : editingTaskDoc.recurrence.status === "paused"
+                              ? "Series paused"
+                              : "Series ended"}
+                          {` · ${editingTaskDoc.recurrence.spawnCount} spawned`}
+                        </span>
+                        {editingTaskDoc.recurrence.status === "active" && (
+                          <button
+                            type="button"
+                            onClick={() => void handleSetRecurrenceStatus(editingTaskDoc._id, "paused")}
+                            className="btn-secondary text-xs"
+                          >
+                            Pause
+                          </button>
+                        )}
+                        {editingTaskDoc.recurrence.status === "paused" && (
+                          <button
+                            type="button"
+                            onClick={() => void handleSetRecurrenceStatus(editingTaskDoc._id, "active")}
+                            className="btn-secondary text-xs"
+                          >
+                            Resume
+                          </button>
+                        )}
+                        {editingTaskDoc.recurrence.status !== "ended" && (
+                          <button
+                            type="button"
+                            onClick={() => void handleSetRecurrenceStatus(editingTaskDoc._id, "ended")}
+                            className="btn-secondary text-xs"
+                          >
+                            End series
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="mt-6 flex justify-end gap-3">
                 <button onClick={() => setEditingTask(null)} className="btn-secondary">Cancel</button>
@@ -1130,6 +1418,11 @@ export function BoardPage() {
                   <p className="text-pretty text-base font-semibold text-ink-0">{detailTask.description}</p>
                   <div className="mt-2 flex flex-wrap items-center gap-2">
                     <StatusBadge status={detailTask.status} />
+                    {taskDependencies?.blocked && (
+                      <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs text-yellow-700">
+                        Blocked
+                      </span>
+                    )}
                     {getAgentName(detailTask.agentId) && (
                       <span className="rounded-full bg-accent/10 px-2 py-0.5 text-xs text-accent">
                         {getAgentName(detailTask.agentId)}
@@ -1333,6 +1626,174 @@ export function BoardPage() {
                 </div>
               </div>
 
+              {/* Recurring series */}
+              {(detailTask.recurrence || detailTask.recurrenceTemplateId) && (
+                <div className="mt-5 rounded-lg border border-surface-3 bg-surface-1 p-3 text-sm">
+                  {detailTask.recurrenceTemplateId ? (
+                    <p className="text-ink-1">
+                      Spawned by{" "}
+                      {recurrenceTemplate ? (
+                        <button
+                          type="button"
+                          onClick={() => setDetailsTaskId(recurrenceTemplate._id)}
+                          className="text-accent hover:underline"
+                        >
+                          {recurrenceTemplate.description.slice(0, 80)}
+                        </button>
+                      ) : (
+                        "a recurring task that is no longer on the board"
+                      )}
+                    </p>
+                  ) : detailTask.recurrence ? (
+                    <>
+                      <p className="font-medium text-ink-0">{formatRecurrence(detailTask.recurrence)}</p>
+                      <p className="mt-1 text-xs text-ink-2">
+                        {detailTask.recurrence.status === "active" && detailTask.recurrence.nextRunAt
+                          ? `Next instance ${new Date(detailTask.recurrence.nextRunAt).toLocaleString()}`
+                          : detailTask.recurrence.status === "paused"
+                            ? "Series paused"
+                            : "Series ended"}
+                        {` · ${detailTask.recurrence.timezone}`}
+                      </p>
+                      {recurringInstances && recurringInstances.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {recurringInstances.slice(0, 10).map((instance) => (
+                            <li key={instance._id} className="flex items-center justify-between gap-2 rounded bg-surface-0 p-2">
+                              <button
+                                type="button"
+                                onClick={() => setDetailsTaskId(instance._id)}
+                                className="min-w-0 truncate text-left text-xs text-ink-0 hover:underline"
+                              >
+                                {formatDate(instance.createdAt)}
+                              </button>
+                              <StatusBadge status={instance.status} />
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  ) : null}
+                </div>
+              )}
+
+              {/* Dependencies section */}
+              <details
+                className="group mt-5"
+                open={!!detailTask.blockedBy?.length || (taskDependencies?.dependents.length ?? 0) > 0}
+              >
+                <summary className="flex cursor-pointer items-center gap-2 text-sm font-medium text-ink-0">
+                  <svg className="size-4 text-ink-2 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                  </svg>
+                  Dependencies
+                  {detailTask.blockedBy && detailTask.blockedBy.length > 0 && (
+                    <span className="rounded-full bg-surface-2 px-2 py-0.5 text-xs tabular-nums text-ink-1">{detailTask.blockedBy.length}</span>
+                  )}
+                </summary>
+                <div className="mt-3 space-y-3 rounded-lg border border-surface-3 bg-surface-1 p-3">
+                  {taskDependencies === undefined ? (
+                    <p className="text-sm text-ink-1">Loading dependencies...</p>
+                  ) : (
+                    <>
+                      <div>
+                        <p className="text-xs font-medium text-ink-1">Waits on</p>
+                        {!taskDependencies || taskDependencies.prerequisites.length === 0 ? (
+                          <p className="mt-1 text-sm text-ink-1">No prerequisites. The task runs as soon as it is assigned.</p>
+                        ) : (
+                          <ul className="mt-1 space-y-1">
+                            {taskDependencies.prerequisites.map((prerequisite) => (
+                              <li
+                                key={prerequisite._id}
+                                className="flex items-center justify-between gap-2 rounded bg-surface-0 p-2"
+                                style={{ marginLeft: `${prerequisite.depth - 1}rem` }}
+                              >
+                                <button
+                                  type="button"
+                                  onClick={() => setDetailsTaskId(prerequisite._id)}
+                                  className="min-w-0 truncate text-left text-sm text-ink-0 hover:underline"
+                                >
+                                  {prerequisite.depth > 1 ? "↳ " : ""}
+                                  {prerequisite.description}
+                                </button>
+                                <div className="flex shrink-0 items-center gap-2">
+                                  <StatusBadge status={prerequisite.status} />
+                                  {detailTask.status === "pending" && prerequisite.depth === 1 && (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        void handleSetPrerequisites(
+                                          (detailTask.blockedBy ?? []).filter((id) => id !== prerequisite._id)
+                                        )
+                                      }
+                                      className="text-xs text-ink-2 hover:text-red-600"
+                                      aria-label="Remove prerequisite"
+                                    >
+                                      Remove
+                                    </button>
+                                  )}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      {taskDependencies && taskDependencies.dependents.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-ink-1">Waiting on this task</p>
+                          <ul className="mt-1 space-y-1">
+                            {taskDependencies.dependents.map((dependent) => (
+                              <li key={dependent._id} className="flex items-center justify-between gap-2 rounded bg-surface-0 p-2">
+                                <button
+                                  type="button"
+                                  onClick={() => setDetailsTaskId(dependent._id)}
+                                  className="min-w-0 truncate text-left text-sm text-ink-0 hover:underline"
+                                >
+                                  {dependent.description}
+                                </button>
+                                <StatusBadge status={dependent.status} />
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+                {detailTask.status === "pending" && (
+                  <div className="mt-2 flex gap-2">
+                    <select
+                      value={newPrerequisiteId}
+                      onChange={(e) => setNewPrerequisiteId(e.target.value as Id<"tasks"> | "none")}
+                      className="input flex-1"
+                    >
+                      <option value="none">Add a prerequisite task...</option>
+                      {(tasks as Array<Task> | undefined)
+                        ?.filter(
+                          (task) =>
+                            task._id !== detailTask._id &&
+                            task.status !== "failed" &&
+                            !detailTask.blockedBy?.includes(task._id)
+                        )
+                        .map((task) => (
+                          <option key={task._id} value={task._id}>
+                            {task.description.slice(0, 80)}
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        if (newPrerequisiteId === "none") return;
+                        void handleSetPrerequisites([...(detailTask.blockedBy ?? []), newPrerequisiteId]);
+                      }}
+                      className="btn-secondary text-sm"
+                      disabled={newPrerequisiteId === "none"}
+                    >
+                      Add
+                    </button>
+                  </div>
+                )}
+              </details>
+
               {/* Comments section */}
               <details className="group mt-5">
                 <summary className="flex cursor-pointer items-center gap-2 text-sm font-medium text-ink-0">
@@ -1488,6 +1949,7 @@ export function BoardPage() {
                           agentName={getAssigneeLabel(task)}
                           projectName={getProjectName(task.projectId)}
                           subtaskCount={getSubtaskCount(task._id)}
+                          blockingCount={getBlockingCount(task)}
                           onDragStart={() => handleDragStart(task._id)}
                           onEdit={() => startEditingTask(task)}
                           onOpenDetails={() => setDetailsTaskId(task._id)}
@@ -1495,7 +1957,7 @@ export function BoardPage() {
                           onArchive={() => handleArchiveTask(task._id)}
                           onDoNow={() => handleDoNow(task._id)}
                           onViewOutcome={() => setOutcomeViewerTaskId(task._id)}
-                          showDoNow={column.name === "Todo" && task.status !== "completed" && task.status !== "failed"}
+                          showDoNow={column.name === "Todo" && task.status !== "completed" && task.status !== "failed" && getBlockingCount(task) === 0}
                           isDragging={draggingTask === task._id}
                         />
                       ))
@@ -1588,6 +2050,7 @@ export function BoardPage() {
                   agentName={getAssigneeLabel(task)}
                   projectName={getProjectName(task.projectId)}
                   subtaskCount={getSubtaskCount(task._id)}
+                  blockingCount={getBlockingCount(task)}
                   onDragStart={() => handleDragStart(task._id)}
                   onEdit={() => startEditingTask(task)}
                   onOpenDetails={() => setDetailsTaskId(task._id)}
@@ -1595,7 +2058,7 @@ export function BoardPage() {
                   onArchive={() => handleArchiveTask(task._id)}
                   onDoNow={() => handleDoNow(task._id)}
                   onViewOutcome={() => setOutcomeViewerTaskId(task._id)}
-                  showDoNow={task.status !== "completed" && task.status !== "failed"}
+                  showDoNow={task.status !== "completed" && task.status !== "failed" && getBlockingCount(task) === 0}
                   isDragging={draggingTask === task._id}
                 />
               ))}
@@ -1820,6 +2283,7 @@ function TaskCard({
   agentName,
   projectName,
   subtaskCount,
+  blockingCount,
   onDragStart,
   onEdit,
   onOpenDetails,
@@ -1834,6 +2298,7 @@ function TaskCard({
   agentName: string | null;
   projectName: string | null;
   subtaskCount?: { total: number; completed: number };
+  blockingCount: number;
   onDragStart: () => void;
   onEdit: () => void;
   onOpenDetails: () => void;
@@ -1935,6 +2400,34 @@ function TaskCard({
           Subtask
         </div>
       )}
+      {blockingCount > 0 && (
+        <div className="mt-1.5 flex items-center gap-1 text-xs text-yellow-700">
+          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          Blocked by {blockingCount} {blockingCount === 1 ? "task" : "tasks"}
+        </div>
+      )}
+      {task.recurrence && (
+        <div className="mt-1.5 flex items-center gap-1 text-xs text-ink-2" title={task.recurrence.timezone}>
+          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          {task.recurrence.status === "active"
+            ? formatRecurrence(task.recurrence)
+            : task.recurrence.status === "paused"
+              ? "Series paused"
+              : "Series ended"}
+        </div>
+      )}
+      {task.recurrenceTemplateId && (
+        <div className="mt-1.5 flex items-center gap-1 text-xs text-ink-2">
+          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Recurring instance
+        </div>
+      )}
       {task.outcomeFileId && (
         <div className="mt-1.5 flex items-center gap-1 text-xs text-blue-600">
           <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -2164,6 +2657,26 @@ function formatTargetStatus(task: {
   })}`;
 }
 
+// "YYYY-MM-DDTHH:mm" in local time, the format DateTimePicker reads and writes
+function toLocalDateTimeValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatRecurrence(recurrence: TaskRecurrence): string {
+  if (recurrence.frequency === "cron") return `Repeats on cron ${recurrence.cronSpec ?? ""}`;
+  const time = recurrence.time ?? "09:00";
+  if (recurrence.frequency === "weekly") {
+    const days = (recurrence.daysOfWeek ?? []).map((day) => WEEKDAY_LABELS[day]).join(", ");
+    return `Repeats weekly on ${days} at ${time}`;
+  }
+  if (recurrence.frequency === "monthly") {
+    return `Repeats monthly on day ${recurrence.dayOfMonth ?? 1} at ${time}`;
+  }
+  return `Repeats daily at ${time}`;
+}
+
 function formatShortDate(timestamp: number): string {
   return new Date(timestamp).toLocaleDateString("en-US", {
     month: "short",
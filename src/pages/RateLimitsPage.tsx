@@ -2,16 +2,32 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
 
+type QuotaWindow = "minute" | "day" | "month";
+
 type RateLimitDashboard = {
-  activeWindows: number;
-  totalRequestsInWindow: number;
-  topKeys: Array<{
+  requestsToday: number;
+  requestsThisMonth: number;
+  buckets: Array<{
     key: string;
-    count: number;
-    resetAt: number;
+    label: string;
+    routeGroup: "api" | "mcp" | "docs" | "skills";
+    scope: "route_group" | "key";
+    quotas: Array<{
+      window: QuotaWindow;
+      limit: number;
+      remaining: number;
+      resetAt: number;
+    }>;
+    updatedAt: number;
   }>;
 };
 
+const WINDOW_LABELS: Record<QuotaWindow, string> = {
+  minute: "Per minute (with burst)",
+  day: "Today (UTC)",
+  month: "This month (UTC)",
+};
+
 export function RateLimitsPage() {
   const dashboard = useQuery(
     api.functions.rateLimits.getDashboard
@@ -23,7 +39,7 @@ export function RateLimitsPage() {
         <div>
           <h1 className="text-2xl font-semibold text-ink-0">Rate limits</h1>
           <p className="mt-1 text-ink-1">
-            Monitor active request windows and top keys in the current minute.
+            Live usage against each route group and API key quota.
           </p>
         </div>
 
@@ -35,39 +51,66 @@ export function RateLimitsPage() {
           <>
             <div className="mt-6 grid gap-4 sm:grid-cols-2">
               <div className="card">
-                <p className="text-sm text-ink-1">Active windows</p>
+                <p className="text-sm text-ink-1">Requests today</p>
                 <p className="mt-2 text-3xl font-semibold text-ink-0">
-                  {dashboard.activeWindows}
+                  {dashboard.requestsToday}
                 </p>
               </div>
               <div className="card">
-                <p className="text-sm text-ink-1">Requests in current window</p>
+                <p className="text-sm text-ink-1">Requests this month</p>
                 <p className="mt-2 text-3xl font-semibold text-ink-0">
-                  {dashboard.totalRequestsInWindow}
+                  {dashboard.requestsThisMonth}
                 </p>
               </div>
             </div>
 
             <div className="mt-6 card">
-              <h2 className="text-sm font-medium text-ink-0">Top keys</h2>
-              {dashboard.topKeys.length === 0 ? (
-                <p className="mt-3 text-sm text-ink-1">No active rate limit windows.</p>
+              <h2 className="text-sm font-medium text-ink-0">Quotas</h2>
+              {dashboard.buckets.length === 0 ? (
+                <p className="mt-3 text-sm text-ink-1">No rate limited requests this month.</p>
               ) : (
-                <div className="mt-3 space-y-2">
-                  {dashboard.topKeys.map((entry) => (
+                <div className="mt-3 space-y-3">
+                  {dashboard.buckets.map((bucket) => (
                     <div
-                      key={entry.key}
-                      className="flex items-center justify-between rounded-lg border border-surface-3 bg-surface-1 p-3"
+                      key={bucket.key}
+                      className="rounded-lg border border-surface-3 bg-surface-1 p-3"
                     >
-                      <div className="min-w-0">
-                        <p className="truncate text-sm text-ink-0">{entry.key}</p>
-                        <p className="text-xs text-ink-2">
-                          resets {new Date(entry.resetAt).toLocaleTimeString()}
-                        </p>
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="truncate text-sm text-ink-0">{bucket.label}</p>
+                        <span className="rounded bg-surface-2 px-2 py-0.5 text-xs text-ink-1">
+                          {bucket.routeGroup}
+                        </span>
+                      </div>
+                      <div className="mt-3 grid gap-3 sm:grid-cols-3">
+                        {bucket.quotas.map((quota) => {
+                          const used = quota.limit - quota.remaining;
+                          const percent =
+                            quota.limit > 0 ? Math.min(100, (used / quota.limit) * 100) : 100;
+                          return (
+                            <div key={quota.window}>
+                              <div className="flex items-center justify-between text-xs">
+                                <span className="text-ink-1">{WINDOW_LABELS[quota.window]}</span>
+                                <span className="text-ink-0">
+                                  {used} / {quota.limit}
+                                </span>
+                              </div>
+                              <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-surface-3">
+                                <div
+                                  className={`h-full rounded-full ${
+                                    percent >= 90 ? "bg-red-500" : "bg-accent"
+                                  }`}
+                                  style={{ width: `${percent}%` }}
+                                />
+                              </div>
+                              <p className="mt-1 text-xs text-ink-2">
+                                {quota.remaining === quota.limit
+                                  ? "full"
+                                  : `resets ${new Date(quota.resetAt).toLocaleString()}`}
+                              </p>
+                            </div>
+                          );
+                        })}
                       </div>
-                      <span className="rounded bg-surface-2 px-2 py-0.5 text-xs text-ink-1">
-                        {entry.count}
-                      </span>
                     </div>
                   ))}
                 </div>
@@ -1,8 +1,9 @@
-import { useMemo } from "react";
-import { useQuery } from "convex/react";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
 import type { Id } from "../../convex/_generated/dataModel";
+import { notify } from "../lib/notify";
 
 type SecurityEvent = {
   _id: Id<"auditLog">;
@@ -13,11 +14,127 @@ type SecurityEvent = {
   callerIdentity?: string;
 };
 
+type RuleType = "injection" | "sensitive" | "exfiltration";
+type RuleSeverity = "warn" | "block";
+type Strictness = "relaxed" | "standard" | "strict";
+type Channel = "dashboard" | "api" | "mcp" | "webmcp" | "a2a" | "email" | "phone";
+
+type SecurityRule = {
+  id: string;
+  type: RuleType;
+  pattern: string;
+  severity: RuleSeverity;
+  description?: string;
+};
+
+type RedactionRule = {
+  id: string;
+  pattern: string;
+  replacement?: string;
+  description?: string;
+};
+
+type SecurityPolicy = {
+  severityOverrides: Array<{ ruleId: string; severity: "off" | RuleSeverity }>;
+  customRules: Array<SecurityRule>;
+  redactionRules: Array<RedactionRule>;
+  allowPhrases: Array<string>;
+  channelStrictness: Partial<Record<Channel, Strictness>>;
+  classifier?: ClassifierConfig;
+};
+
+type ClassifierMode = "off" | "suspicious" | "public" | "all";
+
+type ClassifierConfig = {
+  mode: ClassifierMode;
+  threshold: number;
+  model?: string;
+};
+
+type PolicyResponse = {
+  builtInRules: Array<SecurityRule>;
+  policy: SecurityPolicy | null;
+  updatedAt: number | null;
+};
+
+type TestResult = {
+  severity: "safe" | "warn" | "block";
+  strictness: Strictness;
+  flags: Array<{
+    ruleId: string;
+    type: RuleType;
+    pattern: string;
+    match: string;
+    severity: RuleSeverity;
+  }>;
+};
+
+type MyAgent = {
+  _id: Id<"agents">;
+  name: string;
+};
+
+const CHANNELS: Array<{ id: Channel; label: string }> = [
+  { id: "dashboard", label: "Dashboard chat" },
+  { id: "api", label: "REST API" },
+  { id: "mcp", label: "MCP" },
+  { id: "webmcp", label: "WebMCP" },
+  { id: "a2a", label: "Agent to agent" },
+  { id: "email", label: "Email" },
+  { id: "phone", label: "Phone" },
+];
+
+const STRICTNESS_LABELS: Record<Strictness, string> = {
+  relaxed: "Relaxed (warn only)",
+  standard: "Standard",
+  strict: "Strict (warnings block)",
+};
+
+const CLASSIFIER_MODE_LABELS: Record<ClassifierMode, string> = {
+  off: "Off",
+  suspicious: "Inputs a rule flagged",
+  public: "All public-channel inputs",
+  all: "Every input",
+};
+
+// Mirrors DEFAULT_CLASSIFIER_THRESHOLD in convex/agent/injectionClassifier.ts
+const DEFAULT_CLASSIFIER_THRESHOLD = 0.8;
+
+const EMPTY_POLICY: SecurityPolicy = {
+  severityOverrides: [],
+  customRules: [],
+  redactionRules: [],
+  allowPhrases: [],
+  channelStrictness: {},
+};
+
+const EMPTY_CUSTOM_RULE: SecurityRule = {
+  id: "",
+  type: "injection",
+  pattern: "",
+  severity: "block",
+  description: "",
+};
+
+const EMPTY_REDACTION_RULE: RedactionRule = {
+  id: "",
+  pattern: "",
+  replacement: "",
+};
+
+const SEVERITY_BADGES: Record<string, string> = {
+  block: "bg-red-100 text-red-700",
+  warn: "bg-amber-100 text-amber-700",
+  safe: "bg-green-100 text-green-700",
+};
+
 export function SecurityAlertsPage() {
   const events = useQuery(
     api.functions.auditLog.getSecurityEvents
   ) as SecurityEvent[] | undefined;
   const csvExport = useQuery(api.functions.auditLog.exportCsv, { limit: 1000 });
+  const agents = useQuery(api.functions.agents.list) as MyAgent[] | undefined;
+  const [scopeAgentId, setScopeAgentId] = useState<Id<"agents"> | "">("");
 
   const totalBlocked = useMemo(
     () => events?.filter((event) => event.status === "blocked").length ?? 0,
@@ -72,6 +189,34 @@ export function SecurityAlertsPage() {
           </div>
         </div>
 
+        <div className="mt-6 card">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-medium text-ink-0">Scanner policy</h2>
+              <p className="mt-1 text-xs text-ink-2">
+                Agent policies are layered over your account policy.
+              </p>
+            </div>
+            <select
+              value={scopeAgentId}
+              onChange={(e) => setScopeAgentId(e.target.value as Id<"agents"> | "")}
+              className="input w-auto text-sm"
+            >
+              <option value="">All agents (account policy)</option>
+              {(agents ?? []).map((agent) => (
+                <option key={agent._id} value={agent._id}>
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <SecurityPolicyEditor agentId={scopeAgentId || undefined} />
+        </div>
+
+        <div className="mt-6 card">
+          <SecurityTestPanel agentId={scopeAgentId || undefined} />
+        </div>
+
         <div className="mt-6 card">
           {events === undefined ? (
             <div className="flex items-center justify-center py-10">
@@ -87,7 +232,13 @@ export function SecurityAlertsPage() {
                   className="rounded-lg border border-surface-3 bg-surface-1 p-4"
                 >
                   <div className="flex flex-wrap items-center gap-2">
-                    <span className="rounded bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs font-medium ${
+                        event.status === "blocked"
+                          ? "bg-red-100 text-red-700"
+                          : "bg-surface-2 text-ink-1"
+                      }`}
+                    >
                       {event.status}
                     </span>
                     <span className="rounded bg-surface-2 px-2 py-0.5 text-xs text-ink-1">
@@ -112,3 +263,498 @@ export function SecurityAlertsPage() {
     </DashboardLayout>
   );
 }
+
+function SecurityPolicyEditor({ agentId }: { agentId?: Id<"agents"> }) {
+  const data = useQuery(api.functions.securityPolicies.get, { agentId }) as
+    | PolicyResponse
+    | undefined;
+  const savePolicy = useMutation(api.functions.securityPolicies.save);
+  const removePolicy = useMutation(api.functions.securityPolicies.remove);
+  const [draft, setDraft] = useState<SecurityPolicy>(EMPTY_POLICY);
+  const [allowPhrasesText, setAllowPhrasesText] = useState("");
+  const [newRule, setNewRule] = useState<SecurityRule>(EMPTY_CUSTOM_RULE);
+  const [newRedaction, setNewRedaction] = useState<RedactionRule>(EMPTY_REDACTION_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const policy = data?.policy ?? EMPTY_POLICY;
+    setDraft(policy);
+    setAllowPhrasesText(policy.allowPhrases.join("\n"));
+  }, [data]);
+
+  if (data === undefined) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-surface-3 border-t-accent" />
+      </div>
+    );
+  }
+
+  const overrides = new Map(draft.severityOverrides.map((o) => [o.ruleId, o.severity]));
+
+  function setOverride(ruleId: string, severity: "" | "off" | RuleSeverity) {
+    setDraft((current) => ({
+      ...current,
+      severityOverrides: [
+        ...current.severityOverrides.filter((o) => o.ruleId !== ruleId),
+        ...(severity ? [{ ruleId, severity }] : []),
+      ],
+    }));
+  }
+
+  function setStrictness(channel: Channel, strictness: "" | Strictness) {
+    setDraft((current) => {
+      const channelStrictness = { ...current.channelStrictness };
+      if (strictness) channelStrictness[channel] = strictness;
+      else delete channelStrictness[channel];
+      return { ...current, channelStrictness };
+    });
+  }
+
+  function handleAddRule() {
+    if (!newRule.id.trim() || !newRule.pattern.trim()) {
+      notify.warning("Rule incomplete", "Give the rule an id and a pattern.");
+      return;
+    }
+    setDraft((current) => ({
+      ...current,
+      customRules: [
+        ...current.customRules.filter((rule) => rule.id !== newRule.id.trim()),
+        { ...newRule, id: newRule.id.trim() },
+      ],
+    }));
+    setNewRule(EMPTY_CUSTOM_RULE);
+  }
+
+  function handleAddRedaction() {
+    if (!newRedaction.id.trim() || !newRedaction.pattern.trim()) {
+      notify.warning("Rule incomplete", "Give the redaction rule an id and a pattern.");
+      return;
+    }
+    setDraft((current) => ({
+      ...current,
+      redactionRules: [
+        ...current.redactionRules.filter((rule) => rule.id !== newRedaction.id.trim()),
+        {
+          id: newRedaction.id.trim(),
+          pattern: newRedaction.pattern,
+          replacement: newRedaction.replacement?.trim() || undefined,
+        },
+      ],
+    }));
+    setNewRedaction(EMPTY_REDACTION_RULE);
+  }
+
+  function setClassifier(patch: Partial<ClassifierConfig> | null) {
+    setDraft((current) => {
+      if (!patch) return { ...current, classifier: undefined };
+      return {
+        ...current,
+        classifier: {
+          mode: "off",
+          threshold: DEFAULT_CLASSIFIER_THRESHOLD,
+          ...current.classifier,
+          ...patch,
+        },
+      };
+    });
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      await savePolicy({
+        agentId,
+        ...draft,
+        allowPhrases: allowPhrasesText.split("\n"),
+      });
+      notify.success("Security policy saved");
+    } catch (error) {
+      notify.error("Could not save security policy", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    try {
+      await removePolicy({ agentId });
+      notify.success(agentId ? "Agent now uses the account policy" : "Security policy reset");
+    } catch (error) {
+      notify.error("Could not reset security policy", error);
+    }
+  }
+
+  return (
+    <div className="mt-4 space-y-6">
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Channel strictness
+        </h3>
+        <div className="mt-2 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {CHANNELS.map((channel) => (
+            <label key={channel.id} className="block text-sm text-ink-1">
+              {channel.label}
+              <select
+                value={draft.channelStrictness[channel.id] ?? ""}
+                onChange={(e) => setStrictness(channel.id, e.target.value as "" | Strictness)}
+                className="input mt-1.5"
+              >
+                <option value="">{agentId ? "Inherit" : "Standard (default)"}</option>
+                {(Object.keys(STRICTNESS_LABELS) as Strictness[]).map((strictness) => (
+                  <option key={strictness} value={strictness}>
+                    {STRICTNESS_LABELS[strictness]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Built-in rules
+        </h3>
+        <div className="mt-2 divide-y divide-surface-3 rounded-lg border border-surface-3">
+          {data.builtInRules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <p className="truncate font-mono text-xs text-ink-0">{rule.id}</p>
+                <p className="mt-0.5 text-xs text-ink-2">{rule.description}</p>
+              </div>
+              <select
+                value={overrides.get(rule.id) ?? ""}
+                onChange={(e) =>
+                  setOverride(rule.id, e.target.value as "" | "off" | RuleSeverity)
+                }
+                className="input w-auto text-sm"
+              >
+                <option value="">Default ({rule.severity})</option>
+                <option value="off">Off</option>
+                <option value="warn">Warn</option>
+                <option value="block">Block</option>
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Custom rules
+        </h3>
+        {draft.customRules.length > 0 ? (
+          <div className="mt-2 space-y-2">
+            {draft.customRules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-surface-3 bg-surface-1 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-xs text-ink-0">
+                    {rule.id} · {rule.type} · {rule.severity}
+                  </p>
+                  <p className="mt-0.5 truncate font-mono text-xs text-ink-2">{rule.pattern}</p>
+                </div>
+                <button
+                  onClick={() =>
+                    setDraft((current) => ({
+                      ...current,
+                      customRules: current.customRules.filter((r) => r.id !== rule.id),
+                    }))
+                  }
+                  className="btn-secondary text-xs"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <div className="mt-2 grid gap-2 sm:grid-cols-4">
+          <input
+            value={newRule.id}
+            onChange={(e) => setNewRule({ ...newRule, id: e.target.value.toLowerCase() })}
+            placeholder="rule id"
+            className="input"
+          />
+          <select
+            value={newRule.type}
+            onChange={(e) => setNewRule({ ...newRule, type: e.target.value as RuleType })}
+            className="input"
+          >
+            <option value="injection">Injection</option>
+            <option value="exfiltration">Exfiltration</option>
+            <option value="sensitive">Sensitive data</option>
+          </select>
+          <select
+            value={newRule.severity}
+            onChange={(e) =>
+              setNewRule({ ...newRule, severity: e.target.value as RuleSeverity })
+            }
+            className="input"
+          >
+            <option value="block">Block</option>
+            <option value="warn">Warn</option>
+          </select>
+          <button onClick={handleAddRule} className="btn-secondary text-sm">
+            Add rule
+          </button>
+          <input
+            value={newRule.pattern}
+            onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+            placeholder="Regular expression, case-insensitive"
+            className="input font-mono sm:col-span-2"
+          />
+          <input
+            value={newRule.description ?? ""}
+            onChange={(e) => setNewRule({ ...newRule, description: e.target.value })}
+            placeholder="Description (optional)"
+            className="input sm:col-span-2"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Output redaction rules
+        </h3>
+        <p className="mt-1 text-xs text-ink-2">
+          Replies, task outcomes, feed posts, and outbound SMS and calls are redacted by the
+          sensitive-data rules above and by these patterns.
+        </p>
+        {draft.redactionRules.length > 0 ? (
+          <div className="mt-2 space-y-2">
+            {draft.redactionRules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-surface-3 bg-surface-1 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-xs text-ink-0">
+                    {rule.id} → {rule.replacement ?? "[REDACTED]"}
+                  </p>
+                  <p className="mt-0.5 truncate font-mono text-xs text-ink-2">{rule.pattern}</p>
+                </div>
+                <button
+                  onClick={() =>
+                    setDraft((current) => ({
+                      ...current,
+                      redactionRules: current.redactionRules.filter((r) => r.id !== rule.id),
+                    }))
+                  }
+                  className="btn-secondary text-xs"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <div className="mt-2 grid gap-2 sm:grid-cols-4">
+          <input
+            value={newRedaction.id}
+            onChange={(e) =>
+              setNewRedaction({ ...newRedaction, id: e.target.value.toLowerCase() })
+            }
+            placeholder="rule id"
+            className="input"
+          />
+          <input
+            value={newRedaction.pattern}
+            onChange={(e) => setNewRedaction({ ...newRedaction, pattern: e.target.value })}
+            placeholder="Regular expression, case-insensitive"
+            className="input font-mono"
+          />
+          <input
+            value={newRedaction.replacement ?? ""}
+            onChange={(e) => setNewRedaction({ ...newRedaction, replacement: e.target.value })}
+            placeholder="Replacement (default [REDACTED])"
+            className="input"
+          />
+          <button onClick={handleAddRedaction} className="btn-secondary text-sm">
+            Add redaction
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Injection classifier
+        </h3>
+        <p className="mt-1 text-xs text-ink-2">
+          Sends inputs to a small model from your LLM keys as a second check, and blocks when it
+          reports an injection at or above the threshold. Verdicts are cached for a week.
+        </p>
+        <div className="mt-2 grid gap-3 sm:grid-cols-3">
+          <label className="block text-sm text-ink-1">
+            Classify
+            <select
+              value={draft.classifier?.mode ?? ""}
+              onChange={(e) =>
+                setClassifier(
+                  e.target.value ? { mode: e.target.value as ClassifierMode } : null
+                )
+              }
+              className="input mt-1.5"
+            >
+              <option value="">{agentId ? "Inherit" : "Off (default)"}</option>
+              {(Object.keys(CLASSIFIER_MODE_LABELS) as ClassifierMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {CLASSIFIER_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-ink-1">
+            Block threshold (0 to 1)
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.classifier?.threshold ?? DEFAULT_CLASSIFIER_THRESHOLD}
+              onChange={(e) => setClassifier({ threshold: Number(e.target.value) })}
+              disabled={!draft.classifier}
+              className="input mt-1.5"
+            />
+          </label>
+          <label className="block text-sm text-ink-1">
+            Model (optional)
+            <input
+              value={draft.classifier?.model ?? ""}
+              onChange={(e) => setClassifier({ model: e.target.value || undefined })}
+              disabled={!draft.classifier}
+              placeholder="Cheap default per provider"
+              className="input mt-1.5"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium uppercase tracking-wide text-ink-2">
+          Allow-listed phrases
+        </h3>
+        <p className="mt-1 text-xs text-ink-2">
+          One per line. Matching text is ignored by every rule, case-insensitively.
+        </p>
+        <textarea
+          value={allowPhrasesText}
+          onChange={(e) => setAllowPhrasesText(e.target.value)}
+          rows={3}
+          placeholder="curl https://api.example.com"
+          className="input mt-1.5 resize-none font-mono text-sm"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-ink-2">
+          {data.updatedAt
+            ? `Last saved ${new Date(data.updatedAt).toLocaleString()}`
+            : agentId
+              ? "No agent policy saved. The account policy applies."
+              : "No policy saved. Built-in defaults apply."}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            disabled={!data.policy}
+            className="btn-secondary text-sm"
+          >
+            {agentId ? "Use account policy" : "Reset to defaults"}
+          </button>
+          <button onClick={handleSave} disabled={isSaving} className="btn-primary text-sm">
+            {isSaving ? "Saving..." : "Save policy"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SecurityTestPanel({ agentId }: { agentId?: Id<"agents"> }) {
+  const [channel, setChannel] = useState<Channel>("api");
+  const [input, setInput] = useState("");
+  const [submitted, setSubmitted] = useState<{ input: string; channel: Channel } | null>(null);
+  const result = useQuery(
+    api.functions.securityPolicies.testInput,
+    submitted ? { ...submitted, agentId } : "skip"
+  ) as TestResult | undefined;
+
+  return (
+    <div>
+      <h2 className="text-sm font-medium text-ink-0">Test an input</h2>
+      <p className="mt-1 text-xs text-ink-2">
+        Dry run against the saved policy for the selected scope. Nothing is logged.
+      </p>
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={4}
+        placeholder="Paste a message to see which rules fire"
+        className="input mt-3 resize-none text-sm"
+      />
+      <div className="mt-2 flex items-center justify-end gap-2">
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as Channel)}
+          className="input w-auto text-sm"
+        >
+          {CHANNELS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setSubmitted({ input, channel })}
+          disabled={!input.trim()}
+          className="btn-primary text-sm"
+        >
+          Run test
+        </button>
+      </div>
+
+      {submitted && result === undefined ? (
+        <div className="mt-4 flex items-center justify-center py-6">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-surface-3 border-t-accent" />
+        </div>
+      ) : result ? (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <span
+              className={`rounded px-2 py-0.5 text-xs font-medium ${SEVERITY_BADGES[result.severity]}`}
+            >
+              {result.severity}
+            </span>
+            <span className="text-xs text-ink-2">
+              {STRICTNESS_LABELS[result.strictness]} on this channel
+            </span>
+          </div>
+          {result.flags.length === 0 ? (
+            <p className="text-sm text-ink-1">No rules fired.</p>
+          ) : (
+            result.flags.map((flag) => (
+              <div
+                key={flag.ruleId}
+                className="flex items-center justify-between gap-3 rounded-lg border border-surface-3 bg-surface-1 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-xs text-ink-0">{flag.ruleId}</p>
+                  <p className="mt-0.5 truncate text-xs text-ink-2">Matched: {flag.match}</p>
+                </div>
+                <span
+                  className={`rounded px-2 py-0.5 text-xs font-medium ${SEVERITY_BADGES[flag.severity]}`}
+                >
+                  {flag.severity}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
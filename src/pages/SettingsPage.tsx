@@ -2,8 +2,10 @@ import { useState, useEffect } from "react";
 import { useAction, useQuery, useMutation } from "convex/react";
 import type { Id } from "../../convex/_generated/dataModel";
 import { DashboardLayout } from "../components/layout/DashboardLayout";
+import { CronPreview } from "../components/CronPreview";
 import { getAuth } from "../lib/auth";
 import { notify } from "../lib/notify";
+import { getUserTimezone } from "../lib/datetime";
 import { applyTheme, type ThemeMode } from "../lib/theme";
 import { useEscapeKey } from "../hooks/useEscapeKey";
 import {
@@ -30,6 +32,10 @@ type ApiKeyRow = {
   keyType?: "user_universal" | "agent_scoped";
   allowedAgentIds?: Array<Id<"agents">>;
   allowedRouteGroups?: Array<"api" | "mcp" | "docs" | "skills">;
+  rateLimitPerMinute: number;
+  burstLimit?: number;
+  dailyQuota?: number;
+  monthlyQuota?: number;
   isActive: boolean;
   lastUsedAt?: number;
 };
@@ -47,20 +53,40 @@ type UserSchedule = {
   schedule: {
     kind: "cron" | "interval";
     cronspec?: string;
+    timezone?: string;
     intervalMs?: number;
   };
   isActive: boolean;
   lastRun?: number;
   lastResult?: "success" | "failure" | "skipped";
+  lastError?: string;
+  nextRun?: number;
 };
 
+type UserScheduleRun = {
+  _id: Id<"userScheduleRuns">;
+  scheduleId: Id<"userSchedules">;
+  status: "running" | "success" | "failure" | "skipped";
+  error?: string;
+  startedAt: number;
+  endedAt?: number;
+};
+
+// Job names with a handler in convex/functions/scheduleJobs.ts
+const RUNNABLE_JOB_TYPES = ["daily_digest", "email_summary", "task_reminder"] as const;
+
+// Mirrors API_KEY_SCOPES in convex/lib/apiScopes.ts
 const KEY_SCOPE_OPTIONS = [
-  { id: "api:call", label: "api:call" },
-  { id: "mcp:call", label: "mcp:call" },
-  { id: "docs:read", label: "docs:read" },
-  { id: "skills:read", label: "skills:read" },
+  { id: "messages:write", description: "Send messages over REST and A2A" },
+  { id: "tasks:read", description: "Read A2A tasks and public task resources" },
+  { id: "tasks:write", description: "Cancel A2A tasks" },
+  { id: "skills:read", description: "Read the skill file and prompts over MCP" },
+  { id: "memory:read", description: "Read published knowledge over MCP" },
+  { id: "mcp:tools:*", description: "Call every MCP tool" },
 ] as const;
 
+const DEFAULT_KEY_SCOPES: Array<string> = KEY_SCOPE_OPTIONS.map((scope) => scope.id);
+
 const KEY_ROUTE_GROUP_OPTIONS = [
   { id: "api", label: "API routes" },
   { id: "mcp", label: "MCP routes" },
@@ -68,6 +94,25 @@ const KEY_ROUTE_GROUP_OPTIONS = [
   { id: "skills", label: "Skills routes" },
 ] as const;
 
+const KEY_LIMIT_FIELDS = [
+  { id: "rateLimitPerMinute", label: "Per minute", placeholder: "60" },
+  { id: "burstLimit", label: "Burst", placeholder: "0" },
+  { id: "dailyQuota", label: "Per day", placeholder: "No quota" },
+  { id: "monthlyQuota", label: "Per month", placeholder: "No quota" },
+] as const;
+
+const EMPTY_KEY_LIMITS = {
+  rateLimitPerMinute: "60",
+  burstLimit: "",
+  dailyQuota: "",
+  monthlyQuota: "",
+};
+
+// Empty inputs leave the limit unset
+function parseKeyLimit(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
 type SecurityEventRow = {
   _id: Id<"auditLog">;
   timestamp: number;
@@ -77,12 +122,12 @@ type SecurityEventRow = {
 };
 
 type RateLimitDashboard = {
-  activeWindows: number;
-  totalRequestsInWindow: number;
-  topKeys: Array<{
+  requestsToday: number;
+  requestsThisMonth: number;
+  buckets: Array<{
     key: string;
-    count: number;
-    resetAt: number;
+    label: string;
+    quotas: Array<{ window: "minute" | "day" | "month"; limit: number; remaining: number }>;
   }>;
 };
 
@@ -229,6 +274,9 @@ export function SettingsPage() {
   const schedules = useQuery(platformApi.convex.settings.listSchedules) as
     | UserSchedule[]
     | undefined;
+  const scheduleRuns = useQuery(platformApi.convex.settings.listScheduleRuns, {}) as
+    | UserScheduleRun[]
+    | undefined;
   const createApiKey = useMutation(platformApi.convex.settings.createApiKey);
   const revokeApiKey = useMutation(platformApi.convex.settings.revokeApiKey);
   const rotateApiKey = useMutation(platformApi.convex.settings.rotateApiKey);
@@ -295,10 +343,8 @@ export function SettingsPage() {
   // New API key form
   const [showNewKey, setShowNewKey] = useState(false);
   const [newKeyName, setNewKeyName] = useState("");
-  const [newKeyScopes, setNewKeyScopes] = useState<string[]>([
-    "api:call",
-    "mcp:call",
-  ]);
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(DEFAULT_KEY_SCOPES);
+  const [newKeyToolNames, setNewKeyToolNames] = useState("");
   const [newKeyType, setNewKeyType] = useState<"user_universal" | "agent_scoped">(
     "user_universal"
   );
@@ -308,6 +354,7 @@ export function SettingsPage() {
   const [newKeyAllowedAgentIds, setNewKeyAllowedAgentIds] = useState<
     Array<Id<"agents">>
   >([]);
+  const [newKeyLimits, setNewKeyLimits] = useState(EMPTY_KEY_LIMITS);
   const [createdKey, setCreatedKey] = useState<string | null>(null);
   const [creatingKey, setCreatingKey] = useState(false);
   const [selectedDefaultAgentId, setSelectedDefaultAgentId] = useState<Id<"agents"> | null>(
@@ -324,8 +371,10 @@ export function SettingsPage() {
   const [newScheduleName, setNewScheduleName] = useState("");
   const [newScheduleKind, setNewScheduleKind] = useState<"cron" | "interval">("cron");
   const [newScheduleCronSpec, setNewScheduleCronSpec] = useState("0 9 * * *");
+  const [newScheduleTimezone, setNewScheduleTimezone] = useState(getUserTimezone);
   const [newScheduleIntervalMinutes, setNewScheduleIntervalMinutes] = useState(60);
   const [savingSchedule, setSavingSchedule] = useState(false);
+  const [expandedScheduleId, setExpandedScheduleId] = useState<Id<"userSchedules"> | null>(null);
 
   useEscapeKey(() => setShowModelHelpModal(false), showModelHelpModal);
   useEscapeKey(() => setConfirmDialog(null), !!confirmDialog && !showModelHelpModal);
@@ -608,18 +657,24 @@ export function SettingsPage() {
     try {
       const result = await createApiKey({
         name: newKeyName.trim(),
-        scopes: newKeyScopes,
+        scopes: getNewKeyScopes(),
         keyType: newKeyType,
         allowedRouteGroups: newKeyRouteGroups,
         allowedAgentIds:
           newKeyType === "agent_scoped" ? newKeyAllowedAgentIds : undefined,
+        rateLimitPerMinute: parseKeyLimit(newKeyLimits.rateLimitPerMinute),
+        burstLimit: parseKeyLimit(newKeyLimits.burstLimit),
+        dailyQuota: parseKeyLimit(newKeyLimits.dailyQuota),
+        monthlyQuota: parseKeyLimit(newKeyLimits.monthlyQuota),
       });
       setCreatedKey(result.key);
       setNewKeyName("");
-      setNewKeyScopes(["api:call", "mcp:call"]);
+      setNewKeyScopes(DEFAULT_KEY_SCOPES);
+      setNewKeyToolNames("");
       setNewKeyType("user_universal");
       setNewKeyRouteGroups(["api", "mcp", "docs", "skills"]);
       setNewKeyAllowedAgentIds([]);
+      setNewKeyLimits(EMPTY_KEY_LIMITS);
       notify.success("API key created", "Copy your new key now.");
     } catch (error) {
       notify.error("Could not create API key", error);
@@ -669,6 +724,17 @@ export function SettingsPage() {
       .catch((error: unknown) => notify.error("Could not copy", error));
   }
 
+  // Named MCP tools only matter when the key cannot call every tool
+  function getNewKeyScopes(): Array<string> {
+    if (newKeyScopes.includes("mcp:tools:*")) return newKeyScopes;
+    const toolScopes = newKeyToolNames
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => `mcp:tools:${name}`);
+    return Array.from(new Set([...newKeyScopes, ...toolScopes]));
+  }
+
   function toggleNewKeyScope(scope: string, checked: boolean) {
     setNewKeyScopes((current) =>
       checked ? Array.from(new Set([...current, scope])) : current.filter((s) => s !== scope)
@@ -716,6 +782,7 @@ export function SettingsPage() {
           schedule: {
             kind: "cron",
             cronspec: newScheduleCronSpec.trim(),
+            timezone: newScheduleTimezone.trim() || undefined,
           },
         });
       } else {
@@ -1786,6 +1853,9 @@ export function SettingsPage() {
                                 <p className="text-xs text-ink-2">
                                   Get your API key in <a href="https://portal.telnyx.com/" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">portal.telnyx.com</a>
                                 </p>
+                                <p className="text-xs text-ink-2">
+                                  Format: <code className="bg-surface-1 px-1 rounded">API_KEY:PUBLIC_KEY</code> (the public key verifies inbound webhooks)
+                                </p>
                                 <p className="text-xs text-ink-2">
                                   Use this for voice APIs, messaging, and number management for your agents.
                                 </p>
@@ -1799,6 +1869,9 @@ export function SettingsPage() {
                                 <p className="text-xs text-ink-2">
                                   Get your auth credentials in the <a href="https://console.plivo.com/" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">Plivo Console</a>
                                 </p>
+                                <p className="text-xs text-ink-2">
+                                  Format: <code className="bg-surface-1 px-1 rounded">AUTH_ID:AUTH_TOKEN</code>
+                                </p>
                                 <p className="text-xs text-ink-2">
                                   Use this for voice and messaging workflows that your agents can trigger.
                                 </p>
@@ -2515,7 +2588,11 @@ export function SettingsPage() {
                     <label className="block text-sm text-ink-1">Scopes</label>
                     <div className="mt-2 flex flex-wrap gap-2">
                       {KEY_SCOPE_OPTIONS.map((scope) => (
-                        <label key={scope.id} className="flex items-center gap-2">
+                        <label
+                          key={scope.id}
+                          className="flex items-center gap-2"
+                          title={scope.description}
+                        >
                           <input
                             type="checkbox"
                             checked={newKeyScopes.includes(scope.id)}
@@ -2524,10 +2601,24 @@ export function SettingsPage() {
                             }
                             className="h-4 w-4 rounded border-surface-3 accent-accent"
                           />
-                          <span className="text-sm text-ink-0">{scope.label}</span>
+                          <span className="text-sm text-ink-0">{scope.id}</span>
                         </label>
                       ))}
                     </div>
+                    {!newKeyScopes.includes("mcp:tools:*") && (
+                      <div className="mt-2">
+                        <input
+                          type="text"
+                          value={newKeyToolNames}
+                          onChange={(e) => setNewKeyToolNames(e.target.value)}
+                          placeholder="MCP tools this key may call (e.g., chat, lookup_order)"
+                          className="input"
+                        />
+                        <p className="mt-1 text-xs text-ink-2">
+                          Comma separated. Each tool becomes an mcp:tools:&lt;name&gt; scope.
+                        </p>
+                      </div>
+                    )}
                   </div>
                   <div>
                     <label className="block text-sm text-ink-1">Route groups</label>
@@ -2584,6 +2675,31 @@ export function SettingsPage() {
                       </p>
                     )}
                   </div>
+                  <div>
+                    <label className="block text-sm text-ink-1">Limits</label>
+                    <p className="mt-1 text-xs text-ink-2">
+                      Burst allows short spikes above the per-minute rate. Leave a
+                      quota empty for no daily or monthly cap on this key.
+                    </p>
+                    <div className="mt-2 grid gap-2 sm:grid-cols-4">
+                      {KEY_LIMIT_FIELDS.map((field) => (
+                        <label key={field.id} className="block">
+                          <span className="text-xs text-ink-2">{field.label}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={newKeyLimits[field.id]}
+                            onChange={(e) =>
+                              setNewKeyLimits({ ...newKeyLimits, [field.id]: e.target.value })
+                            }
+                            placeholder={field.placeholder}
+                            className="input mt-1"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                 </div>
                 <div className="mt-4 flex gap-2">
                   <button
@@ -2591,7 +2707,7 @@ export function SettingsPage() {
                     disabled={
                       creatingKey ||
                       !newKeyName.trim() ||
-                      newKeyScopes.length === 0 ||
+                      getNewKeyScopes().length === 0 ||
                       newKeyRouteGroups.length === 0 ||
                       (newKeyType === "agent_scoped" &&
                         newKeyAllowedAgentIds.length === 0)
@@ -2607,6 +2723,7 @@ export function SettingsPage() {
                       setNewKeyType("user_universal");
                       setNewKeyAllowedAgentIds([]);
                       setNewKeyRouteGroups(["api", "mcp", "docs", "skills"]);
+                      setNewKeyLimits(EMPTY_KEY_LIMITS);
                     }}
                     className="btn-secondary text-sm"
                   >
@@ -2694,6 +2811,12 @@ export function SettingsPage() {
                             <span>Agents: {key.allowedAgentIds.length}</span>
                           )}
                           <span>Scopes: {key.scopes.join(", ")}</span>
+                          <span>
+                            Limit: {key.rateLimitPerMinute}/min
+                            {key.burstLimit ? ` +${key.burstLimit} burst` : ""}
+                            {key.dailyQuota !== undefined ? `, ${key.dailyQuota}/day` : ""}
+                            {key.monthlyQuota !== undefined ? `, ${key.monthlyQuota}/month` : ""}
+                          </span>
                           {key.lastUsedAt && (
                             <span>
                               Last used: {new Date(key.lastUsedAt).toLocaleDateString()}
@@ -2743,8 +2866,14 @@ export function SettingsPage() {
                   onChange={(e) => setNewScheduleName(e.target.value)}
                   className="input"
                   placeholder="Job name (e.g. task_reminder)"
+                  list="settings-schedule-job-types"
                   required
                 />
+                <datalist id="settings-schedule-job-types">
+                  {RUNNABLE_JOB_TYPES.map((jobType) => (
+                    <option key={jobType} value={jobType} />
+                  ))}
+                </datalist>
                 <select
                   value={newScheduleKind}
                   onChange={(e) => setNewScheduleKind(e.target.value as "cron" | "interval")}
@@ -2775,6 +2904,19 @@ export function SettingsPage() {
                   {savingSchedule ? "Saving..." : "Add"}
                 </button>
               </div>
+              {newScheduleKind === "cron" && (
+                <div className="mt-3 max-w-xs">
+                  <label className="block text-xs text-ink-1">Timezone</label>
+                  <input
+                    type="text"
+                    value={newScheduleTimezone}
+                    onChange={(e) => setNewScheduleTimezone(e.target.value)}
+                    className="input mt-1"
+                    placeholder="America/New_York"
+                  />
+                  <CronPreview expression={newScheduleCronSpec} timezone={newScheduleTimezone} />
+                </div>
+              )}
             </form>
             <div className="mt-4 space-y-2">
               {schedules === undefined ? (
@@ -2791,7 +2933,9 @@ export function SettingsPage() {
                       <p className="text-sm font-medium text-ink-0">{schedule.jobName}</p>
                       <p className="text-xs text-ink-2">
                         {schedule.schedule.kind === "cron"
-                          ? `Cron: ${schedule.schedule.cronspec ?? "not set"}`
+                          ? `Cron: ${schedule.schedule.cronspec ?? "not set"}${
+                              schedule.schedule.timezone ? ` (${schedule.schedule.timezone})` : ""
+                            }`
                           : `Every ${Math.max(
                               1,
                               Math.round((schedule.schedule.intervalMs ?? 0) / (60 * 1000))
@@ -2802,8 +2946,49 @@ export function SettingsPage() {
                           Last run {new Date(schedule.lastRun).toLocaleString()} ({schedule.lastResult ?? "unknown"})
                         </p>
                       ) : null}
+                      {schedule.lastError && schedule.lastResult !== "success" ? (
+                        <p
+                          className={`mt-1 text-xs ${
+                            schedule.lastResult === "failure" ? "text-red-600" : "text-ink-2"
+                          }`}
+                        >
+                          {schedule.lastError}
+                        </p>
+                      ) : null}
+                      {schedule.isActive && schedule.nextRun ? (
+                        <p className="mt-1 text-xs text-ink-2">
+                          Next run {new Date(schedule.nextRun).toLocaleString()}
+                        </p>
+                      ) : null}
+                      {expandedScheduleId === schedule._id && (
+                        <ul className="mt-2 space-y-1 text-xs">
+                          {(scheduleRuns ?? [])
+                            .filter((run) => run.scheduleId === schedule._id)
+                            .slice(0, 10)
+                            .map((run) => (
+                              <li key={run._id} className="text-ink-1">
+                                {new Date(run.startedAt).toLocaleString()}: {run.status}
+                                {run.error ? ` (${run.error})` : ""}
+                              </li>
+                            ))}
+                          {!(scheduleRuns ?? []).some((run) => run.scheduleId === schedule._id) && (
+                            <li className="text-ink-2">No runs yet.</li>
+                          )}
+                        </ul>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setExpandedScheduleId(
+                            expandedScheduleId === schedule._id ? null : schedule._id
+                          )
+                        }
+                        className="btn-secondary text-xs"
+                      >
+                        {expandedScheduleId === schedule._id ? "Hide runs" : "Runs"}
+                      </button>
                       <button
                         type="button"
                         onClick={() => void handleToggleSchedule(schedule._id)}
@@ -2964,29 +3149,34 @@ export function SettingsPage() {
                   <>
                     <div className="grid gap-3 sm:grid-cols-2">
                       <div className="rounded-lg border border-surface-3 bg-surface-1 p-3">
-                        <p className="text-xs text-ink-1">Active windows</p>
+                        <p className="text-xs text-ink-1">Requests today</p>
                         <p className="mt-1 text-2xl font-semibold text-ink-0">
-                          {rateLimitDashboard.activeWindows}
+                          {rateLimitDashboard.requestsToday}
                         </p>
                       </div>
                       <div className="rounded-lg border border-surface-3 bg-surface-1 p-3">
-                        <p className="text-xs text-ink-1">Requests in current window</p>
+                        <p className="text-xs text-ink-1">Requests this month</p>
                         <p className="mt-1 text-2xl font-semibold text-ink-0">
-                          {rateLimitDashboard.totalRequestsInWindow}
+                          {rateLimitDashboard.requestsThisMonth}
                         </p>
                       </div>
                     </div>
                     <div className="mt-3 space-y-2">
-                      {rateLimitDashboard.topKeys.length === 0 ? (
-                        <p className="text-sm text-ink-1">No active windows.</p>
+                      {rateLimitDashboard.buckets.length === 0 ? (
+                        <p className="text-sm text-ink-1">No rate limited requests this month.</p>
                       ) : (
-                        rateLimitDashboard.topKeys.map((entry) => (
+                        rateLimitDashboard.buckets.slice(0, 10).map((entry) => (
                           <div
                             key={entry.key}
                             className="flex items-center justify-between rounded-lg border border-surface-3 bg-surface-1 p-3"
                           >
-                            <p className="truncate text-sm text-ink-0">{entry.key}</p>
-                            <span className="text-xs text-ink-1">{entry.count}</span>
+                            <p className="truncate text-sm text-ink-0">{entry.label}</p>
+                            <span className="text-xs text-ink-1">
+                              {entry.quotas
+                                .filter((quota) => quota.window !== "minute")
+                                .map((quota) => `${quota.limit - quota.remaining}/${quota.limit} ${quota.window}`)
+                                .join(", ")}
+                            </span>
                           </div>
                         ))
                       )}
@@ -14,6 +14,31 @@ interface Capability {
   toolId?: string;
 }
 
+// Declared MCP tool; `binding` picks the handler that runs it
+interface ToolDeclaration {
+  name: string;
+  description: string;
+  inputSchema?: unknown;
+  binding?: Record<string, unknown>;
+}
+
+const TOOL_DECLARATIONS_EXAMPLE = `[
+  {
+    "name": "lookup_order",
+    "description": "Look up an order by id",
+    "inputSchema": {
+      "type": "object",
+      "properties": { "orderId": { "type": "string" } },
+      "required": ["orderId"]
+    },
+    "binding": {
+      "type": "http",
+      "method": "GET",
+      "url": "https://api.example.com/orders/{{orderId}}"
+    }
+  }
+]`;
+
 // Type for skill from DB
 interface Skill {
   _id: Id<"skills">;
@@ -24,6 +49,7 @@ interface Skill {
   capabilities: Capability[];
   knowledgeDomains: string[];
   communicationPrefs: { tone: string; timezone: string; availability: string };
+  toolDeclarations?: ToolDeclaration[];
   isPublished: boolean;
   isActive?: boolean;
 }
@@ -166,6 +192,7 @@ export function SkillFilePage() {
   const [capabilities, setCapabilities] = useState<Capability[]>([]);
   const [domains, setDomains] = useState<string[]>([]);
   const [newDomain, setNewDomain] = useState("");
+  const [toolsJson, setToolsJson] = useState("[]");
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -205,6 +232,7 @@ export function SkillFilePage() {
       setAvailability(currentSkill.communicationPrefs?.availability || "available");
       setCapabilities(currentSkill.capabilities || []);
       setDomains(currentSkill.knowledgeDomains || []);
+      setToolsJson(JSON.stringify(currentSkill.toolDeclarations ?? [], null, 2));
       setSelectedSkillId(currentSkill._id);
     }
   }, [currentSkill?._id]);
@@ -216,6 +244,15 @@ export function SkillFilePage() {
 
   async function handleSave() {
     if (!currentSkill) return;
+    let toolDeclarations: ToolDeclaration[];
+    try {
+      const parsed: unknown = JSON.parse(toolsJson.trim() || "[]");
+      if (!Array.isArray(parsed)) throw new Error("Tools must be a JSON array");
+      toolDeclarations = parsed as ToolDeclaration[];
+    } catch (error) {
+      notify.error("Tool declarations are not valid JSON", error);
+      return;
+    }
     setSaving(true);
     try {
       await updateSkill({
@@ -223,6 +260,7 @@ export function SkillFilePage() {
         identity: { name, bio },
         capabilities,
         knowledgeDomains: domains,
+        toolDeclarations: toolDeclarations as Parameters<typeof updateSkill>[0]["toolDeclarations"],
         communicationPrefs: {
           tone: tone === "custom" ? customTone : tone,
           timezone,
@@ -954,6 +992,29 @@ export function SkillFilePage() {
                   </div>
                 </section>
 
+                {/* MCP tools */}
+                <section className="card">
+                  <h2 className="font-semibold text-ink-0">MCP tools</h2>
+                  <p className="mt-1 text-sm text-ink-1">
+                    Tools callers can run over MCP once this skill is published. Arguments are checked
+                    against <code>inputSchema</code>. Set <code>binding.type</code> to{" "}
+                    <code>composio</code>, <code>daytona</code>, <code>http</code>, or <code>llm</code>;
+                    tools without a binding are handed to the agent.
+                  </p>
+                  <textarea
+                    value={toolsJson}
+                    onChange={(e) => setToolsJson(e.target.value)}
+                    className="input mt-5 resize-y font-mono text-xs"
+                    rows={10}
+                    spellCheck={false}
+                    placeholder={TOOL_DECLARATIONS_EXAMPLE}
+                  />
+                  <p className="mt-2 text-xs text-ink-2">
+                    Use <code>{"{{argName}}"}</code> in URLs, commands, body templates, and prompt templates.
+                    Bindings stay private and are never shown on your public profile.
+                  </p>
+                </section>
+
                 {/* Knowledge domains */}
                 <section className="card">
                   <h2 className="font-semibold text-ink-0">Knowledge domains</h2>